@@ -0,0 +1,281 @@
+/**
+ * Agent approval gate — real-money tool calls (place_order, cancel_order) wait
+ * for an explicit approve/reject from the chat panel before the executor runs.
+ */
+
+import { createStore } from "solid-js/store";
+import { homedir } from "os";
+import { join } from "path";
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { getOrderBookEngine, LocalOrderBook } from "../api/orderbook";
+
+export type ApprovalTool = "place_order" | "cancel_order";
+
+export interface SlippageEstimate {
+  bestPrice: number;
+  avgFillPrice: number;
+  slippagePct: number;     // avg fill vs best price, in percent
+  fillableShares: number;  // shares available up to the limit price
+}
+
+export interface PendingApproval {
+  id: string;
+  tool: ApprovalTool;
+  marketTitle: string;
+  outcomeTitle: string;
+  side?: "BUY" | "SELL";
+  price?: number;
+  shares?: number;
+  notional: number;
+  orderId?: string;
+  slippage: SlippageEstimate | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface AgentLimits {
+  dailyNotionalCap: number;  // 0 = no cap
+  spentDate: string;         // YYYY-MM-DD (local)
+  spentToday: number;
+}
+
+interface ApprovalState {
+  pending: PendingApproval[];
+  autoApproveBelow: number;  // per-session, not persisted
+  limits: AgentLimits;
+}
+
+export type ApprovalResult = { approved: true } | { approved: false; error: string };
+/** `reserved` is already counted against today's cap; release it if placement fails. */
+export type OrderApprovalResult = { approved: true; reserved: number } | { approved: false; error: string };
+
+const APPROVAL_TIMEOUT_MS = 120_000;
+
+export const [approvalState, setApprovalState] = createStore<ApprovalState>({
+  pending: [],
+  autoApproveBelow: 0,
+  limits: { dailyNotionalCap: 0, spentDate: todayKey(), spentToday: 0 },
+});
+
+// Resolvers live outside the store so Solid never proxies them
+const resolvers = new Map<string, (approved: boolean) => void>();
+const requestListeners = new Set<(approval: PendingApproval) => void>();
+
+function todayKey(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function getLimitsPath(): string {
+  const dir = join(homedir(), ".polymarket-tui");
+  mkdirSync(dir, { recursive: true });
+  return join(dir, "agent-limits.json");
+}
+
+/**
+ * Re-reads agent-limits.json. The TUI, the MCP server and the Telegram bot all
+ * spend against the same file, so every check and write starts from it.
+ */
+export function loadAgentLimits(): void {
+  try {
+    const data = JSON.parse(readFileSync(getLimitsPath(), "utf-8")) as Partial<AgentLimits>;
+    setApprovalState("limits", {
+      dailyNotionalCap: Number(data.dailyNotionalCap) || 0,
+      spentDate: data.spentDate ?? todayKey(),
+      spentToday: Number(data.spentToday) || 0,
+    });
+  } catch {
+    // no limits file yet — defaults apply
+  }
+  rollDay();
+}
+
+function saveAgentLimits(): void {
+  try {
+    writeFileSync(getLimitsPath(), JSON.stringify(approvalState.limits, null, 2), { mode: 0o600 });
+  } catch (e) {
+    console.error("Failed to save agent limits:", e);
+  }
+}
+
+function rollDay(): void {
+  const today = todayKey();
+  if (approvalState.limits.spentDate !== today) {
+    setApprovalState("limits", { spentDate: today, spentToday: 0 });
+    saveAgentLimits();
+  }
+}
+
+export function setAutoApproveBelow(amount: number): void {
+  setApprovalState("autoApproveBelow", Math.max(0, amount));
+}
+
+export function setDailyNotionalCap(amount: number): void {
+  loadAgentLimits();
+  setApprovalState("limits", "dailyNotionalCap", Math.max(0, amount));
+  saveAgentLimits();
+}
+
+export function getRemainingDailyNotional(): number | null {
+  loadAgentLimits();
+  const { dailyNotionalCap, spentToday } = approvalState.limits;
+  return dailyNotionalCap > 0 ? Math.max(0, dailyNotionalCap - spentToday) : null;
+}
+
+/**
+ * Checks the cap and counts the notional against it in one synchronous step,
+ * so orders authorized side by side can't each pass and together overshoot.
+ * Returns the remaining cap when the order doesn't fit, null once reserved.
+ */
+function reserveAgentNotional(notional: number): number | null {
+  const remaining = getRemainingDailyNotional();
+  if (remaining !== null && notional > remaining) return remaining;
+  setApprovalState("limits", "spentToday", approvalState.limits.spentToday + notional);
+  saveAgentLimits();
+  return null;
+}
+
+/** Hands back a reservation whose order was never placed. */
+export function releaseAgentNotional(notional: number): void {
+  if (notional <= 0) return;
+  loadAgentLimits();
+  setApprovalState("limits", "spentToday", Math.max(0, approvalState.limits.spentToday - notional));
+  saveAgentLimits();
+}
+
+/** VWAP fill up to the limit price on the local book, measured against the touch. */
+export function estimateSlippage(
+  book: LocalOrderBook | undefined,
+  side: "BUY" | "SELL",
+  limitPrice: number,
+  shares: number,
+): SlippageEstimate | null {
+  const bestPrice = side === "BUY" ? book?.bestAsk() : book?.bestBid();
+  const fill = book?.vwapForSize(side, shares, limitPrice);
+  if (!fill || bestPrice === null || bestPrice === undefined) return null;
+
+  const slippagePct = bestPrice > 0 ? (Math.abs(fill.avgPrice - bestPrice) / bestPrice) * 100 : 0;
+  return { bestPrice, avgFillPrice: fill.avgPrice, slippagePct, fillableShares: fill.filled };
+}
+
+function enqueue(item: Omit<PendingApproval, "id" | "createdAt" | "expiresAt">): Promise<boolean> {
+  const id = Math.random().toString(36).substring(2, 10);
+  const createdAt = Date.now();
+  const expiresAt = createdAt + APPROVAL_TIMEOUT_MS;
+
+  return new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => settleApproval(id, false), APPROVAL_TIMEOUT_MS);
+    resolvers.set(id, (approved) => {
+      clearTimeout(timer);
+      resolve(approved);
+    });
+    const approval: PendingApproval = { ...item, id, createdAt, expiresAt };
+    setApprovalState("pending", (list) => [...list, approval]);
+    for (const listener of requestListeners) listener(approval);
+  });
+}
+
+function settleApproval(id: string, approved: boolean): void {
+  const resolve = resolvers.get(id);
+  resolvers.delete(id);
+  setApprovalState("pending", (list) => list.filter((p) => p.id !== id));
+  resolve?.(approved);
+}
+
+/** Subscribe to new approval requests, for surfaces other than the chat panel. */
+export function onApprovalRequested(listener: (approval: PendingApproval) => void): () => void {
+  requestListeners.add(listener);
+  return () => requestListeners.delete(listener);
+}
+
+/** Answer a specific request. Returns false if it already expired or was answered. */
+export function resolveApproval(id: string, approved: boolean): boolean {
+  if (!resolvers.has(id)) return false;
+  settleApproval(id, approved);
+  return true;
+}
+
+export function currentApproval(): PendingApproval | null {
+  return approvalState.pending[0] ?? null;
+}
+
+export function approveCurrent(): void {
+  const current = currentApproval();
+  if (current) settleApproval(current.id, true);
+}
+
+export function rejectCurrent(): void {
+  const current = currentApproval();
+  if (current) settleApproval(current.id, false);
+}
+
+/**
+ * Gate for agent order placement. The daily cap is checked before approval and
+ * the notional reserved against it once approved; callers release the
+ * reservation if placement throws. Paper orders are checked but never reserved.
+ */
+export async function authorizeAgentOrder(order: {
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  shares: number;
+  marketTitle?: string;
+  outcomeTitle?: string;
+  paper?: boolean;
+}): Promise<OrderApprovalResult> {
+  const notional = order.price * order.shares;
+  const remaining = getRemainingDailyNotional();
+  if (remaining !== null && notional > remaining) {
+    return {
+      approved: false,
+      error: `Order notional $${notional.toFixed(2)} exceeds the remaining daily agent cap of $${remaining.toFixed(2)} (cap $${approvalState.limits.dailyNotionalCap.toFixed(2)}).`,
+    };
+  }
+
+  const reserve = (): OrderApprovalResult => {
+    if (order.paper) return { approved: true, reserved: 0 };
+    // Another order may have used the remaining cap in the meantime
+    const left = reserveAgentNotional(notional);
+    if (left !== null) {
+      return { approved: false, error: `Daily agent cap reached while awaiting approval ($${left.toFixed(2)} remaining).` };
+    }
+    return { approved: true, reserved: notional };
+  };
+
+  if (approvalState.autoApproveBelow > 0 && notional < approvalState.autoApproveBelow) {
+    return reserve();
+  }
+
+  const book = await getOrderBookEngine().ensure(order.tokenId);
+  const approved = await enqueue({
+    tool: "place_order",
+    marketTitle: order.marketTitle || order.tokenId.slice(0, 12),
+    outcomeTitle: order.outcomeTitle || "",
+    side: order.side,
+    price: order.price,
+    shares: order.shares,
+    notional,
+    slippage: estimateSlippage(book, order.side, order.price, order.shares),
+  });
+  if (!approved) return { approved: false, error: "Order rejected by user" };
+  return reserve();
+}
+
+export async function authorizeAgentCancel(
+  orderId: string,
+  detail: { marketTitle?: string; outcomeTitle?: string; side?: "BUY" | "SELL"; price?: number; shares?: number } = {},
+): Promise<ApprovalResult> {
+  const notional = detail.price !== undefined && detail.shares !== undefined ? detail.price * detail.shares : 0;
+  const approved = await enqueue({
+    tool: "cancel_order",
+    marketTitle: detail.marketTitle || `Order ${orderId.slice(0, 12)}`,
+    outcomeTitle: detail.outcomeTitle || "",
+    side: detail.side,
+    price: detail.price,
+    shares: detail.shares,
+    notional,
+    orderId,
+    slippage: null,
+  });
+  return approved ? { approved: true } : { approved: false, error: "Cancel rejected by user" };
+}
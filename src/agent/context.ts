@@ -18,6 +18,7 @@ import {
   getSelectedMarket,
 } from "../state";
 import { positionsState } from "../hooks/usePositions";
+import { isPaperTrading, paperAvailableCash } from "../hooks/usePaperTrading";
 import { watchlistState } from "../hooks/useWatchlist";
 import { alertsState } from "../hooks/useAlerts";
 import type { TUIContext, AgentContext } from "./tool";
@@ -65,7 +66,8 @@ export function getTUIContext(): TUIContext {
     // Wallet
     walletConnected: walletState.connected,
     walletAddress: walletState.address,
-    balance: walletState.balance,
+    balance: isPaperTrading() ? paperAvailableCash() : walletState.balance,
+    paperTrading: isPaperTrading(),
 
     // Data counts
     marketsCount: appState.markets.length,
@@ -94,7 +96,10 @@ export function formatTUIContextForPrompt(ctx: TUIContext): string {
 
   // Wallet
   lines.push(`- Wallet: ${ctx.walletConnected ? `Connected (${ctx.walletAddress?.slice(0, 6)}...${ctx.walletAddress?.slice(-4)})` : "Not connected"}`);
-  if (ctx.walletConnected) {
+  if (ctx.paperTrading) {
+    lines.push(`- Paper trading: ON — orders are simulated, balance is paper cash`);
+  }
+  if (ctx.walletConnected || ctx.paperTrading) {
     lines.push(`- Balance: $${ctx.balance.toFixed(2)}`);
   }
 
@@ -18,10 +18,10 @@ export * from "./tools";
 // Re-export commonly used types
 export type { ToolDefinition, ToolResult, AgentContext, TUIContext, ToolCategory } from "./tool";
 export type { SessionMessage, ToolCall, ToolCallResult } from "./session";
-export type { ReasoningState, ReasoningStep } from "./reasoning";
+export type { ReasoningState, ReasoningStep, ReasoningTools, ReasoningOptions } from "./reasoning";
 
 // Main functions
 export { getTUIContext, formatTUIContextForPrompt, createAgentContext } from "./context";
 export { AgentSession } from "./session";
 export { runReasoningLoop, buildSystemPrompt, executeToolWithTracking } from "./reasoning";
-export { getTool, getExecutor, executeTool, getToolNames, allTools, executors } from "./tools";
+export { getTool, getExecutor, executeTool, getToolNames, buildReasoningTools, allTools, executors } from "./tools";
@@ -162,18 +162,32 @@ export async function executeToolWithTracking(
   }
 }
 
+/**
+ * Tool map accepted by the reasoning loop
+ */
+export type ReasoningTools = Record<string, {
+  description: string;
+  parameters: z.ZodType;
+  execute: (args: Record<string, unknown>) => Promise<unknown>;
+}>;
+
+/**
+ * Options for a reasoning run
+ */
+export interface ReasoningOptions {
+  sessionId?: string;           // run against this session instead of the active one
+  instructions?: string;        // appended to the system prompt
+  abortSignal?: AbortSignal;
+}
+
 /**
  * Run the reasoning loop with AI
  */
 export async function runReasoningLoop(
   userInput: string,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _tools: Record<string, {
-    description: string;
-    parameters: z.ZodType;
-    execute: (args: Record<string, unknown>) => Promise<unknown>;
-  }>,
-  onChunk?: ReasoningChunkCallback
+  tools: ReasoningTools,
+  onChunk?: ReasoningChunkCallback,
+  options: ReasoningOptions = {}
 ): Promise<{ response: string; toolCalls: ToolCall[] }> {
   const provider = getActiveAIProvider();
 
@@ -192,11 +206,16 @@ export async function runReasoningLoop(
     };
   }
 
+  if (options.sessionId && !AgentSession.activate(options.sessionId)) {
+    return { response: `Error: Unknown session ${options.sessionId}`, toolCalls: [] };
+  }
+  AgentSession.getOrCreate();
+
   // Get TUI context
   const tuiContext = getTUIContext();
 
   // Build system prompt
-  const systemPrompt = buildSystemPrompt(tuiContext);
+  const systemPrompt = buildSystemPrompt(tuiContext, options.instructions);
 
   // Add user message to session
   AgentSession.addUserMessage(userInput);
@@ -210,22 +229,42 @@ export async function runReasoningLoop(
   let fullText = "";
   const allToolCalls: ToolCall[] = [];
 
+  // Every tool call goes through executeToolWithTracking so callers see it
+  const aiTools = Object.fromEntries(
+    Object.entries(tools).map(([name, def]) => [
+      name,
+      createAiTool({
+        description: def.description,
+        parameters: zodSchema(def.parameters),
+        execute: async (args) => {
+          const tracked = await executeToolWithTracking(
+            name,
+            args as Record<string, unknown>,
+            (_name, toolArgs) => def.execute(toolArgs),
+            onChunk
+          );
+          allToolCalls.push(tracked.toolCall);
+          return tracked.success ? tracked.result : { error: tracked.error };
+        },
+      }),
+    ])
+  );
+
   try {
     // Notify thinking start
     onChunk?.({ type: "step", step: "thinking" });
 
     // Resolve model
-    const { model, providerName } = resolveModel(provider);
+    const { model } = resolveModel(provider);
 
-    // Use the tools from the assistant module directly
-    // Note: This is a simplified version - in production you'd use the tools parameter
     const result = streamText({
       model,
       system: systemPrompt,
       messages,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      tools: aiTools,
       maxSteps: 15,
       temperature: 0.7,
+      abortSignal: options.abortSignal,
       onError: (error) => {
         console.error("Stream error:", error);
       },
@@ -237,6 +276,8 @@ export async function runReasoningLoop(
       onChunk?.({ type: "content", text: chunk });
     }
 
+    onChunk?.({ type: "step", step: "answering" });
+
     // Add assistant message to session
     AgentSession.addAssistantMessage(fullText, {
       toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined,
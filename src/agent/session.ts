@@ -55,6 +55,7 @@ export interface Session {
   metadata: {
     model?: string;
     provider?: string;
+    channel?: string;  // external conversation key, e.g. "telegram:<chatId>"
   };
 }
 
@@ -124,6 +125,40 @@ export namespace AgentSession {
     return sessionStore.sessions.find((s) => s.id === sessionId) ?? null;
   }
 
+  /**
+   * Make an existing session the active one
+   */
+  export function activate(sessionId: string): Session | null {
+    const idx = sessionStore.sessions.findIndex((s) => s.id === sessionId);
+    if (idx === -1) return null;
+    setSessionStore("currentSessionId", sessionId);
+    setSessionStore("activeSessionIndex", idx);
+    return sessionStore.sessions[idx] ?? null;
+  }
+
+  /**
+   * Get or create the session bound to an external channel (one per chat)
+   */
+  export function forChannel(channel: string, metadata?: Session["metadata"]): Session {
+    const existing = sessionStore.sessions.find((s) => s.metadata.channel === channel);
+    if (existing) return existing;
+    return create({ ...metadata, channel });
+  }
+
+  /**
+   * Remove a session by ID
+   */
+  export function remove(sessionId: string): void {
+    const current = sessionStore.currentSessionId;
+    setSessionStore("sessions", (sessions) => sessions.filter((s) => s.id !== sessionId));
+    if (current === sessionId) {
+      setSessionStore("currentSessionId", null);
+      setSessionStore("activeSessionIndex", -1);
+    } else if (current) {
+      setSessionStore("activeSessionIndex", sessionStore.sessions.findIndex((s) => s.id === current));
+    }
+  }
+
   /**
    * Get or create current session
    */
@@ -24,6 +24,7 @@ export interface TUIContext {
   walletConnected: boolean;
   walletAddress: string | null;
   balance: number;
+  paperTrading: boolean;
 
   // Data counts
   marketsCount: number;
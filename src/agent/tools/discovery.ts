@@ -392,7 +392,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_categories",
     category: "discovery",
     description: PROMPTS.get_categories.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetCategoriesSchema as z.ZodType,
     examples: [PROMPTS.get_categories.example],
     requiresWallet: false,
     executesTrade: false,
@@ -402,7 +402,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "search_by_category",
     category: "discovery",
     description: PROMPTS.search_by_category.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: SearchByCategorySchema as z.ZodType,
     examples: [PROMPTS.search_by_category.example],
     requiresWallet: false,
     executesTrade: false,
@@ -412,7 +412,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_trending_markets",
     category: "discovery",
     description: PROMPTS.get_trending_markets.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetTrendingMarketsSchema as z.ZodType,
     examples: [PROMPTS.get_trending_markets.example],
     requiresWallet: false,
     executesTrade: false,
@@ -422,7 +422,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_sports_markets",
     category: "discovery",
     description: PROMPTS.get_sports_markets.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetSportsMarketsSchema as z.ZodType,
     examples: [PROMPTS.get_sports_markets.example],
     requiresWallet: false,
     executesTrade: false,
@@ -432,7 +432,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_live_events",
     category: "discovery",
     description: PROMPTS.get_live_events.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetLiveEventsSchema as z.ZodType,
     examples: [PROMPTS.get_live_events.example],
     requiresWallet: false,
     executesTrade: false,
@@ -442,7 +442,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_events",
     category: "discovery",
     description: PROMPTS.get_events.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetEventsSchema as z.ZodType,
     examples: [PROMPTS.get_events.example],
     requiresWallet: false,
     executesTrade: false,
@@ -452,7 +452,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_series_markets",
     category: "discovery",
     description: PROMPTS.get_series_markets.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetSeriesMarketsSchema as z.ZodType,
     examples: [PROMPTS.get_series_markets.example],
     requiresWallet: false,
     executesTrade: false,
@@ -462,7 +462,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_all_series",
     category: "discovery",
     description: PROMPTS.get_all_series.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetAllSeriesSchema as z.ZodType,
     examples: [PROMPTS.get_all_series.example],
     requiresWallet: false,
     executesTrade: false,
@@ -472,7 +472,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_all_tags",
     category: "discovery",
     description: PROMPTS.get_all_tags.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetAllTagsSchema as z.ZodType,
     examples: [PROMPTS.get_all_tags.example],
     requiresWallet: false,
     executesTrade: false,
@@ -482,7 +482,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_markets_by_tag",
     category: "discovery",
     description: PROMPTS.get_markets_by_tag.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetMarketsByTagSchema as z.ZodType,
     examples: [PROMPTS.get_markets_by_tag.example],
     requiresWallet: false,
     executesTrade: false,
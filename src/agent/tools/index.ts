@@ -11,6 +11,8 @@ import * as ui from "./ui";
 import * as bash from "./bash";
 import type { ToolDefinition, ToolResult } from "../tool";
 import type { AgentContext } from "../tool";
+import type { ReasoningTools } from "../reasoning";
+import { createAgentContext } from "../context";
 import type { z } from "zod";
 
 /**
@@ -83,5 +85,28 @@ export function getToolNames(): string[] {
   return allTools.map((t) => t.name);
 }
 
+/**
+ * Adapt tool definitions for runReasoningLoop. Failed tool results throw so
+ * the loop records them as errors.
+ */
+export function buildReasoningTools(
+  sessionID: string,
+  include: (tool: ToolDefinition<z.ZodType>) => boolean = () => true
+): ReasoningTools {
+  const tools: ReasoningTools = {};
+  for (const def of allTools.filter(include)) {
+    tools[def.name] = {
+      description: def.description,
+      parameters: def.parameters,
+      execute: async (args) => {
+        const result = await executeTool(def.name, args, createAgentContext(sessionID, `tool-${Date.now()}`));
+        if (!result.success) throw new Error(result.error ?? "Tool failed");
+        return result.data;
+      },
+    };
+  }
+  return tools;
+}
+
 // Re-export types
 export type { ToolDefinition, ToolResult, AgentContext } from "../tool";
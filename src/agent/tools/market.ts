@@ -352,7 +352,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "search_markets",
     category: "market",
     description: PROMPTS.search_markets.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: SearchMarketsSchema as z.ZodType,
     examples: [PROMPTS.search_markets.example],
     requiresWallet: false,
     executesTrade: false,
@@ -362,7 +362,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_market_details",
     category: "market",
     description: PROMPTS.get_market_details.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetMarketDetailsSchema as z.ZodType,
     examples: [PROMPTS.get_market_details.example],
     requiresWallet: false,
     executesTrade: false,
@@ -372,7 +372,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_market_price",
     category: "market",
     description: PROMPTS.get_market_price.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetMarketPriceSchema as z.ZodType,
     examples: [PROMPTS.get_market_price.example],
     requiresWallet: false,
     executesTrade: false,
@@ -382,7 +382,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_order_book",
     category: "market",
     description: PROMPTS.get_order_book.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetOrderBookSchema as z.ZodType,
     examples: [PROMPTS.get_order_book.example],
     requiresWallet: false,
     executesTrade: false,
@@ -392,7 +392,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "analyze_market",
     category: "analysis",
     description: PROMPTS.analyze_market.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: AnalyzeMarketSchema as z.ZodType,
     examples: [PROMPTS.analyze_market.example],
     requiresWallet: false,
     executesTrade: false,
@@ -402,7 +402,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "compare_outcomes",
     category: "analysis",
     description: PROMPTS.compare_outcomes.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: CompareOutcomesSchema as z.ZodType,
     examples: [PROMPTS.compare_outcomes.example],
     requiresWallet: false,
     executesTrade: false,
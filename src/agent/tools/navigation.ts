@@ -150,7 +150,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "navigate_to_market",
     category: "navigation",
     description: PROMPTS.navigate_to_market.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: NavigateToMarketSchema as z.ZodType,
     examples: [PROMPTS.navigate_to_market.example],
     requiresWallet: false,
     executesTrade: false,
@@ -160,7 +160,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "set_timeframe",
     category: "navigation",
     description: PROMPTS.set_timeframe.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: SetTimeframeSchema as z.ZodType,
     examples: [PROMPTS.set_timeframe.example],
     requiresWallet: false,
     executesTrade: false,
@@ -170,7 +170,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "set_sort_by",
     category: "navigation",
     description: PROMPTS.set_sort_by.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: SetSortBySchema as z.ZodType,
     examples: [PROMPTS.set_sort_by.example],
     requiresWallet: false,
     executesTrade: false,
@@ -180,7 +180,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "refresh_markets",
     category: "navigation",
     description: PROMPTS.refresh_markets.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: RefreshMarketsSchema as z.ZodType,
     examples: [PROMPTS.refresh_markets.example],
     requiresWallet: false,
     executesTrade: false,
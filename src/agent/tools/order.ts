@@ -5,6 +5,9 @@
 import { z } from "zod";
 import { walletState } from "../../state";
 import { placeOrder, cancelOrder } from "../../api/orders";
+import { ordersState } from "../../hooks/useOrders";
+import { isPaperTrading, placePaperOrder, cancelPaperOrder, paperAvailableCash } from "../../hooks/usePaperTrading";
+import { authorizeAgentOrder, authorizeAgentCancel, releaseAgentNotional } from "../approval";
 import type { ToolDefinition, ToolResult } from "../tool";
 import type { AgentContext } from "../tool";
 
@@ -63,7 +66,8 @@ Requires order ID from get_open_orders.`,
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function placeOrderTool(args: z.infer<typeof PlaceOrderSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  const paper = isPaperTrading();
+  if (!walletState.connected && !paper) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
@@ -74,18 +78,24 @@ export async function placeOrderTool(args: z.infer<typeof PlaceOrderSchema>, ctx
   }
 
   // Risk check
+  const balance = paper ? paperAvailableCash() : walletState.balance;
   const totalCost = price * shares;
-  const balancePercent = (totalCost / walletState.balance) * 100;
+  const balancePercent = (totalCost / balance) * 100;
 
   if (balancePercent > 10) {
     return {
       success: false,
-      error: `Trade would use ${balancePercent.toFixed(1)}% of balance. Max is 10%. Reduce shares to ${Math.floor((walletState.balance * 0.1) / price)}.`,
+      error: `Trade would use ${balancePercent.toFixed(1)}% of balance. Max is 10%. Reduce shares to ${Math.floor((balance * 0.1) / price)}.`,
     };
   }
 
+  const approval = await authorizeAgentOrder({ tokenId, side, price, shares, marketTitle, outcomeTitle, paper });
+  if (!approval.approved) {
+    return { success: false, error: approval.error };
+  }
+
   try {
-    const order = await placeOrder({
+    const order = await (paper ? placePaperOrder : placeOrder)({
       tokenId,
       side,
       price,
@@ -95,11 +105,11 @@ export async function placeOrderTool(args: z.infer<typeof PlaceOrderSchema>, ctx
       marketTitle: marketTitle || "",
       outcomeTitle: outcomeTitle || "",
     });
-
     return {
       success: true,
       data: {
-        message: `${side} order placed successfully!`,
+        message: `${paper ? "Paper " : ""}${side} order placed successfully!`,
+        paper,
         order: {
           orderId: order.orderId,
           side: order.side,
@@ -111,6 +121,7 @@ export async function placeOrderTool(args: z.infer<typeof PlaceOrderSchema>, ctx
       },
     };
   } catch (error) {
+    releaseAgentNotional(approval.reserved);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Failed to place order",
@@ -119,7 +130,8 @@ export async function placeOrderTool(args: z.infer<typeof PlaceOrderSchema>, ctx
 }
 
 export async function cancelOrderTool(args: z.infer<typeof CancelOrderSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  const paper = isPaperTrading();
+  if (!walletState.connected && !paper) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
@@ -129,8 +141,24 @@ export async function cancelOrderTool(args: z.infer<typeof CancelOrderSchema>, c
     return { success: false, error: "orderId is required" };
   }
 
+  const open = ordersState.openOrders.find((o) => o.orderId === orderId);
+  const approval = await authorizeAgentCancel(orderId, {
+    marketTitle: open?.marketTitle,
+    outcomeTitle: open?.outcomeTitle,
+    side: open?.side,
+    price: open?.price,
+    shares: open?.sizeRemaining,
+  });
+  if (!approval.approved) {
+    return { success: false, error: approval.error };
+  }
+
   try {
-    await cancelOrder(orderId);
+    if (paper) {
+      if (!cancelPaperOrder(orderId)) return { success: false, error: `No open paper order ${orderId}` };
+    } else {
+      await cancelOrder(orderId);
+    }
     return {
       success: true,
       data: {
@@ -155,7 +183,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "place_order",
     category: "order",
     description: PROMPTS.place_order.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: PlaceOrderSchema as z.ZodType,
     examples: [PROMPTS.place_order.example],
     requiresWallet: true,
     executesTrade: true,
@@ -165,7 +193,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "cancel_order",
     category: "order",
     description: PROMPTS.cancel_order.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: CancelOrderSchema as z.ZodType,
     examples: [PROMPTS.cancel_order.example],
     requiresWallet: true,
     executesTrade: false,
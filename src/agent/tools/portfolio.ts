@@ -6,6 +6,7 @@ import { z } from "zod";
 import { walletState } from "../../state";
 import { positionsState, fetchUserPositions } from "../../hooks/usePositions";
 import { fetchOpenOrders, fetchTradeHistory } from "../../api/orders";
+import { isPaperTrading, paperAvailableCash, paperOpenOrders, paperTradeHistory } from "../../hooks/usePaperTrading";
 import type { ToolDefinition, ToolResult } from "../tool";
 import type { AgentContext } from "../tool";
 
@@ -129,7 +130,7 @@ function getPositionsDetails(): {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function getPortfolioTool(_args: z.infer<typeof GetPortfolioSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  if (!walletState.connected && !isPaperTrading()) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
@@ -153,21 +154,20 @@ export async function getPortfolioTool(_args: z.infer<typeof GetPortfolioSchema>
 }
 
 export async function getBalanceTool(_args: z.infer<typeof GetBalanceSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  if (!walletState.connected && !isPaperTrading()) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
   return {
     success: true,
-    data: {
-      balance: walletState.balance,
-      address: walletState.address,
-    },
+    data: isPaperTrading()
+      ? { balance: paperAvailableCash(), address: null, paper: true }
+      : { balance: walletState.balance, address: walletState.address },
   };
 }
 
 export async function getPositionsDetailsTool(_args: z.infer<typeof GetPositionsDetailsSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  if (!walletState.connected && !isPaperTrading()) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
@@ -185,11 +185,11 @@ export async function getPositionsDetailsTool(_args: z.infer<typeof GetPositions
 }
 
 export async function getTradeHistoryTool(_args: z.infer<typeof GetTradeHistorySchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  if (!walletState.connected && !isPaperTrading()) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
-  const trades = await fetchTradeHistory();
+  const trades = isPaperTrading() ? paperTradeHistory() : await fetchTradeHistory();
 
   return {
     success: true,
@@ -211,11 +211,11 @@ export async function getTradeHistoryTool(_args: z.infer<typeof GetTradeHistoryS
 }
 
 export async function getOpenOrdersTool(_args: z.infer<typeof GetOpenOrdersSchema>, ctx: AgentContext): Promise<ToolResult> {
-  if (!walletState.connected) {
+  if (!walletState.connected && !isPaperTrading()) {
     return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
   }
 
-  const orders = await fetchOpenOrders();
+  const orders = isPaperTrading() ? paperOpenOrders() : await fetchOpenOrders();
 
   return {
     success: true,
@@ -248,7 +248,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_portfolio",
     category: "portfolio",
     description: PROMPTS.get_portfolio.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetPortfolioSchema as z.ZodType,
     examples: [PROMPTS.get_portfolio.example],
     requiresWallet: true,
     executesTrade: false,
@@ -258,7 +258,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_balance",
     category: "portfolio",
     description: PROMPTS.get_balance.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetBalanceSchema as z.ZodType,
     examples: [PROMPTS.get_balance.example],
     requiresWallet: true,
     executesTrade: false,
@@ -268,7 +268,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_positions_details",
     category: "portfolio",
     description: PROMPTS.get_positions_details.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetPositionsDetailsSchema as z.ZodType,
     examples: [PROMPTS.get_positions_details.example],
     requiresWallet: true,
     executesTrade: false,
@@ -278,7 +278,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_trade_history",
     category: "portfolio",
     description: PROMPTS.get_trade_history.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetTradeHistorySchema as z.ZodType,
     examples: [PROMPTS.get_trade_history.example],
     requiresWallet: true,
     executesTrade: false,
@@ -288,7 +288,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_open_orders",
     category: "portfolio",
     description: PROMPTS.get_open_orders.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetOpenOrdersSchema as z.ZodType,
     examples: [PROMPTS.get_open_orders.example],
     requiresWallet: true,
     executesTrade: false,
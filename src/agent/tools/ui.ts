@@ -236,7 +236,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "open_wallet_modal",
     category: "ui",
     description: PROMPTS.open_wallet_modal.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: OpenWalletModalSchema as z.ZodType,
     examples: [PROMPTS.open_wallet_modal.example],
     requiresWallet: false,
     executesTrade: false,
@@ -246,7 +246,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "open_portfolio",
     category: "ui",
     description: PROMPTS.open_portfolio.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: OpenPortfolioSchema as z.ZodType,
     examples: [PROMPTS.open_portfolio.example],
     requiresWallet: false,
     executesTrade: false,
@@ -256,7 +256,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "open_order_form",
     category: "ui",
     description: PROMPTS.open_order_form.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: OpenOrderFormSchema as z.ZodType,
     examples: [PROMPTS.open_order_form.example],
     requiresWallet: false,
     executesTrade: false,
@@ -266,7 +266,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_watchlist",
     category: "ui",
     description: PROMPTS.get_watchlist.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetWatchlistSchema as z.ZodType,
     examples: [PROMPTS.get_watchlist.example],
     requiresWallet: false,
     executesTrade: false,
@@ -276,7 +276,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "add_watchlist",
     category: "ui",
     description: PROMPTS.add_watchlist.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: AddWatchlistSchema as z.ZodType,
     examples: [PROMPTS.add_watchlist.example],
     requiresWallet: false,
     executesTrade: false,
@@ -286,7 +286,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "remove_watchlist",
     category: "ui",
     description: PROMPTS.remove_watchlist.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: RemoveWatchlistSchema as z.ZodType,
     examples: [PROMPTS.remove_watchlist.example],
     requiresWallet: false,
     executesTrade: false,
@@ -296,7 +296,7 @@ export const tools: ToolDefinition<z.ZodType>[] = [
     name: "get_alerts",
     category: "alert",
     description: PROMPTS.get_alerts.description,
-    parameters: {} as unknown as z.ZodType,
+    parameters: GetAlertsSchema as z.ZodType,
     examples: [PROMPTS.get_alerts.example],
     requiresWallet: false,
     executesTrade: false,
@@ -38,7 +38,7 @@ export async function fetchAccountOverview(): Promise<AccountOverview | null> {
 
   try {
     const [positions, tradeHistory, openOrders] = await Promise.all([
-      fetchPositions(walletState.address),
+      fetchPositions(walletState.funderAddress ?? walletState.address),
       fetchTradeHistory(),
       fetchOpenOrders(),
     ]);
@@ -38,6 +38,7 @@ import {
   getTags,
 } from "./polymarket";
 import { fetchUserPositions } from "../hooks/usePositions";
+import { isPaperTrading, placePaperOrder, cancelPaperOrder, paperAvailableCash, paperOpenOrders, paperTradeHistory } from "../hooks/usePaperTrading";
 import { loadAlerts, alertsState } from "../hooks/useAlerts";
 import { toggleWatchlist, watchlistState } from "../hooks/useWatchlist";
 import { setWalletModalOpen, setPortfolioOpen, setOrderFormOpen, setOrderFormSide, setOrderFormTokenId, setOrderFormMarketTitle, setOrderFormOutcomeTitle, setOrderFormCurrentPrice, setOrderFormPriceInput, setOrderFormSharesInput, setOrderFormPostOnly, setOrderFormFocusField } from "../state";
@@ -47,30 +48,52 @@ import { positionsState } from "../hooks/usePositions";
 import { getTUIContext, formatTUIContextForPrompt } from "../agent/context";
 import { AgentSession } from "../agent/session";
 import * as agentTools from "../agent/tools";
+import { authorizeAgentOrder, authorizeAgentCancel, releaseAgentNotional } from "../agent/approval";
+import { ordersState } from "../hooks/useOrders";
+import { getMarketDataBus } from "./websocket";
+import { getOrderBookEngine } from "./orderbook";
 
 const DEFAULT_MODEL = "claude-sonnet-4-20250514";
 
 const CLOB_BASE = "https://clob.polymarket.com";
 
-// Helper function to fetch order book for a token
+// Helper function to fetch order book for a token (top 10 levels, best first)
 export async function getOrderBook(tokenId: string): Promise<{ bids: { price: string; size: string }[]; asks: { price: string; size: string }[] }> {
-  try {
-    const response = await fetch(`${CLOB_BASE}/orderbook?asset_id=${tokenId}`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch order book: ${response.status}`);
-    }
-    const data = (await response.json()) as { bids?: { price: string; size: string }[]; asks?: { price: string; size: string }[] };
-    return {
-      bids: (data.bids || []).slice(0, 10),
-      asks: (data.asks || []).slice(0, 10),
-    };
-  } catch {
-    return { bids: [], asks: [] };
+  const book = await getOrderBookEngine().ensure(tokenId);
+  if (!book) return { bids: [], asks: [] };
+  const format = (levels: { price: number; size: number }[]) =>
+    levels.map((l) => ({ price: String(l.price), size: String(l.size) }));
+  return {
+    bids: format(book.levels("bids", 10)),
+    asks: format(book.levels("asks", 10)),
+  };
+}
+
+// Tokens the agent has looked at stay subscribed on the market-data bus (LRU)
+const AGENT_WATCH_LIMIT = 20;
+const LIVE_QUOTE_MAX_AGE_MS = 60_000;
+const agentWatches = new Map<string, () => void>();
+
+function watchForAgent(tokenId: string): void {
+  const existing = agentWatches.get(tokenId);
+  agentWatches.delete(tokenId);
+  agentWatches.set(tokenId, existing ?? getMarketDataBus().subscribe([tokenId]));
+  if (agentWatches.size > AGENT_WATCH_LIMIT) {
+    const [oldestId, release] = agentWatches.entries().next().value!;
+    agentWatches.delete(oldestId);
+    release();
   }
 }
 
 // Helper function to get current price for a token
 export async function getMarketPrice(tokenId: string): Promise<{ price: number; bid: number; ask: number } | null> {
+  watchForAgent(tokenId);
+  const quote = getMarketDataBus().getQuote(tokenId);
+  if (quote && quote.price !== undefined && quote.bid !== undefined && quote.ask !== undefined
+    && Date.now() - quote.timestamp < LIVE_QUOTE_MAX_AGE_MS) {
+    return { price: quote.price, bid: quote.bid, ask: quote.ask };
+  }
+
   try {
     const response = await fetch(`${CLOB_BASE}/prices?asset_id=${tokenId}`);
     if (!response.ok) return null;
@@ -258,7 +281,7 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "get_portfolio": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
       await fetchUserPositions();
@@ -266,10 +289,10 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "get_balance": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
-      return { success: true, balance: walletState.balance };
+      return { success: true, balance: isPaperTrading() ? paperAvailableCash() : walletState.balance };
     }
 
     case "get_watchlist": {
@@ -351,7 +374,7 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "place_order": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected. Use open_wallet_modal first." };
       }
       const tokenId = args.tokenId as string;
@@ -366,8 +389,14 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
         return { success: false, error: "Missing required parameters: tokenId, side, price, shares" };
       }
 
+      const paper = isPaperTrading();
+      const approval = await authorizeAgentOrder({ tokenId, side, price, shares, marketTitle, outcomeTitle, paper });
+      if (!approval.approved) {
+        return { success: false, error: approval.error };
+      }
+
       try {
-        const order = await placeOrder({
+        const order = await (paper ? placePaperOrder : placeOrder)({
           tokenId,
           side,
           price,
@@ -379,7 +408,7 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
         });
         return {
           success: true,
-          message: `Order placed successfully!`,
+          message: `${paper ? "Paper order" : "Order"} placed successfully!`,
           order: {
             orderId: order.orderId,
             side: order.side,
@@ -389,6 +418,7 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
           },
         };
       } catch (error) {
+        releaseAgentNotional(approval.reserved);
         return { success: false, error: error instanceof Error ? error.message : "Failed to place order" };
       }
     }
@@ -413,10 +443,10 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "get_open_orders": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
-      const orders = await fetchOpenOrders();
+      const orders = isPaperTrading() ? paperOpenOrders() : await fetchOpenOrders();
       return {
         success: true,
         count: orders.length,
@@ -437,10 +467,10 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "get_trade_history": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
-      const trades = await fetchTradeHistory();
+      const trades = isPaperTrading() ? paperTradeHistory() : await fetchTradeHistory();
       return {
         success: true,
         count: trades.length,
@@ -459,15 +489,30 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "cancel_order": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
       const orderId = args.orderId as string;
       if (!orderId) {
         return { success: false, error: "orderId is required" };
       }
+      const open = ordersState.openOrders.find((o) => o.orderId === orderId);
+      const approval = await authorizeAgentCancel(orderId, {
+        marketTitle: open?.marketTitle,
+        outcomeTitle: open?.outcomeTitle,
+        side: open?.side,
+        price: open?.price,
+        shares: open?.sizeRemaining,
+      });
+      if (!approval.approved) {
+        return { success: false, error: approval.error };
+      }
       try {
-        await cancelOrder(orderId);
+        if (isPaperTrading()) {
+          if (!cancelPaperOrder(orderId)) return { success: false, error: `No open paper order ${orderId}` };
+        } else {
+          await cancelOrder(orderId);
+        }
         return { success: true, message: `Order ${orderId} cancelled successfully` };
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : "Failed to cancel order" };
@@ -475,7 +520,7 @@ async function executeTool(name: string, args: Record<string, unknown>): Promise
     }
 
     case "get_positions_details": {
-      if (!walletState.connected) {
+      if (!walletState.connected && !isPaperTrading()) {
         return { success: false, error: "Wallet not connected" };
       }
       await fetchUserPositions();
@@ -943,7 +988,8 @@ export async function sendMessageToAssistantStream(
     };
   }
 
-  const balance = walletState.balance;
+  const paper = isPaperTrading();
+  const balance = paper ? paperAvailableCash() : walletState.balance;
   const systemPrompt = `You are a **Polymarket Trading Agent** - an AI-powered trading assistant for Polymarket prediction markets.
 
 ## Your Role
@@ -1012,6 +1058,7 @@ When user wants to trade:
 
 ## Current User State
 - Wallet connected: ${walletState.connected}
+- Paper trading: ${paper ? "ON — orders are simulated against the live book, no real money moves" : "off"}
 - Current USDC balance: $${balance?.toFixed(2) || "0.00"}
 - Markets loaded: ${appState.markets.length}
 - Current sort: ${appState.sortBy}
@@ -36,7 +36,9 @@ export {
   getSpread,
   getSpreads,
   getFeeRates,
+  feeRateFraction,
   getTickSize,
+  getNegRisk,
   getMultipleOrderBooks,
   getOrderDetails,
   cancelOrderByHash,
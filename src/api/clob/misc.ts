@@ -96,6 +96,16 @@ export async function getFeeRates(tokenId: string): Promise<FeeRatesResponse | n
   }
 }
 
+/**
+ * CLOB fee rates may be published as basis points or fractions. Polymarket
+ * charges rate × min(p, 1 − p) per share.
+ */
+export function feeRateFraction(raw: string | undefined): number {
+  const value = Number.parseFloat(raw ?? "0");
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  return value > 1 ? value / 10_000 : value;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Tick Size API
 // ─────────────────────────────────────────────────────────────────────────────
@@ -120,6 +130,26 @@ export async function getTickSize(tokenId: string): Promise<TickSizeResponse | n
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Neg Risk API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Whether the token trades on the neg-risk exchange; null if the lookup failed. */
+export async function getNegRisk(tokenId: string): Promise<boolean | null> {
+  try {
+    const response = await fetch(`${CLOB_API_BASE}/neg-risk?token_id=${tokenId}`);
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = (await response.json()) as { neg_risk?: boolean };
+    return typeof data.neg_risk === "boolean" ? data.neg_risk : null;
+  } catch {
+    return null;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Order Books API (multiple at once)
 // ─────────────────────────────────────────────────────────────────────────────
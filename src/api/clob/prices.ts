@@ -25,6 +25,7 @@ interface ClobBookResponse {
   min_order_size?: string;
   tick_size?: string;
   neg_risk?: boolean;
+  hash?: string;
 }
 
 export interface OrderBookSummary {
@@ -40,6 +41,8 @@ export interface OrderBookSummary {
   minOrderSize: number | null;
   tickSize: number | null;
   updatedAt: number | null;
+  hash: string | null;
+  book: Record<string, unknown>;   // raw /book payload (levels + hash), used to resync local books
 }
 
 export interface MarketQuote {
@@ -184,6 +187,8 @@ export async function getOrderBookSummary(tokenId: string): Promise<OrderBookSum
       minOrderSize: data.min_order_size ? parseNumeric(data.min_order_size, 0) : null,
       tickSize: data.tick_size ? parseNumeric(data.tick_size, 0) : null,
       updatedAt: data.timestamp ? new Date(data.timestamp).getTime() : null,
+      hash: data.hash ?? null,
+      book: data as Record<string, unknown>,
     };
   } catch {
     return null;
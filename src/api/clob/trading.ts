@@ -11,13 +11,23 @@ import {
   ApiCredentials,
   fetchOrCreateApiCredentials,
   getClobL2Headers,
-  loadWalletConfig,
+  getFunderAddress,
+  getSignatureType,
+  requireUnlockedWallet,
+  SignatureType,
 } from "../../auth/wallet";
-import { Order, PlacedOrder, OrderStatus } from "../../types/orders";
+import { Order, PlacedOrder, OrderStatus, OrderType } from "../../types/orders";
+import { DEFAULT_GTD_LIFETIME_MS, GTD_MIN_LEAD_MS } from "../../utils/expiry";
+import { getNegRisk } from "./misc";
 
 const CLOB_BASE = "https://clob.polymarket.com";
+const CTF_EXCHANGE = "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E";
+// Multi-outcome (neg-risk) events settle through a separate exchange contract
+const NEG_RISK_CTF_EXCHANGE = "0xC5d563A36AE78145C45a50134d48A1215220f80a";
 const GEO_BLOCK_URL = "https://polymarket.com/api/geoblock";
 const GEO_BLOCK_CACHE_TTL_MS = 60_000;
+// The CLOB treats a GTD order as expired this long before its signed expiration
+const GTD_SECURITY_THRESHOLD_S = 60;
 
 interface ClobSignedOrder {
   salt: number;
@@ -38,7 +48,7 @@ interface ClobSignedOrder {
 interface ClobOrderPayload {
   order: ClobSignedOrder;
   owner: string;
-  orderType: "GTC" | "FOK" | "GTD";
+  orderType: OrderType;
   postOnly?: boolean;
 }
 
@@ -152,6 +162,9 @@ function mapOrderErrorMessage(rawError: string | undefined, status: number): str
   if (msg.includes("FOK_ORDER_NOT_FILLED_ERROR")) {
     return "FOK order rejected: no immediate full fill available at this price.";
   }
+  if (msg.includes("NO ORDERS FOUND TO MATCH WITH FAK ORDER")) {
+    return "FAK order rejected: no liquidity available at this price.";
+  }
   if (msg.includes("INVALID_POST_ONLY_ORDER")) {
     return "Post-only order rejected because it crosses the current book.";
   }
@@ -264,15 +277,18 @@ async function resolveMarketByAssetId(
   return market ?? null;
 }
 
+/** Who the order is for: the maker holding the funds and how the signer relates to it. */
+interface SigningProfile {
+  signatureType: SignatureType;
+  funder: string;
+}
+
 async function getAuthContext(): Promise<{
   privateKey: `0x${string}`;
   creds: ApiCredentials;
+  profile: SigningProfile;
 }> {
-  const config = loadWalletConfig();
-  if (!config?.privateKey) {
-    throw new Error("No wallet connected");
-  }
-
+  const config = requireUnlockedWallet();
   const privateKey = config.privateKey as `0x${string}`;
   const credsFromConfig =
     config.apiKey && config.apiSecret && config.apiPassphrase
@@ -288,7 +304,16 @@ async function getAuthContext(): Promise<{
     throw new Error("Unable to derive CLOB API credentials");
   }
 
-  return { privateKey, creds };
+  return {
+    privateKey,
+    creds,
+    profile: { signatureType: getSignatureType(config), funder: getFunderAddress(config) },
+  };
+}
+
+/** L2 API credentials for the connected wallet (used by the user WebSocket channel). */
+export async function getApiCredentials(): Promise<ApiCredentials> {
+  return (await getAuthContext()).creds;
 }
 
 async function createL2Headers(
@@ -310,16 +335,36 @@ async function createL2Headers(
   };
 }
 
+const negRiskByToken = new Map<string, boolean>();
+
+/**
+ * The exchange an order signs for. Callers that know the market pass
+ * `order.negRisk`; otherwise the CLOB is asked once per token.
+ */
+async function resolveNegRisk(order: Order): Promise<boolean> {
+  if (order.negRisk !== undefined) return order.negRisk;
+  const cached = negRiskByToken.get(order.tokenId);
+  if (cached !== undefined) return cached;
+  const negRisk = await getNegRisk(order.tokenId);
+  if (negRisk === null) {
+    throw new Error("Order rejected: couldn't determine whether this market is neg-risk. Retry shortly.");
+  }
+  negRiskByToken.set(order.tokenId, negRisk);
+  return negRisk;
+}
+
 async function buildSignedOrder(
   privateKey: `0x${string}`,
+  profile: SigningProfile,
+  negRisk: boolean,
   tokenId: string,
   side: "BUY" | "SELL",
   price: number,
   shares: number,
-  orderType: "GTC" | "FOK" | "GTD",
+  orderType: OrderType,
+  expiresAt?: number,
 ): Promise<ClobSignedOrder> {
   const account = privateKeyToAccount(privateKey);
-  const CTF_EXCHANGE = "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E";
 
   const SCALE = 1_000_000n;
   const priceScaled = BigInt(Math.round(price * 1_000_000));
@@ -330,13 +375,15 @@ async function buildSignedOrder(
   const takerAmount = (side === "BUY" ? sharesScaled : usdcAmount).toString();
 
   const salt = Math.floor(Math.random() * 1_000_000_000);
-  const expiration = orderType === "GTD" ? String(Math.floor(Date.now() / 1000) + 86_400) : "0";
+  const expiration = orderType === "GTD"
+    ? String(Math.floor((expiresAt ?? Date.now() + DEFAULT_GTD_LIFETIME_MS) / 1000) + GTD_SECURITY_THRESHOLD_S)
+    : "0";
 
   const domain = {
     name: "Polymarket CTF Exchange",
     version: "1",
     chainId: 137,
-    verifyingContract: CTF_EXCHANGE as `0x${string}`,
+    verifyingContract: (negRisk ? NEG_RISK_CTF_EXCHANGE : CTF_EXCHANGE) as `0x${string}`,
   };
 
   const types = {
@@ -356,9 +403,11 @@ async function buildSignedOrder(
     ],
   };
 
+  // Proxy and Safe orders are made by the funder and signed by its owner key
+  const maker = profile.funder as `0x${string}`;
   const message = {
     salt: BigInt(salt),
-    maker: account.address,
+    maker,
     signer: account.address,
     taker: "0x0000000000000000000000000000000000000000" as `0x${string}`,
     tokenId: BigInt(tokenId),
@@ -368,7 +417,7 @@ async function buildSignedOrder(
     nonce: 0n,
     feeRateBps: 0n,
     side: side === "BUY" ? 0n : 1n,
-    signatureType: 0n,
+    signatureType: BigInt(profile.signatureType),
   };
 
   const walletClient = createWalletClient({
@@ -386,7 +435,7 @@ async function buildSignedOrder(
 
   return {
     salt,
-    maker: account.address,
+    maker,
     signer: account.address,
     taker: "0x0000000000000000000000000000000000000000",
     tokenId,
@@ -396,7 +445,7 @@ async function buildSignedOrder(
     nonce: "0",
     feeRateBps: "0",
     side,
-    signatureType: 0,
+    signatureType: profile.signatureType,
     signature,
   };
 }
@@ -406,15 +455,21 @@ async function buildSignedOrder(
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function placeOrder(order: Order): Promise<PlacedOrder> {
+  if (order.type === "GTD" && order.expiresAt !== undefined && order.expiresAt < Date.now() + GTD_MIN_LEAD_MS) {
+    throw new Error("Order rejected: GTD expiry must be at least 1 minute from now.");
+  }
   await ensureTradingAllowed();
-  const { privateKey, creds } = await getAuthContext();
+  const { privateKey, creds, profile } = await getAuthContext();
   const signedOrder = await buildSignedOrder(
     privateKey,
+    profile,
+    await resolveNegRisk(order),
     order.tokenId,
     order.side,
     order.price,
     order.shares,
     order.type,
+    order.expiresAt,
   );
 
   const payload: ClobOrderPayload = {
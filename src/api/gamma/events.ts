@@ -28,6 +28,10 @@ interface GammaMarket {
   clobTokenIds: string | null;
   groupItemTitle?: string | null;
   tags?: string[] | null;
+  negRisk?: boolean | null;
+  negRiskMarketID?: string | null;
+  questionID?: string | null;
+  events?: Array<{ id: string; title?: string | null }> | null;
 }
 
 function filterMarketsWithOutcomes(m: GammaMarket): boolean {
@@ -100,6 +104,10 @@ function parseGammaMarket(market: GammaMarket): Market {
     category: market.category || "general",
     closed: market.closed || false,
     resolved: false,
+    conditionId: market.conditionId || undefined,
+    negRisk: market.negRisk ?? undefined,
+    negRiskMarketId: market.negRiskMarketID || undefined,
+    questionId: market.questionID || undefined,
   };
 }
 
@@ -0,0 +1,185 @@
+/**
+ * Neg-risk conversions — in a multi-outcome (neg-risk) event exactly one
+ * question resolves YES, so the NegRiskAdapter can turn NO shares in k
+ * questions into YES shares in every other question plus (k − 1) USDC per share.
+ */
+
+import { createPublicClient, createWalletClient, http, parseUnits } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { polygon } from "viem/chains";
+import { getSignatureType, requireUnlockedWallet } from "../auth/wallet";
+import { getEventById } from "./gamma/events";
+import { Position } from "../types/positions";
+
+const POLYGON_RPC = "https://polygon-rpc.com";
+const NEG_RISK_ADAPTER = "0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296";
+const CONDITIONAL_TOKENS = "0x4D97DCd97eC945f40cF65F87097ACe5EA0476045";
+
+const CTF_ABI = [
+  {
+    name: "isApprovedForAll",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "operator", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "setApprovalForAll",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "operator", type: "address" },
+      { name: "approved", type: "bool" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+const ADAPTER_ABI = [
+  {
+    name: "convertPositions",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_marketId", type: "bytes32" },
+      { name: "_indexSet", type: "uint256" },
+      { name: "_amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+export interface ConversionLeg {
+  marketId: string;
+  title: string;
+  questionIndex: number;
+  yesTokenId: string;
+  noTokenId: string;
+  yesPrice: number;
+  noPrice: number;
+  noShares: number;   // NO shares currently held
+}
+
+export interface ConversionEvent {
+  title: string;
+  negRiskMarketId: string;
+  legs: ConversionLeg[];
+}
+
+export interface ConversionPreview {
+  amount: number;
+  indexSet: bigint;
+  converted: ConversionLeg[];   // NO shares given up
+  received: ConversionLeg[];    // YES shares received
+  collateral: number;           // USDC released, (k − 1) × amount
+  noValue: number;              // market value of the NO shares given up
+  yesValue: number;             // market value of the YES shares received, excluding collateral
+  maxAmount: number;            // smallest NO holding among the converted legs
+}
+
+/** The adapter numbers questions by the last byte of their questionID. */
+export function questionIndex(questionId: string): number {
+  return parseInt(questionId.slice(-2), 16);
+}
+
+/**
+ * Load every question of a neg-risk event with the NO shares held in each.
+ * Returns null when the event can't be fetched or isn't neg-risk.
+ */
+export async function getConversionEvent(eventId: string, positions: Position[]): Promise<ConversionEvent | null> {
+  const event = await getEventById(eventId);
+  if (!event) return null;
+
+  const questions = event.markets.filter(
+    (m) => m.negRisk && m.negRiskMarketId && m.questionId && m.outcomes.length === 2
+  );
+  if (questions.length < 2) return null;
+
+  const negRiskMarketId = questions[0].negRiskMarketId!;
+  const legs = questions
+    .filter((m) => m.negRiskMarketId === negRiskMarketId)
+    .map((m) => {
+      const [yes, no] = m.outcomes;
+      const held = positions.find((p) => p.asset === no.id);
+      return {
+        marketId: m.id,
+        title: m.title,
+        questionIndex: questionIndex(m.questionId!),
+        yesTokenId: yes.id,
+        noTokenId: no.id,
+        yesPrice: yes.price,
+        noPrice: no.price,
+        noShares: held?.size ?? 0,
+      };
+    })
+    .sort((a, b) => a.questionIndex - b.questionIndex);
+
+  return { title: event.title, negRiskMarketId, legs };
+}
+
+/** What converting `amount` NO shares in each selected question yields. */
+export function previewConversion(legs: ConversionLeg[], selected: string[], amount: number): ConversionPreview {
+  const converted = legs.filter((l) => selected.includes(l.marketId));
+  const received = legs.filter((l) => !selected.includes(l.marketId));
+  const indexSet = converted.reduce((set, l) => set | (1n << BigInt(l.questionIndex)), 0n);
+
+  return {
+    amount,
+    indexSet,
+    converted,
+    received,
+    collateral: Math.max(0, converted.length - 1) * amount,
+    noValue: converted.reduce((sum, l) => sum + l.noPrice * amount, 0),
+    yesValue: received.reduce((sum, l) => sum + l.yesPrice * amount, 0),
+    maxAmount: converted.length > 0 ? Math.min(...converted.map((l) => l.noShares)) : 0,
+  };
+}
+
+/**
+ * Convert NO shares on-chain through the NegRiskAdapter, approving it on the
+ * Conditional Tokens contract first if needed. Resolves to the transaction hash.
+ */
+export async function convertNoPositions(negRiskMarketId: string, indexSet: bigint, amount: number): Promise<string> {
+  const config = requireUnlockedWallet();
+  if (getSignatureType(config) !== 0) {
+    throw new Error("Proxy and Safe accounts hold shares in their funder contract — convert them on polymarket.com.");
+  }
+
+  const account = privateKeyToAccount(config.privateKey as `0x${string}`);
+  const publicClient = createPublicClient({ chain: polygon, transport: http(POLYGON_RPC) });
+  const walletClient = createWalletClient({ account, chain: polygon, transport: http(POLYGON_RPC) });
+
+  const approved = await publicClient.readContract({
+    address: CONDITIONAL_TOKENS,
+    abi: CTF_ABI,
+    functionName: "isApprovedForAll",
+    args: [account.address, NEG_RISK_ADAPTER],
+  });
+  if (!approved) {
+    const approval = await walletClient.writeContract({
+      address: CONDITIONAL_TOKENS,
+      abi: CTF_ABI,
+      functionName: "setApprovalForAll",
+      args: [NEG_RISK_ADAPTER, true],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: approval });
+    if (receipt.status !== "success") {
+      throw new Error(`Adapter approval reverted (${approval})`);
+    }
+  }
+
+  const hash = await walletClient.writeContract({
+    address: NEG_RISK_ADAPTER,
+    abi: ADAPTER_ABI,
+    functionName: "convertPositions",
+    args: [negRiskMarketId as `0x${string}`, indexSet, parseUnits(amount.toFixed(6), 6)],
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Conversion reverted (${hash})`);
+  }
+  return hash;
+}
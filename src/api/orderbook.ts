@@ -0,0 +1,425 @@
+/**
+ * Local L2 order book engine — one authoritative in-memory book per token.
+ * Snapshots and deltas arrive through the shared market-data bus; each book is
+ * validated against the CLOB book hash and resynced from REST on mismatch.
+ */
+
+import { createHash } from "crypto";
+import { getMarketDataBus } from "./websocket";
+import { getOrderBookSummary } from "./clob/prices";
+import { isReplayMode } from "./recording";
+import type { WsBookSnapshot, WsPriceChange } from "./ws";
+
+export type BookSide = "bids" | "asks";
+
+export interface L2Level {
+  price: number;
+  size: number;
+}
+
+export interface CumulativeLevel extends L2Level {
+  total: number;      // shares from top of book through this level
+  notional: number;   // USDC from top of book through this level
+}
+
+export interface VwapResult {
+  avgPrice: number;
+  worstPrice: number;
+  filled: number;     // shares available (up to the limit price, if given)
+  notional: number;
+  complete: boolean;  // true when the full size can be filled
+  levels: number;     // price levels the fill reaches into
+}
+
+export interface MarketOrderQuote extends VwapResult {
+  limitPrice: number; // worst price allowed by the slippage limit, sent as the order's limit
+}
+
+/**
+ * verified   — snapshot hash reproduced locally, deltas are hash-checked
+ * unverified — no hash to check against (or the snapshot hash did not reproduce)
+ * disabled   — hash checks kept failing right after fresh snapshots; only
+ *              crossed-book detection is applied for this token
+ */
+export type ChecksumState = "verified" | "unverified" | "disabled";
+
+export type DeltaResult = "applied" | "stale" | "no_snapshot" | "mismatch" | "crossed";
+
+interface StoredLevel {
+  price: number;
+  size: number;
+  rawPrice: string;
+  rawSize: string;
+}
+
+const MAX_QUICK_RESYNCS = 3;
+const QUICK_RESYNC_WINDOW_MS = 60_000;
+
+function parseRawLevels(raw: unknown): StoredLevel[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((l) => {
+    if (!l || typeof l !== "object") return [];
+    const rawPrice = String((l as Record<string, unknown>).price ?? "");
+    const rawSize = String((l as Record<string, unknown>).size ?? "");
+    const price = parseFloat(rawPrice);
+    const size = parseFloat(rawSize);
+    if (!Number.isFinite(price) || !Number.isFinite(size)) return [];
+    return [{ price, size, rawPrice, rawSize }];
+  });
+}
+
+function priceKey(price: number): string {
+  return price.toFixed(6);
+}
+
+function isAscending(levels: StoredLevel[]): boolean | null {
+  if (levels.length < 2) return null;
+  return levels[0].price < levels[levels.length - 1].price;
+}
+
+/** sha1 of the payload serialized with `hash` blanked, preserving key order. */
+export function computeBookHash(payload: Record<string, unknown>): string {
+  return createHash("sha1").update(JSON.stringify({ ...payload, hash: "" })).digest("hex");
+}
+
+export class LocalOrderBook {
+  readonly tokenId: string;
+  private bidLevels: Map<string, StoredLevel> = new Map();
+  private askLevels: Map<string, StoredLevel> = new Map();
+  private template: Record<string, unknown> | null = null;
+  // wire order of each side, reproduced when hashing (CLOB sends best level last)
+  private bidsAscending = true;
+  private asksAscending = false;
+  private hasSnapshot = false;
+  timestamp = 0;
+  checksum: ChecksumState = "unverified";
+
+  constructor(tokenId: string) {
+    this.tokenId = tokenId;
+  }
+
+  get ready(): boolean {
+    return this.hasSnapshot;
+  }
+
+  /** Replace the book with a full snapshot (WS `book` payload or REST /book). */
+  applySnapshot(raw: Record<string, unknown>): void {
+    const bids = parseRawLevels(raw.bids);
+    const asks = parseRawLevels(raw.asks);
+    this.bidsAscending = isAscending(bids) ?? this.bidsAscending;
+    this.asksAscending = isAscending(asks) ?? this.asksAscending;
+
+    this.bidLevels = new Map(bids.filter((l) => l.size > 0).map((l) => [priceKey(l.price), l]));
+    this.askLevels = new Map(asks.filter((l) => l.size > 0).map((l) => [priceKey(l.price), l]));
+    this.template = raw;
+    this.timestamp = Number(raw.timestamp) || Date.now();
+    this.hasSnapshot = true;
+
+    if (this.checksum !== "disabled") {
+      const hash = typeof raw.hash === "string" ? raw.hash : "";
+      this.checksum = hash && computeBookHash(raw) === hash ? "verified" : "unverified";
+    }
+  }
+
+  applyDelta(delta: WsPriceChange): DeltaResult {
+    if (!this.hasSnapshot) return "no_snapshot";
+    const ts = Number(delta.timestamp);
+    if (Number.isFinite(ts) && ts > 0 && ts < this.timestamp) return "stale";
+
+    const levels = delta.side === "BUY" ? this.bidLevels : this.askLevels;
+    const key = priceKey(delta.price);
+    if (delta.size <= 0) {
+      levels.delete(key);
+    } else {
+      levels.set(key, {
+        price: delta.price,
+        size: delta.size,
+        rawPrice: delta.raw?.price !== undefined ? String(delta.raw.price) : String(delta.price),
+        rawSize: delta.raw?.size !== undefined ? String(delta.raw.size) : String(delta.size),
+      });
+    }
+    if (Number.isFinite(ts) && ts > 0) this.timestamp = ts;
+
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    if (bid !== null && ask !== null && bid >= ask) return "crossed";
+
+    if (this.checksum === "verified" && delta.hash && this.currentHash() !== delta.hash) {
+      return "mismatch";
+    }
+    return "applied";
+  }
+
+  private wireLevels(side: BookSide): { price: string; size: string }[] {
+    const ascending = side === "bids" ? this.bidsAscending : this.asksAscending;
+    return Array.from((side === "bids" ? this.bidLevels : this.askLevels).values())
+      .sort((a, b) => (ascending ? a.price - b.price : b.price - a.price))
+      .map((l) => ({ price: l.rawPrice, size: l.rawSize }));
+  }
+
+  currentHash(): string {
+    const payload = {
+      ...(this.template ?? {}),
+      timestamp: String(this.timestamp),
+      bids: this.wireLevels("bids"),
+      asks: this.wireLevels("asks"),
+    };
+    return computeBookHash(payload);
+  }
+
+  /** Levels best-first: bids descending, asks ascending. */
+  levels(side: BookSide, limit?: number): L2Level[] {
+    const sorted = Array.from((side === "bids" ? this.bidLevels : this.askLevels).values())
+      .sort((a, b) => (side === "bids" ? b.price - a.price : a.price - b.price))
+      .map((l) => ({ price: l.price, size: l.size }));
+    return limit !== undefined ? sorted.slice(0, limit) : sorted;
+  }
+
+  bestBid(): number | null {
+    let best: number | null = null;
+    for (const l of this.bidLevels.values()) if (best === null || l.price > best) best = l.price;
+    return best;
+  }
+
+  bestAsk(): number | null {
+    let best: number | null = null;
+    for (const l of this.askLevels.values()) if (best === null || l.price < best) best = l.price;
+    return best;
+  }
+
+  midpoint(): number | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    if (bid !== null && ask !== null) return (bid + ask) / 2;
+    return bid ?? ask;
+  }
+
+  spread(): number | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid !== null && ask !== null ? Math.max(0, ask - bid) : null;
+  }
+
+  depthAtPrice(side: BookSide, price: number): number {
+    return (side === "bids" ? this.bidLevels : this.askLevels).get(priceKey(price))?.size ?? 0;
+  }
+
+  /** Running totals from the top of the book, optionally stopping at a price. */
+  cumulativeDepth(side: BookSide, throughPrice?: number): CumulativeLevel[] {
+    let total = 0;
+    let notional = 0;
+    const out: CumulativeLevel[] = [];
+    for (const level of this.levels(side)) {
+      if (throughPrice !== undefined && (side === "asks" ? level.price > throughPrice : level.price < throughPrice)) break;
+      total += level.size;
+      notional += level.size * level.price;
+      out.push({ ...level, total, notional });
+    }
+    return out;
+  }
+
+  /**
+   * Average fill price for taking `size` shares. BUY walks the asks, SELL walks
+   * the bids; `limitPrice` stops the walk like a limit order would.
+   */
+  vwapForSize(side: "BUY" | "SELL", size: number, limitPrice?: number): VwapResult | null {
+    const levels = this.levels(side === "BUY" ? "asks" : "bids");
+    if (levels.length === 0 || size <= 0) return null;
+
+    let remaining = size;
+    let filled = 0;
+    let notional = 0;
+    let worstPrice = levels[0].price;
+    let touched = 0;
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      if (limitPrice !== undefined && (side === "BUY" ? level.price > limitPrice : level.price < limitPrice)) break;
+      const take = Math.min(remaining, level.size);
+      filled += take;
+      notional += take * level.price;
+      worstPrice = level.price;
+      remaining -= take;
+      touched++;
+    }
+
+    return {
+      avgPrice: filled > 0 ? notional / filled : levels[0].price,
+      worstPrice,
+      filled,
+      notional,
+      complete: remaining <= 1e-9,
+      levels: touched,
+    };
+  }
+
+  /**
+   * Price a market order: sweep from the touch up to `maxSlippage` (a fraction
+   * of the best price) away. The limit is rounded inward to the cent grid but
+   * never past the touch, so it stays on any market's tick.
+   */
+  quoteMarketOrder(side: "BUY" | "SELL", size: number, maxSlippage: number): MarketOrderQuote | null {
+    const best = side === "BUY" ? this.bestAsk() : this.bestBid();
+    if (best === null || size <= 0 || maxSlippage < 0) return null;
+
+    const limitPrice = side === "BUY"
+      ? Math.max(best, Math.min(0.99, Math.floor(best * (1 + maxSlippage) * 100 + 1e-9) / 100))
+      : Math.min(best, Math.max(0.01, Math.ceil(best * (1 - maxSlippage) * 100 - 1e-9) / 100));
+    const vwap = this.vwapForSize(side, size, limitPrice);
+    return vwap ? { ...vwap, limitPrice } : null;
+  }
+}
+
+type BookListener = (book: LocalOrderBook) => void;
+
+interface TrackedBook {
+  book: LocalOrderBook;
+  refCount: number;
+  release: () => void;
+  offs: (() => void)[];
+  listeners: Set<BookListener>;
+  resyncing: Promise<void> | null;
+  recentResyncs: number[];
+}
+
+class OrderBookEngine {
+  private tracked: Map<string, TrackedBook> = new Map();
+
+  /** Reference-counted: keeps the token subscribed and its book maintained. */
+  track(tokenId: string): () => void {
+    let entry = this.tracked.get(tokenId);
+    if (!entry) {
+      const bus = getMarketDataBus();
+      const created: TrackedBook = {
+        book: new LocalOrderBook(tokenId),
+        refCount: 0,
+        release: bus.subscribe([tokenId]),
+        offs: [],
+        listeners: new Set(),
+        resyncing: null,
+        recentResyncs: [],
+      };
+      created.offs = [
+        bus.on("book", (msg) => this.handleSnapshot(created, msg), [tokenId]),
+        bus.on("price_change", (msg) => this.handleDelta(created, msg), [tokenId]),
+      ];
+      this.tracked.set(tokenId, created);
+      entry = created;
+      void this.resync(tokenId, false);
+    }
+    entry.refCount++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const current = this.tracked.get(tokenId);
+      if (!current) return;
+      current.refCount--;
+      if (current.refCount <= 0) {
+        current.offs.forEach((off) => off());
+        current.release();
+        this.tracked.delete(tokenId);
+      }
+    };
+  }
+
+  getBook(tokenId: string): LocalOrderBook | undefined {
+    const book = this.tracked.get(tokenId)?.book;
+    return book?.ready ? book : undefined;
+  }
+
+  /**
+   * One-shot access: returns the maintained book if tracked, otherwise tracks
+   * it for `holdMs` so repeated queries (agent, approvals) reuse the stream.
+   */
+  async ensure(tokenId: string, holdMs: number = 60_000): Promise<LocalOrderBook | undefined> {
+    const existing = this.tracked.get(tokenId);
+    if (!existing) {
+      const release = this.track(tokenId);
+      setTimeout(release, holdMs);
+    }
+    const entry = this.tracked.get(tokenId)!;
+    if (!entry.book.ready) await (entry.resyncing ?? this.resync(tokenId, false));
+    return this.getBook(tokenId);
+  }
+
+  onUpdate(tokenId: string, listener: BookListener): () => void {
+    const entry = this.tracked.get(tokenId);
+    if (!entry) return () => {};
+    entry.listeners.add(listener);
+    if (entry.book.ready) listener(entry.book);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reload the book from REST. `force` replaces the book even if the REST
+   * snapshot looks older — used after a detected mismatch, where the local
+   * state is known bad.
+   */
+  resync(tokenId: string, force: boolean = true): Promise<void> {
+    const entry = this.tracked.get(tokenId);
+    // Replay is offline: books rebuild from the next recorded snapshot instead
+    if (!entry || isReplayMode()) return Promise.resolve();
+    if (entry.resyncing) return entry.resyncing;
+
+    const now = Date.now();
+    entry.recentResyncs = entry.recentResyncs.filter((t) => now - t < QUICK_RESYNC_WINDOW_MS);
+    entry.recentResyncs.push(now);
+    if (entry.recentResyncs.length > MAX_QUICK_RESYNCS && entry.book.checksum !== "disabled") {
+      // Hashes keep diverging right after fresh snapshots: stop trusting them
+      entry.book.checksum = "disabled";
+    }
+
+    entry.resyncing = (async () => {
+      try {
+        const summary = await getOrderBookSummary(tokenId);
+        // A WS snapshot may have landed while the REST request was in flight
+        const restTs = Number(summary?.book.timestamp) || 0;
+        const fresher = force || !entry.book.ready || restTs === 0 || restTs >= entry.book.timestamp;
+        if (summary && fresher && this.tracked.get(tokenId) === entry) {
+          entry.book.applySnapshot(summary.book);
+          this.notify(entry);
+        }
+      } finally {
+        entry.resyncing = null;
+      }
+    })();
+    return entry.resyncing;
+  }
+
+  private handleSnapshot(entry: TrackedBook, msg: WsBookSnapshot): void {
+    entry.book.applySnapshot(msg.raw);
+    this.notify(entry);
+  }
+
+  private handleDelta(entry: TrackedBook, msg: WsPriceChange): void {
+    const result = entry.book.applyDelta(msg);
+    if (result === "stale") return;
+    if (result !== "applied") {
+      void this.resync(entry.book.tokenId);
+      return;
+    }
+    this.notify(entry);
+  }
+
+  private notify(entry: TrackedBook): void {
+    entry.listeners.forEach((listener) => {
+      try {
+        listener(entry.book);
+      } catch (err) {
+        console.error(`Order book listener error for ${entry.book.tokenId}:`, err);
+      }
+    });
+  }
+}
+
+let engineInstance: OrderBookEngine | null = null;
+
+export function getOrderBookEngine(): OrderBookEngine {
+  if (!engineInstance) {
+    engineInstance = new OrderBookEngine();
+  }
+  return engineInstance;
+}
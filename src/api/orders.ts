@@ -11,4 +11,5 @@ export {
   cancelOrdersForAssetIds,
   fetchOpenOrders,
   fetchTradeHistory,
+  getApiCredentials,
 } from "./clob/trading";
@@ -40,6 +40,10 @@ interface GammaMarket {
   clobTokenIds: string | null;
   groupItemTitle?: string | null;
   tags?: string[] | null;
+  negRisk?: boolean | null;
+  negRiskMarketID?: string | null;
+  questionID?: string | null;
+  events?: Array<{ id: string; title?: string | null }> | null;
 }
 
 interface GammaEvent {
@@ -205,6 +209,12 @@ function parseGammaMarket(market: GammaMarket): Market {
     category: market.category || "general",
     closed: market.closed || false,
     resolved: false,
+    conditionId: market.conditionId || undefined,
+    eventId: market.events?.[0]?.id,
+    eventTitle: market.events?.[0]?.title || undefined,
+    negRisk: market.negRisk ?? undefined,
+    negRiskMarketId: market.negRiskMarketID || undefined,
+    questionId: market.questionID || undefined,
   };
 }
 
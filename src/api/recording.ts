@@ -0,0 +1,124 @@
+/**
+ * Market-data capture — every WebSocket message and REST market snapshot is
+ * appended to a gzip-compressed JSONL file under ~/.polymarket-tui/recordings/.
+ * The same files drive offline replay (see hooks/useReplay).
+ */
+
+import { createWriteStream, mkdirSync, readFileSync } from "fs";
+import { createGzip, gunzipSync, constants as zlibConstants, Gzip } from "zlib";
+import { homedir } from "os";
+import { join } from "path";
+
+export type RecordKind = "ws_market" | "ws_user" | "rest_markets";
+
+export interface RecordedEvent {
+  t: number;          // capture time, unix ms
+  kind: RecordKind;
+  data: unknown;      // raw WS frame (string) or Market[] snapshot
+}
+
+export interface ReplayConfig {
+  file: string;
+  speed: number;
+}
+
+const FLUSH_INTERVAL_MS = 1_000;
+
+let recorder: { gzip: Gzip; path: string; flushTimer: ReturnType<typeof setInterval> } | null = null;
+let replayConfig: ReplayConfig | null = null;
+
+export function getRecordingsDir(): string {
+  const dir = join(homedir(), ".polymarket-tui", "recordings");
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function timestampForFile(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+/** Start capturing to a new file; returns its path. No-op while replaying. */
+export function startRecording(): string | null {
+  if (recorder) return recorder.path;
+  if (replayConfig) return null;
+
+  const path = join(getRecordingsDir(), `capture-${timestampForFile(Date.now())}.jsonl.gz`);
+  const gzip = createGzip();
+  gzip.pipe(createWriteStream(path, { mode: 0o600 }));
+  // Sync-flush regularly so a killed process still leaves a readable file
+  const flushTimer = setInterval(() => gzip.flush(zlibConstants.Z_SYNC_FLUSH), FLUSH_INTERVAL_MS);
+  recorder = { gzip, path, flushTimer };
+
+  process.once("exit", stopRecording);
+  return path;
+}
+
+export function stopRecording(): void {
+  if (!recorder) return;
+  clearInterval(recorder.flushTimer);
+  recorder.gzip.end();
+  recorder = null;
+}
+
+export function isRecording(): boolean {
+  return recorder !== null;
+}
+
+export function getRecordingPath(): string | null {
+  return recorder?.path ?? null;
+}
+
+export function recordEvent(kind: RecordKind, data: unknown): void {
+  if (!recorder) return;
+  try {
+    recorder.gzip.write(JSON.stringify({ t: Date.now(), kind, data } satisfies RecordedEvent) + "\n");
+  } catch (e) {
+    console.error("Failed to write recording:", e);
+  }
+}
+
+/** Accepts "10x", "10", "0.5x". */
+export function parseReplaySpeed(raw: string | undefined): number {
+  if (!raw) return 1;
+  const value = parseFloat(raw.trim().replace(/x$/i, ""));
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid replay speed "${raw}" (expected e.g. 10x)`);
+  }
+  return value;
+}
+
+export function configureReplay(config: ReplayConfig): void {
+  replayConfig = config;
+}
+
+export function getReplayConfig(): ReplayConfig | null {
+  return replayConfig;
+}
+
+/** True when the app is fed from a recording and must not touch the network. */
+export function isReplayMode(): boolean {
+  return replayConfig !== null;
+}
+
+/**
+ * Load a recording (.jsonl or .jsonl.gz). Truncated gzip tails from an
+ * unclean shutdown are tolerated; unparseable lines are skipped.
+ */
+export function loadRecording(path: string): RecordedEvent[] {
+  const buffer = readFileSync(path);
+  const isGzip = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+  const text = isGzip
+    ? gunzipSync(buffer, { finishFlush: zlibConstants.Z_SYNC_FLUSH }).toString("utf-8")
+    : buffer.toString("utf-8");
+
+  const events = text.split("\n").flatMap((line) => {
+    if (!line.trim()) return [];
+    try {
+      const parsed = JSON.parse(line) as RecordedEvent;
+      return typeof parsed.t === "number" && typeof parsed.kind === "string" ? [parsed] : [];
+    } catch {
+      return [];
+    }
+  });
+  return events.sort((a, b) => a.t - b.t);
+}
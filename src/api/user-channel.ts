@@ -0,0 +1,147 @@
+/**
+ * Authenticated CLOB `user` channel — live order placements, updates,
+ * cancellations and trades for the connected wallet's API key.
+ */
+
+import type { ApiCredentials } from "../auth/wallet";
+import { parseUserMessages, WsUserOrder, WsUserTrade } from "./ws";
+import { recordEvent } from "./recording";
+
+export type UserChannelStatus = "connected" | "disconnected" | "connecting" | "reconnecting" | "error";
+
+const USER_WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/user";
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const PING_INTERVAL = 10_000;
+
+interface UserChannelHandlers {
+  onOrder?: (msg: WsUserOrder) => void;
+  onTrade?: (msg: WsUserTrade) => void;
+  onStatus?: (status: UserChannelStatus) => void;
+  // called after every (re)connect so callers can backfill anything missed
+  onReconnect?: () => void;
+}
+
+export class UserChannelClient {
+  private ws: WebSocket | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+  private hasConnected = false;
+
+  constructor(
+    private creds: ApiCredentials,
+    private handlers: UserChannelHandlers,
+  ) {}
+
+  connect(): void {
+    this.stopped = false;
+    if (this.ws) return;
+
+    this.handlers.onStatus?.(this.reconnectAttempt > 0 ? "reconnecting" : "connecting");
+
+    try {
+      this.ws = new WebSocket(USER_WS_URL);
+
+      this.ws.onopen = () => {
+        this.reconnectAttempt = 0;
+        this.send({
+          type: "user",
+          auth: {
+            apiKey: this.creds.apiKey,
+            secret: this.creds.apiSecret,
+            passphrase: this.creds.apiPassphrase,
+          },
+          markets: [],
+        });
+        this.startPing();
+        this.handlers.onStatus?.("connected");
+        if (this.hasConnected) this.handlers.onReconnect?.();
+        this.hasConnected = true;
+      };
+
+      this.ws.onmessage = (event) => {
+        const data = typeof event.data === "string" ? event.data : String(event.data ?? "");
+        if (data.trim().toUpperCase() === "PONG") return;
+        recordEvent("ws_user", { apiKey: this.creds.apiKey, frame: data });
+        let raw: unknown;
+        try {
+          raw = JSON.parse(data);
+        } catch {
+          return;
+        }
+        for (const msg of parseUserMessages(raw)) {
+          try {
+            if (msg.type === "order") this.handlers.onOrder?.(msg);
+            else this.handlers.onTrade?.(msg);
+          } catch (err) {
+            console.error("User channel handler error:", err);
+          }
+        }
+      };
+
+      this.ws.onclose = () => {
+        this.ws = null;
+        this.stopPing();
+        if (this.stopped) return;
+        this.handlers.onStatus?.("disconnected");
+        this.scheduleReconnect();
+      };
+
+      this.ws.onerror = () => {
+        // onclose handles reconnection
+      };
+    } catch {
+      this.ws = null;
+      this.handlers.onStatus?.("error");
+      this.scheduleReconnect();
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1_000 * Math.pow(2, this.reconnectAttempt), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempt++;
+    this.handlers.onStatus?.("reconnecting");
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send("PING");
+      }
+    }, PING_INTERVAL);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    if (this.ws) {
+      this.ws.close(1000, "Client disconnect");
+      this.ws = null;
+    }
+    this.handlers.onStatus?.("disconnected");
+  }
+}
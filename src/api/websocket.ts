@@ -1,89 +1,154 @@
 /**
- * Polymarket WebSocket client for real-time market data
- * Uses the CLOB WebSocket API for market updates
+ * Shared CLOB market-data bus — one multiplexed WebSocket for the whole app.
+ * Components, alerts, the agent and the rule engine subscribe to asset IDs here;
+ * subscriptions are reference-counted and replayed after every reconnect.
  */
 
-import { setConnectionStatus, wsConnectionStatus, addMarketUpdate } from "../state";
-
-export type WsEventType =
-  | "connect"
-  | "disconnect"
-  | "market_update"
-  | "price_change"
-  | "order_book"
-  | "trade"
-  | "error";
-
-export interface WsMarketUpdate {
-  type: "price_change" | "order_book" | "trade";
-  tokenId: string;
-  marketId?: string;
-  price?: number;
+import { createEffect } from "solid-js";
+import { setConnectionStatus, wsConnectionStatus, addMarketUpdate, appState, ConnectionStatus } from "../state";
+import { parseClobMessages, WsMessage, WsBookSnapshot, WsPriceChange, WsTrade } from "./ws";
+import { recordEvent, isReplayMode } from "./recording";
+
+export interface WsStreamMap {
+  book: WsBookSnapshot;
+  price_change: WsPriceChange;
+  last_trade_price: WsTrade;
+}
+
+export type WsStream = keyof WsStreamMap;
+
+export interface LiveQuote {
+  assetId: string;
   bid?: number;
   ask?: number;
-  size?: number;
-  side?: "BUY" | "SELL";
+  last?: number;
+  price?: number;      // display price: midpoint, or last trade when the spread is wide
   timestamp: number;
 }
 
-export interface WsMessage {
-  event: string;
-  data?: unknown;
-  channel?: string;
-}
+const WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
 
-const WS_URL = "wss://clob.polymarket.com/ws";
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const PING_INTERVAL = 10_000;
+// Polymarket shows the last trade instead of the midpoint above this spread
+const WIDE_SPREAD = 0.1;
 
-const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
-const MAX_RECONNECT_ATTEMPTS = 10;
-const PING_INTERVAL = 30000;
+type StreamHandler<K extends WsStream> = (msg: WsStreamMap[K]) => void;
 
-class WebSocketClient {
+class MarketDataBus {
   private ws: WebSocket | null = null;
   private reconnectAttempt = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private pingTimer: ReturnType<typeof setInterval> | null = null;
-  private subscribedTokens: Set<string> = new Set();
   private isConnecting = false;
+  private stopped = false;
+  private initialSent = false;
   private lastConnectedAt: number | null = null;
-  private messageHandlers: Map<WsEventType, Set<(data: unknown) => void>> = new Map();
-
-  constructor() {
-    for (const type of [
-      "connect",
-      "disconnect",
-      "market_update",
-      "price_change",
-      "order_book",
-      "trade",
-      "error",
-    ] as WsEventType[]) {
-      this.messageHandlers.set(type, new Set());
+  private refCounts: Map<string, number> = new Map();
+  private pendingSubscribe: Set<string> = new Set();
+  private pendingUnsubscribe: Set<string> = new Set();
+  private flushScheduled = false;
+  private quotes: Map<string, LiveQuote> = new Map();
+  private streamHandlers: { [K in WsStream]: Set<StreamHandler<K>> } = {
+    book: new Set(),
+    price_change: new Set(),
+    last_trade_price: new Set(),
+  };
+  private statusHandlers: Set<(status: ConnectionStatus) => void> = new Set();
+
+  /**
+   * Reference-counted subscription. Returns a release function; the asset is
+   * unsubscribed upstream only when its last holder releases it.
+   */
+  subscribe(assetIds: string[]): () => void {
+    const ids = Array.from(new Set(assetIds.filter(Boolean)));
+    for (const id of ids) {
+      const count = this.refCounts.get(id) ?? 0;
+      this.refCounts.set(id, count + 1);
+      if (count === 0) {
+        this.pendingUnsubscribe.delete(id);
+        this.pendingSubscribe.add(id);
+      }
     }
+    this.scheduleFlush();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const id of ids) {
+        const count = this.refCounts.get(id) ?? 0;
+        if (count <= 1) {
+          this.refCounts.delete(id);
+          this.quotes.delete(id);
+          this.pendingSubscribe.delete(id);
+          this.pendingUnsubscribe.add(id);
+        } else {
+          this.refCounts.set(id, count - 1);
+        }
+      }
+      this.scheduleFlush();
+    };
+  }
+
+  /** Typed stream listener, optionally filtered to a set of asset IDs. */
+  on<K extends WsStream>(stream: K, handler: StreamHandler<K>, assetIds?: string[]): () => void {
+    const filter = assetIds ? new Set(assetIds) : null;
+    const wrapped: StreamHandler<K> = filter
+      ? (msg) => {
+          if (filter.has(msg.assetId)) handler(msg);
+        }
+      : handler;
+    this.streamHandlers[stream].add(wrapped);
+    return () => {
+      this.streamHandlers[stream].delete(wrapped);
+    };
   }
 
-  on(event: WsEventType, handler: (data: unknown) => void): () => void {
-    this.messageHandlers.get(event)!.add(handler);
-    return () => this.messageHandlers.get(event)!.delete(handler);
+  onStatus(handler: (status: ConnectionStatus) => void): () => void {
+    this.statusHandlers.add(handler);
+    return () => {
+      this.statusHandlers.delete(handler);
+    };
   }
 
-  private emit(event: WsEventType, data: unknown): void {
-    this.messageHandlers.get(event)?.forEach((handler) => {
+  getQuote(assetId: string): LiveQuote | undefined {
+    return this.quotes.get(assetId);
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    setConnectionStatus(status);
+    this.statusHandlers.forEach((handler) => handler(status));
+  }
+
+  private emit<K extends WsStream>(stream: K, msg: WsStreamMap[K]): void {
+    this.streamHandlers[stream].forEach((handler) => {
       try {
-        handler(data);
+        handler(msg);
       } catch (err) {
-        console.error(`WebSocket handler error for ${event}:`, err);
+        console.error(`Market data handler error for ${stream}:`, err);
       }
     });
   }
 
   connect(): void {
+    this.stopped = false;
     if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) {
       return;
     }
+    // The market channel expects an asset list on open; wait for the first subscriber
+    if (this.refCounts.size === 0) {
+      return;
+    }
+    // Replayed frames arrive through ingest(); never open a socket
+    if (isReplayMode()) {
+      if (wsConnectionStatus() !== "connected") this.setStatus("connected");
+      return;
+    }
 
     this.isConnecting = true;
-    setConnectionStatus("connecting");
+    this.initialSent = false;
+    this.setStatus(this.reconnectAttempt > 0 ? "reconnecting" : "connecting");
 
     try {
       this.ws = new WebSocket(WS_URL);
@@ -92,120 +157,158 @@ class WebSocketClient {
         this.isConnecting = false;
         this.reconnectAttempt = 0;
         this.lastConnectedAt = Date.now();
-        setConnectionStatus("connected");
-        this.emit("connect", { timestamp: Date.now() });
+        this.setStatus("connected");
         this.resubscribe();
         this.startPing();
       };
 
       this.ws.onmessage = (event) => {
-        this.handleMessage(event.data);
+        this.handleMessage(typeof event.data === "string" ? event.data : String(event.data ?? ""));
       };
 
-      this.ws.onclose = (event) => {
+      this.ws.onclose = () => {
         this.isConnecting = false;
+        this.ws = null;
         this.stopPing();
-
-        if (!event.wasClean) {
-          setConnectionStatus("disconnected");
-          this.emit("disconnect", { code: event.code, reason: event.reason });
-          this.scheduleReconnect();
-        }
+        if (this.stopped) return;
+        this.setStatus("disconnected");
+        this.scheduleReconnect();
       };
 
-      this.ws.onerror = (error) => {
-        this.isConnecting = false;
-        console.error("WebSocket error:", error);
-        this.emit("error", { error });
+      this.ws.onerror = () => {
+        // onclose handles reconnection
       };
-    } catch (error) {
+    } catch {
       this.isConnecting = false;
-      setConnectionStatus("error");
-      this.emit("error", { error });
+      this.setStatus("error");
       this.scheduleReconnect();
     }
   }
 
+  /** Feed a raw market-channel frame through the normal dispatch path (replay). */
+  ingest(data: string): void {
+    this.handleMessage(data);
+  }
+
   private handleMessage(data: string): void {
+    if (data.trim().toUpperCase() === "PONG") return;
+    recordEvent("ws_market", data);
+
+    let raw: unknown;
     try {
-      const message = JSON.parse(data) as WsMessage;
-
-      if (message.channel === "market" || message.channel === "prices") {
-        const payload = message.data as Record<string, unknown>;
-        const tokenId = (payload.asset_id as string) || (payload.token_id as string);
-
-        if (tokenId) {
-          const update: WsMarketUpdate = {
-            type: "price_change",
-            tokenId,
-            marketId: payload.condition_id as string | undefined,
-            price: payload.price ? parseFloat(String(payload.price)) : undefined,
-            bid: payload.bid ? parseFloat(String(payload.bid)) : undefined,
-            ask: payload.ask ? parseFloat(String(payload.ask)) : undefined,
-            timestamp: Date.now(),
-          };
-
-          addMarketUpdate(update);
-          this.emit("market_update", update);
-          this.emit("price_change", update);
-        }
-      } else if (message.channel === "orderbook") {
-        const payload = message.data as Record<string, unknown>;
-        const tokenId = (payload.asset_id as string) || (payload.token_id as string);
-
-        if (tokenId) {
-          const update: WsMarketUpdate = {
-            type: "order_book",
-            tokenId,
-            marketId: payload.condition_id as string | undefined,
-            timestamp: Date.now(),
-          };
-          this.emit("market_update", update);
-          this.emit("order_book", update);
-        }
-      } else if (message.channel === "trades" || message.event === "trade") {
-        const payload = message.data as Record<string, unknown>;
-        const tokenId = (payload.asset_id as string) || (payload.token_id as string);
-
-        if (tokenId) {
-          const update: WsMarketUpdate = {
-            type: "trade",
-            tokenId,
-            marketId: payload.condition_id as string | undefined,
-            price: payload.price ? parseFloat(String(payload.price)) : undefined,
-            size: payload.size ? parseFloat(String(payload.size)) : undefined,
-            side: payload.side as "BUY" | "SELL" | undefined,
-            timestamp: Date.now(),
-          };
-          this.emit("market_update", update);
-          this.emit("trade", update);
-        }
-      }
+      raw = JSON.parse(data);
     } catch {
-      // Ignore non-JSON messages
+      return;
+    }
+
+    for (const msg of parseClobMessages(raw)) {
+      if (!this.refCounts.has(msg.assetId)) continue;
+      this.updateQuote(msg);
+      if (msg.type === "book") this.emit("book", msg);
+      else if (msg.type === "price_change") this.emit("price_change", msg);
+      else this.emit("last_trade_price", msg);
     }
   }
 
-  private scheduleReconnect(): void {
-    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
-      setConnectionStatus("error");
+  private updateQuote(msg: WsMessage): void {
+    const prev = this.quotes.get(msg.assetId) ?? { assetId: msg.assetId, timestamp: 0 };
+    const next: LiveQuote = { ...prev, timestamp: Date.now() };
+
+    if (msg.type === "book") {
+      const bids = msg.bids.filter((l) => l.size > 0).map((l) => l.price);
+      const asks = msg.asks.filter((l) => l.size > 0).map((l) => l.price);
+      next.bid = bids.length > 0 ? Math.max(...bids) : undefined;
+      next.ask = asks.length > 0 ? Math.min(...asks) : undefined;
+    } else if (msg.type === "price_change") {
+      if (msg.bestBid !== undefined) next.bid = msg.bestBid;
+      if (msg.bestAsk !== undefined) next.ask = msg.bestAsk;
+    } else {
+      next.last = msg.price;
+    }
+
+    const { bid, ask, last } = next;
+    if (bid !== undefined && ask !== undefined && ask - bid <= WIDE_SPREAD) {
+      next.price = (bid + ask) / 2;
+    } else if (last !== undefined) {
+      next.price = last;
+    }
+    this.quotes.set(msg.assetId, next);
+
+    if (next.price !== undefined && next.price !== prev.price) {
+      addMarketUpdate({ tokenId: msg.assetId, price: next.price, bid: next.bid, ask: next.ask, timestamp: next.timestamp });
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    // Batch subscribe/release calls made in the same tick into one message each
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (isReplayMode()) {
+      this.pendingSubscribe.clear();
+      this.pendingUnsubscribe.clear();
+      this.connect();
       return;
     }
+    if (!this.ws && !this.isConnecting && !this.reconnectTimer && !this.stopped && this.refCounts.size > 0) {
+      this.pendingSubscribe.clear();
+      this.pendingUnsubscribe.clear();
+      this.connect();
+      return;
+    }
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
 
-    const delay = RECONNECT_DELAYS[Math.min(this.reconnectAttempt, RECONNECT_DELAYS.length - 1)];
-    this.reconnectAttempt++;
+    if (this.pendingUnsubscribe.size > 0) {
+      this.send({ operation: "unsubscribe", assets_ids: Array.from(this.pendingUnsubscribe) });
+      this.pendingUnsubscribe.clear();
+    }
+    if (this.pendingSubscribe.size > 0) {
+      const ids = Array.from(this.pendingSubscribe);
+      this.pendingSubscribe.clear();
+      if (this.initialSent) {
+        this.send({ operation: "subscribe", assets_ids: ids, custom_feature_enabled: true });
+      } else {
+        this.resubscribe();
+      }
+    }
+  }
+
+  private resubscribe(): void {
+    this.pendingSubscribe.clear();
+    this.pendingUnsubscribe.clear();
+    if (this.refCounts.size === 0) return;
+    this.send({ type: "market", assets_ids: Array.from(this.refCounts.keys()), custom_feature_enabled: true });
+    this.initialSent = true;
+  }
 
-    setConnectionStatus("reconnecting");
+  private send(message: Record<string, unknown>): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1_000 * Math.pow(2, this.reconnectAttempt), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempt++;
+    this.setStatus("reconnecting");
 
     this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect();
     }, delay);
   }
 
   private startPing(): void {
+    this.stopPing();
     this.pingTimer = setInterval(() => {
       if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ event: "ping" }));
+        this.ws.send("PING");
       }
     }, PING_INTERVAL);
   }
@@ -217,46 +320,8 @@ class WebSocketClient {
     }
   }
 
-  subscribe(tokenIds: string[]): void {
-    tokenIds.forEach((id) => this.subscribedTokens.add(id));
-
-    if (this.ws?.readyState === WebSocket.OPEN && tokenIds.length > 0) {
-      const marketsMessage = {
-        type: "subscribe",
-        channel: "markets",
-        token_ids: tokenIds,
-      };
-      this.ws.send(JSON.stringify(marketsMessage));
-
-      const tradesMessage = {
-        type: "subscribe",
-        channel: "trades",
-        token_ids: tokenIds,
-      };
-      this.ws.send(JSON.stringify(tradesMessage));
-    }
-  }
-
-  unsubscribe(tokenIds: string[]): void {
-    tokenIds.forEach((id) => this.subscribedTokens.delete(id));
-
-    if (this.ws?.readyState === WebSocket.OPEN && tokenIds.length > 0) {
-      const marketsMessage = {
-        type: "unsubscribe",
-        channel: "markets",
-        token_ids: tokenIds,
-      };
-      this.ws.send(JSON.stringify(marketsMessage));
-    }
-  }
-
-  private resubscribe(): void {
-    if (this.subscribedTokens.size > 0) {
-      this.subscribe(Array.from(this.subscribedTokens));
-    }
-  }
-
   disconnect(): void {
+    this.stopped = true;
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -269,11 +334,10 @@ class WebSocketClient {
       this.ws = null;
     }
 
-    setConnectionStatus("disconnected");
-    this.reconnectAttempt = MAX_RECONNECT_ATTEMPTS;
+    this.setStatus("disconnected");
   }
 
-  getStatus(): "connected" | "disconnected" | "connecting" | "reconnecting" | "error" {
+  getStatus(): ConnectionStatus {
     return wsConnectionStatus();
   }
 
@@ -281,26 +345,39 @@ class WebSocketClient {
     return this.lastConnectedAt;
   }
 
-  getSubscribedTokens(): string[] {
-    return Array.from(this.subscribedTokens);
+  getSubscribedAssets(): string[] {
+    return Array.from(this.refCounts.keys());
   }
 }
 
-let wsClientInstance: WebSocketClient | null = null;
+let busInstance: MarketDataBus | null = null;
 
-export function getWebSocketClient(): WebSocketClient {
-  if (!wsClientInstance) {
-    wsClientInstance = new WebSocketClient();
+export function getMarketDataBus(): MarketDataBus {
+  if (!busInstance) {
+    busInstance = new MarketDataBus();
   }
-  return wsClientInstance;
+  return busInstance;
 }
 
+/**
+ * Subscribe every outcome in the market list so prices stream in between REST
+ * polls. Must be called inside a reactive owner (AppContent).
+ */
 export function initializeWebSocket(): void {
-  const client = getWebSocketClient();
-  client.connect();
+  const bus = getMarketDataBus();
+  let releaseMarketList: (() => void) | null = null;
+
+  createEffect(() => {
+    const ids = appState.markets.flatMap((m) => m.outcomes.map((o) => o.id));
+    // Acquire before releasing so unchanged IDs never drop to zero
+    const previous = releaseMarketList;
+    releaseMarketList = bus.subscribe(ids);
+    previous?.();
+  });
+
+  bus.connect();
 }
 
 export function disconnectWebSocket(): void {
-  const client = getWebSocketClient();
-  client.disconnect();
+  getMarketDataBus().disconnect();
 }
@@ -1,11 +1,9 @@
 /**
- * WebSocket manager for CLOB real-time streaming
- * Connects to wss://ws-subscriptions-clob.polymarket.com/ws/
- * Provides auto-reconnecting WebSocket with exponential backoff
+ * CLOB WebSocket message types and parsing (market and user channels).
+ * Connections live in the shared market-data bus (./websocket) and the
+ * authenticated user channel (./user-channel).
  */
 
-export type WsStatus = "connecting" | "connected" | "disconnected";
-
 export interface BookLevel {
   price: number;
   size: number;
@@ -16,7 +14,9 @@ export interface WsBookSnapshot {
   assetId: string;
   bids: BookLevel[];
   asks: BookLevel[];
+  hash?: string;
   timestamp: string;
+  raw: Record<string, unknown>;   // original payload, kept for checksum validation
 }
 
 export interface WsPriceChange {
@@ -25,7 +25,11 @@ export interface WsPriceChange {
   side: "BUY" | "SELL";
   price: number;
   size: number;
+  bestBid?: number;      // top of book after the change, when the server includes it
+  bestAsk?: number;
+  hash?: string;         // book hash after the change
   timestamp: string;
+  raw?: Record<string, unknown>;   // original change entry (exact price/size strings)
 }
 
 export interface WsTrade {
@@ -39,236 +43,190 @@ export interface WsTrade {
 
 export type WsMessage = WsBookSnapshot | WsPriceChange | WsTrade;
 
-type MessageHandler = (msg: WsMessage) => void;
-type StatusHandler = (status: WsStatus) => void;
-
-const CLOB_WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
-const MAX_RECONNECT_DELAY_MS = 30_000;
-const HEARTBEAT_INTERVAL_MS = 10_000;
-
-/**
- * Creates an auto-reconnecting WebSocket manager for CLOB market data.
- * Subscribes to real-time book snapshots, price changes, and last trade prices.
- */
-export function createClobWebSocket() {
-  let ws: WebSocket | null = null;
-  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  let reconnectCount = 0;
-  let destroyed = false;
-  let currentAssetIds: string[] = [];
-
-  const messageHandlers = new Set<MessageHandler>();
-  const statusHandlers = new Set<StatusHandler>();
+function parseLevel(raw: { price: string | number; size: string | number }): BookLevel {
+  return {
+    price: typeof raw.price === "string" ? parseFloat(raw.price) : raw.price,
+    size: typeof raw.size === "string" ? parseFloat(raw.size) : raw.size,
+  };
+}
 
-  function emitStatus(status: WsStatus) {
-    statusHandlers.forEach((fn) => fn(status));
-  }
+function parseNumber(raw: unknown): number {
+  if (typeof raw === "number") return raw;
+  if (typeof raw === "string") return Number.parseFloat(raw);
+  return Number.NaN;
+}
 
-  function parseLevel(raw: { price: string | number; size: string | number }): BookLevel {
-    return {
-      price: typeof raw.price === "string" ? parseFloat(raw.price) : raw.price,
-      size: typeof raw.size === "string" ? parseFloat(raw.size) : raw.size,
-    };
-  }
+/** Parse one raw market-channel payload (object or array) into typed messages. */
+export function parseClobMessages(raw: unknown): WsMessage[] {
+  const out: WsMessage[] = [];
+  const entries = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object"
+      ? [raw]
+      : [];
 
-  function parseNumber(raw: unknown): number {
-    if (typeof raw === "number") return raw;
-    if (typeof raw === "string") return Number.parseFloat(raw);
-    return Number.NaN;
-  }
+  for (const item of entries) {
+    if (!item || typeof item !== "object") continue;
 
-  function stopHeartbeat() {
-    if (heartbeatTimer !== null) {
-      clearInterval(heartbeatTimer);
-      heartbeatTimer = null;
-    }
-  }
+    const eventType = (item as Record<string, unknown>).event_type as string | undefined;
 
-  function startHeartbeat() {
-    stopHeartbeat();
-    heartbeatTimer = setInterval(() => {
-      if (ws?.readyState === WebSocket.OPEN) {
-        ws.send("PING");
-      }
-    }, HEARTBEAT_INTERVAL_MS);
-  }
-
-  function handleRawMessage(raw: unknown) {
-    const entries = Array.isArray(raw)
-      ? raw
-      : raw && typeof raw === "object"
-        ? [raw]
+    if (eventType === "book") {
+      const bids = Array.isArray((item as Record<string, unknown>).bids)
+        ? ((item as Record<string, unknown>).bids as Array<{ price: string | number; size: string | number }>).map(parseLevel)
+        : [];
+      const asks = Array.isArray((item as Record<string, unknown>).asks)
+        ? ((item as Record<string, unknown>).asks as Array<{ price: string | number; size: string | number }>).map(parseLevel)
         : [];
 
-    for (const item of entries) {
-      if (!item || typeof item !== "object") continue;
-
-      const eventType = (item as Record<string, unknown>).event_type as string | undefined;
-
-      if (eventType === "book") {
-        const bids = Array.isArray((item as Record<string, unknown>).bids)
-          ? ((item as Record<string, unknown>).bids as Array<{ price: string | number; size: string | number }>).map(parseLevel)
-          : [];
-        const asks = Array.isArray((item as Record<string, unknown>).asks)
-          ? ((item as Record<string, unknown>).asks as Array<{ price: string | number; size: string | number }>).map(parseLevel)
+      const msg: WsBookSnapshot = {
+        type: "book",
+        assetId: String((item as Record<string, unknown>).asset_id ?? ""),
+        bids,
+        asks,
+        hash: typeof (item as Record<string, unknown>).hash === "string" ? ((item as Record<string, unknown>).hash as string) : undefined,
+        timestamp: String((item as Record<string, unknown>).timestamp ?? ""),
+        raw: item as Record<string, unknown>,
+      };
+      out.push(msg);
+    } else if (eventType === "price_change") {
+      const priceChanges = Array.isArray((item as Record<string, unknown>).price_changes)
+        ? ((item as Record<string, unknown>).price_changes as Array<Record<string, unknown>>)
+        : Array.isArray((item as Record<string, unknown>).changes)
+          ? ((item as Record<string, unknown>).changes as Array<Record<string, unknown>>)
           : [];
 
-        const msg: WsBookSnapshot = {
-          type: "book",
-          assetId: String((item as Record<string, unknown>).asset_id ?? ""),
-          bids,
-          asks,
-          timestamp: String((item as Record<string, unknown>).timestamp ?? ""),
-        };
-        messageHandlers.forEach((fn) => fn(msg));
-      } else if (eventType === "price_change") {
-        const priceChanges = Array.isArray((item as Record<string, unknown>).price_changes)
-          ? ((item as Record<string, unknown>).price_changes as Array<Record<string, unknown>>)
-          : Array.isArray((item as Record<string, unknown>).changes)
-            ? ((item as Record<string, unknown>).changes as Array<Record<string, unknown>>)
-            : [];
-
-        for (const change of priceChanges) {
-          const side = (change.side as string) === "BUY" ? "BUY" : "SELL";
-          const assetId = String(change.asset_id ?? (item as Record<string, unknown>).asset_id ?? "");
-          const price = parseNumber(change.price);
-          const size = parseNumber(change.size);
-          if (!assetId || !Number.isFinite(price) || !Number.isFinite(size)) continue;
-
-          const msg: WsPriceChange = {
-            type: "price_change",
-            assetId,
-            side,
-            price,
-            size,
-            timestamp: String((item as Record<string, unknown>).timestamp ?? ""),
-          };
-          messageHandlers.forEach((fn) => fn(msg));
-        }
-      } else if (eventType === "last_trade_price") {
-        const side = (item as Record<string, unknown>).side === "BUY" ? "BUY" : "SELL";
-        const price = (item as Record<string, unknown>).price;
-        const size = (item as Record<string, unknown>).size;
-
-        const msg: WsTrade = {
-          type: "last_trade_price",
-          assetId: String((item as Record<string, unknown>).asset_id ?? ""),
-          price: typeof price === "string" ? parseFloat(price) : Number(price),
-          size: typeof size === "string" ? parseFloat(size) : Number(size),
+      for (const change of priceChanges) {
+        const side = (change.side as string) === "BUY" ? "BUY" : "SELL";
+        const assetId = String(change.asset_id ?? (item as Record<string, unknown>).asset_id ?? "");
+        const price = parseNumber(change.price);
+        const size = parseNumber(change.size);
+        if (!assetId || !Number.isFinite(price) || !Number.isFinite(size)) continue;
+        const bestBid = parseNumber(change.best_bid);
+        const bestAsk = parseNumber(change.best_ask);
+
+        const msg: WsPriceChange = {
+          type: "price_change",
+          assetId,
           side,
+          price,
+          size,
+          bestBid: Number.isFinite(bestBid) ? bestBid : undefined,
+          bestAsk: Number.isFinite(bestAsk) ? bestAsk : undefined,
+          hash: typeof change.hash === "string" ? change.hash : undefined,
           timestamp: String((item as Record<string, unknown>).timestamp ?? ""),
+          raw: change,
         };
-        messageHandlers.forEach((fn) => fn(msg));
+        out.push(msg);
       }
+    } else if (eventType === "last_trade_price") {
+      const side = (item as Record<string, unknown>).side === "BUY" ? "BUY" : "SELL";
+      const price = (item as Record<string, unknown>).price;
+      const size = (item as Record<string, unknown>).size;
+
+      const msg: WsTrade = {
+        type: "last_trade_price",
+        assetId: String((item as Record<string, unknown>).asset_id ?? ""),
+        price: typeof price === "string" ? parseFloat(price) : Number(price),
+        size: typeof size === "string" ? parseFloat(size) : Number(size),
+        side,
+        timestamp: String((item as Record<string, unknown>).timestamp ?? ""),
+      };
+      out.push(msg);
     }
   }
+  return out;
+}
 
-  function sendInitialSubscribe(assetIds: string[]) {
-    if (ws?.readyState === WebSocket.OPEN && assetIds.length > 0) {
-      ws.send(
-        JSON.stringify({
-          type: "market",
-          assets_ids: assetIds,
-          custom_feature_enabled: true,
-        })
-      );
-    }
-  }
-
-  function sendDynamicSubscribe(assetIds: string[]) {
-    if (ws?.readyState === WebSocket.OPEN && assetIds.length > 0) {
-      ws.send(
-        JSON.stringify({
-          operation: "subscribe",
-          assets_ids: assetIds,
-          custom_feature_enabled: true,
-        })
-      );
-    }
-  }
-
-  function connect() {
-    if (destroyed) return;
-
-    emitStatus("connecting");
-    ws = new WebSocket(CLOB_WS_URL);
-
-    ws.onopen = () => {
-      reconnectCount = 0;
-      emitStatus("connected");
-      startHeartbeat();
-      if (currentAssetIds.length > 0) {
-        sendInitialSubscribe(currentAssetIds);
-      }
-    };
+// ─── user channel ────────────────────────────────────────────────────────────
 
-    ws.onmessage = (event) => {
-      const rawPayload = typeof event.data === "string" ? event.data : String(event.data ?? "");
-      const normalized = rawPayload.trim().toUpperCase();
+export interface WsUserOrder {
+  type: "order";
+  event: "PLACEMENT" | "UPDATE" | "CANCELLATION";
+  orderId: string;
+  assetId: string;
+  market: string;
+  side: "BUY" | "SELL";
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  outcome?: string;
+  timestamp: number;
+}
 
-      if (normalized === "PONG") {
-        return;
-      }
+export interface WsUserTrade {
+  type: "trade";
+  tradeId: string;
+  status: string;         // MATCHED | MINED | CONFIRMED | RETRYING | FAILED
+  assetId: string;
+  market: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  outcome?: string;
+  takerOrderId?: string;
+  traderSide?: "TAKER" | "MAKER";
+  // resting orders filled by this trade, with the amount matched on each
+  makerOrders: { orderId: string; owner?: string; matchedAmount: number; price: number }[];
+  timestamp: number;
+}
 
-      try {
-        const data = JSON.parse(rawPayload);
-        handleRawMessage(data);
-      } catch {
-        // Ignore malformed messages
-      }
-    };
+export type WsUserMessage = WsUserOrder | WsUserTrade;
 
-    ws.onerror = () => {
-      // onclose will handle reconnection
-    };
+function parseTimestamp(raw: unknown): number {
+  const n = parseNumber(raw);
+  if (!Number.isFinite(n)) return Date.now();
+  // the user channel sends seconds on some events, milliseconds on others
+  return n < 1e12 ? n * 1000 : n;
+}
 
-    ws.onclose = () => {
-      stopHeartbeat();
-      if (destroyed) return;
-      emitStatus("disconnected");
-      const delay = Math.min(1_000 * Math.pow(2, reconnectCount), MAX_RECONNECT_DELAY_MS);
-      reconnectCount += 1;
-      reconnectTimer = setTimeout(() => connect(), delay);
-    };
+/** Parse one raw user-channel payload (object or array) into typed messages. */
+export function parseUserMessages(raw: unknown): WsUserMessage[] {
+  const out: WsUserMessage[] = [];
+  const entries = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? [raw] : [];
+
+  for (const item of entries) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const side = String(row.side ?? "").toUpperCase() === "SELL" ? "SELL" : "BUY";
+
+    if (row.event_type === "order") {
+      const kind = String(row.type ?? "UPDATE").toUpperCase();
+      out.push({
+        type: "order",
+        event: kind === "PLACEMENT" || kind === "CANCELLATION" ? kind : "UPDATE",
+        orderId: String(row.id ?? ""),
+        assetId: String(row.asset_id ?? ""),
+        market: String(row.market ?? ""),
+        side,
+        price: parseNumber(row.price),
+        originalSize: parseNumber(row.original_size),
+        sizeMatched: parseNumber(row.size_matched) || 0,
+        outcome: typeof row.outcome === "string" ? row.outcome : undefined,
+        timestamp: parseTimestamp(row.timestamp),
+      });
+    } else if (row.event_type === "trade") {
+      const makers = Array.isArray(row.maker_orders) ? (row.maker_orders as Array<Record<string, unknown>>) : [];
+      out.push({
+        type: "trade",
+        tradeId: String(row.id ?? ""),
+        status: String(row.status ?? "").toUpperCase(),
+        assetId: String(row.asset_id ?? ""),
+        market: String(row.market ?? ""),
+        side,
+        price: parseNumber(row.price),
+        size: parseNumber(row.size),
+        outcome: typeof row.outcome === "string" ? row.outcome : undefined,
+        takerOrderId: typeof row.taker_order_id === "string" ? row.taker_order_id : undefined,
+        traderSide: row.trader_side === "TAKER" || row.trader_side === "MAKER" ? row.trader_side : undefined,
+        makerOrders: makers.map((m) => ({
+          orderId: String(m.order_id ?? ""),
+          owner: typeof m.owner === "string" ? m.owner : undefined,
+          matchedAmount: parseNumber(m.matched_amount) || 0,
+          price: parseNumber(m.price),
+        })),
+        timestamp: parseTimestamp(row.timestamp ?? row.match_time),
+      });
+    }
   }
-
-  return {
-    /** Connect to the WebSocket and start streaming. */
-    connect() {
-      connect();
-    },
-
-    /** Subscribe to market asset IDs for real-time updates. */
-    subscribe(assetIds: string[]) {
-      currentAssetIds = Array.from(new Set(assetIds.filter(Boolean)));
-      sendDynamicSubscribe(currentAssetIds);
-    },
-
-    /** Register a handler for incoming messages. Returns an unsubscribe function. */
-    onMessage(handler: MessageHandler): () => void {
-      messageHandlers.add(handler);
-      return () => messageHandlers.delete(handler);
-    },
-
-    /** Register a handler for connection status changes. Returns an unsubscribe function. */
-    onStatus(handler: StatusHandler): () => void {
-      statusHandlers.add(handler);
-      return () => statusHandlers.delete(handler);
-    },
-
-    /** Close the WebSocket and stop reconnection attempts. */
-    destroy() {
-      destroyed = true;
-      if (reconnectTimer !== null) {
-        clearTimeout(reconnectTimer);
-        reconnectTimer = null;
-      }
-      stopHeartbeat();
-      ws?.close();
-      ws = null;
-      messageHandlers.clear();
-      statusHandlers.clear();
-    },
-  };
+  return out;
 }
@@ -21,6 +21,16 @@ import {
   setWalletModalMode,
   walletModalInput,
   setWalletModalInput,
+  walletModalSignatureType,
+  setWalletModalSignatureType,
+  walletModalPurpose,
+  setWalletModalPurpose,
+  setWalletModalNotice,
+  walletModalAccountIdx,
+  setWalletModalAccountIdx,
+  WalletModalMode,
+  WalletPassphrasePurpose,
+  walletState,
   orderFormOpen,
   setOrderFormOpen,
   orderFormFocusField,
@@ -40,6 +50,11 @@ import {
   orderFormSharesInput,
   orderFormType,
   setOrderFormType,
+  orderFormMode,
+  setOrderFormMode,
+  orderFormExpiryInput,
+  orderFormSlippageInput,
+  OrderFormField,
   orderHistoryOpen,
   setOrderHistoryOpen,
   orderHistorySelectedIdx,
@@ -78,11 +93,26 @@ import {
 
 } from "./state";
 import { useMarketsFetch, useRefreshInterval, manualRefresh } from "./hooks/useMarketData";
-import { initializeWallet, connectWallet, disconnectWalletHook } from "./hooks/useWallet";
+import {
+  initializeWallet,
+  connectWallet,
+  disconnectWalletHook,
+  requestWalletUnlock,
+  unlockWalletHook,
+  lockWalletHook,
+  encryptWalletHook,
+  exportWalletKeystore,
+  importWalletKeystore,
+  cycleAutoLock,
+  addWatchOnlyWallet,
+  switchAccount,
+} from "./hooks/useWallet";
+import { MIN_PASSPHRASE_LENGTH, WalletProfile } from "./auth/wallet";
 import {
   submitOrder,
   cancelOrderById,
   refreshOrders,
+  watchUserOrderStream,
   ordersState,
   cycleOrderHistoryStatusFilter,
   cycleOrderHistoryWindowFilter,
@@ -101,8 +131,34 @@ import {
   cancelAllOpenOrders,
   cancelSelectedMarketOpenOrders,
 } from "./hooks/useOrders";
-import { fetchUserPositions } from "./hooks/usePositions";
-import { loadAlerts, setAlertsState, alertsState, addAlert, dismissAlert, deleteAlert, toggleSound } from "./hooks/useAlerts";
+import { fetchUserPositions, fetchAllAccountPositions, positionsState, toggleAllAccountsView } from "./hooks/usePositions";
+import { paperState, loadPaperAccount, setPaperTrading, resetPaperAccount } from "./hooks/usePaperTrading";
+import { loadAlerts, watchLiveAlertPrices, setAlertsState, alertsState, addAlert, dismissAlert, deleteAlert, toggleSound } from "./hooks/useAlerts";
+import {
+  rulesState,
+  setRulesState,
+  loadRulesState,
+  getSelectedRule,
+  toggleRuleEnabled,
+  deleteRule,
+  startNewRule,
+  startEditRule,
+  cancelRuleEdit,
+  cycleRuleFormOption,
+  editRuleFormText,
+  saveRuleForm,
+  dryRunRule,
+  RULE_FORM_FIELDS,
+} from "./hooks/useRules";
+import {
+  convertState,
+  openConvertPanel,
+  closeConvertPanel,
+  moveConvertSelection,
+  toggleConvertLeg,
+  editConvertAmount,
+  confirmConversion,
+} from "./hooks/useNegRisk";
 import { loadSentiment as refreshSentiment } from "./components/sentiment-panel";
 import {
   setSelectedIndicator,
@@ -183,9 +239,15 @@ import {
 import { refreshWalletBalance } from "./hooks/useWallet";
 import { useAssistant } from "./hooks/useAssistant";
 import { initializeWebSocket } from "./api/websocket";
+import { isReplayMode } from "./api/recording";
+import { getOrderBookEngine } from "./api/orderbook";
+import { parseExpiry } from "./utils/expiry";
+import { OrderType } from "./types/orders";
+import { startReplay } from "./hooks/useReplay";
 import { searchUsers } from "./api/users";
 import { logoutUser, loginUser, registerUser } from "./auth/auth";
 import { sendGlobalMessage, sendDirectMessage } from "./api/messages";
+import { loadAgentLimits, currentApproval, approveCurrent, rejectCurrent } from "./agent/approval";
 
 function AppContent() {
   initializeState();
@@ -194,11 +256,31 @@ function AppContent() {
   initializeMessages();
   useMarketsFetch();
   useRefreshInterval(30000);
-  initializeWallet();
+  // Before the wallet: paper orders match against replayed books too
+  loadPaperAccount();
+  if (isReplayMode()) {
+    // Offline: market data and fills come from the recording, not the wallet
+    startReplay();
+  } else {
+    initializeWallet();
+    watchUserOrderStream();
+  }
   loadAlerts();
+  watchLiveAlertPrices();
   loadWatchlist();
+  loadAgentLimits();
   initializeWebSocket();
 
+  // Held across the steps of adding a wallet account (key, keystore path or
+  // watched address, funder address for proxy / Safe accounts, account name,
+  // passphrase to confirm)
+  let pendingWalletKey = "";
+  let pendingFunder = "";
+  let pendingImportPath = "";
+  let pendingWatchAddress = "";
+  let pendingName = "";
+  let pendingPassphrase = "";
+
   const themeCtx = useTheme();
   const { toggleMode, setTheme, reloadThemes } = themeCtx;
 
@@ -257,28 +339,30 @@ function AppContent() {
         setOrderFormSharesInput("");
         setOrderFormPostOnly(false);
       } else if (e.name === "tab") {
-        setOrderFormFocusField(orderFormFocusField() === "price" ? "shares" : "price");
+        const fields: OrderFormField[] = orderFormMode() === "market"
+          ? ["shares", "slippage"]
+          : ["price", "shares", ...(orderFormType() === "GTD" ? ["expiry" as const] : [])];
+        const idx = fields.indexOf(orderFormFocusField());
+        const delta = e.shift ? -1 : 1;
+        setOrderFormFocusField(fields[(idx + delta + fields.length) % fields.length]);
+      } else if (orderFormFocusField() === "expiry" && e.name !== "return") {
+        // Expiry text ("90m", "2h", "1d") would otherwise trip the letter shortcuts
       } else if (e.name === "t") {
-        const types: Array<"GTC" | "FOK" | "GTD"> = ["GTC", "FOK", "GTD"];
+        const types: OrderType[] = orderFormMode() === "market" ? ["FOK", "FAK"] : ["GTC", "FOK", "GTD"];
         const cur = types.indexOf(orderFormType());
         setOrderFormType(types[(cur + 1) % types.length]);
-      } else if (e.name === "p") {
+      } else if (e.name === "p" && orderFormMode() === "limit") {
         setOrderFormPostOnly(!orderFormPostOnly());
+      } else if (e.name === "m") {
+        const toMarket = orderFormMode() === "limit";
+        setOrderFormMode(toMarket ? "market" : "limit");
+        setOrderFormType(toMarket ? "FOK" : "GTC");
+        setOrderFormPostOnly(false);
+        setOrderFormFocusField("shares");
       } else if (e.name === "return") {
-        const priceInput = orderFormPriceInput();
         const sharesInput = orderFormSharesInput();
-        const price = parseFloat(priceInput);
         const shares = parseFloat(sharesInput);
-        const isPostOnlyValid = !(orderFormPostOnly() && orderFormType() === "FOK");
-
-        // Validate price: must be between 0.01 and 0.99
-        const priceError = isNaN(price)
-          ? "Price must be a valid number"
-          : price < 0.01
-            ? "Price must be at least 0.01"
-            : price > 0.99
-              ? "Price must be at most 0.99"
-              : null;
+        const isPostOnlyValid = !(orderFormPostOnly() && (orderFormType() === "FOK" || orderFormType() === "FAK"));
 
         // Validate shares: must be > 0 with max 2 decimal places
         let sharesError: string | null = null;
@@ -294,7 +378,47 @@ function AppContent() {
           }
         }
 
-        if (!priceError && !sharesError && isPostOnlyValid) {
+        let price = NaN;
+        let priceError: string | null = null;
+        let expiresAt: number | undefined;
+        if (orderFormMode() === "market") {
+          // Market orders are sent at the worst price the slippage limit allows
+          const slippage = parseFloat(orderFormSlippageInput());
+          const quote = isNaN(slippage) || slippage < 0 || isNaN(shares)
+            ? null
+            : getOrderBookEngine().getBook(orderFormTokenId())?.quoteMarketOrder(orderFormSide(), shares, slippage / 100);
+          priceError = !quote
+            ? "No book to price a market order"
+            : orderFormType() === "FOK" && !quote.complete
+              ? "Not enough liquidity within the slippage limit"
+              : quote.filled <= 0
+                ? "No liquidity within the slippage limit"
+                : null;
+          price = quote?.limitPrice ?? NaN;
+        } else {
+          price = parseFloat(orderFormPriceInput());
+
+          // Validate price: must be between 0.01 and 0.99
+          priceError = isNaN(price)
+            ? "Price must be a valid number"
+            : price < 0.01
+              ? "Price must be at least 0.01"
+              : price > 0.99
+                ? "Price must be at most 0.99"
+                : null;
+
+          if (orderFormType() === "GTD") {
+            const expiry = parseExpiry(orderFormExpiryInput());
+            if (expiry.ok) expiresAt = expiry.expiresAt;
+            else priceError ??= expiry.error;
+          }
+        }
+
+        if (!priceError && !sharesError && isPostOnlyValid && walletState.locked && !paperState.enabled) {
+          // Unlock first; the filled-in form comes back afterwards
+          setOrderFormOpen(false);
+          requestWalletUnlock(() => setOrderFormOpen(true));
+        } else if (!priceError && !sharesError && isPostOnlyValid) {
           const market = getSelectedMarket();
           submitOrder({
             tokenId: orderFormTokenId(),
@@ -302,9 +426,11 @@ function AppContent() {
             price,
             shares,
             type: orderFormType(),
+            expiresAt,
             postOnly: orderFormPostOnly(),
             marketTitle: market?.title,
             outcomeTitle: market?.outcomes[0]?.title,
+            negRisk: market?.negRisk,
           }).then((result) => {
             if (result) {
               setOrderFormOpen(false);
@@ -615,6 +741,8 @@ function AppContent() {
         if (e.name === "d") disconnectWalletHook();
         else if (e.name === "r") void refreshWalletBalance();
         else if (e.name === "w") { setSettingsPanelOpen(false); setWalletModalOpen(true); }
+        else if (e.name === "p") setPaperTrading(!paperState.enabled);
+        else if (e.name === "x" && e.shift) resetPaperAccount();
         else if (e.name === "l" && authState.isAuthenticated) {
           logoutUser();
           setAuthState({ isAuthenticated: false, user: null, token: null });
@@ -825,6 +953,71 @@ function AppContent() {
       return;
     }
 
+    // Rules panel intercept — ALL sub-keys handled here (no useKeyboard in component)
+    if (rulesState.panelOpen) {
+      if (rulesState.editing) {
+        if (e.name === "escape") {
+          cancelRuleEdit();
+        } else if (e.name === "tab") {
+          const idx = RULE_FORM_FIELDS.indexOf(rulesState.formFocus);
+          const delta = e.shift ? -1 : 1;
+          setRulesState("formFocus", RULE_FORM_FIELDS[(idx + delta + RULE_FORM_FIELDS.length) % RULE_FORM_FIELDS.length]);
+        } else if (e.name === "left" || e.name === "right") {
+          cycleRuleFormOption(e.name === "left" ? -1 : 1);
+        } else if (e.name === "return") {
+          saveRuleForm();
+        } else if (e.name === "backspace") {
+          editRuleFormText(null);
+        } else if (e.sequence && e.sequence.length === 1 && e.sequence >= " ") {
+          editRuleFormText(e.sequence);
+        }
+      } else {
+        if (e.name === "escape") {
+          setRulesState("panelOpen", false);
+        } else if (e.name === "up" || e.name === "k") {
+          setRulesState("selectedIdx", Math.max(0, rulesState.selectedIdx - 1));
+        } else if (e.name === "down" || e.name === "j") {
+          const maxIdx = Math.max(0, rulesState.rules.length - 1);
+          setRulesState("selectedIdx", Math.min(maxIdx, rulesState.selectedIdx + 1));
+        } else if (e.name === "n") {
+          startNewRule(getSelectedMarket());
+        } else if (e.name === "e") {
+          const rule = getSelectedRule();
+          if (rule) startEditRule(rule);
+        } else if (e.name === "t" || e.name === "space") {
+          const rule = getSelectedRule();
+          if (rule) toggleRuleEnabled(rule.id);
+        } else if (e.name === "d") {
+          const rule = getSelectedRule();
+          if (rule) deleteRule(rule.id);
+        } else if (e.name === "r") {
+          const rule = getSelectedRule();
+          if (rule) void dryRunRule(rule);
+        }
+      }
+      return;
+    }
+
+    // Convert NO panel intercept
+    if (convertState.panelOpen) {
+      if (e.name === "escape") {
+        closeConvertPanel();
+      } else if (e.name === "up" || e.name === "k") {
+        moveConvertSelection(-1);
+      } else if (e.name === "down" || e.name === "j") {
+        moveConvertSelection(1);
+      } else if (e.name === "space") {
+        toggleConvertLeg();
+      } else if (e.name === "return") {
+        void confirmConversion();
+      } else if (e.name === "backspace") {
+        editConvertAmount(null);
+      } else if (e.sequence && e.sequence.length === 1) {
+        editConvertAmount(e.sequence);
+      }
+      return;
+    }
+
     // Auth modal intercept
     if (authModalOpen()) {
       if (e.name === "escape") {
@@ -887,24 +1080,182 @@ function AppContent() {
 
     // Wallet modal intercept
     if (walletModalOpen()) {
+      const mode = walletModalMode();
+      const accounts = walletState.accounts;
+      const profile = (): WalletProfile | undefined =>
+        walletModalSignatureType() === 0
+          ? undefined
+          : { signatureType: walletModalSignatureType(), funderAddress: pendingFunder };
+      const askPassphrase = (next: WalletModalMode, purpose: WalletPassphrasePurpose) => {
+        setWalletModalInput("");
+        setWalletModalPurpose(purpose);
+        setWalletModalMode(next);
+      };
+      const askName = () => {
+        setWalletModalInput("");
+        setWalletModalMode("name");
+      };
+      const resetPending = () => {
+        pendingWalletKey = "";
+        pendingFunder = "";
+        pendingImportPath = "";
+        pendingWatchAddress = "";
+        pendingName = "";
+        pendingPassphrase = "";
+      };
+      const finish = () => {
+        resetPending();
+        setWalletModalInput("");
+        setWalletModalMode("view");
+      };
+      const startAdding = (next: WalletModalMode) => {
+        resetPending();
+        setWalletModalNotice(null);
+        setWalletModalInput("");
+        setWalletModalMode(next);
+      };
+
       if (e.name === "escape") {
-        if (walletModalMode() === "enter") {
-          setWalletModalMode("view");
-          setWalletModalInput("");
+        if (mode !== "view") {
+          finish();
+          setWalletModalNotice(null);
         } else {
           setWalletModalOpen(false);
         }
-      } else if (e.name === "c" && walletModalMode() === "view") {
-        setWalletModalMode("enter");
-      } else if (e.name === "return" && walletModalMode() === "enter") {
+      } else if (mode === "passphrase" || mode === "newPassphrase" || mode === "confirmPassphrase") {
+        // Typed here rather than through <input> so the passphrase is never drawn
+        if (e.name === "backspace") {
+          setWalletModalInput(walletModalInput().slice(0, -1));
+        } else if (e.name === "return") {
+          const passphrase = walletModalInput();
+          const purpose = walletModalPurpose();
+          setWalletModalNotice(null);
+
+          if (mode === "newPassphrase") {
+            if (!passphrase && purpose === "connect") {
+              // No passphrase — stored as before, in plaintext
+              const key = pendingWalletKey;
+              const name = pendingName;
+              const walletProfile = profile();
+              finish();
+              void connectWallet(key, walletProfile, undefined, name);
+            } else if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+              setWalletModalNotice(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+            } else {
+              pendingPassphrase = passphrase;
+              askPassphrase("confirmPassphrase", purpose);
+            }
+          } else if (mode === "confirmPassphrase") {
+            if (passphrase !== pendingPassphrase) {
+              pendingPassphrase = "";
+              setWalletModalNotice("Passphrases don't match — enter it again.");
+              askPassphrase("newPassphrase", purpose);
+            } else {
+              const key = pendingWalletKey;
+              const name = pendingName;
+              const walletProfile = profile();
+              finish();
+              if (purpose === "connect") void connectWallet(key, walletProfile, passphrase, name);
+              else if (purpose === "encrypt") void encryptWalletHook(passphrase);
+              else if (purpose === "export") void exportWalletKeystore(passphrase);
+            }
+          } else if (purpose === "import") {
+            const path = pendingImportPath;
+            const name = pendingName;
+            const walletProfile = profile();
+            finish();
+            void importWalletKeystore(path, passphrase, walletProfile, name);
+          } else if (passphrase) {
+            setWalletModalInput("");
+            void unlockWalletHook(passphrase).then((ok) => {
+              if (!ok) return;
+              setWalletModalMode("view");
+              setWalletModalOpen(false);
+            });
+          }
+        } else if (e.sequence && e.sequence.length === 1 && e.sequence >= " " && !e.ctrl && !e.meta) {
+          setWalletModalInput(walletModalInput() + e.sequence);
+        }
+      } else if (e.name === "return" && mode === "enter") {
         const key = walletModalInput().trim();
         if (key) {
-          setWalletModalMode("view");
+          pendingWalletKey = key;
+          setWalletModalInput("");
+          // Proxy / Safe accounts also need the funder address
+          if (walletModalSignatureType() === 0) askName();
+          else setWalletModalMode("funder");
+        }
+      } else if (e.name === "return" && mode === "import") {
+        const path = walletModalInput().trim();
+        if (path) {
+          pendingImportPath = path;
           setWalletModalInput("");
-          connectWallet(key);
+          if (walletModalSignatureType() === 0) askName();
+          else setWalletModalMode("funder");
+        }
+      } else if (e.name === "return" && mode === "watch") {
+        const address = walletModalInput().trim();
+        if (address) {
+          pendingWatchAddress = address;
+          askName();
+        }
+      } else if (e.name === "return" && mode === "funder") {
+        const funderAddress = walletModalInput().trim();
+        if (funderAddress) {
+          pendingFunder = funderAddress;
+          askName();
+        }
+      } else if (e.name === "return" && mode === "name") {
+        // Empty keeps the default name ("Main", "Account 2", ...)
+        pendingName = walletModalInput().trim();
+        if (pendingWatchAddress) {
+          const address = pendingWatchAddress;
+          const name = pendingName;
+          finish();
+          void addWatchOnlyWallet(address, name);
+        } else if (pendingImportPath) {
+          askPassphrase("passphrase", "import");
+        } else {
+          askPassphrase("newPassphrase", "connect");
+        }
+      } else if (mode === "view") {
+        const digit = Number.parseInt(e.name ?? "", 10);
+        if (e.name === "up" || e.name === "k") {
+          setWalletModalAccountIdx(Math.max(0, walletModalAccountIdx() - 1));
+        } else if (e.name === "down" || e.name === "j") {
+          setWalletModalAccountIdx(Math.min(accounts.length - 1, walletModalAccountIdx() + 1));
+        } else if (e.name === "return" && accounts[walletModalAccountIdx()]) {
+          setWalletModalNotice(null);
+          void switchAccount(accounts[walletModalAccountIdx()].name);
+        } else if (digit >= 1 && digit <= accounts.length) {
+          setWalletModalNotice(null);
+          setWalletModalAccountIdx(digit - 1);
+          void switchAccount(accounts[digit - 1].name);
+        } else if (e.name === "c") {
+          startAdding("enter");
+        } else if (e.name === "i") {
+          startAdding("import");
+        } else if (e.name === "w") {
+          startAdding("watch");
+        } else if (e.name === "t") {
+          setWalletModalSignatureType(((walletModalSignatureType() + 1) % 3) as 0 | 1 | 2);
+        } else if (!walletState.connected) {
+          // The rest act on the active account
+        } else if (e.name === "d") {
+          disconnectWalletHook();
+        } else if (e.name === "u" && walletState.locked) {
+          requestWalletUnlock();
+        } else if (e.name === "l" && walletState.encrypted && !walletState.locked) {
+          lockWalletHook();
+        } else if (e.name === "e" && !walletState.encrypted && !walletState.watchOnly) {
+          setWalletModalNotice(null);
+          askPassphrase("newPassphrase", "encrypt");
+        } else if (e.name === "x" && !walletState.locked && !walletState.watchOnly) {
+          setWalletModalNotice(null);
+          askPassphrase("newPassphrase", "export");
+        } else if (e.name === "a" && walletState.encrypted) {
+          cycleAutoLock();
         }
-      } else if (e.name === "d" && walletModalMode() === "view") {
-        disconnectWalletHook();
       }
       return;
     }
@@ -1012,6 +1363,17 @@ function AppContent() {
       return;
     }
 
+    // Agent approval intercept: a pending real-money tool call takes every key
+    // until it is approved (Y/Enter) or rejected (N/Esc).
+    if (currentApproval()) {
+      if (e.name === "y" || e.name === "return") {
+        approveCurrent();
+      } else if (e.name === "n" || e.name === "escape") {
+        rejectCurrent();
+      }
+      return;
+    }
+
     // Chat input intercept - handle when chat is focused
     const { focused, input, setInput, submitPrompt, blurInput } = useAssistant();
     if (focused()) {
@@ -1041,6 +1403,8 @@ function AppContent() {
       || settingsPanelOpen()
       || shortcutsPanelOpen()
       || alertsState.panelOpen
+      || rulesState.panelOpen
+      || convertState.panelOpen
       || walletModalOpen()
       || filterPanelOpen()
       || analyticsPanelOpen()
@@ -1085,8 +1449,14 @@ function AppContent() {
         const nextOpen = !portfolioOpen();
         setPortfolioOpen(nextOpen);
         if (nextOpen) fetchUserPositions();
+        if (nextOpen && positionsState.allAccounts) void fetchAllAccountPositions();
         break;
       }
+      case "P":
+        // Shift+P — portfolio across all saved wallet accounts
+        setPortfolioOpen(true);
+        toggleAllAccountsView();
+        break;
       case "o": {
         // o — open buy order
         const market = getSelectedMarket();
@@ -1136,6 +1506,11 @@ function AppContent() {
         // z — open price alerts panel
         setAlertsState("panelOpen", true);
         break;
+      case "b":
+        // b — open automation rules panel
+        loadRulesState();
+        setRulesState({ panelOpen: true, dryRunLines: [], formError: "" });
+        break;
       case "l":
         // l — toggle filter panel
         setFilterPanelOpen(!filterPanelOpen());
@@ -1193,6 +1568,10 @@ function AppContent() {
         }
         break;
       }
+      case "N":
+        // Shift+N — convert NO positions in the selected neg-risk event
+        void openConvertPanel(getSelectedMarket());
+        break;
       case "U":
         // Shift+U — toggle user profile panel
         setProfilePanelOpen(!profilePanelOpen());
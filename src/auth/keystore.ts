@@ -0,0 +1,171 @@
+/**
+ * Passphrase encryption for wallet secrets. wallet.json stores them as one
+ * scrypt + AES-256-GCM blob; keystore files use the Ethereum keystore v3
+ * format (scrypt or pbkdf2, AES-128-CTR, keccak MAC) so they move to and from
+ * other wallets.
+ */
+
+import { createCipheriv, createDecipheriv, pbkdf2, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { keccak256 } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+// 2^17 takes about a second on one core and 128 MB — slow enough to hurt guessing
+const SCRYPT_N = 131_072;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_MAXMEM = 512 * 1024 * 1024;
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+  dklen: number;
+  salt: string;   // hex
+}
+
+export interface EncryptedSecrets {
+  version: 1;
+  kdf: "scrypt";
+  kdfparams: ScryptParams;
+  cipher: "aes-256-gcm";
+  iv: string;          // hex
+  tag: string;         // hex
+  ciphertext: string;  // hex
+}
+
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;     // lowercase, no 0x
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: Record<string, unknown>;
+    mac: string;
+  };
+}
+
+function scryptAsync(passphrase: string, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize("NFKC"),
+      Buffer.from(params.salt, "hex"),
+      params.dklen,
+      { N: params.n, r: params.r, p: params.p, maxmem: SCRYPT_MAXMEM },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+function pbkdf2Async(passphrase: string, salt: string, iterations: number, dklen: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    pbkdf2(passphrase.normalize("NFKC"), Buffer.from(salt, "hex"), iterations, dklen, "sha256", (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+}
+
+export function newScryptParams(): ScryptParams {
+  return { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, dklen: 32, salt: randomBytes(32).toString("hex") };
+}
+
+/** The AES key for a blob; callers keep it in memory to re-seal without the passphrase. */
+export function deriveKey(passphrase: string, params: ScryptParams): Promise<Buffer> {
+  return scryptAsync(passphrase, params);
+}
+
+export function sealSecrets(secrets: object, key: Buffer, params: ScryptParams): EncryptedSecrets {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf-8"), cipher.final()]);
+  return {
+    version: 1,
+    kdf: "scrypt",
+    kdfparams: params,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+/** Null when the key is wrong (the GCM tag doesn't verify). */
+export function openSecrets<T>(blob: EncryptedSecrets, key: Buffer): T | null {
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(blob.iv, "hex"));
+    decipher.setAuthTag(Buffer.from(blob.tag, "hex"));
+    const plain = Buffer.concat([decipher.update(Buffer.from(blob.ciphertext, "hex")), decipher.final()]);
+    return JSON.parse(plain.toString("utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function keystoreMac(derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  return Buffer.from(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2), "hex");
+}
+
+export async function encryptKeystoreV3(privateKey: `0x${string}`, passphrase: string): Promise<KeystoreV3> {
+  const params = newScryptParams();
+  const derivedKey = await scryptAsync(passphrase, params);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), "hex")), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt",
+      kdfparams: { ...params },
+      mac: keystoreMac(derivedKey, ciphertext).toString("hex"),
+    },
+  };
+}
+
+/**
+ * Decrypt a v3 keystore. Null when the passphrase is wrong (MAC mismatch);
+ * throws on files that aren't v3 keystores.
+ */
+export async function decryptKeystoreV3(json: unknown, passphrase: string): Promise<`0x${string}` | null> {
+  const file = json as { version?: unknown; crypto?: KeystoreV3["crypto"]; Crypto?: KeystoreV3["crypto"] };
+  const crypto = file?.crypto ?? file?.Crypto;
+  if (file?.version !== 3 || !crypto?.ciphertext || !crypto.kdfparams) {
+    throw new Error("Not an Ethereum v3 keystore file");
+  }
+  if (crypto.cipher !== "aes-128-ctr") {
+    throw new Error(`Unsupported keystore cipher "${crypto.cipher}"`);
+  }
+
+  const kdf = crypto.kdfparams as Record<string, string | number>;
+  let derivedKey: Buffer;
+  if (crypto.kdf === "scrypt") {
+    derivedKey = await scryptAsync(passphrase, {
+      n: Number(kdf.n),
+      r: Number(kdf.r),
+      p: Number(kdf.p),
+      dklen: Number(kdf.dklen),
+      salt: String(kdf.salt),
+    });
+  } else if (crypto.kdf === "pbkdf2") {
+    if (kdf.prf !== "hmac-sha256") throw new Error(`Unsupported keystore PRF "${kdf.prf}"`);
+    derivedKey = await pbkdf2Async(passphrase, String(kdf.salt), Number(kdf.c), Number(kdf.dklen));
+  } else {
+    throw new Error(`Unsupported keystore KDF "${crypto.kdf}"`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+  const mac = Buffer.from(crypto.mac, "hex");
+  const expected = keystoreMac(derivedKey, ciphertext);
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) return null;
+
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, "hex"));
+  const plain = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${plain.toString("hex")}` as `0x${string}`;
+}
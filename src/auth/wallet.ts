@@ -1,15 +1,32 @@
-import { createPublicClient, http, formatUnits } from "viem";
+import { createPublicClient, http, formatUnits, getAddress, isAddress } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { polygon } from "viem/chains";
 import { createHmac } from "crypto";
 import { homedir } from "os";
 import { readFileSync, writeFileSync, mkdirSync } from "fs";
 import { join } from "path";
+import {
+  EncryptedSecrets,
+  ScryptParams,
+  decryptKeystoreV3,
+  deriveKey,
+  encryptKeystoreV3,
+  newScryptParams,
+  openSecrets,
+  sealSecrets,
+} from "./keystore";
+import { WalletAccount } from "../types/market";
 
 const CLOB_API_BASE = "https://clob.polymarket.com";
 const USDC_CONTRACT = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
 const CLOB_AUTH_MESSAGE = "This message attests that I control the given wallet";
 const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const DEFAULT_ACCOUNT_NAME = "Main";
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Headless entry points (CLI, MCP server, scheduler daemon, Telegram bot)
+// can't prompt, so they unlock from this
+export const WALLET_PASSPHRASE_ENV = "POLYMARKET_TUI_PASSPHRASE";
 
 // Custom error classes for better error handling
 export class WalletError extends Error {
@@ -40,21 +57,76 @@ export class ConnectionTimeoutError extends WalletError {
   }
 }
 
+export class WalletLockedError extends WalletError {
+  constructor(message: string = "Wallet is locked. Unlock it with your passphrase (W) first.") {
+    super(message);
+    this.name = "WalletLockedError";
+  }
+}
+
 export interface ApiCredentials {
   apiKey: string;
   apiSecret: string;
   apiPassphrase: string;
 }
 
+/**
+ * How the CLOB verifies an order signature: 0 the key's own address (EOA),
+ * 1 a Polymarket proxy wallet (email / Magic login), 2 a Gnosis Safe
+ * (browser wallet login). For 1 and 2 the funds sit at the funder address
+ * and the key only signs on its behalf.
+ */
+export type SignatureType = 0 | 1 | 2;
+
+export const SIGNATURE_TYPE_LABELS: Record<SignatureType, string> = {
+  0: "EOA",
+  1: "Polymarket proxy",
+  2: "Gnosis Safe",
+};
+
+export interface WalletProfile {
+  signatureType: SignatureType;
+  funderAddress?: string;   // required unless signatureType is 0
+}
+
 export interface WalletConfig {
-  address: string;
-  privateKey: string;
+  name: string;             // account name, unique among the saved accounts
+  address: string;          // signer (EOA derived from the key); the watched address for watch-only accounts
+  privateKey: string;       // empty while an encrypted wallet is locked, and for watch-only accounts
   connectedAt: number;
+  signatureType?: SignatureType;
+  funderAddress?: string;
   apiKey?: string;
   apiSecret?: string;
   apiPassphrase?: string;
+  encrypted?: EncryptedSecrets;   // privateKey / apiSecret / apiPassphrase sealed with the passphrase
+  autoLockMinutes?: number;       // idle minutes before an unlocked wallet locks again; 0 never
+  watchOnly?: boolean;            // address only — positions and P&L, no trading
+}
+
+/** wallet.json: every saved account and which one the app trades with. */
+interface WalletStore {
+  active: string | null;
+  accounts: WalletConfig[];
 }
 
+type WalletSecrets = Pick<WalletConfig, "privateKey" | "apiSecret" | "apiPassphrase">;
+
+/**
+ * An unlocked encrypted wallet: its secrets and the scrypt-derived key, kept
+ * so API credentials can be re-sealed without asking for the passphrase again.
+ */
+interface WalletSession {
+  account: string;
+  secrets: WalletSecrets;
+  key: Buffer;
+}
+
+let session: WalletSession | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let autoLockDisabled = false;  // headless services stay unlocked for their lifetime
+const lockListeners = new Set<(locked: boolean) => void>();
+
 export interface WalletState {
   address: string | null;
   connected: boolean;
@@ -77,29 +149,353 @@ function getWalletConfigPath(): string {
   return join(getConfigDir(), "wallet.json");
 }
 
-export function loadWalletConfig(): WalletConfig | null {
+function isUsableAccount(config: WalletConfig | null | undefined): config is WalletConfig {
+  if (!config?.address || !config.name) return false;
+  return Boolean(config.privateKey || config.encrypted || config.watchOnly);
+}
+
+function readWalletStore(): WalletStore {
   try {
-    const data = readFileSync(getWalletConfigPath(), "utf-8");
-    const parsed = JSON.parse(data) as WalletConfig;
-    if (!parsed || !parsed.address || !parsed.privateKey) return null;
-    return parsed;
+    const parsed = JSON.parse(readFileSync(getWalletConfigPath(), "utf-8"));
+    // Before named accounts wallet.json held a single account
+    if (parsed?.address) {
+      const legacy = { ...parsed, name: parsed.name || DEFAULT_ACCOUNT_NAME } as WalletConfig;
+      return isUsableAccount(legacy) ? { active: legacy.name, accounts: [legacy] } : { active: null, accounts: [] };
+    }
+    const accounts = Array.isArray(parsed?.accounts) ? (parsed.accounts as WalletConfig[]).filter(isUsableAccount) : [];
+    const active = accounts.some((a) => a.name === parsed.active) ? (parsed.active as string) : null;
+    return { active, accounts };
   } catch {
-    return null;
+    return { active: null, accounts: [] };
+  }
+}
+
+function writeWalletStore(store: WalletStore): void {
+  writeFileSync(getWalletConfigPath(), JSON.stringify(store, null, 2), { mode: 0o600 });
+}
+
+/** The active account as stored, secrets still sealed if encrypted. */
+function readWalletFile(): WalletConfig | null {
+  const store = readWalletStore();
+  return store.accounts.find((a) => a.name === store.active) ?? null;
+}
+
+/** Insert or replace the account with this name. */
+function writeWalletFile(config: Partial<WalletConfig> & { name: string }): void {
+  const store = readWalletStore();
+  const account = config as WalletConfig;
+  const idx = store.accounts.findIndex((a) => a.name === config.name);
+  if (idx === -1) store.accounts.push(account);
+  else store.accounts[idx] = account;
+  writeWalletStore(store);
+}
+
+function activateAccount(name: string | null): void {
+  const store = readWalletStore();
+  writeWalletStore({ ...store, active: name });
+}
+
+/**
+ * The active account. For an encrypted wallet the secrets are filled in only
+ * while it is unlocked; otherwise `privateKey` is empty.
+ */
+export function loadWalletConfig(): WalletConfig | null {
+  const stored = readWalletFile();
+  if (!stored?.encrypted) return stored;
+  const secrets = session?.account === stored.name ? session.secrets : { privateKey: "" };
+  return { ...stored, ...secrets };
+}
+
+export function listWalletAccounts(): WalletAccount[] {
+  const store = readWalletStore();
+  return store.accounts.map((a) => ({
+    name: a.name,
+    address: getFunderAddress(a),
+    signatureType: getSignatureType(a),
+    watchOnly: a.watchOnly === true,
+    encrypted: a.encrypted !== undefined,
+    active: a.name === store.active,
+  }));
+}
+
+export function getActiveAccountName(): string | null {
+  return readWalletStore().active;
+}
+
+/**
+ * Make another saved account the active one. The previous account's
+ * decrypted secrets are dropped.
+ * @throws WalletError if no account has that name
+ */
+export function switchWalletAccount(name: string): WalletConfig {
+  const store = readWalletStore();
+  if (!store.accounts.some((a) => a.name === name)) {
+    throw new WalletError(`No saved account named "${name}"`);
+  }
+  lockWallet();
+  writeWalletStore({ ...store, active: name });
+  return loadWalletConfig()!;
+}
+
+/**
+ * Save an address to monitor without its key and make it active.
+ * @throws WalletError if the address is malformed
+ */
+export function addWatchOnlyAccount(address: string, name?: string): WalletConfig {
+  const trimmed = address.trim();
+  if (!isAddress(trimmed, { strict: false })) {
+    throw new WalletError("Address must be a 0x-prefixed 40-character hex address");
+  }
+  const watched = getAddress(trimmed);
+  const config: WalletConfig = {
+    name: resolveAccountName(name, (a) => a.watchOnly === true && a.address === watched),
+    address: watched,
+    privateKey: "",
+    connectedAt: Date.now(),
+    watchOnly: true,
+  };
+  lockWallet();
+  writeWalletFile(config);
+  activateAccount(config.name);
+  return config;
+}
+
+/**
+ * The name a new account is saved under: the one given, else the name of the
+ * saved account it replaces, else "Main" for the first account and
+ * "Account N" after that. Reusing a name replaces that account.
+ */
+function resolveAccountName(name: string | undefined, replaces: (account: WalletConfig) => boolean): string {
+  const given = name?.trim();
+  if (given) return given;
+
+  const accounts = readWalletStore().accounts;
+  const existing = accounts.find(replaces);
+  if (existing) return existing.name;
+  if (accounts.length === 0) return DEFAULT_ACCOUNT_NAME;
+
+  let n = accounts.length + 1;
+  while (accounts.some((a) => a.name === `Account ${n}`)) n++;
+  return `Account ${n}`;
+}
+
+/**
+ * The saved wallet with its signing key, for code about to sign. Using it
+ * counts as activity for the auto-lock.
+ * @throws WalletLockedError while an encrypted wallet is locked
+ */
+export function requireUnlockedWallet(): WalletConfig {
+  const config = loadWalletConfig();
+  if (!config) throw new WalletError("No wallet connected");
+  if (config.watchOnly) throw new WalletError(`"${config.name}" is watch-only — switch to an account with a key to trade`);
+  if (!config.privateKey) throw new WalletLockedError();
+  if (config.encrypted) armIdleLock(config);
+  return config;
+}
+
+export function isWalletEncrypted(): boolean {
+  return readWalletFile()?.encrypted !== undefined;
+}
+
+export function isWalletLocked(): boolean {
+  const stored = readWalletFile();
+  return stored?.encrypted !== undefined && session?.account !== stored.name;
+}
+
+export function onWalletLockChange(listener: (locked: boolean) => void): () => void {
+  lockListeners.add(listener);
+  return () => lockListeners.delete(listener);
+}
+
+function notifyLockChange(locked: boolean): void {
+  for (const listener of lockListeners) listener(locked);
+}
+
+function armIdleLock(config: WalletConfig): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  const minutes = config.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  if (minutes <= 0 || autoLockDisabled) return;
+  idleTimer = setTimeout(lockWallet, minutes * 60_000);
+  // An unlocked wallet shouldn't keep a headless process alive
+  idleTimer.unref?.();
+}
+
+function openSession(config: WalletConfig, secrets: WalletSecrets, key: Buffer): void {
+  if (session) session.key.fill(0);
+  session = { account: config.name, secrets, key };
+  armIdleLock(config);
+  notifyLockChange(false);
+}
+
+/** Forget the decrypted secrets and the derived key. */
+export function lockWallet(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  if (!session) return;
+  session.key.fill(0);
+  session = null;
+  notifyLockChange(true);
+}
+
+function checkNewPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new WalletError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+function writeEncrypted(config: WalletConfig, key: Buffer, params: ScryptParams): WalletSecrets {
+  const { privateKey, apiSecret, apiPassphrase, encrypted: _encrypted, ...publicFields } = config;
+  const secrets = { privateKey, apiSecret, apiPassphrase };
+  writeWalletFile({ ...publicFields, encrypted: sealSecrets(secrets, key, params) });
+  return secrets;
+}
+
+/**
+ * Decrypt an encrypted wallet's secrets and keep them in memory until
+ * `lockWallet` or the idle timeout.
+ * @throws WalletError on a wrong passphrase
+ */
+export async function unlockWallet(passphrase: string): Promise<WalletConfig> {
+  const stored = readWalletFile();
+  if (!stored) throw new WalletError("No wallet connected");
+  if (!stored.encrypted) return stored;
+
+  const key = await deriveKey(passphrase, stored.encrypted.kdfparams);
+  const secrets = openSecrets<WalletSecrets>(stored.encrypted, key);
+  if (!secrets?.privateKey) {
+    key.fill(0);
+    throw new WalletError("Wrong passphrase");
+  }
+  openSession(stored, secrets, key);
+  return { ...stored, ...secrets };
+}
+
+/**
+ * Startup unlock for long-running headless services. An encrypted wallet is
+ * unlocked from WALLET_PASSPHRASE_ENV and kept unlocked, since nobody is there
+ * to unlock it again after an idle lock. No wallet, a plaintext key or a
+ * watch-only account need nothing.
+ * @throws WalletError if the wallet is encrypted and the variable is unset or wrong
+ */
+export async function unlockWalletFromEnv(): Promise<void> {
+  const stored = readWalletFile();
+  if (!stored?.encrypted || stored.watchOnly || !isWalletLocked()) return;
+
+  const passphrase = process.env[WALLET_PASSPHRASE_ENV];
+  if (!passphrase) {
+    throw new WalletError(`Wallet "${stored.name}" is encrypted. Set ${WALLET_PASSPHRASE_ENV} to unlock it.`);
+  }
+  autoLockDisabled = true;
+  await unlockWallet(passphrase);
+}
+
+/** Encrypt a plaintext wallet in place; it stays unlocked. */
+export async function encryptWallet(passphrase: string): Promise<void> {
+  const config = requireUnlockedWallet();
+  if (config.encrypted) throw new WalletError("Wallet is already encrypted");
+  checkNewPassphrase(passphrase);
+
+  const params = newScryptParams();
+  const key = await deriveKey(passphrase, params);
+  openSession(config, writeEncrypted(config, key, params), key);
+}
+
+export function getAutoLockMinutes(): number {
+  return readWalletFile()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+export function setAutoLockMinutes(minutes: number): void {
+  const stored = readWalletFile();
+  if (!stored) return;
+  writeWalletFile({ ...stored, autoLockMinutes: minutes });
+  if (session) armIdleLock({ ...stored, autoLockMinutes: minutes });
+}
+
+/**
+ * Write the key to an Ethereum v3 keystore file next to wallet.json and
+ * return its path
+ */
+export async function exportKeystore(passphrase: string): Promise<string> {
+  const config = requireUnlockedWallet();
+  checkNewPassphrase(passphrase);
+  const keystore = await encryptKeystoreV3(config.privateKey as `0x${string}`, passphrase);
+  const path = join(getConfigDir(), `keystore-${config.address.toLowerCase()}.json`);
+  writeFileSync(path, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  return path;
+}
+
+/**
+ * Connect from an Ethereum v3 keystore file. The key stays encrypted under
+ * the keystore's own passphrase.
+ * @throws WalletError if the file can't be read or the passphrase is wrong
+ */
+export async function importKeystore(
+  path: string,
+  passphrase: string,
+  profile: WalletProfile = { signatureType: 0 },
+  name?: string,
+): Promise<WalletConfig> {
+  const filePath = path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+  let privateKey: `0x${string}` | null;
+  try {
+    privateKey = await decryptKeystoreV3(JSON.parse(readFileSync(filePath, "utf-8")), passphrase);
+  } catch (err) {
+    throw new WalletError(`Can't read keystore: ${err instanceof Error ? err.message : String(err)}`);
   }
+  if (!privateKey) {
+    throw new WalletError("Wrong passphrase for this keystore file");
+  }
+  return storeNewWallet(privateKey, profile, passphrase, name);
+}
+
+export function getSignatureType(config: WalletConfig): SignatureType {
+  return config.signatureType === 1 || config.signatureType === 2 ? config.signatureType : 0;
+}
+
+/**
+ * The address that holds funds and positions: the proxy or Safe for those
+ * profiles, otherwise the signer itself. Orders use it as the maker, and
+ * balance and position lookups should query it.
+ */
+export function getFunderAddress(config: WalletConfig): string {
+  return getSignatureType(config) !== 0 && config.funderAddress ? config.funderAddress : config.address;
 }
 
+/**
+ * Persist the wallet. An encrypted wallet is re-sealed with the session key,
+ * so it must be unlocked.
+ */
 export function saveWalletConfig(config: WalletConfig): void {
-  writeFileSync(getWalletConfigPath(), JSON.stringify(config, null, 2), { mode: 0o600 });
+  if (!config.encrypted) {
+    writeWalletFile(config);
+    return;
+  }
+  if (!session || session.account !== config.name) throw new WalletLockedError();
+  session.secrets = writeEncrypted(config, session.key, config.encrypted.kdfparams);
 }
 
+/** Forget every saved account. */
 export function clearWalletConfig(): void {
   try {
-    writeFileSync(getWalletConfigPath(), JSON.stringify({}), { mode: 0o600 });
+    writeWalletStore({ active: null, accounts: [] });
   } catch {
     // ignore
   }
 }
 
+/**
+ * Forget one saved account; if it was active the next saved account (if any)
+ * becomes active.
+ */
+export function removeWalletAccount(name: string): void {
+  const store = readWalletStore();
+  const accounts = store.accounts.filter((a) => a.name !== name);
+  const active = store.active === name ? (accounts[0]?.name ?? null) : store.active;
+  if (store.active === name) lockWallet();
+  writeWalletStore({ active, accounts });
+}
+
 export function persistApiCredentials(creds: ApiCredentials): void {
   const config = loadWalletConfig();
   if (!config) return;
@@ -146,6 +542,28 @@ function validatePrivateKey(privateKey: string): `0x${string}` {
   return (`0x${hexPart}`) as `0x${string}`;
 }
 
+/**
+ * Validates the funder address for proxy / Safe profiles
+ * @throws WalletError if it is missing or malformed
+ */
+function validateProfile(profile: WalletProfile, signer: string): { signatureType: SignatureType; funderAddress?: string } {
+  if (profile.signatureType === 0) return { signatureType: 0 };
+
+  const label = SIGNATURE_TYPE_LABELS[profile.signatureType];
+  const funder = profile.funderAddress?.trim() ?? "";
+  if (!funder) {
+    throw new WalletError(`A ${label} account needs its funder address (the deposit address shown on polymarket.com)`);
+  }
+  if (!isAddress(funder, { strict: false })) {
+    throw new WalletError("Funder address must be a 0x-prefixed 40-character hex address");
+  }
+  const funderAddress = getAddress(funder);
+  if (funderAddress === getAddress(signer)) {
+    throw new WalletError("The funder address is the key's own address; choose the EOA account type instead");
+  }
+  return { signatureType: profile.signatureType, funderAddress };
+}
+
 /**
  * Wraps a fetch call with timeout
  */
@@ -178,29 +596,65 @@ async function fetchWithTimeout(
 }
 
 /**
- * Connect wallet from a private key string
+ * Connect wallet from a private key string, optionally signing for a proxy
+ * or Safe funder and encrypting the key with a passphrase
  * @throws InvalidPrivateKeyError if the key is invalid
+ * @throws WalletError if the profile's funder address or the passphrase is invalid
  */
-export function connectFromPrivateKey(privateKey: string): WalletConfig {
+export async function connectFromPrivateKey(
+  privateKey: string,
+  profile: WalletProfile = { signatureType: 0 },
+  passphrase?: string,
+  name?: string,
+): Promise<WalletConfig> {
+  if (passphrase !== undefined) checkNewPassphrase(passphrase);
+  return storeNewWallet(privateKey, profile, passphrase, name);
+}
+
+/** Save a new account (or replace the one it matches) and make it active. */
+async function storeNewWallet(
+  privateKey: string,
+  profile: WalletProfile,
+  passphrase?: string,
+  name?: string,
+): Promise<WalletConfig> {
   const normalized = validatePrivateKey(privateKey);
-  
+
+  let config: WalletConfig;
   try {
     const account = privateKeyToAccount(normalized);
-    const config: WalletConfig = {
+    const signing = validateProfile(profile, account.address);
+    config = {
+      name: resolveAccountName(
+        name,
+        (a) => !a.watchOnly && a.address === account.address && getFunderAddress(a) === (signing.funderAddress ?? account.address),
+      ),
       address: account.address,
       privateKey: normalized,
       connectedAt: Date.now(),
+      ...signing,
     };
-    saveWalletConfig(config);
-    return config;
   } catch (err) {
-    if (err instanceof InvalidPrivateKeyError) {
+    if (err instanceof WalletError) {
       throw err;
     }
     // Viem throws various errors for invalid keys
     const message = err instanceof Error ? err.message : "Unknown error";
     throw new InvalidPrivateKeyError(`Failed to derive wallet address: ${message}`);
   }
+
+  lockWallet();
+  if (passphrase === undefined) {
+    saveWalletConfig(config);
+    activateAccount(config.name);
+    return config;
+  }
+  const params = newScryptParams();
+  const key = await deriveKey(passphrase, params);
+  const secrets = writeEncrypted(config, key, params);
+  activateAccount(config.name);
+  openSession(config, secrets, key);
+  return loadWalletConfig()!;
 }
 
 function getStoredApiCredentials(): ApiCredentials | null {
@@ -425,8 +879,11 @@ export async function fetchOrCreateApiCredentials(privateKey: `0x${string}`): Pr
   }
 }
 
+/** Remove the active account; the next saved account, if any, takes over. */
 export function disconnectWallet(): void {
-  clearWalletConfig();
+  const active = getActiveAccountName();
+  if (active) removeWalletAccount(active);
+  lockWallet();
 }
 
 export function truncateAddress(address: string): string {
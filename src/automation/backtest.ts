@@ -0,0 +1,551 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parseArgs } from "util";
+import {
+  TradingRule,
+  MarketData,
+  PositionData,
+  PriceSample,
+  loadRules,
+  checkAllRules,
+  buildOrderFromAction,
+  recordPriceSamples,
+  findActionMarket,
+  firesOnEdge,
+} from "./rules";
+import { checkConditionRules, collectConditionMarketIds } from "./conditions";
+import { getPriceHistory } from "../api/clob/prices";
+import { getCandles } from "../api/clob/additional";
+import { getMarketDetails } from "../api/polymarket";
+import { calculateMaxDrawdown, calculateSharpeRatio } from "../utils/analytics";
+import { Timeframe } from "../types/market";
+import { Order } from "../types/orders";
+
+export interface SeriesPoint {
+  timestamp: number;
+  price: number;
+  volume?: number;
+}
+
+export interface PriceSeries {
+  marketId: string;
+  title?: string;
+  outcome: string;
+  tokenId?: string;
+  points: SeriesPoint[];
+}
+
+export interface BacktestOptions {
+  initialCash?: number;
+  feeBps?: number;             // taker fee applied to every simulated fill
+  historyWindowMs?: number;    // how much sample history percent_change triggers can see
+}
+
+export interface BacktestFill {
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  side: Order["side"];
+  marketId: string;
+  outcome: string;
+  price: number;
+  shares: number;
+  notional: number;
+  fee: number;
+  cashAfter: number;
+}
+
+export interface BacktestEvent {
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  cash: number;
+  positionsValue: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  start: number;
+  end: number;
+  steps: number;
+  initialCash: number;
+  finalEquity: number;
+  totalReturn: number;   // percent
+  maxDrawdown: number;   // percent
+  sharpeRatio: number;   // per-step, risk-free rate 0
+  triggers: number;
+  fills: BacktestFill[];
+  skipped: BacktestEvent[];
+  notifications: BacktestEvent[];
+  equityCurve: EquityPoint[];
+  openPositions: PositionData[];
+}
+
+const DEFAULT_INITIAL_CASH = 1000;
+
+// ─── series loading ──────────────────────────────────────────────────────────
+
+function toMillis(ts: number): number {
+  // CLOB history and candles use unix seconds; local exports are usually ms
+  return ts < 1e12 ? ts * 1000 : ts;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Number.parseFloat(value);
+  return Number.NaN;
+}
+
+function parsePoint(raw: unknown): SeriesPoint | null {
+  if (!raw || typeof raw !== "object") return null;
+  const p = raw as Record<string, unknown>;
+
+  const rawTs = p.timestamp ?? p.time ?? p.t;
+  const timestamp = typeof rawTs === "string" && Number.isNaN(Number(rawTs)) ? Date.parse(rawTs) : toMillis(toNumber(rawTs));
+  let price = toNumber(p.price ?? p.close ?? p.p);
+  if (price > 1) price = price / 100;
+  const volume = toNumber(p.volume ?? p.v);
+
+  if (!Number.isFinite(timestamp) || !Number.isFinite(price)) return null;
+  return { timestamp, price, ...(Number.isFinite(volume) ? { volume } : {}) };
+}
+
+function normalizeSeries(series: PriceSeries): PriceSeries {
+  const byTime = new Map<number, SeriesPoint>();
+  for (const point of series.points) byTime.set(point.timestamp, point);
+  return { ...series, points: Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp) };
+}
+
+function parseJsonSeries(data: unknown, defaults: { marketId?: string; outcome?: string }): PriceSeries[] {
+  const build = (obj: Record<string, unknown>, points: unknown[]): PriceSeries => {
+    const marketId = String(obj.marketId ?? obj.market ?? defaults.marketId ?? "");
+    if (!marketId) throw new Error("Series is missing a marketId (pass --market)");
+    return {
+      marketId,
+      title: typeof obj.title === "string" ? obj.title : undefined,
+      outcome: String(obj.outcome ?? defaults.outcome ?? "Yes"),
+      tokenId: typeof (obj.tokenId ?? obj.outcomeId) === "string" ? String(obj.tokenId ?? obj.outcomeId) : undefined,
+      points: points.map(parsePoint).filter((p): p is SeriesPoint => p !== null),
+    };
+  };
+
+  if (Array.isArray(data)) {
+    // Either a bare array of points or an array of series objects
+    const first = data[0] as Record<string, unknown> | undefined;
+    if (first && typeof first === "object" && ("points" in first || "data" in first || "history" in first)) {
+      return data.flatMap((item) => parseJsonSeries(item, defaults));
+    }
+    return [build({}, data)];
+  }
+
+  if (data && typeof data === "object") {
+    const obj = data as Record<string, unknown>;
+    // PriceHistory ({ data }), CLOB prices-history ({ history }) or our own ({ points })
+    const points = obj.points ?? obj.data ?? obj.history;
+    if (Array.isArray(points)) return [build(obj, points)];
+  }
+
+  throw new Error("Unrecognized JSON series format");
+}
+
+function parseCsvSeries(text: string, defaults: { marketId?: string; outcome?: string }): PriceSeries[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l && !l.startsWith("#"));
+  if (lines.length < 2) throw new Error("CSV series needs a header row and at least one data row");
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const col = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const tsCol = col("timestamp", "time", "t", "date");
+  const priceCol = col("price", "close", "p");
+  const volumeCol = col("volume", "v");
+  const marketCol = col("marketid", "market_id", "market");
+  const outcomeCol = col("outcome");
+  const tokenCol = col("tokenid", "token_id");
+
+  if (tsCol === -1 || priceCol === -1) {
+    throw new Error("CSV header must include timestamp and price (or close) columns");
+  }
+
+  const seriesByKey = new Map<string, PriceSeries>();
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((c) => c.trim());
+    const marketId = (marketCol >= 0 ? cells[marketCol] : undefined) || defaults.marketId;
+    if (!marketId) throw new Error("CSV row is missing a market id (add a marketId column or pass --market)");
+    const outcome = (outcomeCol >= 0 ? cells[outcomeCol] : undefined) || defaults.outcome || "Yes";
+
+    const point = parsePoint({
+      timestamp: cells[tsCol],
+      price: cells[priceCol],
+      volume: volumeCol >= 0 ? cells[volumeCol] : undefined,
+    });
+    if (!point) continue;
+
+    const key = `${marketId}:${outcome.toLowerCase()}`;
+    const series = seriesByKey.get(key) ?? {
+      marketId,
+      outcome,
+      tokenId: tokenCol >= 0 ? cells[tokenCol] || undefined : undefined,
+      points: [],
+    };
+    series.points.push(point);
+    seriesByKey.set(key, series);
+  }
+
+  return Array.from(seriesByKey.values());
+}
+
+export function loadSeriesFile(path: string, defaults: { marketId?: string; outcome?: string } = {}): PriceSeries[] {
+  const text = readFileSync(path, "utf-8");
+  const series = extname(path).toLowerCase() === ".csv"
+    ? parseCsvSeries(text, defaults)
+    : parseJsonSeries(JSON.parse(text), defaults);
+  return series.map(normalizeSeries).filter((s) => s.points.length > 0);
+}
+
+export async function fetchPriceSeries(marketId: string, timeframe: Timeframe = "1M"): Promise<PriceSeries | null> {
+  const history = await getPriceHistory(marketId, timeframe);
+  if (!history) return null;
+
+  const details = await getMarketDetails(marketId);
+  const outcome = details?.outcomes.find((o) => o.id === history.outcomeId);
+  return normalizeSeries({
+    marketId,
+    title: details?.title,
+    outcome: outcome?.title ?? "Yes",
+    tokenId: history.outcomeId,
+    points: history.data.map((p) => ({ timestamp: p.timestamp, price: p.price })),
+  });
+}
+
+export async function fetchCandleSeries(
+  marketId: string,
+  outcome?: string,
+  interval: Parameters<typeof getCandles>[1] = "1h",
+  limit: number = 500
+): Promise<PriceSeries | null> {
+  const details = await getMarketDetails(marketId);
+  if (!details) return null;
+
+  const wanted = outcome?.toLowerCase();
+  const token = details.outcomes.find((o) => (wanted ? o.title.toLowerCase() === wanted : true));
+  if (!token) return null;
+
+  const candles = await getCandles(token.id, interval, limit);
+  if (candles.length === 0) return null;
+
+  return normalizeSeries({
+    marketId,
+    title: details.title,
+    outcome: token.title,
+    tokenId: token.id,
+    points: candles.map((c) => ({ timestamp: toMillis(c.time), price: c.close, volume: c.volume })),
+  });
+}
+
+export function collectRuleMarketIds(rules: TradingRule[]): string[] {
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (rule.trigger.marketId) ids.add(rule.trigger.marketId);
+    if (rule.action.marketId) ids.add(rule.action.marketId);
+    if (rule.condition) collectConditionMarketIds(rule.condition, ids);
+  }
+  return Array.from(ids);
+}
+
+// ─── simulation ──────────────────────────────────────────────────────────────
+
+interface Holding {
+  marketId: string;
+  outcome: string;
+  tokenId: string;
+  shares: number;
+}
+
+function seriesTokenId(series: PriceSeries): string {
+  return series.tokenId ?? `${series.marketId}:${series.outcome.toLowerCase()}`;
+}
+
+function buildMarketSnapshot(series: PriceSeries[], cursors: number[]): MarketData[] {
+  const byMarket = new Map<string, MarketData>();
+
+  series.forEach((s, i) => {
+    const point = s.points[cursors[i]];
+    if (!point) return;
+    const market = byMarket.get(s.marketId) ?? { id: s.marketId, title: s.title ?? s.marketId, outcomes: [] };
+    market.outcomes.push({ outcome: s.outcome, price: point.price, volume: point.volume ?? 0, tokenId: seriesTokenId(s) });
+    byMarket.set(s.marketId, market);
+  });
+
+  // Binary markets usually ship only the Yes leg; derive the complement so "No" rules still evaluate
+  for (const market of byMarket.values()) {
+    if (market.outcomes.length !== 1) continue;
+    const only = market.outcomes[0];
+    const name = only.outcome.toLowerCase();
+    if (name !== "yes" && name !== "no") continue;
+    const other = name === "yes" ? "No" : "Yes";
+    market.outcomes.push({
+      outcome: other,
+      price: 1 - only.price,
+      volume: only.volume,
+      tokenId: `${market.id}:${other.toLowerCase()}`,
+    });
+  }
+
+  return Array.from(byMarket.values());
+}
+
+function markPrice(markets: MarketData[], holding: Holding): number {
+  const market = markets.find((m) => m.id === holding.marketId);
+  return market?.outcomes.find((o) => o.tokenId === holding.tokenId)?.price ?? 0;
+}
+
+export function runBacktest(rules: TradingRule[], series: PriceSeries[], options: BacktestOptions = {}): BacktestResult {
+  const initialCash = options.initialCash ?? DEFAULT_INITIAL_CASH;
+  const feeRate = (options.feeBps ?? 0) / 10_000;
+  const historyWindowMs = options.historyWindowMs ?? 7 * 24 * 60 * 60 * 1000;
+
+  const activeSeries = series.map(normalizeSeries).filter((s) => s.points.length > 0);
+  if (activeSeries.length === 0) throw new Error("No price data to backtest against");
+
+  // Work on copies so lastTriggered bookkeeping never leaks into rules.json
+  const simRules = rules.filter((r) => r.enabled).map((r) => ({ ...r, lastTriggered: undefined }) as TradingRule);
+  const timeline = Array.from(new Set(activeSeries.flatMap((s) => s.points.map((p) => p.timestamp)))).sort((a, b) => a - b);
+
+  const cursors = activeSeries.map(() => -1);
+  const priceHistory = new Map<string, PriceSample[]>();
+  const streaks = new Map<string, number>();
+  const triggerStates = new Map<string, boolean>();
+  const holdings = new Map<string, Holding>();
+  let cash = initialCash;
+  let triggers = 0;
+
+  const fills: BacktestFill[] = [];
+  const skipped: BacktestEvent[] = [];
+  const notifications: BacktestEvent[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  for (const now of timeline) {
+    activeSeries.forEach((s, i) => {
+      while (cursors[i] + 1 < s.points.length && s.points[cursors[i] + 1].timestamp <= now) cursors[i]++;
+    });
+
+    const markets = buildMarketSnapshot(activeSeries, cursors);
+    const positions: PositionData[] = Array.from(holdings.values()).map((h) => ({
+      marketId: h.marketId,
+      outcome: h.outcome,
+      size: h.shares,
+      currentValue: h.shares * markPrice(markets, h),
+      tokenId: h.tokenId,
+    }));
+    const portfolioValue = cash + positions.reduce((sum, p) => sum + p.currentValue, 0);
+
+    const fired = [
+      ...checkAllRules(simRules, markets, positions, priceHistory, now, triggerStates),
+      ...checkConditionRules(simRules, markets, priceHistory, streaks, now)
+        .filter((r) => firesOnEdge(r.rule, r.evaluation.passed, triggerStates))
+        .map((r) => r.rule),
+    ];
+
+    for (const rule of fired) {
+      triggers++;
+      rule.lastTriggered = now;
+      const skip = (message: string) => skipped.push({ timestamp: now, ruleId: rule.id, ruleName: rule.name, message });
+
+      if (rule.action.type === "alert" || rule.action.type === "notify") {
+        notifications.push({ timestamp: now, ruleId: rule.id, ruleName: rule.name, message: rule.action.message ?? rule.name });
+        continue;
+      }
+
+      const market = findActionMarket(markets, rule);
+      let order: Order;
+      try {
+        order = buildOrderFromAction(rule.action, { market, positions, portfolioValue });
+      } catch (e) {
+        skip(e instanceof Error ? e.message : "Failed to build order");
+        continue;
+      }
+
+      const notional = order.shares * order.price;
+      if (rule.maxNotional !== undefined && notional > rule.maxNotional) {
+        skip(`Notional $${notional.toFixed(2)} exceeds rule cap $${rule.maxNotional.toFixed(2)}`);
+        continue;
+      }
+
+      const fee = notional * feeRate;
+      const holding = holdings.get(order.tokenId) ?? {
+        marketId: order.marketId ?? market?.id ?? "",
+        outcome: order.outcomeTitle ?? "",
+        tokenId: order.tokenId,
+        shares: 0,
+      };
+
+      if (order.side === "BUY") {
+        if (notional + fee > cash + 1e-9) {
+          skip(`Insufficient cash: need $${(notional + fee).toFixed(2)}, have $${cash.toFixed(2)}`);
+          continue;
+        }
+        cash -= notional + fee;
+        holding.shares += order.shares;
+      } else {
+        if (order.shares > holding.shares + 1e-9) {
+          skip(`Cannot sell ${order.shares} shares, holding ${holding.shares.toFixed(2)}`);
+          continue;
+        }
+        cash += notional - fee;
+        holding.shares -= order.shares;
+      }
+
+      if (holding.shares > 1e-9) holdings.set(order.tokenId, holding);
+      else holdings.delete(order.tokenId);
+
+      // Keep this step's position view current so later rules see the fill
+      const existing = positions.find((p) => p.tokenId === order.tokenId);
+      if (existing) {
+        existing.size = holding.shares;
+        existing.currentValue = holding.shares * order.price;
+      } else if (holding.shares > 0) {
+        positions.push({
+          marketId: holding.marketId,
+          outcome: holding.outcome,
+          size: holding.shares,
+          currentValue: holding.shares * order.price,
+          tokenId: holding.tokenId,
+        });
+      }
+
+      fills.push({
+        timestamp: now,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        side: order.side,
+        marketId: holding.marketId,
+        outcome: holding.outcome,
+        price: order.price,
+        shares: order.shares,
+        notional,
+        fee,
+        cashAfter: cash,
+      });
+    }
+
+    recordPriceSamples(priceHistory, markets, now, historyWindowMs);
+
+    const positionsValue = Array.from(holdings.values()).reduce((sum, h) => sum + h.shares * markPrice(markets, h), 0);
+    equityCurve.push({ timestamp: now, cash, positionsValue, equity: cash + positionsValue });
+  }
+
+  const equities = equityCurve.map((p) => p.equity);
+  const returns = equities.slice(1).map((value, i) => (equities[i] > 0 ? (value - equities[i]) / equities[i] : 0));
+  const finalEquity = equities[equities.length - 1] ?? initialCash;
+  const finalMarkets = buildMarketSnapshot(activeSeries, cursors);
+
+  return {
+    start: timeline[0],
+    end: timeline[timeline.length - 1],
+    steps: timeline.length,
+    initialCash,
+    finalEquity,
+    totalReturn: initialCash > 0 ? ((finalEquity - initialCash) / initialCash) * 100 : 0,
+    maxDrawdown: calculateMaxDrawdown(equities),
+    sharpeRatio: calculateSharpeRatio(returns, 0),
+    triggers,
+    fills,
+    skipped,
+    notifications,
+    equityCurve,
+    openPositions: Array.from(holdings.values()).map((h) => ({
+      marketId: h.marketId,
+      outcome: h.outcome,
+      size: h.shares,
+      currentValue: h.shares * markPrice(finalMarkets, h),
+      tokenId: h.tokenId,
+    })),
+  };
+}
+
+// ─── reporting ───────────────────────────────────────────────────────────────
+
+export function formatBacktestReport(result: BacktestResult, maxFills: number = 20): string {
+  const iso = (ts: number) => new Date(ts).toISOString().replace("T", " ").slice(0, 16);
+  const lines = [
+    `Backtest ${iso(result.start)} → ${iso(result.end)} (${result.steps} steps)`,
+    `Initial cash:   $${result.initialCash.toFixed(2)}`,
+    `Final equity:   $${result.finalEquity.toFixed(2)} (${result.totalReturn >= 0 ? "+" : ""}${result.totalReturn.toFixed(2)}%)`,
+    `Max drawdown:   ${result.maxDrawdown.toFixed(2)}%`,
+    `Sharpe (step):  ${result.sharpeRatio.toFixed(3)}`,
+    `Triggers:       ${result.triggers} (${result.fills.length} fills, ${result.skipped.length} skipped, ${result.notifications.length} notifications)`,
+  ];
+
+  if (result.fills.length > 0) {
+    lines.push("", "Fills:");
+    for (const fill of result.fills.slice(0, maxFills)) {
+      lines.push(
+        `  ${iso(fill.timestamp)}  ${fill.side.padEnd(4)} ${fill.shares.toFixed(2).padStart(9)} ${fill.outcome} @ ${fill.price.toFixed(3)}  $${fill.notional.toFixed(2)}  [${fill.ruleName}]`
+      );
+    }
+    if (result.fills.length > maxFills) lines.push(`  … ${result.fills.length - maxFills} more`);
+  }
+
+  if (result.openPositions.length > 0) {
+    lines.push("", "Open positions:");
+    for (const p of result.openPositions) {
+      lines.push(`  ${p.marketId} ${p.outcome}: ${p.size.toFixed(2)} shares ($${p.currentValue.toFixed(2)})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ─── CLI: bun src/automation/backtest.ts --series prices.csv [--rules rules.json] ─
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      rules: { type: "string" },
+      series: { type: "string", multiple: true },
+      market: { type: "string" },
+      outcome: { type: "string" },
+      source: { type: "string", default: "history" },
+      timeframe: { type: "string", default: "1M" },
+      cash: { type: "string" },
+      fee: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const rules: TradingRule[] = values.rules ? JSON.parse(readFileSync(values.rules, "utf-8")) : loadRules();
+  if (rules.length === 0) throw new Error("No rules to backtest (pass --rules or create some in ~/.polymarket-tui/rules.json)");
+
+  let series: PriceSeries[];
+  if (values.series && values.series.length > 0) {
+    series = values.series.flatMap((path) => loadSeriesFile(path, { marketId: values.market, outcome: values.outcome }));
+  } else {
+    const marketIds = values.market ? [values.market] : collectRuleMarketIds(rules);
+    const fetched = await Promise.all(
+      marketIds.map((id) =>
+        values.source === "candles"
+          ? fetchCandleSeries(id, values.outcome)
+          : fetchPriceSeries(id, values.timeframe as Timeframe)
+      )
+    );
+    series = fetched.filter((s): s is PriceSeries => s !== null);
+  }
+
+  const result = runBacktest(rules, series, {
+    initialCash: values.cash ? Number.parseFloat(values.cash) : undefined,
+    feeBps: values.fee ? Number.parseFloat(values.fee) : undefined,
+  });
+
+  console.log(values.json ? JSON.stringify(result, null, 2) : formatBacktestReport(result));
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error("Backtest failed:", e instanceof Error ? e.message : e);
+    process.exit(1);
+  });
+}
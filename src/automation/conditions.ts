@@ -0,0 +1,316 @@
+import {
+  TradingRule,
+  MarketData,
+  PriceSample,
+  findMarket,
+  findOutcome,
+  priceHistoryKey,
+  getReferencePrice,
+} from "./rules";
+
+export type ConditionMetric = "price" | "volume" | "percent_change" | "spread" | "difference";
+export type Comparator = ">" | ">=" | "<" | "<=" | "==";
+
+export interface MarketRef {
+  marketId: string;
+  outcome?: string;
+}
+
+export interface PredicateCondition {
+  kind: "predicate";
+  market: MarketRef;
+  metric: ConditionMetric;
+  op: Comparator;
+  value: number;
+  against?: MarketRef;     // second leg for spread/difference
+  windowSeconds?: number;  // lookback for percent_change
+  consecutive?: number;    // checks in a row the predicate must hold
+}
+
+export interface AndCondition {
+  kind: "and";
+  conditions: Condition[];
+}
+
+export interface OrCondition {
+  kind: "or";
+  conditions: Condition[];
+}
+
+export interface NotCondition {
+  kind: "not";
+  condition: Condition;
+}
+
+export type Condition = PredicateCondition | AndCondition | OrCondition | NotCondition;
+
+export interface ConditionEvaluation {
+  path: string;
+  kind: Condition["kind"];
+  passed: boolean;
+  detail: string;
+  children?: ConditionEvaluation[];
+}
+
+export interface ConditionContext {
+  markets: MarketData[];
+  priceHistory: Map<string, PriceSample[]>;
+  streaks: Map<string, number>;
+  streakPrefix?: string;
+  now?: number;
+}
+
+const METRICS: ConditionMetric[] = ["price", "volume", "percent_change", "spread", "difference"];
+const COMPARATORS: Comparator[] = [">", ">=", "<", "<=", "=="];
+const MAX_DEPTH = 8;
+const EPSILON = 1e-9;
+
+export function validateCondition(condition: unknown, path: string = "root", depth: number = 0): string[] {
+  if (depth > MAX_DEPTH) return [`${path}: nesting deeper than ${MAX_DEPTH} levels`];
+  if (!condition || typeof condition !== "object") return [`${path}: condition must be an object`];
+
+  const c = condition as Record<string, unknown>;
+  switch (c.kind) {
+    case "and":
+    case "or": {
+      if (!Array.isArray(c.conditions) || c.conditions.length === 0) {
+        return [`${path}: "${c.kind}" needs at least one condition`];
+      }
+      return c.conditions.flatMap((child, i) => validateCondition(child, `${path}.${c.kind}[${i}]`, depth + 1));
+    }
+
+    case "not":
+      return validateCondition(c.condition, `${path}.not`, depth + 1);
+
+    case "predicate": {
+      const errors: string[] = [];
+      errors.push(...validateMarketRef(c.market, `${path}.market`));
+
+      const metric = c.metric as ConditionMetric;
+      if (!METRICS.includes(metric)) errors.push(`${path}: unknown metric "${String(c.metric)}"`);
+      if (!COMPARATORS.includes(c.op as Comparator)) errors.push(`${path}: unknown comparator "${String(c.op)}"`);
+      if (typeof c.value !== "number" || !Number.isFinite(c.value)) errors.push(`${path}: value must be a finite number`);
+
+      if (metric === "spread" || metric === "difference") {
+        if (c.against === undefined) errors.push(`${path}: ${metric} needs an "against" market reference`);
+        else errors.push(...validateMarketRef(c.against, `${path}.against`));
+      }
+      if (metric === "price" && typeof c.value === "number" && (c.value < 0 || c.value > 1)) {
+        errors.push(`${path}: price threshold must be between 0 and 1`);
+      }
+      if (metric === "spread" && typeof c.value === "number" && (c.value < 0 || c.value > 1)) {
+        errors.push(`${path}: spread threshold must be between 0 and 1`);
+      }
+      if (c.windowSeconds !== undefined && !(typeof c.windowSeconds === "number" && c.windowSeconds > 0)) {
+        errors.push(`${path}: windowSeconds must be a positive number`);
+      }
+      if (c.consecutive !== undefined && !(Number.isInteger(c.consecutive) && (c.consecutive as number) >= 1)) {
+        errors.push(`${path}: consecutive must be an integer >= 1`);
+      }
+      return errors;
+    }
+
+    default:
+      return [`${path}: unknown condition kind "${String(c.kind)}"`];
+  }
+}
+
+function validateMarketRef(ref: unknown, path: string): string[] {
+  if (!ref || typeof ref !== "object") return [`${path}: market reference must be an object`];
+  const r = ref as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof r.marketId !== "string" || r.marketId.trim().length === 0) errors.push(`${path}: marketId is required`);
+  if (r.outcome !== undefined && typeof r.outcome !== "string") errors.push(`${path}: outcome must be a string`);
+  return errors;
+}
+
+export function collectConditionMarketIds(condition: Condition, into: Set<string> = new Set()): Set<string> {
+  // Rules are loaded from disk unvalidated, so tolerate malformed trees here
+  if (!condition || typeof condition !== "object") return into;
+  switch (condition.kind) {
+    case "and":
+    case "or":
+      (Array.isArray(condition.conditions) ? condition.conditions : []).forEach((child) =>
+        collectConditionMarketIds(child, into)
+      );
+      break;
+    case "not":
+      collectConditionMarketIds(condition.condition, into);
+      break;
+    case "predicate":
+      if (condition.market?.marketId) into.add(condition.market.marketId);
+      if (condition.against?.marketId) into.add(condition.against.marketId);
+      break;
+  }
+  return into;
+}
+
+function compare(actual: number, op: Comparator, expected: number): boolean {
+  switch (op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "==":
+      return Math.abs(actual - expected) < EPSILON;
+  }
+}
+
+function resolveRef(ref: MarketRef, markets: MarketData[]): { market: MarketData; outcome: MarketData["outcomes"][number] } | string {
+  const market = findMarket(markets, ref.marketId);
+  if (!market) return `market ${ref.marketId} not found`;
+  const outcome = findOutcome(market, ref.outcome);
+  if (!outcome) return `outcome ${ref.outcome ?? "Yes"} not found in ${market.title}`;
+  return { market, outcome };
+}
+
+function describeRef(ref: MarketRef, resolved?: { market: MarketData; outcome: { outcome: string } }): string {
+  const title = resolved ? resolved.market.title : ref.marketId;
+  const short = title.length > 32 ? `${title.slice(0, 31)}…` : title;
+  return `${short} ${resolved?.outcome.outcome ?? ref.outcome ?? "Yes"}`;
+}
+
+function measure(predicate: PredicateCondition, ctx: ConditionContext, now: number): { value: number; label: string } | string {
+  const left = resolveRef(predicate.market, ctx.markets);
+  if (typeof left === "string") return left;
+
+  switch (predicate.metric) {
+    case "price":
+      return { value: left.outcome.price, label: `${describeRef(predicate.market, left)} price` };
+
+    case "volume":
+      return { value: left.outcome.volume, label: `${describeRef(predicate.market, left)} volume` };
+
+    case "percent_change": {
+      const samples = ctx.priceHistory.get(priceHistoryKey(left.market.id, left.outcome.outcome));
+      const reference = getReferencePrice(samples, predicate.windowSeconds, now);
+      if (!reference) return `no price history for ${describeRef(predicate.market, left)}`;
+      return {
+        value: ((left.outcome.price - reference) / reference) * 100,
+        label: `${describeRef(predicate.market, left)} % change`,
+      };
+    }
+
+    case "spread":
+    case "difference": {
+      if (!predicate.against) return `${predicate.metric} has no "against" reference`;
+      const right = resolveRef(predicate.against, ctx.markets);
+      if (typeof right === "string") return right;
+      const diff = left.outcome.price - right.outcome.price;
+      return {
+        value: predicate.metric === "spread" ? Math.abs(diff) : diff,
+        label: `${predicate.metric} ${describeRef(predicate.market, left)} vs ${describeRef(predicate.against, right)}`,
+      };
+    }
+  }
+}
+
+export function evaluateCondition(condition: Condition, ctx: ConditionContext, path: string = "root"): ConditionEvaluation {
+  const now = ctx.now ?? Date.now();
+
+  switch (condition.kind) {
+    case "and":
+    case "or": {
+      // Evaluate every child so streak counters and explanations stay complete.
+      const children = (Array.isArray(condition.conditions) ? condition.conditions : []).map((child, i) =>
+        evaluateCondition(child, ctx, `${path}.${condition.kind}[${i}]`)
+      );
+      const passedCount = children.filter((c) => c.passed).length;
+      // An empty AND never passes vacuously
+      const passed = condition.kind === "and" ? children.length > 0 && passedCount === children.length : passedCount > 0;
+      return {
+        path,
+        kind: condition.kind,
+        passed,
+        detail: `${condition.kind.toUpperCase()}: ${passedCount}/${children.length} passed`,
+        children,
+      };
+    }
+
+    case "not": {
+      const child = evaluateCondition(condition.condition, ctx, `${path}.not`);
+      return { path, kind: "not", passed: !child.passed, detail: `NOT: inner ${child.passed ? "passed" : "failed"}`, children: [child] };
+    }
+
+    case "predicate": {
+      const streakKey = `${ctx.streakPrefix ?? ""}${path}`;
+      const measured = measure(condition, ctx, now);
+      if (typeof measured === "string") {
+        ctx.streaks.delete(streakKey);
+        return { path, kind: "predicate", passed: false, detail: measured };
+      }
+
+      const holds = compare(measured.value, condition.op, condition.value);
+      const streak = holds ? (ctx.streaks.get(streakKey) ?? 0) + 1 : 0;
+      if (condition.consecutive) {
+        if (streak > 0) ctx.streaks.set(streakKey, streak);
+        else ctx.streaks.delete(streakKey);
+      }
+
+      const required = condition.consecutive ?? 1;
+      const passed = holds && streak >= required;
+      const streakNote = condition.consecutive ? ` (${Math.min(streak, required)}/${required} consecutive)` : "";
+      return {
+        path,
+        kind: "predicate",
+        passed,
+        detail: `${measured.label} ${measured.value.toFixed(4)} ${condition.op} ${condition.value}${streakNote}`,
+      };
+    }
+  }
+}
+
+export function explainEvaluation(evaluation: ConditionEvaluation, indent: number = 0): string[] {
+  const line = `${"  ".repeat(indent)}${evaluation.passed ? "✓" : "✗"} ${evaluation.detail}`;
+  return [line, ...(evaluation.children ?? []).flatMap((child) => explainEvaluation(child, indent + 1))];
+}
+
+// Rule id -> last reported errors, so a broken rule is logged once rather than every tick
+const reportedInvalid = new Map<string, string>();
+
+function reportInvalidCondition(rule: TradingRule, errors: string[]): void {
+  const message = errors.join("; ");
+  if (reportedInvalid.get(rule.id) === message) return;
+  reportedInvalid.set(rule.id, message);
+  console.error(`Skipping rule "${rule.name}": invalid condition - ${message}`);
+}
+
+export function checkConditionRules(
+  rules: TradingRule[],
+  markets: MarketData[],
+  priceHistory: Map<string, PriceSample[]>,
+  streaks: Map<string, number>,
+  now: number = Date.now()
+): { rule: TradingRule; evaluation: ConditionEvaluation }[] {
+  const results: { rule: TradingRule; evaluation: ConditionEvaluation }[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.condition) continue;
+
+    const errors = validateCondition(rule.condition);
+    if (errors.length > 0) {
+      reportInvalidCondition(rule, errors);
+      results.push({
+        rule,
+        evaluation: { path: "root", kind: rule.condition.kind, passed: false, detail: `invalid condition: ${errors.join("; ")}` },
+      });
+      continue;
+    }
+    reportedInvalid.delete(rule.id);
+
+    const evaluation = evaluateCondition(rule.condition, {
+      markets,
+      priceHistory,
+      streaks,
+      streakPrefix: `${rule.id}:`,
+      now,
+    });
+    results.push({ rule, evaluation });
+  }
+
+  return results;
+}
@@ -1,24 +1,31 @@
-import { readFileSync, writeFileSync } from "fs";
+import { readFileSync, writeFileSync, appendFileSync, mkdirSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
+import { placeOrder } from "../api/clob/trading";
+import { placePaperOrder } from "../hooks/usePaperTrading";
+import { Order, OrderType, PlacedOrder } from "../types/orders";
+import type { Condition } from "./conditions";
 
 export type TriggerType = "price_above" | "price_below" | "percent_change" | "volume_spike" | "time";
 export type ActionType = "buy" | "sell" | "close_position" | "alert" | "notify" | "rebalance";
+export type ExecutionMode = "live" | "dry_run" | "paper";
 
 export interface Trigger {
   type: TriggerType;
   marketId?: string;
   outcome?: string;
-  value: number;
-  windowSeconds?: number;
+  value: number;           // threshold, or unix ms start time for "time"
+  windowSeconds?: number;  // lookback for percent_change, repeat period for "time"
 }
 
 export interface Action {
   type: ActionType;
   marketId?: string;
   outcome?: string;
-  amount?: number;
-  percentage?: number;
+  amount?: number;       // USDC notional for buy/sell
+  percentage?: number;   // % of held shares for sell/close, % of portfolio for rebalance
+  price?: number;        // limit price override (0-1), defaults to current outcome price
+  orderType?: OrderType;
   message?: string;
 }
 
@@ -30,6 +37,8 @@ export interface TradingRule {
   action: Action;
   createdAt: number;
   lastTriggered?: number;
+  maxNotional?: number;  // per-execution USDC cap for order actions
+  condition?: Condition; // replaces the single trigger when set
 }
 
 export interface RuleEngine {
@@ -37,28 +46,71 @@ export interface RuleEngine {
   executeAction(rule: TradingRule, context: ExecutionContext): Promise<void>;
 }
 
-interface MarketData {
+export interface MarketData {
   id: string;
   title: string;
-  outcomes: { outcome: string; price: number; volume: number }[];
+  outcomes: { outcome: string; price: number; volume: number; tokenId?: string }[];
 }
 
-interface PositionData {
+export interface PositionData {
   marketId: string;
   outcome: string;
   size: number;
   currentValue: number;
+  tokenId?: string;
 }
 
-interface ExecutionContext {
+export interface ExecutionContext {
   market?: MarketData;
   position?: PositionData;
+  positions?: PositionData[];
+  portfolioValue?: number;
+}
+
+export interface PriceSample {
+  timestamp: number;
+  price: number;
+}
+
+export interface ExecutionOptions {
+  mode?: ExecutionMode;
+  maxNotional?: number;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  message: string;
+  mode?: ExecutionMode;
+  order?: Order;
+  placedOrder?: PlacedOrder;
+}
+
+export interface ExecutionLogEntry {
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  action: ActionType;
+  mode: ExecutionMode;
+  success: boolean;
+  message: string;
+  order?: Order;
+  placedOrder?: PlacedOrder;
+}
+
+function getConfigDir(): string {
+  const dir = join(homedir(), ".polymarket-tui");
+  mkdirSync(dir, { recursive: true });
+  return dir;
 }
 
 function getRulesPath(): string {
   return join(homedir(), ".polymarket-tui", "rules.json");
 }
 
+function getExecutionLogPath(): string {
+  return join(getConfigDir(), "executions.jsonl");
+}
+
 export function loadRules(): TradingRule[] {
   try {
     const path = getRulesPath();
@@ -69,8 +121,8 @@ export function loadRules(): TradingRule[] {
 }
 
 export function saveRules(rules: TradingRule[]): void {
+  getConfigDir();
   const path = getRulesPath();
-  const dir = join(homedir(), ".polymarket-tui");
   try {
     writeFileSync(path, JSON.stringify(rules, null, 2));
   } catch (e) {
@@ -78,7 +130,45 @@ export function saveRules(rules: TradingRule[]): void {
   }
 }
 
-export function createRule(name: string, trigger: Trigger, action: Action): TradingRule {
+export function upsertRules(rules: TradingRule[]): void {
+  const byId = new Map(loadRules().map((r) => [r.id, r]));
+  for (const rule of rules) {
+    byId.set(rule.id, rule);
+  }
+  saveRules(Array.from(byId.values()));
+}
+
+/**
+ * Stamps lastTriggered onto rules.json as it is on disk now. The TUI edits the
+ * same file, so nothing else about the rules is written back.
+ */
+export function recordRuleTriggers(triggeredAt: Map<string, number>): void {
+  const rules = loadRules();
+  for (const rule of rules) {
+    const at = triggeredAt.get(rule.id);
+    if (at !== undefined) rule.lastTriggered = at;
+  }
+  saveRules(rules);
+}
+
+/**
+ * Applies the TUI's edits to rules.json as it is on disk now: edited rules are
+ * upserted by id (keeping any newer lastTriggered the scheduler wrote), only
+ * removedIds are deleted, and rules added elsewhere meanwhile are kept.
+ */
+export function saveEditedRules(edited: TradingRule[], removedIds: string[] = []): TradingRule[] {
+  const removed = new Set(removedIds);
+  const byId = new Map(loadRules().map((r) => [r.id, r]));
+  for (const rule of edited) {
+    const at = byId.get(rule.id)?.lastTriggered;
+    byId.set(rule.id, at !== undefined && at > (rule.lastTriggered ?? 0) ? { ...rule, lastTriggered: at } : rule);
+  }
+  const merged = Array.from(byId.values()).filter((r) => !removed.has(r.id));
+  saveRules(merged);
+  return merged;
+}
+
+export function createRule(name: string, trigger: Trigger, action: Action, condition?: Condition): TradingRule {
   return {
     id: crypto.randomUUID(),
     name,
@@ -86,11 +176,81 @@ export function createRule(name: string, trigger: Trigger, action: Action): Trad
     trigger,
     action,
     createdAt: Date.now(),
+    ...(condition ? { condition } : {}),
   };
 }
 
+export function findMarket(markets: MarketData[], marketId?: string): MarketData | undefined {
+  if (!marketId) return undefined;
+  return markets.find((m) => m.id === marketId) ?? markets.find((m) => m.title.includes(marketId));
+}
+
+/** The market a rule's action trades. Exact id only: a title match could order in an unrelated market. */
+export function findActionMarket(markets: MarketData[], rule: TradingRule): MarketData | undefined {
+  const marketId = rule.action.marketId ?? rule.trigger.marketId;
+  return marketId ? markets.find((m) => m.id === marketId) : undefined;
+}
+
+export function findOutcome(market: MarketData, outcome?: string): MarketData["outcomes"][number] | undefined {
+  if (outcome) {
+    const wanted = outcome.toLowerCase();
+    return market.outcomes.find((o) => o.outcome.toLowerCase() === wanted || o.tokenId === outcome);
+  }
+  return market.outcomes.find((o) => o.outcome.toLowerCase() === "yes") ?? market.outcomes[0];
+}
+
+export function priceHistoryKey(marketId: string, outcome: string): string {
+  return `${marketId}:${outcome.toLowerCase()}`;
+}
+
+export function recordPriceSamples(
+  priceHistory: Map<string, PriceSample[]>,
+  markets: MarketData[],
+  now: number = Date.now(),
+  maxAgeMs: number = 24 * 60 * 60 * 1000
+): void {
+  for (const market of markets) {
+    for (const outcome of market.outcomes) {
+      const key = priceHistoryKey(market.id, outcome.outcome);
+      const samples = (priceHistory.get(key) ?? []).filter((s) => now - s.timestamp <= maxAgeMs);
+      samples.push({ timestamp: now, price: outcome.price });
+      priceHistory.set(key, samples);
+    }
+  }
+}
+
+export function getReferencePrice(samples: PriceSample[] | undefined, windowSeconds: number | undefined, now: number): number | undefined {
+  if (!samples || samples.length === 0) return undefined;
+  if (!windowSeconds) return samples[samples.length - 1].price;
+
+  const cutoff = now - windowSeconds * 1000;
+  const inWindow = samples.find((s) => s.timestamp >= cutoff);
+  return (inWindow ?? samples[samples.length - 1]).price;
+}
+
+export function evaluateTimeTrigger(trigger: Trigger, lastTriggered: number | undefined, now: number = Date.now()): boolean {
+  if (now < trigger.value) return false;
+  if (!trigger.windowSeconds) return lastTriggered === undefined || lastTriggered < trigger.value;
+
+  const periodMs = trigger.windowSeconds * 1000;
+  const periodStart = trigger.value + Math.floor((now - trigger.value) / periodMs) * periodMs;
+  return lastTriggered === undefined || lastTriggered < periodStart;
+}
+
+/**
+ * Level triggers fire on the check where they start to hold, not on every
+ * check while they keep holding. `triggerStates` carries each rule's last
+ * result between checks; with none yet, a rule that has fired before counts
+ * as still holding, so a restart doesn't repeat its last action.
+ */
+export function firesOnEdge(rule: TradingRule, holds: boolean, triggerStates: Map<string, boolean>): boolean {
+  const held = triggerStates.get(rule.id) ?? rule.lastTriggered !== undefined;
+  triggerStates.set(rule.id, holds);
+  return holds && !held;
+}
+
 export function evaluateTrigger(trigger: Trigger, market: MarketData, previousPrice?: number): boolean {
-  const outcome = market.outcomes.find((o) => o.outcome === trigger.trigger?.outcome || o.outcome === "Yes");
+  const outcome = findOutcome(market, trigger.outcome);
   if (!outcome) return false;
 
   const currentPrice = outcome.price;
@@ -116,48 +276,256 @@ export function evaluateTrigger(trigger: Trigger, market: MarketData, previousPr
   }
 }
 
+// By token only: the same market also holds the other outcome's position
+function findPosition(context: ExecutionContext, tokenId: string): PositionData | undefined {
+  if (context.position?.tokenId === tokenId) return context.position;
+  return context.positions?.find((p) => p.tokenId === tokenId);
+}
+
+function roundShares(shares: number): number {
+  return Math.floor(shares * 100) / 100;
+}
+
+export function buildOrderFromAction(action: Action, context: ExecutionContext): Order {
+  const market = context.market;
+  if (!market) {
+    throw new Error(`Market ${action.marketId ?? "(unset)"} not found`);
+  }
+
+  const outcome = findOutcome(market, action.outcome);
+  if (!outcome) {
+    throw new Error(`Outcome ${action.outcome ?? "Yes"} not found in ${market.title}`);
+  }
+  if (!outcome.tokenId) {
+    throw new Error(`No CLOB token for ${outcome.outcome} in ${market.title}`);
+  }
+
+  const price = action.price ?? outcome.price;
+  if (!(price > 0 && price < 1)) {
+    throw new Error(`Invalid order price ${price}`);
+  }
+
+  let side: Order["side"];
+  let shares: number;
+
+  switch (action.type) {
+    case "buy": {
+      if (!action.amount || action.amount <= 0) throw new Error("Buy action requires a positive amount");
+      side = "BUY";
+      shares = action.amount / price;
+      break;
+    }
+
+    case "sell": {
+      side = "SELL";
+      if (action.amount && action.amount > 0) {
+        shares = action.amount / price;
+      } else if (action.percentage) {
+        const position = findPosition(context, outcome.tokenId);
+        if (!position) throw new Error(`No open position in ${market.title} ${outcome.outcome}`);
+        shares = (position.size * action.percentage) / 100;
+      } else {
+        throw new Error("Sell action requires an amount or percentage");
+      }
+      break;
+    }
+
+    case "close_position": {
+      const position = findPosition(context, outcome.tokenId);
+      if (!position || position.size <= 0) {
+        throw new Error(`No open position in ${market.title} ${outcome.outcome}`);
+      }
+      side = "SELL";
+      shares = (position.size * (action.percentage ?? 100)) / 100;
+      break;
+    }
+
+    case "rebalance": {
+      if (action.percentage === undefined) throw new Error("Rebalance action requires a target percentage");
+      if (!context.portfolioValue || context.portfolioValue <= 0) {
+        throw new Error("Rebalance requires a known portfolio value");
+      }
+      const position = findPosition(context, outcome.tokenId);
+      const currentValue = position ? position.size * outcome.price : 0;
+      const targetValue = (context.portfolioValue * action.percentage) / 100;
+      const delta = targetValue - currentValue;
+      side = delta >= 0 ? "BUY" : "SELL";
+      shares = Math.abs(delta) / price;
+      break;
+    }
+
+    default:
+      throw new Error(`Action ${action.type} does not place orders`);
+  }
+
+  shares = roundShares(shares);
+  if (shares <= 0) {
+    throw new Error("Computed order size is zero");
+  }
+
+  return {
+    tokenId: outcome.tokenId,
+    side,
+    price,
+    shares,
+    type: action.orderType ?? "GTC",
+    marketId: market.id,
+    marketTitle: market.title,
+    outcomeTitle: outcome.outcome,
+  };
+}
+
+function describeOrder(order: Order): string {
+  return `${order.side} ${order.shares} ${order.outcomeTitle ?? order.tokenId} @ ${order.price.toFixed(3)} ($${(order.shares * order.price).toFixed(2)})`;
+}
+
 export async function executeAction(
   action: Action,
-  context: ExecutionContext
-): Promise<{ success: boolean; message: string }> {
+  context: ExecutionContext,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const mode = options.mode ?? "live";
+
   switch (action.type) {
     case "buy":
     case "sell":
-      return { success: true, message: `Order placed: ${action.type} ${action.amount}` };
-
     case "close_position":
-      return { success: true, message: `Position closed for ${action.marketId}` };
+    case "rebalance": {
+      let order: Order;
+      try {
+        order = buildOrderFromAction(action, context);
+      } catch (e) {
+        return { success: false, mode, message: e instanceof Error ? e.message : "Failed to build order" };
+      }
+
+      const notional = order.shares * order.price;
+      if (options.maxNotional !== undefined && notional > options.maxNotional) {
+        return {
+          success: false,
+          mode,
+          order,
+          message: `Notional $${notional.toFixed(2)} exceeds rule cap $${options.maxNotional.toFixed(2)}`,
+        };
+      }
+
+      if (mode === "dry_run") {
+        return { success: true, mode, order, message: `[dry-run] ${describeOrder(order)}` };
+      }
+
+      if (mode === "paper") {
+        try {
+          const placedOrder = await placePaperOrder(order);
+          const fill = `${placedOrder.status}, ${placedOrder.sizeMatched.toFixed(2)}/${order.shares} filled`;
+          return { success: true, mode, order, placedOrder, message: `[paper] ${describeOrder(order)} — ${fill}` };
+        } catch (e) {
+          return { success: false, mode, order, message: e instanceof Error ? `[paper] ${e.message}` : "Paper order failed" };
+        }
+      }
+
+      try {
+        const placedOrder = await placeOrder(order);
+        return {
+          success: true,
+          mode,
+          order,
+          placedOrder,
+          message: `Order ${placedOrder.orderId || "submitted"} ${placedOrder.status}: ${describeOrder(order)}`,
+        };
+      } catch (e) {
+        return { success: false, mode, order, message: e instanceof Error ? e.message : "Order failed" };
+      }
+    }
 
     case "alert":
-      return { success: true, message: action.message || "Alert triggered" };
+      return { success: true, mode, message: action.message || "Alert triggered" };
 
     case "notify":
-      return { success: true, message: `Notification sent: ${action.message}` };
-
-    case "rebalance":
-      return { success: true, message: `Rebalanced to ${action.percentage}% allocation` };
+      return { success: true, mode, message: `Notification sent: ${action.message}` };
 
     default:
-      return { success: false, message: "Unknown action" };
+      return { success: false, mode, message: "Unknown action" };
+  }
+}
+
+export function appendExecutionLog(entry: ExecutionLogEntry): void {
+  try {
+    appendFileSync(getExecutionLogPath(), JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (e) {
+    console.error("Failed to write execution log:", e);
   }
 }
 
+export function loadExecutionLog(limit: number = 100): ExecutionLogEntry[] {
+  try {
+    const lines = readFileSync(getExecutionLogPath(), "utf-8").split("\n").filter(Boolean);
+    return lines.slice(-limit).flatMap((line) => {
+      try {
+        return [JSON.parse(line) as ExecutionLogEntry];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export async function executeRule(
+  rule: TradingRule,
+  context: ExecutionContext,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  // A global cap never loosens a stricter per-rule one
+  const caps = [options.maxNotional, rule.maxNotional].filter((cap): cap is number => cap !== undefined);
+  const maxNotional = caps.length > 0 ? Math.min(...caps) : undefined;
+  const result = await executeAction(rule.action, context, { ...options, maxNotional });
+
+  appendExecutionLog({
+    timestamp: Date.now(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    action: rule.action.type,
+    mode: result.mode ?? options.mode ?? "live",
+    success: result.success,
+    message: result.message,
+    order: result.order,
+    placedOrder: result.placedOrder,
+  });
+
+  return result;
+}
+
+/** Without `triggerStates` a rule is reported whenever its trigger holds (dry runs). */
 export function checkAllRules(
   rules: TradingRule[],
   markets: MarketData[],
   positions: PositionData[],
-  priceHistory: Map<string, number>
+  priceHistory: Map<string, PriceSample[]>,
+  now: number = Date.now(),
+  triggerStates?: Map<string, boolean>
 ): TradingRule[] {
   const triggered: TradingRule[] = [];
 
   for (const rule of rules) {
-    if (!rule.enabled) continue;
+    if (!rule.enabled || rule.condition) continue;
 
-    const market = markets.find((m) => m.id === rule.trigger.marketId || m.title.includes(rule.trigger.marketId || ""));
+    if (rule.trigger.type === "time") {
+      if (evaluateTimeTrigger(rule.trigger, rule.lastTriggered, now)) {
+        triggered.push(rule);
+      }
+      continue;
+    }
+
+    const market = findMarket(markets, rule.trigger.marketId);
     if (!market) continue;
 
-    const previousPrice = priceHistory.get(market.id);
-    if (evaluateTrigger(rule.trigger, market, previousPrice)) {
+    const outcome = findOutcome(market, rule.trigger.outcome);
+    if (!outcome) continue;
+
+    const samples = priceHistory.get(priceHistoryKey(market.id, outcome.outcome));
+    const previousPrice = getReferencePrice(samples, rule.trigger.windowSeconds, now);
+    const holds = evaluateTrigger(rule.trigger, market, previousPrice);
+    if (triggerStates ? firesOnEdge(rule, holds, triggerStates) : holds) {
       triggered.push(rule);
     }
   }
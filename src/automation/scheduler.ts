@@ -1,7 +1,31 @@
-import { readFileSync, writeFileSync, existsSync } from "fs";
+import { readFileSync, writeFileSync, existsSync, appendFileSync, mkdirSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
-import { TradingRule, loadRules, saveRules, checkAllRules, executeAction } from "./rules";
+import {
+  TradingRule,
+  MarketData,
+  PositionData,
+  PriceSample,
+  ExecutionMode,
+  ExecutionResult,
+  loadRules,
+  upsertRules,
+  recordRuleTriggers,
+  checkAllRules,
+  executeRule,
+  findMarket,
+  findActionMarket,
+  recordPriceSamples,
+  firesOnEdge,
+} from "./rules";
+import { checkConditionRules, collectConditionMarketIds } from "./conditions";
+import { getMarkets, getMarketDetails } from "../api/polymarket";
+import { getMarketDataBus } from "../api/websocket";
+import { fetchPositions } from "../api/positions";
+import { getFunderAddress, loadWalletConfig, unlockWalletFromEnv } from "../auth/wallet";
+import { loadPaperAccount, paperPositions } from "../hooks/usePaperTrading";
+import { Market } from "../types/market";
+import { Position } from "../types/positions";
 
 export type SchedulerInterval = "1m" | "5m" | "15m" | "30m" | "1h" | "4h" | "daily";
 
@@ -13,19 +37,55 @@ export interface ScheduledTask {
   rules: TradingRule[];
   lastRun?: number;
   nextRun?: number;
-  onExecute?: (results: { rule: TradingRule; result: { success: boolean; message: string } }[]) => void;
+  onExecute?: (results: TaskExecution[]) => void;
+}
+
+export interface TaskExecution {
+  rule: TradingRule;
+  result: ExecutionResult;
 }
 
 export interface SchedulerConfig {
   enabled: boolean;
   defaultInterval: SchedulerInterval;
   checkOnStart: boolean;
+  executionMode: ExecutionMode;
+}
+
+export interface PersistedTask {
+  id: string;
+  name: string;
+  enabled: boolean;
+  interval: SchedulerInterval;
+  ruleIds: string[];
+  lastRun?: number;
+}
+
+interface SchedulerFile extends Partial<SchedulerConfig> {
+  tasks?: PersistedTask[];
+}
+
+export interface SchedulerRunLogEntry {
+  timestamp: number;
+  taskId: string;
+  taskName: string;
+  rulesChecked: number;
+  triggered: number;
+  results: { ruleId: string; ruleName: string; success: boolean; message: string; orderId?: string }[];
+}
+
+export interface MarketSnapshot {
+  markets: MarketData[];
+  positions: PositionData[];
+  portfolioValue: number;
 }
 
 const DEFAULT_CONFIG: SchedulerConfig = {
   enabled: true,
   defaultInterval: "5m",
   checkOnStart: true,
+  // Real orders need "executionMode": "live" in scheduler.json
+  executionMode: "dry_run",
 };
 
 const INTERVAL_MS: Record<SchedulerInterval, number> = {
@@ -38,40 +98,189 @@ const INTERVAL_MS: Record<SchedulerInterval, number> = {
   daily: 24 * 60 * 60 * 1000,
 };
 
+function getConfigDir(): string {
+  const dir = join(homedir(), ".polymarket-tui");
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
 function getSchedulerConfigPath(): string {
   return join(homedir(), ".polymarket-tui", "scheduler.json");
 }
 
-export function loadSchedulerConfig(): SchedulerConfig {
+function getRunLogPath(): string {
+  return join(getConfigDir(), "scheduler-runs.jsonl");
+}
+
+function readSchedulerFile(): SchedulerFile {
   try {
     const path = getSchedulerConfigPath();
     if (existsSync(path)) {
-      return { ...DEFAULT_CONFIG, ...JSON.parse(readFileSync(path, "utf-8")) };
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+      if (parsed && typeof parsed === "object") return parsed as SchedulerFile;
     }
   } catch {}
-  return DEFAULT_CONFIG;
+  return {};
+}
+
+function writeSchedulerFile(file: SchedulerFile): void {
+  getConfigDir();
+  writeFileSync(getSchedulerConfigPath(), JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+export function loadSchedulerConfig(): SchedulerConfig {
+  const { tasks: _tasks, ...config } = readSchedulerFile();
+  return { ...DEFAULT_CONFIG, ...config };
 }
 
 export function saveSchedulerConfig(config: SchedulerConfig): void {
-  const path = getSchedulerConfigPath();
   try {
-    writeFileSync(path, JSON.stringify(config, null, 2));
+    writeSchedulerFile({ ...readSchedulerFile(), ...config });
   } catch {
     console.error("Failed to save scheduler config");
   }
 }
 
+export function loadPersistedTasks(): PersistedTask[] {
+  const tasks = readSchedulerFile().tasks;
+  if (!Array.isArray(tasks)) return [];
+  return tasks.filter(
+    (t): t is PersistedTask =>
+      !!t && typeof t.id === "string" && typeof t.name === "string" && t.interval in INTERVAL_MS && Array.isArray(t.ruleIds)
+  );
+}
+
+export function savePersistedTasks(tasks: PersistedTask[]): void {
+  try {
+    writeSchedulerFile({ ...readSchedulerFile(), tasks });
+  } catch {
+    console.error("Failed to save scheduler tasks");
+  }
+}
+
+export function appendRunLog(entry: SchedulerRunLogEntry): void {
+  try {
+    appendFileSync(getRunLogPath(), JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (e) {
+    console.error("Failed to write scheduler run log:", e);
+  }
+}
+
+export function toMarketData(market: Market): MarketData {
+  return {
+    id: market.id,
+    title: market.title,
+    outcomes: market.outcomes.map((o) => ({
+      outcome: o.title,
+      price: o.price,
+      volume: o.volume24h || market.volume24h,
+      tokenId: o.id,
+    })),
+  };
+}
+
+export function toPositionData(position: Position): PositionData {
+  return {
+    marketId: position.conditionId,
+    outcome: position.outcome,
+    size: position.size,
+    currentValue: position.currentValue,
+    tokenId: position.asset,
+  };
+}
+
+/** With `paper`, positions come from the paper account (paper.json) instead of the wallet. */
+export async function fetchMarketSnapshot(rules: TradingRule[], paper: boolean = false): Promise<MarketSnapshot> {
+  const markets = (await getMarkets(100).catch(() => [] as Market[])).map(toMarketData);
+
+  const referencedIds = new Set<string>();
+  const actionIds = new Set<string>();
+  for (const rule of rules) {
+    if (rule.trigger.marketId) referencedIds.add(rule.trigger.marketId);
+    if (rule.action.marketId) referencedIds.add(rule.action.marketId);
+    if (rule.condition) collectConditionMarketIds(rule.condition, referencedIds);
+    const actionId = rule.action.marketId ?? rule.trigger.marketId;
+    if (actionId) actionIds.add(actionId);
+  }
+
+  for (const marketId of referencedIds) {
+    // Actions resolve by exact id, so a title match doesn't stand in for them
+    const found = actionIds.has(marketId) ? markets.some((m) => m.id === marketId) : !!findMarket(markets, marketId);
+    if (found) continue;
+    const details = await getMarketDetails(marketId);
+    if (details) markets.push(toMarketData(details));
+  }
+
+  let positions: PositionData[] = [];
+  const wallet = loadWalletConfig();
+  const address = wallet ? getFunderAddress(wallet) : null;
+  if (paper) {
+    // Re-read: the TUI trades the same account from another process
+    loadPaperAccount();
+    positions = paperPositions().map(toPositionData);
+  } else if (address) {
+    try {
+      positions = (await fetchPositions(address)).map(toPositionData);
+    } catch {
+      positions = [];
+    }
+  }
+
+  const portfolioValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  return { markets, positions, portfolioValue };
+}
+
 export class RuleScheduler {
   private tasks: Map<string, ScheduledTask> = new Map();
-  private intervals: Map<string, number> = new Map();
+  private intervals: Map<string, ReturnType<typeof setInterval>> = new Map();
+  private priceHistory: Map<string, PriceSample[]> = new Map();
+  private conditionStreaks: Map<string, number> = new Map();
+  private triggerStates: Map<string, boolean> = new Map();
+  private inFlight: Map<string, Promise<TaskExecution[]>> = new Map();  // by task id
   private running: boolean = false;
+  private liveFeeds: Map<string, () => void> = new Map();
   private config: SchedulerConfig;
 
   constructor(config?: Partial<SchedulerConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
-  createTask(name: string, interval: SchedulerInterval = "5m", rules?: TradingRule[]): ScheduledTask {
+  loadTasks(): ScheduledTask[] {
+    const rulesById = new Map(loadRules().map((r) => [r.id, r]));
+
+    for (const persisted of loadPersistedTasks()) {
+      if (this.tasks.has(persisted.id)) continue;
+      const task: ScheduledTask = {
+        id: persisted.id,
+        name: persisted.name,
+        enabled: persisted.enabled,
+        interval: persisted.interval,
+        rules: persisted.ruleIds.flatMap((id) => {
+          const rule = rulesById.get(id);
+          return rule ? [rule] : [];
+        }),
+        lastRun: persisted.lastRun,
+      };
+      this.tasks.set(task.id, task);
+    }
+
+    return this.getTasks();
+  }
+
+  saveTasks(): void {
+    savePersistedTasks(
+      this.getTasks().map((task) => ({
+        id: task.id,
+        name: task.name,
+        enabled: task.enabled,
+        interval: task.interval,
+        ruleIds: task.rules.map((r) => r.id),
+        lastRun: task.lastRun,
+      }))
+    );
+  }
+
+  createTask(name: string, interval: SchedulerInterval = this.config.defaultInterval, rules?: TradingRule[]): ScheduledTask {
     const task: ScheduledTask = {
       id: crypto.randomUUID(),
       name,
@@ -81,6 +290,9 @@ export class RuleScheduler {
       nextRun: Date.now(),
     };
     this.tasks.set(task.id, task);
+    if (task.rules.length > 0) upsertRules(task.rules);
+    this.saveTasks();
+    if (this.running) this.startTask(task);
     return task;
   }
 
@@ -88,7 +300,8 @@ export class RuleScheduler {
     const task = this.tasks.get(taskId);
     if (task) {
       task.rules.push(rule);
-      saveRules(task.rules);
+      upsertRules([rule]);
+      this.saveTasks();
     }
   }
 
@@ -96,7 +309,7 @@ export class RuleScheduler {
     const task = this.tasks.get(taskId);
     if (task) {
       task.rules = task.rules.filter((r) => r.id !== ruleId);
-      saveRules(task.rules);
+      this.saveTasks();
     }
   }
 
@@ -105,6 +318,8 @@ export class RuleScheduler {
     if (task) {
       task.enabled = true;
       task.nextRun = Date.now();
+      this.saveTasks();
+      if (this.running) this.startTask(task);
     }
   }
 
@@ -113,42 +328,137 @@ export class RuleScheduler {
     if (task) {
       task.enabled = false;
       task.nextRun = undefined;
+      this.stopTask(taskId);
+      this.saveTasks();
     }
   }
 
   removeTask(taskId: string): void {
     this.stopTask(taskId);
     this.tasks.delete(taskId);
+    this.saveTasks();
   }
 
-  private startTask(task: ScheduledTask): void {
-    if (this.intervals.has(task.id)) return;
+  private refreshTaskRules(task: ScheduledTask): void {
+    // Pick up edits made from the TUI or by hand since the task was loaded.
+    const persisted = loadPersistedTasks().find((t) => t.id === task.id);
+    const ruleIds = persisted ? persisted.ruleIds : task.rules.map((r) => r.id);
+    const rulesById = new Map(loadRules().map((r) => [r.id, r]));
+    task.rules = ruleIds.flatMap((id) => {
+      const rule = rulesById.get(id);
+      return rule ? [rule] : [];
+    });
+  }
+
+  private async executeTask(task: ScheduledTask): Promise<TaskExecution[]> {
+    this.refreshTaskRules(task);
+    if (!task.enabled || task.rules.length === 0) return [];
+
+    const enabledRules = task.rules.filter((r) => r.enabled);
+    const snapshot = await fetchMarketSnapshot(enabledRules, this.config.executionMode === "paper");
+    this.applyLiveQuotes(task, enabledRules, snapshot.markets);
+    const now = Date.now();
+    const triggered = [
+      ...checkAllRules(enabledRules, snapshot.markets, snapshot.positions, this.priceHistory, now, this.triggerStates),
+      ...checkConditionRules(enabledRules, snapshot.markets, this.priceHistory, this.conditionStreaks, now)
+        .filter(({ rule, evaluation }) => firesOnEdge(rule, evaluation.passed, this.triggerStates))
+        .map(({ rule }) => rule),
+    ];
+    recordPriceSamples(this.priceHistory, snapshot.markets, now);
+
+    const results: TaskExecution[] = [];
+    for (const rule of triggered) {
+      const context = {
+        market: findActionMarket(snapshot.markets, rule),
+        positions: snapshot.positions,
+        portfolioValue: snapshot.portfolioValue,
+      };
+      const result = await executeRule(rule, context, { mode: this.config.executionMode });
+      results.push({ rule, result });
+      rule.lastTriggered = now;
+    }
 
-    const runTask = async () => {
-      if (!task.enabled || task.rules.length === 0) return;
+    task.lastRun = now;
+    if (task.onExecute) {
+      task.onExecute(results);
+    }
 
-      const results: { rule: TradingRule; result: { success: boolean; message: string } }[] = [];
-      const enabledRules = task.rules.filter((r) => r.enabled);
+    if (triggered.length > 0) {
+      recordRuleTriggers(new Map(triggered.map((rule) => [rule.id, now])));
+    }
+    this.saveTasks();
+    return results;
+  }
 
-      for (const rule of enabledRules) {
-        const context = {};
-        const result = await executeAction(rule.action, context);
-        results.push({ rule, result });
-        rule.lastTriggered = Date.now();
-      }
+  /**
+   * While running, keep each task's markets subscribed on the market-data bus
+   * and overlay any fresh streamed price onto the REST snapshot. The first tick
+   * after start is REST-only. A quote counts as fresh for one of the task's
+   * own intervals.
+   */
+  private applyLiveQuotes(task: ScheduledTask, rules: TradingRule[], markets: MarketData[]): void {
+    const marketIds = new Set<string>();
+    for (const rule of rules) {
+      if (rule.trigger.marketId) marketIds.add(rule.trigger.marketId);
+      if (rule.action.marketId) marketIds.add(rule.action.marketId);
+      if (rule.condition) collectConditionMarketIds(rule.condition, marketIds);
+    }
 
-      task.lastRun = Date.now();
-      task.nextRun = Date.now() + INTERVAL_MS[task.interval];
+    const tokenIds = Array.from(marketIds).flatMap((id) => {
+      const market = findMarket(markets, id);
+      return market ? market.outcomes.flatMap((o) => (o.tokenId ? [o.tokenId] : [])) : [];
+    });
 
-      if (task.onExecute) {
-        task.onExecute(results);
+    const bus = getMarketDataBus();
+    const previous = this.liveFeeds.get(task.id);
+    this.liveFeeds.delete(task.id);
+    if (this.running && tokenIds.length > 0) {
+      this.liveFeeds.set(task.id, bus.subscribe(tokenIds));
+    }
+    previous?.();
+
+    const maxAgeMs = INTERVAL_MS[task.interval] ?? INTERVAL_MS[this.config.defaultInterval];
+    for (const market of markets) {
+      for (const outcome of market.outcomes) {
+        const quote = outcome.tokenId ? bus.getQuote(outcome.tokenId) : undefined;
+        if (quote?.price !== undefined && Date.now() - quote.timestamp <= maxAgeMs) {
+          outcome.price = quote.price;
+        }
       }
+    }
+  }
 
-      saveRules(task.rules);
+  /** A task never runs twice at once: while a run is in flight, callers get that run. */
+  private runTask(task: ScheduledTask): Promise<TaskExecution[]> {
+    const active = this.inFlight.get(task.id);
+    if (active) return active;
+
+    const run = this.executeTask(task);
+    this.inFlight.set(task.id, run);
+    const done = () => {
+      this.inFlight.delete(task.id);
+    };
+    run.then(done, done);
+    return run;
+  }
+
+  private startTask(task: ScheduledTask): void {
+    if (this.intervals.has(task.id) || !task.enabled) return;
+
+    const periodMs = INTERVAL_MS[task.interval];
+    const tick = () => {
+      task.nextRun = Date.now() + periodMs;
+      // A slow run (book fetches, order placement) skips the ticks it overlaps
+      if (this.inFlight.has(task.id)) return;
+      this.runTask(task).catch((e) => console.error(`Scheduler task ${task.name} failed:`, e));
     };
 
-    runTask();
-    const intervalId = setInterval(runTask, INTERVAL_MS[task.interval]);
+    if (this.config.checkOnStart) {
+      tick();
+    } else {
+      task.nextRun = Date.now() + periodMs;
+    }
+    const intervalId = setInterval(tick, periodMs);
     this.intervals.set(task.id, intervalId);
   }
 
@@ -158,6 +468,8 @@ export class RuleScheduler {
       clearInterval(intervalId);
       this.intervals.delete(taskId);
     }
+    this.liveFeeds.get(taskId)?.();
+    this.liveFeeds.delete(taskId);
   }
 
   start(): void {
@@ -175,9 +487,21 @@ export class RuleScheduler {
     for (const taskId of this.intervals.keys()) {
       this.stopTask(taskId);
     }
+    this.liveFeeds.forEach((release) => release());
+    this.liveFeeds.clear();
     this.running = false;
   }
 
+  async shutdown(): Promise<void> {
+    this.stop();
+    await Promise.allSettled(Array.from(this.inFlight.values()));
+    this.saveTasks();
+  }
+
+  getConfig(): SchedulerConfig {
+    return this.config;
+  }
+
   getTasks(): ScheduledTask[] {
     return Array.from(this.tasks.values());
   }
@@ -198,28 +522,10 @@ export class RuleScheduler {
     return this.tasks.get(taskId)?.lastRun;
   }
 
-  runOnce(taskId: string): void {
+  async runOnce(taskId: string): Promise<TaskExecution[]> {
     const task = this.tasks.get(taskId);
-    if (task) {
-      const runTask = async () => {
-        if (!task.enabled || task.rules.length === 0) return;
-
-        const results: { rule: TradingRule; result: { success: boolean; message: string } }[] = [];
-        const context = {};
-
-        for (const rule of task.rules.filter((r) => r.enabled)) {
-          const result = await executeAction(rule.action, context);
-          results.push({ rule, result });
-          rule.lastTriggered = Date.now();
-        }
-
-        task.lastRun = Date.now();
-        if (task.onExecute) {
-          task.onExecute(results);
-        }
-      };
-      runTask();
-    }
+    if (!task) return [];
+    return this.runTask(task);
   }
 }
 
@@ -243,3 +549,78 @@ export function stopScheduler(): void {
     schedulerInstance.stop();
   }
 }
+
+function logTaskRun(task: ScheduledTask, results: TaskExecution[]): void {
+  appendRunLog({
+    timestamp: Date.now(),
+    taskId: task.id,
+    taskName: task.name,
+    rulesChecked: task.rules.filter((r) => r.enabled).length,
+    triggered: results.length,
+    results: results.map(({ rule, result }) => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      success: result.success,
+      message: result.message,
+      orderId: result.placedOrder?.orderId,
+    })),
+  });
+
+  for (const { rule, result } of results) {
+    console.log(`[${new Date().toISOString()}] ${task.name} / ${rule.name}: ${result.success ? "ok" : "failed"} - ${result.message}`);
+  }
+}
+
+export async function runSchedulerDaemon(config?: Partial<SchedulerConfig>): Promise<RuleScheduler> {
+  const schedulerConfig = { ...loadSchedulerConfig(), ...config };
+  if (!schedulerConfig.enabled) {
+    console.error("Scheduler is disabled in scheduler.json (set \"enabled\": true).");
+    process.exit(1);
+  }
+  if (schedulerConfig.executionMode === "live") {
+    await unlockWalletFromEnv();
+  }
+
+  const scheduler = getScheduler(schedulerConfig);
+  scheduler.loadTasks();
+
+  if (scheduler.getTasks().length === 0) {
+    const rules = loadRules().filter((r) => r.enabled);
+    if (rules.length === 0) {
+      console.error("No scheduled tasks or enabled rules found in ~/.polymarket-tui.");
+      process.exit(1);
+    }
+    scheduler.createTask("default", schedulerConfig.defaultInterval, rules);
+  }
+
+  for (const task of scheduler.getTasks()) {
+    task.onExecute = (results) => logTaskRun(task, results);
+  }
+
+  let shuttingDown = false;
+  const handleSignal = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`Received ${signal}, waiting for in-flight runs...`);
+    scheduler.shutdown().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", () => handleSignal("SIGINT"));
+  process.on("SIGTERM", () => handleSignal("SIGTERM"));
+
+  scheduler.start();
+  const tasks = scheduler.getTasks();
+  console.log(
+    `Scheduler running ${tasks.filter((t) => t.enabled).length}/${tasks.length} task(s) in ${schedulerConfig.executionMode} mode`
+  );
+  if (schedulerConfig.executionMode !== "live") {
+    console.log("No real orders will be placed; set \"executionMode\": \"live\" in scheduler.json to trade.");
+  }
+  return scheduler;
+}
+
+if (import.meta.main) {
+  runSchedulerDaemon().catch((e) => {
+    console.error("Scheduler failed to start:", e);
+    process.exit(1);
+  });
+}
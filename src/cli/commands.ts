@@ -0,0 +1,389 @@
+/**
+ * Headless subcommands — thin wrappers over src/api and the wallet config so
+ * cron jobs and shell pipelines get the same data the TUI shows.
+ */
+
+import { getMarkets, getMarketsByCategory, getMarketDetails, getMarketDepth, searchMarkets } from "../api/polymarket";
+import { fetchPositions, calculatePortfolioSummary } from "../api/positions";
+import { placeOrder, cancelOrder, cancelAllOrders, fetchOpenOrders, fetchTradeHistory } from "../api/orders";
+import { getFunderAddress, isWalletLocked, loadWalletConfig, unlockWallet, WALLET_PASSPHRASE_ENV } from "../auth/wallet";
+import { loadAlerts, alertsState } from "../hooks/useAlerts";
+import { Market } from "../types/market";
+import { Position } from "../types/positions";
+import { Order, OrderSide, OrderType, PlacedOrder } from "../types/orders";
+import { PriceAlert, AlertStatus } from "../types/alerts";
+import { Column, OutputFormat, renderRows, cents, usd } from "./output";
+
+/** Process exit codes, stable for scripts. */
+export const EXIT = {
+  OK: 0,
+  ERROR: 1,       // API or network failure
+  USAGE: 2,       // bad arguments
+  NOT_FOUND: 3,   // nothing matched (market, book, order, empty result)
+  NO_WALLET: 4,   // command needs ~/.polymarket-tui/wallet.json, unlocked if encrypted
+  REJECTED: 5,    // the CLOB refused an order or cancel
+} as const;
+
+export type ExitCode = (typeof EXIT)[keyof typeof EXIT];
+
+export class CliError extends Error {
+  constructor(message: string, public exitCode: ExitCode = EXIT.ERROR) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export interface CliOptions {
+  format: OutputFormat;
+  category?: string;
+  search?: string;
+  limit?: string;
+  depth?: string;
+  token?: string;
+  market?: string;
+  outcome?: string;
+  side?: string;
+  price?: string;
+  shares?: string;
+  type?: string;
+  status?: string;
+  "post-only"?: boolean;
+  yes?: boolean;
+  all?: boolean;
+}
+
+export type CliCommand = (args: string[], options: CliOptions) => Promise<void>;
+
+function print(text: string): void {
+  console.log(text);
+}
+
+/** Notes go to stderr so stdout stays machine-readable in every format. */
+function note(text: string): void {
+  console.error(text);
+}
+
+function parseLimit(raw: string | undefined, fallback: number): number {
+  if (raw === undefined) return fallback;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isFinite(value) || value <= 0) throw new CliError(`--limit must be a positive integer, got "${raw}"`, EXIT.USAGE);
+  return value;
+}
+
+function requireWallet(): { address: string } {
+  const config = loadWalletConfig();
+  if (!config?.address) {
+    throw new CliError("No wallet configured. Connect one in the TUI (w) first.", EXIT.NO_WALLET);
+  }
+  return { address: getFunderAddress(config) };
+}
+
+/** Commands that sign need the key; an encrypted wallet is unlocked from the environment. */
+async function requireSigner(): Promise<void> {
+  requireWallet();
+  const config = loadWalletConfig();
+  if (config?.watchOnly) {
+    throw new CliError(`Account "${config.name}" is watch-only. Switch to an account with a key in the TUI (w).`, EXIT.NO_WALLET);
+  }
+  if (!isWalletLocked()) return;
+
+  const passphrase = process.env[WALLET_PASSPHRASE_ENV];
+  if (!passphrase) {
+    throw new CliError(`Wallet is encrypted. Set ${WALLET_PASSPHRASE_ENV} to unlock it.`, EXIT.NO_WALLET);
+  }
+  try {
+    await unlockWallet(passphrase);
+  } catch (e) {
+    throw new CliError(`Could not unlock wallet: ${e instanceof Error ? e.message : String(e)}`, EXIT.NO_WALLET);
+  }
+}
+
+function formatEnds(date: Date | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+// ─── markets ─────────────────────────────────────────────────────────────────
+
+const MARKET_COLUMNS: Column<Market>[] = [
+  { header: "ID", value: (m) => m.id },
+  { header: "Market", value: (m) => m.title, maxWidth: 60 },
+  { header: "Outcome", value: (m) => m.outcomes[0]?.title ?? "" },
+  { header: "Price", value: (m) => m.outcomes[0]?.price ?? null, display: (m) => (m.outcomes[0] ? cents(m.outcomes[0].price) : ""), numeric: true },
+  { header: "24h %", value: (m) => m.change24h, display: (m) => `${m.change24h >= 0 ? "+" : ""}${m.change24h.toFixed(2)}%`, numeric: true },
+  { header: "Vol 24h", value: (m) => m.volume24h, display: (m) => usd(m.volume24h), numeric: true },
+  { header: "Liquidity", value: (m) => m.liquidity, display: (m) => usd(m.liquidity), numeric: true },
+  { header: "Category", value: (m) => m.category ?? "" },
+  { header: "Ends", value: (m) => m.resolutionDate?.toISOString() ?? "", display: (m) => formatEnds(m.resolutionDate) },
+];
+
+const marketsCommand: CliCommand = async (_args, options) => {
+  const limit = parseLimit(options.limit, 25);
+  let markets: Market[];
+  if (options.search) {
+    markets = await searchMarkets(options.search);
+    if (options.category) {
+      const category = options.category.toLowerCase();
+      markets = markets.filter((m) => m.category?.toLowerCase() === category);
+    }
+  } else if (options.category) {
+    markets = await getMarketsByCategory(options.category, limit);
+  } else {
+    markets = await getMarkets(limit);
+  }
+
+  markets = markets.slice(0, limit);
+  if (markets.length === 0) throw new CliError("No markets found.", EXIT.NOT_FOUND);
+  print(renderRows(options.format, markets, MARKET_COLUMNS));
+};
+
+// ─── book ────────────────────────────────────────────────────────────────────
+
+interface BookRow {
+  side: "bid" | "ask";
+  price: number;
+  size: number;
+  total: number;
+}
+
+const BOOK_COLUMNS: Column<BookRow>[] = [
+  { header: "Side", value: (r) => r.side },
+  { header: "Price", value: (r) => r.price, display: (r) => cents(r.price), numeric: true },
+  { header: "Size", value: (r) => r.size, display: (r) => r.size.toFixed(2), numeric: true },
+  { header: "Cum", value: (r) => r.total, display: (r) => r.total.toFixed(2), numeric: true },
+];
+
+const bookCommand: CliCommand = async (args, options) => {
+  const tokenId = args[0];
+  if (!tokenId) throw new CliError("Usage: book <tokenId> [--depth N]", EXIT.USAGE);
+  const depth = parseLimit(options.depth ?? options.limit, 10);
+
+  const book = await getMarketDepth(tokenId, depth);
+  if (!book || (book.bids.length === 0 && book.asks.length === 0)) {
+    throw new CliError(`No order book for token ${tokenId}.`, EXIT.NOT_FOUND);
+  }
+
+  // Asks best-last above bids best-first, like a ladder
+  const rows: BookRow[] = [
+    ...[...book.asks].reverse().map((l) => ({ side: "ask" as const, ...l })),
+    ...book.bids.map((l) => ({ side: "bid" as const, ...l })),
+  ];
+  print(renderRows(options.format, rows, BOOK_COLUMNS, { tokenId, ...book }));
+  if (options.format === "table") {
+    print(`\nMid ${cents(book.midPrice)} · spread ${cents(book.spread)}`);
+  }
+};
+
+// ─── positions ───────────────────────────────────────────────────────────────
+
+const POSITION_COLUMNS: Column<Position>[] = [
+  { header: "Market", value: (p) => p.title, maxWidth: 50 },
+  { header: "Outcome", value: (p) => p.outcome },
+  { header: "Shares", value: (p) => p.size, display: (p) => p.size.toFixed(2), numeric: true },
+  { header: "Avg", value: (p) => p.avgPrice, display: (p) => cents(p.avgPrice), numeric: true },
+  { header: "Price", value: (p) => p.curPrice, display: (p) => cents(p.curPrice), numeric: true },
+  { header: "Value", value: (p) => p.currentValue, display: (p) => usd(p.currentValue), numeric: true },
+  { header: "P&L", value: (p) => p.cashPnl, display: (p) => usd(p.cashPnl), numeric: true },
+  { header: "P&L %", value: (p) => p.percentPnl, display: (p) => `${p.percentPnl.toFixed(1)}%`, numeric: true },
+  { header: "Token", value: (p) => p.asset },
+];
+
+const positionsCommand: CliCommand = async (_args, options) => {
+  const { address } = requireWallet();
+  const positions = await fetchPositions(address).catch((e) => {
+    throw new CliError(e instanceof Error ? e.message : String(e));
+  });
+
+  if (options.format === "json") {
+    print(JSON.stringify({ address, summary: calculatePortfolioSummary(positions), positions }, null, 2));
+    return;
+  }
+  if (positions.length === 0) {
+    note("No open positions.");
+    if (options.format === "csv") print(renderRows("csv", positions, POSITION_COLUMNS));
+    return;
+  }
+  print(renderRows(options.format, positions, POSITION_COLUMNS));
+  if (options.format === "table") {
+    const summary = calculatePortfolioSummary(positions);
+    print(`\n${summary.positionCount} positions · value ${usd(summary.totalValue)} · P&L ${usd(summary.totalCashPnl)} (${summary.totalPercentPnl.toFixed(1)}%)`);
+  }
+};
+
+// ─── orders ──────────────────────────────────────────────────────────────────
+
+const ORDER_COLUMNS: Column<PlacedOrder>[] = [
+  { header: "Order ID", value: (o) => o.orderId },
+  { header: "Side", value: (o) => o.side },
+  { header: "Price", value: (o) => o.price, display: (o) => cents(o.price), numeric: true },
+  { header: "Size", value: (o) => o.originalSize, display: (o) => o.originalSize.toFixed(2), numeric: true },
+  { header: "Filled", value: (o) => o.sizeMatched, display: (o) => o.sizeMatched.toFixed(2), numeric: true },
+  { header: "Status", value: (o) => o.status },
+  { header: "Created", value: (o) => new Date(o.createdAt).toISOString() },
+  { header: "Market", value: (o) => [o.marketTitle, o.outcomeTitle].filter(Boolean).join(" · "), maxWidth: 40 },
+  { header: "Token", value: (o) => o.tokenId },
+];
+
+const ordersCommand: CliCommand = async (args, options) => {
+  const which = args[0] ?? "open";
+  if (which !== "open" && which !== "history") throw new CliError("Usage: orders open|history", EXIT.USAGE);
+  await requireSigner();
+
+  const orders = which === "open" ? await fetchOpenOrders() : await fetchTradeHistory();
+  if (orders.length === 0 && options.format === "table") {
+    note(which === "open" ? "No open orders." : "No trade history.");
+    return;
+  }
+  print(renderRows(options.format, orders, ORDER_COLUMNS));
+};
+
+// ─── order place / cancel ────────────────────────────────────────────────────
+
+const ORDER_TYPES: OrderType[] = ["GTC", "FOK", "GTD"];
+
+async function resolveOrder(options: CliOptions): Promise<Order> {
+  const usage = "Usage: order place (--token <id> | --market <id> --outcome <name>) --side buy|sell --price <0-1> --shares <n> [--type GTC|FOK|GTD] [--post-only] [--yes]";
+  const side = (options.side ?? "").toUpperCase() as OrderSide;
+  const price = Number.parseFloat(options.price ?? "");
+  const shares = Number.parseFloat(options.shares ?? "");
+  const type = (options.type ?? "GTC").toUpperCase() as OrderType;
+
+  if (side !== "BUY" && side !== "SELL") throw new CliError(`--side must be buy or sell\n${usage}`, EXIT.USAGE);
+  if (!(price > 0 && price < 1)) throw new CliError(`--price must be between 0 and 1\n${usage}`, EXIT.USAGE);
+  if (!(shares > 0)) throw new CliError(`--shares must be greater than 0\n${usage}`, EXIT.USAGE);
+  if (!ORDER_TYPES.includes(type)) throw new CliError(`--type must be one of ${ORDER_TYPES.join(", ")}`, EXIT.USAGE);
+
+  let tokenId = options.token;
+  let marketTitle: string | undefined;
+  let outcomeTitle: string | undefined;
+  let negRisk: boolean | undefined;
+
+  if (options.market) {
+    const market = await getMarketDetails(options.market);
+    if (!market) throw new CliError(`Market ${options.market} not found.`, EXIT.NOT_FOUND);
+    const wanted = options.outcome?.toLowerCase();
+    const outcome = tokenId
+      ? market.outcomes.find((o) => o.id === tokenId)
+      : wanted ? market.outcomes.find((o) => o.title.toLowerCase() === wanted) : undefined;
+    if (!outcome) {
+      throw new CliError(
+        `Outcome ${options.outcome ?? tokenId ?? "(none)"} not found. Options: ${market.outcomes.map((o) => o.title).join(", ")}`,
+        options.outcome || tokenId ? EXIT.NOT_FOUND : EXIT.USAGE,
+      );
+    }
+    tokenId = outcome.id;
+    marketTitle = market.title;
+    outcomeTitle = outcome.title;
+    negRisk = market.negRisk;
+  }
+
+  if (!tokenId) throw new CliError(usage, EXIT.USAGE);
+
+  return {
+    tokenId,
+    side,
+    price,
+    shares,
+    type,
+    postOnly: options["post-only"] === true,
+    marketId: options.market,
+    marketTitle,
+    outcomeTitle,
+    negRisk,
+  };
+}
+
+const orderCommand: CliCommand = async (args, options) => {
+  const action = args[0];
+
+  if (action === "place") {
+    const order = await resolveOrder(options);
+    const summary = `${order.side} ${order.shares} ${order.outcomeTitle ?? order.tokenId} @ ${cents(order.price)} (${order.type}${order.postOnly ? ", post-only" : ""}) = ${usd(order.price * order.shares)}`;
+
+    // Real money: without --yes this is a dry run that only shows the order
+    if (!options.yes) {
+      if (options.format === "json") print(JSON.stringify({ dryRun: true, order }, null, 2));
+      else print(`${summary}${order.marketTitle ? `\n${order.marketTitle}` : ""}`);
+      note("Dry run — pass --yes to send this order.");
+      return;
+    }
+
+    await requireSigner();
+    let placed: PlacedOrder;
+    try {
+      placed = await placeOrder(order);
+    } catch (e) {
+      throw new CliError(`Order rejected: ${e instanceof Error ? e.message : String(e)}`, EXIT.REJECTED);
+    }
+    if (options.format === "table") print(`Placed ${summary}\nOrder ID: ${placed.orderId} · status ${placed.status}`);
+    else print(renderRows(options.format, [placed], ORDER_COLUMNS, placed));
+    return;
+  }
+
+  if (action === "cancel") {
+    await requireSigner();
+    if (options.all) {
+      const result = await cancelAllOrders().catch((e) => {
+        throw new CliError(`Cancel rejected: ${e instanceof Error ? e.message : String(e)}`, EXIT.REJECTED);
+      });
+      const failed = Object.entries(result.notCanceled);
+      if (options.format === "json") print(JSON.stringify(result, null, 2));
+      else print(`Cancelled ${result.canceled.length} order(s).${failed.map(([id, reason]) => `\n  ${id}: ${reason}`).join("")}`);
+      if (failed.length > 0) throw new CliError(`${failed.length} order(s) could not be cancelled.`, EXIT.REJECTED);
+      return;
+    }
+
+    const orderId = args[1];
+    if (!orderId) throw new CliError("Usage: order cancel <orderId> | order cancel --all", EXIT.USAGE);
+    let ok: boolean;
+    try {
+      ok = await cancelOrder(orderId);
+    } catch (e) {
+      throw new CliError(`Cancel rejected: ${e instanceof Error ? e.message : String(e)}`, EXIT.REJECTED);
+    }
+    if (!ok) throw new CliError(`Order ${orderId} was not cancelled (already filled or cancelled?).`, EXIT.REJECTED);
+    print(options.format === "json" ? JSON.stringify({ cancelled: orderId }, null, 2) : `Cancelled ${orderId}.`);
+    return;
+  }
+
+  throw new CliError("Usage: order place ... | order cancel <orderId> | order cancel --all", EXIT.USAGE);
+};
+
+// ─── alerts ──────────────────────────────────────────────────────────────────
+
+const ALERT_STATUSES: AlertStatus[] = ["active", "triggered", "dismissed"];
+
+const ALERT_COLUMNS: Column<PriceAlert>[] = [
+  { header: "ID", value: (a) => a.id },
+  { header: "Status", value: (a) => a.status },
+  { header: "Market", value: (a) => a.marketTitle, maxWidth: 45 },
+  { header: "Outcome", value: (a) => a.outcomeTitle },
+  { header: "Metric", value: (a) => a.metric },
+  { header: "Condition", value: (a) => a.condition },
+  { header: "Threshold", value: (a) => a.threshold, numeric: true },
+  { header: "Triggered", value: (a) => (a.triggeredAt ? new Date(a.triggeredAt).toISOString() : "") },
+];
+
+const alertsCommand: CliCommand = async (args, options) => {
+  if ((args[0] ?? "list") !== "list") throw new CliError("Usage: alerts list [--status active|triggered|dismissed]", EXIT.USAGE);
+  const status = options.status as AlertStatus | undefined;
+  if (status && !ALERT_STATUSES.includes(status)) {
+    throw new CliError(`--status must be one of ${ALERT_STATUSES.join(", ")}`, EXIT.USAGE);
+  }
+
+  loadAlerts();
+  const alerts = alertsState.alerts.filter((a) => !status || a.status === status);
+  if (alerts.length === 0 && options.format === "table") {
+    note("No alerts.");
+    return;
+  }
+  print(renderRows(options.format, [...alerts], ALERT_COLUMNS));
+};
+
+export const COMMANDS: Record<string, CliCommand> = {
+  markets: marketsCommand,
+  book: bookCommand,
+  positions: positionsCommand,
+  orders: ordersCommand,
+  order: orderCommand,
+  alerts: alertsCommand,
+};
@@ -0,0 +1,115 @@
+/**
+ * Headless CLI — `polymarket-tui <command>` runs one command and exits instead
+ * of rendering the TUI. See HELP for commands and exit codes.
+ */
+
+import { parseArgs } from "util";
+import { COMMANDS, CliError, CliOptions, EXIT } from "./commands";
+import { OutputFormat } from "./output";
+
+export { EXIT, CliError } from "./commands";
+
+const HELP = `Usage: polymarket-tui [command] [options]
+
+With no command the interactive TUI starts.
+
+Commands:
+  markets [--category <c>] [--search <q>] [--limit <n>]   List markets by 24h volume
+  book <tokenId> [--depth <n>]                            Order book for one outcome token
+  positions                                               Positions of the configured wallet
+  orders open|history                                     Open orders or trade history
+  order place (--token <id> | --market <id> --outcome <name>)
+              --side buy|sell --price <0-1> --shares <n>
+              [--type GTC|FOK|GTD] [--post-only] [--yes]  Place an order (dry run without --yes)
+  order cancel <orderId> | order cancel --all             Cancel one or all open orders
+  alerts list [--status active|triggered|dismissed]       Saved price alerts
+  help                                                    Show this help
+
+Output:
+  --json | --csv | --format table|json|csv                Default is an aligned table
+
+Environment:
+  POLYMARKET_TUI_PASSPHRASE                               Unlocks an encrypted wallet for orders
+
+Exit codes:
+  0 ok · 1 API/network error · 2 bad arguments · 3 nothing found
+  4 no wallet configured or wallet locked · 5 order or cancel rejected`;
+
+export function isCliCommand(arg: string | undefined): boolean {
+  return arg !== undefined && (arg in COMMANDS || arg === "help" || arg === "--help" || arg === "-h");
+}
+
+function parseFormat(values: { json?: boolean; csv?: boolean; format?: string }): OutputFormat {
+  if (values.json && values.csv) throw new CliError("Use only one of --json and --csv", EXIT.USAGE);
+  if (values.json) return "json";
+  if (values.csv) return "csv";
+  const format = values.format ?? "table";
+  if (format !== "table" && format !== "json" && format !== "csv") {
+    throw new CliError(`--format must be table, json or csv, got "${format}"`, EXIT.USAGE);
+  }
+  return format;
+}
+
+/** Run a command line (without the executable) and resolve to the exit code. */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    console.log(HELP);
+    return EXIT.OK;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`Unknown command "${command}".\n\n${HELP}`);
+    return EXIT.USAGE;
+  }
+
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({
+        args: rest,
+        options: {
+          json: { type: "boolean" },
+          csv: { type: "boolean" },
+          format: { type: "string" },
+          category: { type: "string" },
+          search: { type: "string" },
+          limit: { type: "string" },
+          depth: { type: "string" },
+          token: { type: "string" },
+          market: { type: "string" },
+          outcome: { type: "string" },
+          side: { type: "string" },
+          price: { type: "string" },
+          shares: { type: "string" },
+          type: { type: "string" },
+          status: { type: "string" },
+          "post-only": { type: "boolean" },
+          yes: { type: "boolean", short: "y" },
+          all: { type: "boolean" },
+        },
+        allowPositionals: true,
+        strict: true,
+      });
+    } catch (e) {
+      throw new CliError(e instanceof Error ? e.message : String(e), EXIT.USAGE);
+    }
+
+    const { json, csv, format, ...values } = parsed.values;
+    const options: CliOptions = { ...values, format: parseFormat({ json, csv, format }) };
+    await handler(parsed.positionals, options);
+    return EXIT.OK;
+  } catch (e) {
+    if (e instanceof CliError) {
+      console.error(e.message);
+      return e.exitCode;
+    }
+    console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+    return EXIT.ERROR;
+  }
+}
+
+if (import.meta.main) {
+  process.exit(await runCli(Bun.argv.slice(2)));
+}
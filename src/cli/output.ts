@@ -0,0 +1,62 @@
+/**
+ * Headless output — the same rows rendered as an aligned table (default),
+ * JSON, or CSV with raw numeric values for spreadsheets and other tools.
+ */
+
+import { padLeft, padRight, truncateString } from "../utils/format";
+
+export type OutputFormat = "table" | "json" | "csv";
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;   // raw, used for CSV
+  display?: (row: T) => string;                                       // table cell, defaults to value
+  numeric?: boolean;
+  maxWidth?: number;
+}
+
+function csvEscape(value: unknown): string {
+  const text = String(value ?? "");
+  if (text.includes(",") || text.includes("\"") || text.includes("\n")) {
+    return `"${text.replace(/\"/g, "\"\"")}"`;
+  }
+  return text;
+}
+
+export function formatTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map((row) =>
+    columns.map((col) => {
+      const text = col.display ? col.display(row) : String(col.value(row) ?? "");
+      return col.maxWidth ? truncateString(text, col.maxWidth) : text;
+    })
+  );
+  const widths = columns.map((col, i) => Math.max(col.header.length, ...cells.map((row) => row[i].length)));
+  const line = (values: string[]) =>
+    values.map((v, i) => (columns[i].numeric ? padLeft(v, widths[i]) : padRight(v, widths[i]))).join("  ").trimEnd();
+  return [line(columns.map((c) => c.header)), widths.map((w) => "─".repeat(w)).join("  "), ...cells.map(line)].join("\n");
+}
+
+export function formatCsv<T>(rows: T[], columns: Column<T>[]): string {
+  return [
+    columns.map((c) => csvEscape(c.header)).join(","),
+    ...rows.map((row) => columns.map((c) => csvEscape(c.value(row))).join(",")),
+  ].join("\n");
+}
+
+/**
+ * Render rows in the requested format. JSON emits `json` when given (usually
+ * the untouched API objects) so scripts see every field, not just the columns.
+ */
+export function renderRows<T>(format: OutputFormat, rows: T[], columns: Column<T>[], json?: unknown): string {
+  if (format === "json") return JSON.stringify(json ?? rows, null, 2);
+  if (format === "csv") return formatCsv(rows, columns);
+  return formatTable(rows, columns);
+}
+
+export function cents(price: number): string {
+  return `${(price * 100).toFixed(1)}¢`;
+}
+
+export function usd(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
@@ -5,6 +5,7 @@
 import { For, Show, createSignal } from "solid-js";
 import { useTheme } from "../context/theme";
 import { chatMessages, chatLoading, setChatInputFocused, authState, setAuthModalOpen, setAuthModalMode } from "../state";
+import { approvalState, currentApproval } from "../agent/approval";
 
 interface ToolCallDisplay {
   id: string;
@@ -127,6 +128,11 @@ export function ChatPanel() {
             </box>
           </Show>
 
+          {/* Pending real-money tool call awaiting approval */}
+          <Show when={currentApproval()}>
+            <ApprovalCard />
+          </Show>
+
           {/* Loading indicator */}
           <Show when={chatLoading()}>
             <text content="🤔 Thinking..." fg={theme.accent} />
@@ -171,3 +177,46 @@ function MessageContent(props: { content: string }) {
     </box>
   );
 }
+
+function ApprovalCard() {
+  const { theme } = useTheme();
+  const pending = () => currentApproval()!;
+  const capRemaining = () => {
+    const { dailyNotionalCap, spentToday } = approvalState.limits;
+    return Math.max(0, dailyNotionalCap - spentToday);
+  };
+
+  return (
+    <box flexDirection="column" paddingTop={1}>
+      <text
+        content={pending().tool === "place_order" ? "⚠ Approve order?" : "⚠ Approve cancel?"}
+        fg={theme.warning}
+      />
+      <text content={`   ${pending().marketTitle}${pending().outcomeTitle ? ` — ${pending().outcomeTitle}` : ""}`} fg={theme.text} />
+      <Show when={pending().side && pending().price !== undefined}>
+        <text
+          content={`   ${pending().side} ${pending().shares?.toFixed(2) ?? "?"} @ ${((pending().price ?? 0) * 100).toFixed(1)}¢  notional $${pending().notional.toFixed(2)}`}
+          fg={pending().side === "BUY" ? theme.success : theme.error}
+        />
+      </Show>
+      <Show when={pending().orderId}>
+        <text content={`   Order ${pending().orderId}`} fg={theme.textMuted} />
+      </Show>
+      <Show when={pending().tool === "place_order"}>
+        <text
+          content={pending().slippage
+            ? `   Est. fill ${(pending().slippage!.avgFillPrice * 100).toFixed(1)}¢ vs best ${(pending().slippage!.bestPrice * 100).toFixed(1)}¢  slippage ${pending().slippage!.slippagePct.toFixed(2)}%  fillable ${pending().slippage!.fillableShares.toFixed(0)}/${pending().shares?.toFixed(0) ?? "?"}`
+            : "   Est. slippage: order book unavailable"}
+          fg={theme.textMuted}
+        />
+      </Show>
+      <Show when={approvalState.limits.dailyNotionalCap > 0}>
+        <text content={`   Daily cap remaining: $${capRemaining().toFixed(2)}`} fg={theme.textMuted} />
+      </Show>
+      <Show when={approvalState.pending.length > 1}>
+        <text content={`   +${approvalState.pending.length - 1} more pending`} fg={theme.textMuted} />
+      </Show>
+      <text content="   [Y/Enter] Approve   [N/Esc] Reject" fg={theme.accent} />
+    </box>
+  );
+}
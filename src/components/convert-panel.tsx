@@ -0,0 +1,110 @@
+/**
+ * Convert NO panel — pick NO holdings in a neg-risk event and preview the YES
+ * set and USDC they convert into. All keyboard handling lives in app.tsx.
+ */
+
+import { For, Show } from "solid-js";
+import { useTheme } from "../context/theme";
+import { convertState, closeConvertPanel, getConversionPreview } from "../hooks/useNegRisk";
+
+function truncate(str: string, len: number): string {
+  return str.length > len ? str.slice(0, len - 1) + "…" : str.padEnd(len, " ");
+}
+
+function cents(price: number): string {
+  return `${(price * 100).toFixed(1)}¢`;
+}
+
+export function ConvertPanel() {
+  const { theme } = useTheme();
+  const preview = () => getConversionPreview();
+  const isConverted = (marketId: string) => convertState.selected.includes(marketId);
+
+  return (
+    <box
+      position="absolute"
+      top={3}
+      left="10%"
+      width="80%"
+      height={26}
+      backgroundColor={theme.panelModal}
+      flexDirection="column"
+      zIndex={160}
+    >
+      {/* Header */}
+      <box height={1} width="100%" backgroundColor={theme.accent} flexDirection="row">
+        <text content={` ◆ CONVERT NO — ${truncate(convertState.eventTitle, 48).trimEnd()} `} fg={theme.highlightText} />
+        <box flexGrow={1} />
+        <box onMouseDown={closeConvertPanel}>
+          <text content=" [ESC] ✕ " fg={theme.highlightText} />
+        </box>
+      </box>
+
+      <box flexDirection="column" flexGrow={1} paddingLeft={2} paddingRight={2} paddingTop={1}>
+        <Show when={!convertState.loading} fallback={<text content="Loading event outcomes…" fg={theme.textMuted} />}>
+          <box flexDirection="row" width="100%">
+            <text content="    " fg={theme.textMuted} width={4} />
+            <text content="OUTCOME                            " fg={theme.textMuted} width={36} />
+            <text content="YES     " fg={theme.textMuted} width={9} />
+            <text content="NO      " fg={theme.textMuted} width={9} />
+            <text content="NO HELD   " fg={theme.textMuted} width={11} />
+            <text content="RESULT" fg={theme.textMuted} />
+          </box>
+
+          <scrollbox height={10} width="100%">
+            <For each={convertState.legs}>
+              {(leg, i) => {
+                const isSelected = () => convertState.selectedIdx === i();
+                return (
+                  <box flexDirection="row" width="100%" backgroundColor={isSelected() ? theme.highlight : undefined}>
+                    <text content={isConverted(leg.marketId) ? " [x]" : " [ ]"} fg={theme.accent} width={4} />
+                    <text content={truncate(leg.title, 35)} fg={isSelected() ? theme.highlightText : theme.text} width={36} />
+                    <text content={cents(leg.yesPrice)} fg={theme.success} width={9} />
+                    <text content={cents(leg.noPrice)} fg={theme.error} width={9} />
+                    <text content={leg.noShares.toFixed(2)} fg={leg.noShares > 0 ? theme.textBright : theme.textMuted} width={11} />
+                    <text
+                      content={isConverted(leg.marketId) ? "− NO" : "+ YES"}
+                      fg={isConverted(leg.marketId) ? theme.error : theme.success}
+                    />
+                  </box>
+                );
+              }}
+            </For>
+          </scrollbox>
+
+          {/* Preview */}
+          <box flexDirection="column" paddingTop={1}>
+            <box flexDirection="row" gap={2}>
+              <text content="Shares per outcome:" fg={theme.textMuted} />
+              <text content={convertState.amount || " "} fg={theme.textBright} />
+              <text content={`(max ${preview().maxAmount.toFixed(2)})`} fg={theme.textMuted} />
+            </box>
+            <text
+              content={`Give up: ${preview().converted.length} × NO  (≈ $${preview().noValue.toFixed(2)} at market)`}
+              fg={theme.text}
+            />
+            <text
+              content={`Receive: ${preview().received.length} × YES (≈ $${preview().yesValue.toFixed(2)}) + $${preview().collateral.toFixed(2)} USDC`}
+              fg={theme.text}
+            />
+            <Show when={preview().converted.length > 0 && preview().amount > 0}>
+              <text
+                content={`Net vs market: ${preview().yesValue + preview().collateral - preview().noValue >= 0 ? "+" : "-"}$${Math.abs(preview().yesValue + preview().collateral - preview().noValue).toFixed(2)}`}
+                fg={preview().yesValue + preview().collateral >= preview().noValue ? theme.success : theme.warning}
+              />
+            </Show>
+          </box>
+        </Show>
+
+        <box flexGrow={1} />
+        <Show when={convertState.error}>
+          <text content={convertState.error} fg={theme.error} />
+        </Show>
+        <Show when={convertState.status}>
+          <text content={convertState.status} fg={theme.success} />
+        </Show>
+        <text content="↑↓ move · [Space] toggle · type shares · [Enter] convert on-chain · [Esc] close" fg={theme.textMuted} />
+      </box>
+    </box>
+  );
+}
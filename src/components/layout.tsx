@@ -13,6 +13,8 @@ import { WalletConnect } from "./wallet-connect";
 import { OrderForm } from "./order-form";
 import { OrderHistory } from "./order-history";
 import { AlertsPanel } from "./alerts-panel";
+import { RulesPanel } from "./rules-panel";
+import { ConvertPanel } from "./convert-panel";
 import { IndicatorsPanel } from "./indicators-panel";
 import { SentimentPanel } from "./sentiment-panel";
 import { ComparisonPanel } from "./comparison-panel";
@@ -51,6 +53,8 @@ import {
   assistantPanelOpen,
 } from "../state";
 import { alertsState } from "../hooks/useAlerts";
+import { rulesState } from "../hooks/useRules";
+import { convertState } from "../hooks/useNegRisk";
 
 export function Layout() {
   const { theme } = useTheme();
@@ -127,7 +131,7 @@ export function Layout() {
       {/* Backdrop — dims main content behind any open panel */}
       <Show when={
         walletModalOpen() || orderFormOpen() || orderHistoryOpen() ||
-        alertsState.panelOpen || indicatorsPanelOpen() || sentimentPanelOpen() ||
+        alertsState.panelOpen || rulesState.panelOpen || convertState.panelOpen || indicatorsPanelOpen() || sentimentPanelOpen() ||
         comparisonPanelOpen() || watchlistPanelOpen() || settingsPanelOpen() || shortcutsPanelOpen() ||
         orderBookPanelOpen() || filterPanelOpen() || analyticsPanelOpen() || messagesPanelOpen() || authModalOpen() ||
         profilePanelOpen() || userSearchOpen()
@@ -168,6 +172,16 @@ export function Layout() {
         <AlertsPanel />
       </Show>
 
+      {/* Automation Rules Panel Modal */}
+      <Show when={rulesState.panelOpen}>
+        <RulesPanel />
+      </Show>
+
+      {/* Neg-risk Convert NO Panel Modal */}
+      <Show when={convertState.panelOpen}>
+        <ConvertPanel />
+      </Show>
+
       {/* Indicators Panel Modal */}
       <Show when={indicatorsPanelOpen()}>
         <IndicatorsPanel />
@@ -265,6 +265,9 @@ export function MarketDetails() {
                 content={market().closed ? "● CLOSED" : "● OPEN"}
                 fg={market().closed ? theme.error : theme.success}
               />
+              <Show when={market().negRisk}>
+                <text content="◆ NEG RISK  [N] Convert NO" fg={theme.warning} />
+              </Show>
               <Show when={market().resolutionDate && !market().closed}>
                 <text
                   content={`Expires ${formatClockTime(market().resolutionDate!)}  (${formatCountdown(market().resolutionDate!)})`}
@@ -1,18 +1,17 @@
 /**
  * Live order book depth panel with real-time WebSocket streaming.
- * Connects to wss://ws-subscriptions-clob.polymarket.com/ws/ and shows
+ * Subscribes the selected outcome on the shared market-data bus and shows
  * live bid/ask levels with visual depth bars.
  *
  * Keyboard: ESC to close, Tab to switch outcomes (if multi-outcome market)
  */
 
 import { createSignal, createEffect, onCleanup, createMemo, For, Show } from "solid-js";
-import { createStore, produce } from "solid-js/store";
+import { createStore } from "solid-js/store";
 import { useTheme } from "../context/theme";
-import { appState, setOrderBookPanelOpen } from "../state";
-import { createClobWebSocket, WsStatus } from "../api/ws";
-import type { WsBookSnapshot, WsPriceChange, WsTrade } from "../api/ws";
-import { getMarketDepth } from "../api/polymarket";
+import { appState, setOrderBookPanelOpen, wsConnectionStatus } from "../state";
+import { getMarketDataBus } from "../api/websocket";
+import { getOrderBookEngine, ChecksumState } from "../api/orderbook";
 import { formatPrice as fmtPct } from "../utils/format";
 
 interface DepthLevel {
@@ -51,10 +50,11 @@ const BAR_WIDTH = 18;
 export function OrderBookPanel() {
   const { theme } = useTheme();
 
-  const [wsStatus, setWsStatus] = createSignal<WsStatus>("disconnected");
+  const wsStatus = wsConnectionStatus;
   const [lastTrade, setLastTrade] = createSignal<LastTrade | null>(null);
   const [selectedOutcomeIdx, setSelectedOutcomeIdx] = createSignal(0);
   const [loadingSnapshot, setLoadingSnapshot] = createSignal(true);
+  const [checksum, setChecksum] = createSignal<ChecksumState>("unverified");
 
   const [book, setBook] = createStore<BookState>({ bids: [], asks: [] });
 
@@ -116,7 +116,7 @@ export function OrderBookPanel() {
   const maxAskSize = createMemo(() => Math.max(...(book.asks ?? []).map((a) => a.size), 1));
   const maxCumulative = createMemo(() => Math.max(totalBidDepth(), totalAskDepth(), 1));
 
-  // Bootstrap REST snapshot, then switch to live WebSocket deltas
+  // The local book engine owns snapshot + delta handling; this panel renders it
   createEffect(() => {
     const outcome = selectedOutcome();
     if (!outcome || !outcome.id) {
@@ -125,75 +125,27 @@ export function OrderBookPanel() {
     }
 
     const tokenId = outcome.id;
-    let cancelled = false;
+    const engine = getOrderBookEngine();
+    const untrack = engine.track(tokenId);
 
-    // Fetch initial REST snapshot
     setLoadingSnapshot(true);
-    void (async () => {
-      const depth = await getMarketDepth(tokenId, 20);
-      if (cancelled) return;
+    const offBook = engine.onUpdate(tokenId, (local) => {
       setLoadingSnapshot(false);
-      if (depth && depth.bids && depth.asks) {
-        setBook({
-          bids: depth.bids.map((l) => ({ price: l.price, size: l.size })),
-          asks: depth.asks.map((l) => ({ price: l.price, size: l.size })),
-        });
-      }
-    })();
-
-    // Set up WebSocket for real-time updates
-    const ws = createClobWebSocket();
-
-    const offStatus = ws.onStatus((status) => setWsStatus(status));
-
-    const offMsg = ws.onMessage((msg) => {
-      if (msg.assetId !== tokenId) return;
-
-      if (msg.type === "book") {
-        const snap = msg as WsBookSnapshot;
-        setBook({
-          bids: (snap.bids || [])
-            .filter((l) => l.size > 0)
-            .sort((a, b) => b.price - a.price),
-          asks: (snap.asks || [])
-            .filter((l) => l.size > 0)
-            .sort((a, b) => a.price - b.price),
-        });
-      } else if (msg.type === "price_change") {
-        const delta = msg as WsPriceChange;
-        const key = delta.side === "BUY" ? "bids" : "asks";
-        setBook(
-          key,
-          produce((levels: DepthLevel[]) => {
-            const idx = levels.findIndex((l) => Math.abs(l.price - delta.price) < 1e-8);
-            if (delta.size <= 0) {
-              if (idx >= 0) levels.splice(idx, 1);
-            } else if (idx >= 0) {
-              levels[idx].size = delta.size;
-            } else {
-              levels.push({ price: delta.price, size: delta.size });
-              if (key === "bids") {
-                levels.sort((a: DepthLevel, b: DepthLevel) => b.price - a.price);
-              } else {
-                levels.sort((a: DepthLevel, b: DepthLevel) => a.price - b.price);
-              }
-            }
-          })
-        );
-      } else if (msg.type === "last_trade_price") {
-        const trade = msg as WsTrade;
-        setLastTrade({ price: trade.price, size: trade.size, side: trade.side });
-      }
+      setChecksum(local.checksum);
+      setBook({
+        bids: local.levels("bids", 20),
+        asks: local.levels("asks", 20),
+      });
     });
 
-    ws.connect();
-    ws.subscribe([tokenId]);
+    const offTrade = getMarketDataBus().on("last_trade_price", (trade) => {
+      setLastTrade({ price: trade.price, size: trade.size, side: trade.side });
+    }, [tokenId]);
 
     onCleanup(() => {
-      cancelled = true;
-      offStatus();
-      offMsg();
-      ws.destroy();
+      offBook();
+      offTrade();
+      untrack();
     });
   });
 
@@ -224,6 +176,10 @@ export function OrderBookPanel() {
           />
         </Show>
         <box flexGrow={1} />
+        <text
+          content={checksum() === "verified" ? " ✓ HASH " : checksum() === "disabled" ? " ~ HASH " : ""}
+          fg={checksum() === "verified" ? theme.success : theme.warning}
+        />
         <text
           content={wsStatus() === "connected" ? " ● LIVE " : wsStatus() === "connecting" ? " ◌ CONNECTING " : " ○ OFFLINE "}
           fg={wsStatus() === "connected" ? theme.success : wsStatus() === "connecting" ? theme.warning : theme.error}
@@ -1,10 +1,10 @@
 /**
  * Order entry modal — opened with O key (buy) or S key (sell) on selected market
- * TAB switches between price/shares fields
+ * TAB switches fields, M toggles limit/market mode
  * ENTER submits, ESC cancels
  */
 
-import { Show, createMemo, createSignal, createEffect } from "solid-js";
+import { Show, createMemo, createSignal, createEffect, onCleanup } from "solid-js";
 import { useTheme } from "../context/theme";
 import {
   walletState,
@@ -18,14 +18,23 @@ import {
   orderFormFocusField,
   orderFormType,
   orderFormPostOnly,
+  orderFormMode,
+  orderFormExpiryInput,
+  orderFormSlippageInput,
   setOrderFormType,
   setOrderFormPostOnly,
   setOrderFormOpen,
   setOrderFormPriceInput,
   setOrderFormSharesInput,
+  setOrderFormExpiryInput,
+  setOrderFormSlippageInput,
 } from "../state";
 import { ordersState } from "../hooks/useOrders";
+import { paperState } from "../hooks/usePaperTrading";
 import { getOrderBookSummary, OrderBookSummary } from "../api/polymarket";
+import { getOrderBookEngine, MarketOrderQuote, VwapResult } from "../api/orderbook";
+import { OrderType } from "../types/orders";
+import { ExpiryResult, formatExpiry, parseExpiry } from "../utils/expiry";
 
 function truncate(str: string, max: number): string {
   return str.length > max ? str.slice(0, max - 1) + "…" : str;
@@ -84,9 +93,50 @@ export function OrderForm() {
     };
   });
 
-  const parsedPrice = createMemo(() => Number.parseFloat(orderFormPriceInput()));
+  // Live local book for fill estimates (summary above still supplies tick/min size)
+  const [bookVersion, setBookVersion] = createSignal(0);
+  createEffect(() => {
+    const tokenId = orderFormTokenId();
+    if (!tokenId) return;
+    const engine = getOrderBookEngine();
+    const untrack = engine.track(tokenId);
+    const off = engine.onUpdate(tokenId, () => setBookVersion((v) => v + 1));
+    onCleanup(() => {
+      off();
+      untrack();
+    });
+  });
+
+  const isMarket = () => orderFormMode() === "market";
   const parsedShares = createMemo(() => Number.parseFloat(orderFormSharesInput()));
+  const parsedSlippage = createMemo(() => Number.parseFloat(orderFormSlippageInput()));
+
+  const sharesValid = createMemo(() => {
+    const v = parsedShares();
+    if (isNaN(v) || v <= 0) return false;
+    // Check max 2 decimal places
+    const sharesTimes100 = v * 100;
+    return Number.isInteger(sharesTimes100) || sharesTimes100 % 1 < 0.01;
+  });
+
+  const slippageValid = createMemo(() => {
+    const v = parsedSlippage();
+    return !isNaN(v) && v >= 0 && v <= 50;
+  });
+
+  // Market mode: sweep the live book up to the slippage limit
+  const marketQuote = createMemo((): MarketOrderQuote | null => {
+    bookVersion();
+    if (!isMarket() || !slippageValid() || !sharesValid()) return null;
+    const book = getOrderBookEngine().getBook(orderFormTokenId());
+    return book?.quoteMarketOrder(side(), parsedShares(), parsedSlippage() / 100) ?? null;
+  });
+
+  const parsedPrice = createMemo(() =>
+    isMarket() ? marketQuote()?.limitPrice ?? NaN : Number.parseFloat(orderFormPriceInput())
+  );
 
+  // Worst-case spend: the limit times the full size, as the exchange reserves it
   const estimatedCost = createMemo(() => {
     const price = parsedPrice();
     const shares = parsedShares();
@@ -99,28 +149,40 @@ export function OrderForm() {
     return !isNaN(v) && v >= 0.01 && v <= 0.99;
   });
 
-  const sharesValid = createMemo(() => {
-    const v = parsedShares();
-    if (isNaN(v) || v <= 0) return false;
-    // Check max 2 decimal places
-    const sharesTimes100 = v * 100;
-    return Number.isInteger(sharesTimes100) || sharesTimes100 % 1 < 0.01;
-  });
+  const expiry = createMemo((): ExpiryResult | null =>
+    !isMarket() && orderFormType() === "GTD" ? parseExpiry(orderFormExpiryInput()) : null
+  );
+  const expiryLabel = () => {
+    const result = expiry();
+    if (!result) return "";
+    if (!result.ok) return `  ✗ ${result.error}`;
+    return `  ${formatExpiry(result.expiresAt)}${orderFormExpiryInput().trim() ? "" : " (24h default)"}`;
+  };
+
+  // Paper mode spends paper cash not already reserved by resting BUYs
+  const balance = createMemo(() =>
+    paperState.enabled
+      ? paperState.cash - paperState.openOrders
+          .filter((o) => o.side === "BUY")
+          .reduce((sum, o) => sum + o.price * o.sizeRemaining, 0)
+      : walletState.balance
+  );
 
   const buyBalanceExceeded = createMemo(() =>
     side() === "BUY"
     && estimatedCost() !== null
-    && estimatedCost()! > walletState.balance + 1e-6
+    && estimatedCost()! > balance() + 1e-6
   );
 
   const buyBalanceTight = createMemo(() =>
     side() === "BUY"
     && estimatedCost() !== null
     && !buyBalanceExceeded()
-    && estimatedCost()! > walletState.balance * 0.9
+    && estimatedCost()! > balance() * 0.9
   );
 
   const tickSizeInvalid = createMemo(() => {
+    if (isMarket()) return false;
     const tick = orderBook()?.tickSize;
     if (tick === null || tick === undefined) return false;
     if (!priceValid()) return false;
@@ -145,7 +207,7 @@ export function OrderForm() {
   });
 
   const adverseDistanceBps = createMemo(() => {
-    if (!priceValid()) return 0;
+    if (isMarket() || !priceValid()) return 0;
     const ref = quoteReferencePrice();
     if (!Number.isFinite(ref) || ref <= 0) return 0;
 
@@ -169,6 +231,24 @@ export function OrderForm() {
     return null;
   });
 
+  const fillEstimate = createMemo((): VwapResult | null => {
+    bookVersion();
+    const book = getOrderBookEngine().getBook(orderFormTokenId());
+    if (isMarket() || !book || !priceValid() || !sharesValid()) return null;
+    return book.vwapForSize(side(), parsedShares(), parsedPrice());
+  });
+
+  const marketQuoteError = createMemo(() => {
+    if (!isMarket() || !sharesValid() || !slippageValid()) return null;
+    const quote = marketQuote();
+    if (!quote) return "No live book to price a market order yet.";
+    if (quote.filled <= 0) return "No liquidity within the slippage limit.";
+    if (orderFormType() === "FOK" && !quote.complete) {
+      return `FOK would be rejected: only ${quote.filled.toFixed(2)} sh within the slippage limit — widen it or use FAK.`;
+    }
+    return null;
+  });
+
   const spreadWarning = createMemo(() => {
     const spreadBps = orderBook()?.spreadBps;
     if (spreadBps === null || spreadBps === undefined) return null;
@@ -179,12 +259,14 @@ export function OrderForm() {
   });
 
   const invalidPostOnlyConfig = createMemo(() =>
-    orderFormPostOnly() && orderFormType() === "FOK"
+    orderFormPostOnly() && (orderFormType() === "FOK" || orderFormType() === "FAK")
   );
 
   const canSubmit = createMemo(() =>
     priceValid()
     && sharesValid()
+    && (!isMarket() || (slippageValid() && marketQuoteError() === null))
+    && (expiry()?.ok ?? true)
     && !invalidPostOnlyConfig()
     && !buyBalanceExceeded()
     && !tickSizeInvalid()
@@ -198,14 +280,14 @@ export function OrderForm() {
       top={3}
       left="20%"
       width="60%"
-      height={19}
+      height={22}
       backgroundColor={theme.panelModal}
       flexDirection="column"
       zIndex={200}
     >
       {/* Header */}
       <box height={1} width="100%" backgroundColor={sideColor()} flexDirection="row">
-        <text content={` ◈ ${side()} ORDER `} fg={theme.highlightText} />
+        <text content={` ◈ ${paperState.enabled ? "PAPER " : ""}${side()} ORDER `} fg={theme.highlightText} />
         <box flexGrow={1} />
         <box onMouseDown={() => {
           setOrderFormOpen(false);
@@ -246,50 +328,80 @@ export function OrderForm() {
       <box flexDirection="column" paddingLeft={2} paddingTop={1} gap={0}>
         <box flexDirection="row" alignItems="center">
           <text content="Order Type   : " fg={theme.textMuted} width={16} />
+          <text content={isMarket() ? "[MARKET]" : "[LIMIT]"} fg={theme.accent} />
+          <text content=" " />
           <box onMouseDown={() => {
-            const types: Array<"GTC"|"FOK"|"GTD"> = ["GTC","FOK","GTD"];
+            const types: OrderType[] = isMarket() ? ["FOK", "FAK"] : ["GTC", "FOK", "GTD"];
             setOrderFormType(types[(types.indexOf(orderFormType()) + 1) % types.length]);
           }}>
             <text content={`[${orderFormType()}]`} fg={theme.warning} />
           </box>
-          <text content="  [T] Toggle" fg={theme.textMuted} />
+          <text content="  [M] Limit/Market  [T] Toggle" fg={theme.textMuted} />
         </box>
 
-        <box flexDirection="row" alignItems="center">
-          <text content="Post Only    : " fg={theme.textMuted} width={16} />
-          <box onMouseDown={() => setOrderFormPostOnly(!orderFormPostOnly())}>
-            <text
-              content={orderFormPostOnly() ? "[ON]" : "[OFF]"}
-              fg={orderFormPostOnly() ? theme.success : theme.textMuted}
-            />
+        <Show when={!isMarket()}>
+          <box flexDirection="row" alignItems="center">
+            <text content="Post Only    : " fg={theme.textMuted} width={16} />
+            <box onMouseDown={() => setOrderFormPostOnly(!orderFormPostOnly())}>
+              <text
+                content={orderFormPostOnly() ? "[ON]" : "[OFF]"}
+                fg={orderFormPostOnly() ? theme.success : theme.textMuted}
+              />
+            </box>
+            <text content="  [P] Toggle" fg={theme.textMuted} />
           </box>
-          <text content="  [P] Toggle" fg={theme.textMuted} />
-        </box>
+        </Show>
 
         <Show when={invalidPostOnlyConfig()}>
-          <text content="Post-only is not valid with FOK; use GTC/GTD." fg={theme.error} />
+          <text content={`Post-only is not valid with ${orderFormType()}; use GTC/GTD.`} fg={theme.error} />
         </Show>
 
         <text content="" />
 
-        <box flexDirection="row" alignItems="center">
-          <text
-            content={orderFormFocusField() === "price" ? "▶ Price (0.01-0.99): " : "  Price (0.01-0.99): "}
-            fg={orderFormFocusField() === "price" ? sideColor() : theme.textMuted}
-            width={17}
-          />
-          <input
-            width={12}
-            value={orderFormPriceInput()}
-            focused={orderFormFocusField() === "price"}
-          />
-          <Show when={orderFormPriceInput() !== "" && !priceValid()}>
-            <text content="  ✗ 0.01-0.99" fg={theme.error} />
-          </Show>
-          <Show when={tickSizeInvalid()}>
-            <text content={`  ✗ Tick ${formatCents(orderBook()?.tickSize)}`} fg={theme.error} />
-          </Show>
-        </box>
+        <Show
+          when={!isMarket()}
+          fallback={
+            <box flexDirection="row" alignItems="center">
+              <text
+                content={orderFormFocusField() === "slippage" ? "▶ Max slippage (%): " : "  Max slippage (%): "}
+                fg={orderFormFocusField() === "slippage" ? sideColor() : theme.textMuted}
+                width={21}
+              />
+              <input
+                width={8}
+                value={orderFormSlippageInput()}
+                focused={orderFormFocusField() === "slippage"}
+                onInput={(v: string) => setOrderFormSlippageInput(v)}
+              />
+              <Show when={!slippageValid()}>
+                <text content="  ✗ 0-50" fg={theme.error} />
+              </Show>
+              <Show when={marketQuote()}>
+                <text content={`  limit ${formatCents(marketQuote()!.limitPrice)}`} fg={theme.textMuted} />
+              </Show>
+            </box>
+          }
+        >
+          <box flexDirection="row" alignItems="center">
+            <text
+              content={orderFormFocusField() === "price" ? "▶ Price (0.01-0.99): " : "  Price (0.01-0.99): "}
+              fg={orderFormFocusField() === "price" ? sideColor() : theme.textMuted}
+              width={17}
+            />
+            <input
+              width={12}
+              value={orderFormPriceInput()}
+              focused={orderFormFocusField() === "price"}
+              onInput={(v: string) => setOrderFormPriceInput(v)}
+            />
+            <Show when={orderFormPriceInput() !== "" && !priceValid()}>
+              <text content="  ✗ 0.01-0.99" fg={theme.error} />
+            </Show>
+            <Show when={tickSizeInvalid()}>
+              <text content={`  ✗ Tick ${formatCents(orderBook()?.tickSize)}`} fg={theme.error} />
+            </Show>
+          </box>
+        </Show>
 
         <box flexDirection="row" alignItems="center">
           <text
@@ -301,17 +413,35 @@ export function OrderForm() {
             width={12}
             value={orderFormSharesInput()}
             focused={orderFormFocusField() === "shares"}
+            onInput={(v: string) => setOrderFormSharesInput(v)}
           />
           <Show when={minSizeInvalid()}>
             <text content={`  ✗ Min ${orderBook()?.minOrderSize?.toFixed(2) ?? "--"}`} fg={theme.error} />
           </Show>
         </box>
 
+        <Show when={expiry()}>
+          <box flexDirection="row" alignItems="center">
+            <text
+              content={orderFormFocusField() === "expiry" ? "▶ Expires (2h, 17:30, date): " : "  Expires (2h, 17:30, date): "}
+              fg={orderFormFocusField() === "expiry" ? sideColor() : theme.textMuted}
+              width={30}
+            />
+            <input
+              width={18}
+              value={orderFormExpiryInput()}
+              focused={orderFormFocusField() === "expiry"}
+              onInput={(v: string) => setOrderFormExpiryInput(v)}
+            />
+            <text content={expiryLabel()} fg={expiry()!.ok ? theme.textMuted : theme.error} />
+          </box>
+        </Show>
+
         <Show when={estimatedCost() !== null}>
           <box flexDirection="row">
-            <text content="  Est. Cost    : " fg={theme.textMuted} width={17} />
+            <text content={isMarket() ? "  Max Cost     : " : "  Est. Cost    : "} fg={theme.textMuted} width={17} />
             <text content={`$${estimatedCost()!.toFixed(4)} USDC`} fg={theme.warning} />
-            <text content={`  (Bal: $${walletState.balance.toFixed(2)})`} fg={theme.textMuted} />
+            <text content={`  (${paperState.enabled ? "Paper" : "Bal"}: $${balance().toFixed(2)})`} fg={theme.textMuted} />
           </box>
         </Show>
 
@@ -321,6 +451,21 @@ export function OrderForm() {
         <Show when={!buyBalanceExceeded() && buyBalanceTight()}>
           <text content="High balance usage: this order consumes over 90% of available USDC." fg={theme.warning} />
         </Show>
+        <Show when={fillEstimate() && fillEstimate()!.filled > 0}>
+          <text
+            content={`Fill est: ${fillEstimate()!.filled.toFixed(2)}/${parsedShares().toFixed(2)} sh @ avg ${formatCents(fillEstimate()!.avgPrice)} (worst ${formatCents(fillEstimate()!.worstPrice)})${fillEstimate()!.complete ? "" : " — remainder rests on book"}`}
+            fg={theme.textMuted}
+          />
+        </Show>
+        <Show when={marketQuote() && marketQuote()!.filled > 0}>
+          <text
+            content={`Fill est: ${marketQuote()!.filled.toFixed(2)}/${parsedShares().toFixed(2)} sh @ avg ${formatCents(marketQuote()!.avgPrice)} (worst ${formatCents(marketQuote()!.worstPrice)}, ${marketQuote()!.levels} level${marketQuote()!.levels === 1 ? "" : "s"})${marketQuote()!.complete ? "" : orderFormType() === "FAK" ? " — rest is killed" : ""}`}
+            fg={theme.textMuted}
+          />
+        </Show>
+        <Show when={marketQuoteError()}>
+          <text content={marketQuoteError()!} fg={theme.error} />
+        </Show>
         <Show when={slippageWarning()}>
           <text content={slippageWarning()!} fg={theme.warning} />
         </Show>
@@ -344,7 +489,10 @@ export function OrderForm() {
             <text content="[ENTER] Confirm" fg={canSubmit() ? sideColor() : theme.textMuted} />
             <text content="[TAB] Switch" fg={theme.textMuted} />
             <text content="[T] Type" fg={theme.textMuted} />
-            <text content="[P] PostOnly" fg={theme.textMuted} />
+            <text content="[M] Mode" fg={theme.textMuted} />
+            <Show when={!isMarket()}>
+              <text content="[P] PostOnly" fg={theme.textMuted} />
+            </Show>
           </box>
         </Show>
       </box>
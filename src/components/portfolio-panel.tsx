@@ -1,5 +1,5 @@
 import { For, Show, createMemo } from "solid-js";
-import { positionsState } from "../hooks/usePositions";
+import { positionsState, combineAccountPositions } from "../hooks/usePositions";
 import { ordersState } from "../hooks/useOrders";
 import { calculatePortfolioSummary } from "../api/positions";
 import { walletState } from "../state";
@@ -107,6 +107,142 @@ function calcAccountStats(positions: Array<{ cashPnl: number; currentValue: numb
   };
 }
 
+/** Every saved account side by side, plus exposure summed across them. */
+function AllAccountsPortfolio() {
+  const { theme } = useTheme();
+
+  const portfolios = () => positionsState.accountPortfolios;
+  const totals = createMemo(() =>
+    calculatePortfolioSummary(portfolios().flatMap((p) => p.positions))
+  );
+  const combined = createMemo(() => combineAccountPositions(portfolios()));
+  const totalExposure = createMemo(() => combined().reduce((sum, p) => sum + p.size * p.curPrice, 0));
+
+  return (
+    <Show
+      when={portfolios().length > 0 || !positionsState.allAccountsLoading}
+      fallback={
+        <box padding={1}>
+          <text content="Fetching positions for every account..." fg={theme.textMuted} />
+        </box>
+      }
+    >
+      <Show
+        when={portfolios().length > 0}
+        fallback={
+          <box padding={1}>
+            <text content="No saved accounts — add one in the wallet modal (W)" fg={theme.textMuted} />
+          </box>
+        }
+      >
+        {/* Totals */}
+        <box flexDirection="row" width="100%" gap={2}>
+          <text content={`Value: $${totals().totalValue.toFixed(2)}`} fg={theme.textBright} />
+          <text
+            content={`P&L: ${fmtUsd(totals().totalCashPnl)}`}
+            fg={totals().totalCashPnl >= 0 ? theme.success : theme.error}
+          />
+          <text
+            content={fmtPct(totals().totalPercentPnl)}
+            fg={totals().totalPercentPnl >= 0 ? theme.success : theme.error}
+          />
+          <text content={`Exposure: ${fmtValue(totalExposure())}`} fg={theme.textMuted} />
+          <text content={`Accounts: ${portfolios().length}`} fg={theme.textMuted} />
+        </box>
+
+        <text content="" />
+
+        {/* Per-account rows */}
+        <box flexDirection="row" width="100%">
+          <text content="ACCOUNT" fg={theme.textMuted} width={18} />
+          <text content="ADDRESS" fg={theme.textMuted} width={14} />
+          <text content="POS" fg={theme.textMuted} width={5} />
+          <text content="VALUE" fg={theme.textMuted} width={10} />
+          <text content="P&L $" fg={theme.textMuted} width={10} />
+          <text content="ROI" fg={theme.textMuted} width={8} />
+          <text content="SHARE" fg={theme.textMuted} width={7} />
+        </box>
+        <For each={portfolios()}>
+          {(portfolio) => (
+            <box flexDirection="row" width="100%">
+              <text
+                content={truncate(`${portfolio.active ? "▶ " : "  "}${portfolio.name}${portfolio.watchOnly ? " (watch)" : ""}`, 17)}
+                fg={portfolio.active ? theme.primary : theme.text}
+                width={18}
+              />
+              <text content={`${portfolio.address.slice(0, 6)}…${portfolio.address.slice(-4)}`} fg={theme.textMuted} width={14} />
+              <Show
+                when={portfolio.error === null}
+                fallback={<text content={`Error: ${portfolio.error}`} fg={theme.error} />}
+              >
+                <text content={portfolio.summary.positionCount.toString().padStart(4, " ")} fg={theme.textMuted} width={5} />
+                <text content={fmtValue(portfolio.summary.totalValue).padStart(9, " ")} fg={theme.text} width={10} />
+                <text
+                  content={fmtUsd(portfolio.summary.totalCashPnl).padStart(9, " ")}
+                  fg={portfolio.summary.totalCashPnl >= 0 ? theme.success : theme.error}
+                  width={10}
+                />
+                <text
+                  content={fmtPct(portfolio.summary.totalPercentPnl).padStart(7, " ")}
+                  fg={portfolio.summary.totalPercentPnl >= 0 ? theme.success : theme.error}
+                  width={8}
+                />
+                <text
+                  content={`${totals().totalValue > 0 ? ((portfolio.summary.totalValue / totals().totalValue) * 100).toFixed(0) : "0"}%`.padStart(5, " ")}
+                  fg={theme.accent}
+                  width={7}
+                />
+              </Show>
+            </box>
+          )}
+        </For>
+
+        {/* Exposure summed across accounts */}
+        <text content="" />
+        <text content="COMBINED EXPOSURE" fg={theme.primary} />
+        <text content="" />
+        <box flexDirection="row" width="100%">
+          <text content="MARKET" fg={theme.textMuted} width={28} />
+          <text content="OUT" fg={theme.textMuted} width={5} />
+          <text content="SHARES" fg={theme.textMuted} width={8} />
+          <text content="CUR" fg={theme.textMuted} width={7} />
+          <text content="EXP" fg={theme.textMuted} width={7} />
+          <text content="P&L $" fg={theme.textMuted} width={9} />
+          <text content="ACCOUNTS" fg={theme.textMuted} />
+        </box>
+        <Show
+          when={combined().length > 0}
+          fallback={
+            <box padding={1}>
+              <text content="No positions found" fg={theme.textMuted} />
+            </box>
+          }
+        >
+          <scrollbox flexGrow={1} width="100%">
+            <For each={combined()}>
+              {(position) => (
+                <box flexDirection="row" width="100%">
+                  <text content={truncate(position.title, 27)} fg={theme.text} width={28} />
+                  <text content={position.outcome.slice(0, 4).padEnd(4, " ")} fg={theme.accent} width={5} />
+                  <text content={position.size.toFixed(1).padStart(7, " ")} fg={theme.text} width={8} />
+                  <text content={fmtPrice(position.curPrice).padStart(6, " ")} fg={theme.text} width={7} />
+                  <text content={fmtExposure(position.size, position.curPrice).padStart(6, " ")} fg={theme.textMuted} width={7} />
+                  <text
+                    content={fmtUsd(position.cashPnl).padStart(8, " ")}
+                    fg={position.cashPnl >= 0 ? theme.success : theme.error}
+                    width={9}
+                  />
+                  <text content={position.accounts.join(", ")} fg={theme.textMuted} />
+                </box>
+              )}
+            </For>
+          </scrollbox>
+        </Show>
+      </Show>
+    </Show>
+  );
+}
+
 export function PortfolioPanel() {
   const { theme } = useTheme();
 
@@ -181,279 +317,291 @@ export function PortfolioPanel() {
     <box flexDirection="column" width="100%" flexGrow={1} padding={1}>
       {/* Header */}
       <box flexDirection="row" width="100%" justifyContent="space-between">
-        <text content="PORTFOLIO" fg={theme.primary} />
-        <text content={`Updated: ${lastFetchStr()}`} fg={theme.textMuted} />
+        <text
+          content={
+            positionsState.allAccounts
+              ? "PORTFOLIO · ALL ACCOUNTS"
+              : walletState.accountName ? `PORTFOLIO · ${walletState.accountName}` : "PORTFOLIO"
+          }
+          fg={theme.primary}
+        />
+        <text
+          content={`${walletState.accounts.length > 1 ? "[Shift+P] All accounts  " : ""}Updated: ${lastFetchStr()}`}
+          fg={theme.textMuted}
+        />
       </box>
 
       <text content="" />
 
-      <Show
-        when={!walletState.connected}
-        fallback={
-          <Show
-            when={!positionsState.loading}
-            fallback={
-              <box padding={1}>
-                <text content="Fetching positions..." fg={theme.textMuted} />
-              </box>
-            }
-          >
+      <Show when={!positionsState.allAccounts} fallback={<AllAccountsPortfolio />}>
+        <Show
+          when={!walletState.connected}
+          fallback={
             <Show
-              when={positionsState.error === null}
+              when={!positionsState.loading}
               fallback={
                 <box padding={1}>
-                  <text content={`Error: ${positionsState.error}`} fg={theme.error} />
+                  <text content="Fetching positions..." fg={theme.textMuted} />
                 </box>
               }
             >
-              {/* Summary row */}
-              <box flexDirection="row" width="100%" gap={2}>
-                <text content={`Value: $${summary().totalValue.toFixed(2)}`} fg={theme.textBright} />
-                <text
-                  content={`P&L: ${fmtUsd(summary().totalCashPnl)}`}
-                  fg={summary().totalCashPnl >= 0 ? theme.success : theme.error}
-                />
-                <text
-                  content={fmtPct(summary().totalPercentPnl)}
-                  fg={summary().totalPercentPnl >= 0 ? theme.success : theme.error}
-                />
-                <text content={`Positions: ${summary().positionCount}`} fg={theme.textMuted} />
-              </box>
-
-              {/* Risk Metrics Summary */}
-              <box flexDirection="row" width="100%" gap={2}>
-                <text content={`Exposure: ${fmtExposure(positionsState.positions.reduce((s, p) => s + p.size, 0), 1)}`} fg={theme.textMuted} />
-                <text content={`Weighted Avg Entry: ${fmtPrice(analytics().weightedAvgEntry)}`} fg={theme.textMuted} />
-                <text 
-                  content={`Risk: ${concentrationRisk().riskLevel.toUpperCase()}`} 
-                  fg={concentrationRisk().riskLevel === "high" ? theme.error : concentrationRisk().riskLevel === "medium" ? theme.warning : theme.success}
-                />
-              </box>
-
-              <text content="" />
-
-              {/* Column headers */}
-              <box flexDirection="row" width="100%">
-                <text content="MARKET" fg={theme.textMuted} width={28} />
-                <text content="OUT" fg={theme.textMuted} width={5} />
-                <text content="SHARES" fg={theme.textMuted} width={8} />
-                <text content="ENTRY" fg={theme.textMuted} width={7} />
-                <text content="CUR" fg={theme.textMuted} width={7} />
-                <text content="EXP" fg={theme.textMuted} width={7} />
-                <text content="P&L $" fg={theme.textMuted} width={9} />
-                <text content="ROI" fg={theme.textMuted} width={7} />
-                <text content="LEV" fg={theme.textMuted} width={5} />
-              </box>
-
               <Show
-                when={positionsState.positions.length > 0}
+                when={positionsState.error === null}
                 fallback={
                   <box padding={1}>
-                    <text content="No positions found" fg={theme.textMuted} />
+                    <text content={`Error: ${positionsState.error}`} fg={theme.error} />
                   </box>
                 }
               >
-                <scrollbox flexGrow={1} width="100%">
-                  <For each={positionsState.positions}>
-                    {(position) => (
-                      <box flexDirection="row" width="100%">
-                        <text content={truncate(position.title, 27)} fg={theme.text} width={28} />
-                        <text content={position.outcome.slice(0, 4).padEnd(4, " ")} fg={theme.accent} width={5} />
-                        <text content={position.size.toFixed(1).padStart(7, " ")} fg={theme.text} width={8} />
-                        <text content={fmtPrice(position.avgPrice).padStart(6, " ")} fg={theme.textMuted} width={7} />
-                        <text content={fmtPrice(position.curPrice).padStart(6, " ")} fg={theme.text} width={7} />
-                        <text content={fmtExposure(position.size, position.curPrice).padStart(6, " ")} fg={theme.textMuted} width={7} />
-                        <text
-                          content={fmtUsd(position.cashPnl).padStart(8, " ")}
-                          fg={position.cashPnl >= 0 ? theme.success : theme.error}
-                          width={9}
-                        />
-                        <text
-                          content={fmtPct(position.percentPnl).padStart(6, " ")}
-                          fg={position.percentPnl >= 0 ? theme.success : theme.error}
-                          width={7}
-                        />
-                        <text
-                          content={getLeverageIndicator(position.percentPnl).padStart(4, " ")}
-                          fg={position.percentPnl > 50 ? theme.error : position.percentPnl > 20 ? theme.warning : theme.textMuted}
-                          width={5}
-                        />
-                      </box>
-                    )}
-                  </For>
-                </scrollbox>
-              </Show>
+                {/* Summary row */}
+                <box flexDirection="row" width="100%" gap={2}>
+                  <text content={`Value: $${summary().totalValue.toFixed(2)}`} fg={theme.textBright} />
+                  <text
+                    content={`P&L: ${fmtUsd(summary().totalCashPnl)}`}
+                    fg={summary().totalCashPnl >= 0 ? theme.success : theme.error}
+                  />
+                  <text
+                    content={fmtPct(summary().totalPercentPnl)}
+                    fg={summary().totalPercentPnl >= 0 ? theme.success : theme.error}
+                  />
+                  <text content={`Positions: ${summary().positionCount}`} fg={theme.textMuted} />
+                </box>
+
+                {/* Risk Metrics Summary */}
+                <box flexDirection="row" width="100%" gap={2}>
+                  <text content={`Exposure: ${fmtExposure(positionsState.positions.reduce((s, p) => s + p.size, 0), 1)}`} fg={theme.textMuted} />
+                  <text content={`Weighted Avg Entry: ${fmtPrice(analytics().weightedAvgEntry)}`} fg={theme.textMuted} />
+                  <text 
+                    content={`Risk: ${concentrationRisk().riskLevel.toUpperCase()}`} 
+                    fg={concentrationRisk().riskLevel === "high" ? theme.error : concentrationRisk().riskLevel === "medium" ? theme.warning : theme.success}
+                  />
+                </box>
 
-              {/* Account Analytics section */}
-              <text content="" />
-              <text content="ACCOUNT ANALYTICS" fg={theme.primary} />
-              <text content="" />
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Positions: ${accountStats().tradeCount}`} fg={theme.text} />
-                <text content={`Wins: ${accountStats().winCount}`} fg={theme.success} />
-                <text content={`Win Rate: ${accountStats().winRate}`} fg={
-                  (() => {
-                    const r = parseFloat(accountStats().winRate);
-                    return r >= 50 ? theme.success : theme.error;
-                  })()
-                } />
-              </box>
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Avg Size: ${accountStats().avgSize} shares`} fg={theme.textMuted} />
-                <text content={`Avg P&L: ${accountStats().avgPnl}`} fg={theme.textMuted} />
-              </box>
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Best: ${accountStats().bestTrade}`} fg={theme.success} />
-                <text content={`Worst: ${accountStats().worstTrade}`} fg={theme.error} />
-                <text content={`Total Value: ${accountStats().totalVolume}`} fg={theme.textMuted} />
-              </box>
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Streak: ${accountStats().streakType === "none" ? "N/A" : `${accountStats().currentStreak} ${accountStats().streakType.toUpperCase()}(S)`}`} 
-                  fg={accountStats().streakType === "win" ? theme.success : accountStats().streakType === "loss" ? theme.error : theme.textMuted} />
-                <text content={`PF: ${tradeStats().profitFactor === Infinity ? "∞" : tradeStats().profitFactor.toFixed(2)}`} fg={theme.textMuted} />
-                <text content={`Largest Pos: ${analytics().largestPosition ? fmtValue(analytics().largestPosition!.currentValue) : "N/A"}`} fg={theme.textMuted} />
-              </box>
-
-              {/* Sector Allocation section */}
-              <Show when={analytics().sectorAllocations.length > 0}>
-                <text content="" />
-                <text content="SECTOR ALLOCATION" fg={theme.primary} />
                 <text content="" />
+
+                {/* Column headers */}
                 <box flexDirection="row" width="100%">
-                  <text content="SECTOR" fg={theme.textMuted} width={14} />
-                  <text content="VALUE" fg={theme.textMuted} width={10} />
-                  <text content="ALLOC" fg={theme.textMuted} width={8} />
-                  <text content="POS" fg={theme.textMuted} width={5} />
-                  <text content="P&L" fg={theme.textMuted} width={10} />
+                  <text content="MARKET" fg={theme.textMuted} width={28} />
+                  <text content="OUT" fg={theme.textMuted} width={5} />
+                  <text content="SHARES" fg={theme.textMuted} width={8} />
+                  <text content="ENTRY" fg={theme.textMuted} width={7} />
+                  <text content="CUR" fg={theme.textMuted} width={7} />
+                  <text content="EXP" fg={theme.textMuted} width={7} />
+                  <text content="P&L $" fg={theme.textMuted} width={9} />
+                  <text content="ROI" fg={theme.textMuted} width={7} />
+                  <text content="LEV" fg={theme.textMuted} width={5} />
                 </box>
-                <For each={analytics().sectorAllocations.slice(0, 6)}>
-                  {(sector) => (
-                    <box flexDirection="row" width="100%">
-                      <text content={sector.sector.padEnd(13, " ")} fg={theme.text} width={14} />
-                      <text content={fmtValue(sector.value).padStart(9, " ")} fg={theme.textMuted} width={10} />
-                      <text content={`${sector.percentage.toFixed(1)}%`.padStart(7, " ")} fg={theme.accent} width={8} />
-                      <text content={sector.positionCount.toString().padStart(4, " ")} fg={theme.textMuted} width={5} />
-                      <text 
-                        content={fmtUsd(sector.pnl).padStart(9, " ")} 
-                        fg={sector.pnl >= 0 ? theme.success : theme.error}
-                        width={10}
-                      />
-                    </box>
-                  )}
-                </For>
-              </Show>
 
-              {/* Best/Worst Performers section */}
-              <Show when={analytics().topPerformers.length > 0 || analytics().bottomPerformers.length > 0}>
+                <Show
+                  when={positionsState.positions.length > 0}
+                  fallback={
+                    <box padding={1}>
+                      <text content="No positions found" fg={theme.textMuted} />
+                    </box>
+                  }
+                >
+                  <scrollbox flexGrow={1} width="100%">
+                    <For each={positionsState.positions}>
+                      {(position) => (
+                        <box flexDirection="row" width="100%">
+                          <text content={truncate(position.title, 27)} fg={theme.text} width={28} />
+                          <text content={position.outcome.slice(0, 4).padEnd(4, " ")} fg={theme.accent} width={5} />
+                          <text content={position.size.toFixed(1).padStart(7, " ")} fg={theme.text} width={8} />
+                          <text content={fmtPrice(position.avgPrice).padStart(6, " ")} fg={theme.textMuted} width={7} />
+                          <text content={fmtPrice(position.curPrice).padStart(6, " ")} fg={theme.text} width={7} />
+                          <text content={fmtExposure(position.size, position.curPrice).padStart(6, " ")} fg={theme.textMuted} width={7} />
+                          <text
+                            content={fmtUsd(position.cashPnl).padStart(8, " ")}
+                            fg={position.cashPnl >= 0 ? theme.success : theme.error}
+                            width={9}
+                          />
+                          <text
+                            content={fmtPct(position.percentPnl).padStart(6, " ")}
+                            fg={position.percentPnl >= 0 ? theme.success : theme.error}
+                            width={7}
+                          />
+                          <text
+                            content={getLeverageIndicator(position.percentPnl).padStart(4, " ")}
+                            fg={position.percentPnl > 50 ? theme.error : position.percentPnl > 20 ? theme.warning : theme.textMuted}
+                            width={5}
+                          />
+                        </box>
+                      )}
+                    </For>
+                  </scrollbox>
+                </Show>
+
+                {/* Account Analytics section */}
                 <text content="" />
-                <text content="PERFORMANCE LEADERS" fg={theme.primary} />
+                <text content="ACCOUNT ANALYTICS" fg={theme.primary} />
                 <text content="" />
-                <box flexDirection="row" width="100%">
-                  <text content="TOP WINNERS" fg={theme.success} width={20} />
-                  <text content="TOP LOSERS" fg={theme.error} width={20} />
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Positions: ${accountStats().tradeCount}`} fg={theme.text} />
+                  <text content={`Wins: ${accountStats().winCount}`} fg={theme.success} />
+                  <text content={`Win Rate: ${accountStats().winRate}`} fg={
+                    (() => {
+                      const r = parseFloat(accountStats().winRate);
+                      return r >= 50 ? theme.success : theme.error;
+                    })()
+                  } />
                 </box>
-                <For each={[0, 1, 2]}>
-                  {(idx) => (
-                    <box flexDirection="row" width="100%">
-                      <Show when={analytics().topPerformers[idx]}>
-                        <text 
-                          content={`${truncate(analytics().topPerformers[idx]!.title, 17)} ${fmtUsd(analytics().topPerformers[idx]!.pnl)}`} 
-                          fg={theme.success} 
-                          width={20} 
-                        />
-                      </Show>
-                      <Show when={!analytics().topPerformers[idx]}>
-                        <text content="-" fg={theme.textMuted} width={20} />
-                      </Show>
-                      <Show when={analytics().bottomPerformers[idx]}>
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Avg Size: ${accountStats().avgSize} shares`} fg={theme.textMuted} />
+                  <text content={`Avg P&L: ${accountStats().avgPnl}`} fg={theme.textMuted} />
+                </box>
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Best: ${accountStats().bestTrade}`} fg={theme.success} />
+                  <text content={`Worst: ${accountStats().worstTrade}`} fg={theme.error} />
+                  <text content={`Total Value: ${accountStats().totalVolume}`} fg={theme.textMuted} />
+                </box>
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Streak: ${accountStats().streakType === "none" ? "N/A" : `${accountStats().currentStreak} ${accountStats().streakType.toUpperCase()}(S)`}`} 
+                    fg={accountStats().streakType === "win" ? theme.success : accountStats().streakType === "loss" ? theme.error : theme.textMuted} />
+                  <text content={`PF: ${tradeStats().profitFactor === Infinity ? "∞" : tradeStats().profitFactor.toFixed(2)}`} fg={theme.textMuted} />
+                  <text content={`Largest Pos: ${analytics().largestPosition ? fmtValue(analytics().largestPosition!.currentValue) : "N/A"}`} fg={theme.textMuted} />
+                </box>
+
+                {/* Sector Allocation section */}
+                <Show when={analytics().sectorAllocations.length > 0}>
+                  <text content="" />
+                  <text content="SECTOR ALLOCATION" fg={theme.primary} />
+                  <text content="" />
+                  <box flexDirection="row" width="100%">
+                    <text content="SECTOR" fg={theme.textMuted} width={14} />
+                    <text content="VALUE" fg={theme.textMuted} width={10} />
+                    <text content="ALLOC" fg={theme.textMuted} width={8} />
+                    <text content="POS" fg={theme.textMuted} width={5} />
+                    <text content="P&L" fg={theme.textMuted} width={10} />
+                  </box>
+                  <For each={analytics().sectorAllocations.slice(0, 6)}>
+                    {(sector) => (
+                      <box flexDirection="row" width="100%">
+                        <text content={sector.sector.padEnd(13, " ")} fg={theme.text} width={14} />
+                        <text content={fmtValue(sector.value).padStart(9, " ")} fg={theme.textMuted} width={10} />
+                        <text content={`${sector.percentage.toFixed(1)}%`.padStart(7, " ")} fg={theme.accent} width={8} />
+                        <text content={sector.positionCount.toString().padStart(4, " ")} fg={theme.textMuted} width={5} />
                         <text 
-                          content={`${truncate(analytics().bottomPerformers[idx]!.title, 17)} ${fmtUsd(analytics().bottomPerformers[idx]!.pnl)}`} 
-                          fg={theme.error} 
-                          width={20} 
+                          content={fmtUsd(sector.pnl).padStart(9, " ")} 
+                          fg={sector.pnl >= 0 ? theme.success : theme.error}
+                          width={10}
                         />
-                      </Show>
-                      <Show when={!analytics().bottomPerformers[idx]}>
-                        <text content="-" fg={theme.textMuted} width={20} />
-                      </Show>
-                    </box>
-                  )}
-                </For>
-              </Show>
-
-              {/* Historical Performance section */}
-              <text content="" />
-              <text content="HISTORICAL PERFORMANCE" fg={theme.primary} />
-              <text content="" />
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Realized: ${fmtUsd(realizedPnl())}`} fg={realizedPnl() >= 0 ? theme.success : theme.error} />
-                <text content={`Unrealized: ${fmtUsd(unrealizedPnl())}`} fg={unrealizedPnl() >= 0 ? theme.success : theme.error} />
-              </box>
-              <box flexDirection="row" width="100%" gap={3}>
-                <text content={`Daily Vol: ${fmtUsd(dailyPnl())}`} fg={theme.textMuted} />
-                <text content={`Weekly Vol: ${fmtUsd(weeklyPnl())}`} fg={theme.textMuted} />
-              </box>
-              <Show when={monthlyStats().length > 0}>
-                <text content="" />
-                <text content="MONTHLY P&L" fg={theme.textMuted} />
-                <box flexDirection="row" width="100%">
-                  <text content="MONTH" fg={theme.textMuted} width={10} />
-                  <text content="TRADES" fg={theme.textMuted} width={9} />
-                  <text content="VOLUME" fg={theme.textMuted} width={12} />
-                  <text content="P&L" fg={theme.textMuted} width={12} />
-                </box>
-                <For each={monthlyStats()}>
-                  {(stat) => (
-                    <box flexDirection="row" width="100%">
-                      <text content={stat.month.padEnd(9, " ")} fg={theme.text} width={10} />
-                      <text content={stat.tradeCount.toString().padStart(8, " ")} fg={theme.textMuted} width={9} />
-                      <text content={`$${stat.volume.toFixed(0)}`.padStart(11, " ")} fg={theme.textMuted} width={12} />
-                      <text
-                        content={fmtUsd(stat.pnl).padStart(11, " ")}
-                        fg={stat.pnl >= 0 ? theme.success : theme.error}
-                        width={12}
-                      />
-                    </box>
-                  )}
-                </For>
-              </Show>
+                      </box>
+                    )}
+                  </For>
+                </Show>
+
+                {/* Best/Worst Performers section */}
+                <Show when={analytics().topPerformers.length > 0 || analytics().bottomPerformers.length > 0}>
+                  <text content="" />
+                  <text content="PERFORMANCE LEADERS" fg={theme.primary} />
+                  <text content="" />
+                  <box flexDirection="row" width="100%">
+                    <text content="TOP WINNERS" fg={theme.success} width={20} />
+                    <text content="TOP LOSERS" fg={theme.error} width={20} />
+                  </box>
+                  <For each={[0, 1, 2]}>
+                    {(idx) => (
+                      <box flexDirection="row" width="100%">
+                        <Show when={analytics().topPerformers[idx]}>
+                          <text 
+                            content={`${truncate(analytics().topPerformers[idx]!.title, 17)} ${fmtUsd(analytics().topPerformers[idx]!.pnl)}`} 
+                            fg={theme.success} 
+                            width={20} 
+                          />
+                        </Show>
+                        <Show when={!analytics().topPerformers[idx]}>
+                          <text content="-" fg={theme.textMuted} width={20} />
+                        </Show>
+                        <Show when={analytics().bottomPerformers[idx]}>
+                          <text 
+                            content={`${truncate(analytics().bottomPerformers[idx]!.title, 17)} ${fmtUsd(analytics().bottomPerformers[idx]!.pnl)}`} 
+                            fg={theme.error} 
+                            width={20} 
+                          />
+                        </Show>
+                        <Show when={!analytics().bottomPerformers[idx]}>
+                          <text content="-" fg={theme.textMuted} width={20} />
+                        </Show>
+                      </box>
+                    )}
+                  </For>
+                </Show>
 
-              {/* Recent filled orders */}
-              <Show when={ordersState.tradeHistory.length > 0}>
+                {/* Historical Performance section */}
                 <text content="" />
-                <text content="RECENT FILLS" fg={theme.primary} />
+                <text content="HISTORICAL PERFORMANCE" fg={theme.primary} />
                 <text content="" />
-                <box flexDirection="row" width="100%">
-                  <text content="MARKET" fg={theme.textMuted} width={32} />
-                  <text content="SIDE" fg={theme.textMuted} width={5} />
-                  <text content="PRICE" fg={theme.textMuted} width={7} />
-                  <text content="FILLED" fg={theme.textMuted} width={9} />
-                  <text content="STATUS" fg={theme.textMuted} width={10} />
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Realized: ${fmtUsd(realizedPnl())}`} fg={realizedPnl() >= 0 ? theme.success : theme.error} />
+                  <text content={`Unrealized: ${fmtUsd(unrealizedPnl())}`} fg={unrealizedPnl() >= 0 ? theme.success : theme.error} />
+                </box>
+                <box flexDirection="row" width="100%" gap={3}>
+                  <text content={`Daily Vol: ${fmtUsd(dailyPnl())}`} fg={theme.textMuted} />
+                  <text content={`Weekly Vol: ${fmtUsd(weeklyPnl())}`} fg={theme.textMuted} />
                 </box>
-                <scrollbox width="100%">
-                  <For each={ordersState.tradeHistory.slice(0, 10)}>
-                    {(order) => (
+                <Show when={monthlyStats().length > 0}>
+                  <text content="" />
+                  <text content="MONTHLY P&L" fg={theme.textMuted} />
+                  <box flexDirection="row" width="100%">
+                    <text content="MONTH" fg={theme.textMuted} width={10} />
+                    <text content="TRADES" fg={theme.textMuted} width={9} />
+                    <text content="VOLUME" fg={theme.textMuted} width={12} />
+                    <text content="P&L" fg={theme.textMuted} width={12} />
+                  </box>
+                  <For each={monthlyStats()}>
+                    {(stat) => (
                       <box flexDirection="row" width="100%">
-                        <text content={truncate(order.marketTitle ?? "—", 31)} fg={theme.text} width={32} />
+                        <text content={stat.month.padEnd(9, " ")} fg={theme.text} width={10} />
+                        <text content={stat.tradeCount.toString().padStart(8, " ")} fg={theme.textMuted} width={9} />
+                        <text content={`$${stat.volume.toFixed(0)}`.padStart(11, " ")} fg={theme.textMuted} width={12} />
                         <text
-                          content={order.side.padEnd(4, " ")}
-                          fg={order.side === "BUY" ? theme.success : theme.error}
-                          width={5}
+                          content={fmtUsd(stat.pnl).padStart(11, " ")}
+                          fg={stat.pnl >= 0 ? theme.success : theme.error}
+                          width={12}
                         />
-                        <text content={fmtPrice(order.price).padStart(6, " ")} fg={theme.text} width={7} />
-                        <text content={order.sizeMatched.toFixed(1).padStart(8, " ")} fg={theme.textMuted} width={9} />
-                        <text content={order.status} fg={theme.textMuted} width={10} />
                       </box>
                     )}
                   </For>
-                </scrollbox>
+                </Show>
+
+                {/* Recent filled orders */}
+                <Show when={ordersState.tradeHistory.length > 0}>
+                  <text content="" />
+                  <text content="RECENT FILLS" fg={theme.primary} />
+                  <text content="" />
+                  <box flexDirection="row" width="100%">
+                    <text content="MARKET" fg={theme.textMuted} width={32} />
+                    <text content="SIDE" fg={theme.textMuted} width={5} />
+                    <text content="PRICE" fg={theme.textMuted} width={7} />
+                    <text content="FILLED" fg={theme.textMuted} width={9} />
+                    <text content="STATUS" fg={theme.textMuted} width={10} />
+                  </box>
+                  <scrollbox width="100%">
+                    <For each={ordersState.tradeHistory.slice(0, 10)}>
+                      {(order) => (
+                        <box flexDirection="row" width="100%">
+                          <text content={truncate(order.marketTitle ?? "—", 31)} fg={theme.text} width={32} />
+                          <text
+                            content={order.side.padEnd(4, " ")}
+                            fg={order.side === "BUY" ? theme.success : theme.error}
+                            width={5}
+                          />
+                          <text content={fmtPrice(order.price).padStart(6, " ")} fg={theme.text} width={7} />
+                          <text content={order.sizeMatched.toFixed(1).padStart(8, " ")} fg={theme.textMuted} width={9} />
+                          <text content={order.status} fg={theme.textMuted} width={10} />
+                        </box>
+                      )}
+                    </For>
+                  </scrollbox>
+                </Show>
               </Show>
             </Show>
-          </Show>
-        }
-      >
-        <box padding={1}>
-          <text content="Connect wallet (W) to view positions" fg={theme.textMuted} />
-        </box>
+          }
+        >
+          <box padding={1}>
+            <text content="Connect wallet (W) to view positions" fg={theme.textMuted} />
+          </box>
+        </Show>
       </Show>
     </box>
   );
@@ -0,0 +1,226 @@
+/**
+ * Automation rules panel — list, create/edit, enable/disable, dry-run, execution tail
+ * All keyboard handling lives in app.tsx intercept block.
+ */
+
+import { For, Show, onCleanup, onMount } from "solid-js";
+import { useTheme } from "../context/theme";
+import { rulesState, setRulesState, refreshExecutions, RuleFormField } from "../hooks/useRules";
+import { TradingRule } from "../automation/rules";
+
+function fmtTime(ts: number | undefined): string {
+  if (!ts) return "never";
+  return new Date(ts).toLocaleString("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+function truncate(str: string, len: number): string {
+  return str.length > len ? str.slice(0, len - 1) + "…" : str.padEnd(len, " ");
+}
+
+function describeTrigger(rule: TradingRule): string {
+  if (rule.condition) return "composite";
+  const t = rule.trigger;
+  switch (t.type) {
+    case "price_above":
+      return `${t.outcome ?? "Yes"} > ${(t.value * 100).toFixed(1)}¢`;
+    case "price_below":
+      return `${t.outcome ?? "Yes"} < ${(t.value * 100).toFixed(1)}¢`;
+    case "percent_change":
+      return `Δ ≥ ${t.value}%`;
+    case "volume_spike":
+      return `vol > ${t.value}`;
+    case "time":
+      return `every ${Math.round((t.windowSeconds ?? 0) / 60)}m`;
+    default:
+      return t.type;
+  }
+}
+
+function describeAction(rule: TradingRule): string {
+  const a = rule.action;
+  if (a.amount !== undefined) return `${a.type} $${a.amount}`;
+  if (a.percentage !== undefined) return `${a.type} ${a.percentage}%`;
+  return a.type;
+}
+
+export function RulesPanel() {
+  const { theme } = useTheme();
+
+  onMount(() => {
+    refreshExecutions();
+    const timer = setInterval(() => refreshExecutions(), 3000);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  const handleClose = () => setRulesState("panelOpen", false);
+
+  const formRow = (field: RuleFormField, label: string, value: () => string, hint: string) => (
+    <box flexDirection="row" gap={2}>
+      <text
+        content={`${rulesState.formFocus === field ? "▶" : " "} ${label.padEnd(11, " ")}`}
+        fg={rulesState.formFocus === field ? theme.accent : theme.textMuted}
+        width={14}
+      />
+      <text content={value() || " "} fg={theme.textBright} />
+      <text content={hint} fg={theme.textMuted} />
+    </box>
+  );
+
+  return (
+    <box
+      position="absolute"
+      top={2}
+      left="6%"
+      width="88%"
+      height={28}
+      backgroundColor={theme.panelModal}
+      flexDirection="column"
+      zIndex={160}
+    >
+      {/* Header */}
+      <box height={1} width="100%" backgroundColor={theme.accent} flexDirection="row">
+        <text content=" ◈ AUTOMATION RULES " fg={theme.highlightText} />
+        <box flexGrow={1} />
+        <text content={` ${rulesState.rules.filter((r) => r.enabled).length}/${rulesState.rules.length} enabled `} fg={theme.highlightText} />
+        <box onMouseDown={handleClose}>
+          <text content=" [ESC] ✕ " fg={theme.highlightText} />
+        </box>
+      </box>
+
+      {/* Separator */}
+      <box height={1} width="100%" backgroundColor={theme.accentMuted} />
+
+      <box flexDirection="column" flexGrow={1} paddingLeft={2} paddingTop={1}>
+        {/* Column headers */}
+        <box flexDirection="row" width="100%">
+          <text content="   " fg={theme.textMuted} width={3} />
+          <text content="ON " fg={theme.textMuted} width={4} />
+          <text content="NAME                  " fg={theme.textMuted} width={23} />
+          <text content="TRIGGER           " fg={theme.textMuted} width={19} />
+          <text content="ACTION          " fg={theme.textMuted} width={17} />
+          <text content="CAP      " fg={theme.textMuted} width={10} />
+          <text content="LAST TRIGGERED" fg={theme.textMuted} />
+        </box>
+
+        <Show
+          when={rulesState.rules.length > 0}
+          fallback={<text content="No rules yet — press [N] to create one for the selected market" fg={theme.textMuted} />}
+        >
+          <scrollbox height={7} width="100%">
+            <For each={rulesState.rules}>
+              {(rule, i) => {
+                const isSelected = () => rulesState.selectedIdx === i();
+                return (
+                  <box
+                    flexDirection="row"
+                    width="100%"
+                    backgroundColor={isSelected() ? theme.highlight : undefined}
+                    onMouseDown={() => setRulesState("selectedIdx", i())}
+                  >
+                    <text content={isSelected() ? " ▶ " : "   "} fg={theme.accent} width={3} />
+                    <text content={rule.enabled ? "● " : "○ "} fg={rule.enabled ? theme.success : theme.textMuted} width={4} />
+                    <text content={truncate(rule.name, 22)} fg={isSelected() ? theme.highlightText : theme.text} width={23} />
+                    <text content={truncate(describeTrigger(rule), 18)} fg={isSelected() ? theme.highlightText : theme.accent} width={19} />
+                    <text
+                      content={truncate(describeAction(rule), 16)}
+                      fg={rule.action.type === "buy" ? theme.success : rule.action.type === "sell" || rule.action.type === "close_position" ? theme.error : theme.textMuted}
+                      width={17}
+                    />
+                    <text content={truncate(rule.maxNotional !== undefined ? `$${rule.maxNotional}` : "--", 9)} fg={theme.textMuted} width={10} />
+                    <text content={fmtTime(rule.lastTriggered)} fg={isSelected() ? theme.highlightText : theme.textMuted} />
+                  </box>
+                );
+              }}
+            </For>
+          </scrollbox>
+        </Show>
+
+        <text content="" />
+
+        {/* Edit form */}
+        <Show when={rulesState.editing}>
+          <box flexDirection="column" paddingLeft={1}>
+            <text
+              content={`${rulesState.editRuleId ? "EDIT RULE" : "NEW RULE"} — ${rulesState.formMarketTitle || "no market selected"}`}
+              fg={theme.primary}
+            />
+            {formRow("name", "Name:", () => rulesState.formName, "")}
+            {formRow("outcome", "Outcome:", () => rulesState.formOutcome, "  (←/→ to cycle)")}
+            {formRow("trigger", "Trigger:", () => rulesState.formTrigger, "  (←/→ to cycle)")}
+            {formRow(
+              "value",
+              "Value:",
+              () => rulesState.formValue,
+              rulesState.formTrigger === "time"
+                ? "  (repeat every N minutes)"
+                : rulesState.formTrigger === "percent_change"
+                  ? "  (percent)"
+                  : rulesState.formTrigger === "volume_spike"
+                    ? "  (USD)"
+                    : "  (0-1)",
+            )}
+            {formRow("action", "Action:", () => rulesState.formAction, "  (←/→ to cycle)")}
+            {formRow("amount", "Amount:", () => rulesState.formAmount, "  (USDC, or N% of position for sell/close)")}
+            {formRow("cap", "Max $:", () => rulesState.formCap, "  (optional notional cap)")}
+            <Show when={rulesState.formError !== ""}>
+              <text content={`✗ ${rulesState.formError}`} fg={theme.error} />
+            </Show>
+            <text content="[ENTER] Save  [TAB] Next field  [←/→] Cycle option  [ESC] Cancel" fg={theme.textMuted} />
+          </box>
+        </Show>
+
+        <Show when={!rulesState.editing}>
+          <box flexDirection="column" width="100%">
+            <Show when={rulesState.formError !== ""}>
+              <text content={`✗ ${rulesState.formError}`} fg={theme.error} />
+            </Show>
+            <Show when={rulesState.dryRunLines.length > 0}>
+              <For each={rulesState.dryRunLines.slice(0, 5)}>
+                {(line) => <text content={line} fg={line.includes("✗") ? theme.error : theme.textBright} />}
+              </For>
+            </Show>
+
+            <text content="" />
+            <text content="SCHEDULER EXECUTIONS" fg={theme.primary} />
+            <Show
+              when={rulesState.executions.length > 0}
+              fallback={<text content="No executions logged yet" fg={theme.textMuted} />}
+            >
+              <scrollbox height={5} width="100%">
+                <For each={rulesState.executions}>
+                  {(entry) => (
+                    <box flexDirection="row" width="100%">
+                      <text content={fmtTime(entry.timestamp).padEnd(13, " ")} fg={theme.textMuted} width={14} />
+                      <text content={entry.mode.padEnd(8, " ")} fg={entry.mode === "live" ? theme.warning : theme.textMuted} width={9} />
+                      <text content={entry.success ? "✓ " : "✗ "} fg={entry.success ? theme.success : theme.error} width={2} />
+                      <text content={truncate(entry.ruleName, 18)} fg={theme.text} width={19} />
+                      <text content={entry.message} fg={theme.textMuted} />
+                    </box>
+                  )}
+                </For>
+              </scrollbox>
+            </Show>
+
+            <box flexDirection="row" gap={3}>
+              <text content="[N] New" fg={theme.success} />
+              <text content="[E] Edit" fg={theme.accent} />
+              <text content="[SPACE] On/Off" fg={theme.accent} />
+              <text content="[R] Dry-run now" fg={theme.warning} />
+              <text content="[D] Delete" fg={theme.error} />
+              <text content="[↑↓] Navigate" fg={theme.textMuted} />
+              <box onMouseDown={handleClose}>
+                <text content="[ESC] Close" fg={theme.textMuted} />
+              </box>
+            </box>
+          </box>
+        </Show>
+      </box>
+    </box>
+  );
+}
@@ -28,7 +28,13 @@ import {
 } from "../state";
 import { disconnectWalletHook, refreshWalletBalance } from "../hooks/useWallet";
 import { watchlistState, toggleWatchlistFilter } from "../hooks/useWatchlist";
-import { truncateAddress } from "../auth/wallet";
+import { truncateAddress, SIGNATURE_TYPE_LABELS } from "../auth/wallet";
+import { paperState, setPaperTrading, resetPaperAccount } from "../hooks/usePaperTrading";
+import { positionsState } from "../hooks/usePositions";
+
+function formatUsdc(value: number): string {
+  return `${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDC`;
+}
 
 export function SettingsPanel() {
   const ctx = useTheme();
@@ -492,10 +498,27 @@ export function SettingsPanel() {
             </Show>
           </box>
           <Show when={walletState.connected && walletState.address}>
+            <box flexDirection="row" gap={1}>
+              <text content="Account: " fg={theme.textMuted} />
+              <text content={walletState.accountName ?? ""} fg={theme.primary} />
+              <Show when={walletState.accounts.length > 1}>
+                <text content={`(${walletState.accounts.length} saved)`} fg={theme.textMuted} />
+              </Show>
+            </box>
             <box flexDirection="row" gap={1}>
               <text content="Address: " fg={theme.textMuted} />
               <text content={truncateAddress(walletState.address!)} fg={theme.primary} />
+              <text
+                content={walletState.watchOnly ? "(watch-only)" : `(${SIGNATURE_TYPE_LABELS[walletState.signatureType ?? 0]})`}
+                fg={theme.textMuted}
+              />
             </box>
+            <Show when={walletState.funderAddress && walletState.funderAddress !== walletState.address}>
+              <box flexDirection="row" gap={1}>
+                <text content="Funder:  " fg={theme.textMuted} />
+                <text content={truncateAddress(walletState.funderAddress!)} fg={theme.primary} />
+              </box>
+            </Show>
             <box flexDirection="row" gap={1}>
               <text content="Balance: " fg={theme.textMuted} />
               <text
@@ -525,6 +548,41 @@ export function SettingsPanel() {
               </box>
             </Show>
           </box>
+          <text content="" />
+          <box flexDirection="row" gap={1}>
+            <text content="Paper:   " fg={theme.textMuted} />
+            <Show
+              when={paperState.enabled}
+              fallback={<text content="○ OFF — orders are real" fg={theme.textMuted} />}
+            >
+              <text content="● ON — orders are simulated" fg={theme.warning} />
+            </Show>
+          </box>
+          <Show when={paperState.enabled}>
+            <box flexDirection="row" gap={1}>
+              <text content="Cash:    " fg={theme.textMuted} />
+              <text content={`${formatUsdc(paperState.cash)} of ${formatUsdc(paperState.startingCash)} start`} fg={theme.success} />
+            </box>
+            <box flexDirection="row" gap={1}>
+              <text content="Equity:  " fg={theme.textMuted} />
+              <text content={formatUsdc(paperState.cash + positionsState.positionsAnalytics.totalValue)} fg={theme.text} />
+            </box>
+            <box flexDirection="row" gap={1}>
+              <text content="Fees:    " fg={theme.textMuted} />
+              <text
+                content={`${formatUsdc(paperState.feesPaid)}  ·  realized P&L ${paperState.realizedPnl >= 0 ? "+" : ""}${paperState.realizedPnl.toFixed(2)}  ·  ${paperState.openOrders.length} open`}
+                fg={theme.textMuted}
+              />
+            </box>
+          </Show>
+          <box flexDirection="row" gap={3}>
+            <box onMouseDown={() => setPaperTrading(!paperState.enabled)}>
+              <text content={paperState.enabled ? "[P] Paper Off" : "[P] Paper On"} fg={theme.primary} />
+            </box>
+            <box onMouseDown={() => resetPaperAccount()}>
+              <text content="[Shift+X] Reset Paper Account" fg={theme.textMuted} />
+            </box>
+          </box>
         </Show>
 
         {/* DISPLAY tab */}
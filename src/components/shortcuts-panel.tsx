@@ -115,6 +115,10 @@ export function ShortcutsPanel() {
             <text content="  Z      " fg={theme.textMuted} width={10} />
             <text content="Price alerts" fg={theme.text} />
           </box>
+          <box flexDirection="row">
+            <text content="  B      " fg={theme.textMuted} width={10} />
+            <text content="Automation rules" fg={theme.text} />
+          </box>
           <box flexDirection="row">
             <text content="  I      " fg={theme.textMuted} width={10} />
             <text content="Indicators" fg={theme.text} />
@@ -1,9 +1,12 @@
-import { createMemo } from "solid-js";
+import { createMemo, onCleanup, Show } from "solid-js";
 import { appState, highlightedIndex, getFilteredMarkets, wsConnectionStatus, unreadMessagesCount, unreadGlobalCount } from "../state";
 import { useTheme } from "../context/theme";
 import { walletState } from "../state";
 import { watchlistState } from "../hooks/useWatchlist";
 import { alertsState } from "../hooks/useAlerts";
+import { ordersState, onFill } from "../hooks/useOrders";
+import { replayState } from "../hooks/useReplay";
+import { paperState } from "../hooks/usePaperTrading";
 
 export function StatusBar() {
   const { theme } = useTheme();
@@ -16,24 +19,49 @@ export function StatusBar() {
     const tf = appState.timeframe.toUpperCase();
     const status = appState.loading ? "⟳ Refreshing..." : "Ready";
     const lastRefresh = appState.lastRefresh ? new Date(appState.lastRefresh).toLocaleTimeString() : "never";
-    const wallet = walletState.connected ? "Wallet: ON" : "Wallet: OFF";
+    const wallet = paperState.enabled
+      ? `PAPER $${paperState.cash.toFixed(2)}`
+      : walletState.connected ? (walletState.locked ? "Wallet: LOCKED" : "Wallet: ON") : "Wallet: OFF";
     const watchFilter = watchlistState.filterActive ? "Watch: FILTER" : "Watch: ALL";
     const activeAlerts = alertsState.alerts.filter((alert) => alert.status === "active").length;
     const triggeredAlerts = alertsState.alerts.filter((alert) => alert.status === "triggered").length;
     
     const wsStatus = wsConnectionStatus();
-    const wsLabel = wsStatus === "connected" ? "WS: ✓" : wsStatus === "connecting" ? "WS: ⟳" : wsStatus === "reconnecting" ? "WS: ~" : "WS: ✗";
+    const wsLabel = replayState.active
+      ? `REPLAY ${replayState.speed}x ${replayState.finished ? "done" : `${replayState.played}/${replayState.total}`}`
+      : wsStatus === "connected" ? "WS: ✓" : wsStatus === "connecting" ? "WS: ⟳" : wsStatus === "reconnecting" ? "WS: ~" : "WS: ✗";
+    const userStatus = ordersState.userChannelStatus;
+    const userLabel = walletState.connected && !paperState.enabled
+      ? `  |  Fills: ${userStatus === "connected" ? "✓" : userStatus === "reconnecting" || userStatus === "connecting" ? "~" : "✗"}`
+      : "";
 
     const unreadDms = unreadMessagesCount();
     const unreadGlobal = unreadGlobalCount();
     const totalUnread = unreadDms + unreadGlobal;
     const messagesLabel = totalUnread > 0 ? `Msgs: ${totalUnread}` : "Msgs: 0";
 
-    return `${status}  |  Sort: ${sortLabel}  |  TF: ${tf}  |  ${idx + 1}/${total}  |  ${wsLabel}  |  ${wallet}  |  ${watchFilter}  |  Alerts A:${activeAlerts} T:${triggeredAlerts}  |  ${messagesLabel}  |  Last: ${lastRefresh}`;
+    return `${status}  |  Sort: ${sortLabel}  |  TF: ${tf}  |  ${idx + 1}/${total}  |  ${wsLabel}${userLabel}  |  ${wallet}  |  ${watchFilter}  |  Alerts A:${activeAlerts} T:${triggeredAlerts}  |  ${messagesLabel}  |  Last: ${lastRefresh}`;
+  });
+
+  // The bell belongs to the TUI: the MCP server shares useOrders and its stdout is JSON-RPC
+  onCleanup(
+    onFill(() => {
+      if (alertsState.soundEnabled) process.stdout.write("\x07");
+    })
+  );
+
+  const fillToast = createMemo(() => {
+    const fill = ordersState.lastFill;
+    if (!fill) return null;
+    const label = [fill.marketTitle.slice(0, 32), fill.outcomeTitle].filter(Boolean).join(" ");
+    return `🔔 ${paperState.enabled ? "PAPER " : ""}${fill.complete ? "FILLED" : "PARTIAL"} ${fill.side} ${fill.size.toFixed(2)} @ ${(fill.price * 100).toFixed(1)}¢ ${label}  `;
   });
 
   return (
     <box flexDirection="row" width="100%" paddingLeft={1} paddingRight={1}>
+      <Show when={fillToast()}>
+        <text content={fillToast()!} fg={ordersState.lastFill?.side === "BUY" ? theme.success : theme.error} />
+      </Show>
       <text content={statusText()} fg={theme.textMuted} />
     </box>
   );
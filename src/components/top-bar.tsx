@@ -61,7 +61,11 @@ export function TopBar() {
       {/* Wallet status */}
       <text content="│" fg={theme.primaryMuted} width={3} />
       <text
-        content={walletState.connected ? `◉ ${walletState.address?.slice(0, 8)}…` : "○ No Wallet"}
+        content={
+          walletState.connected
+            ? `◉ ${walletState.accounts.length > 1 && walletState.accountName ? walletState.accountName.slice(0, 12) : `${walletState.address?.slice(0, 8)}…`}`
+            : "○ No Wallet"
+        }
         fg={theme.highlightText}
         width={16}
       />
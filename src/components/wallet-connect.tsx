@@ -1,10 +1,17 @@
 /**
  * Wallet connect modal component
- * Press W to open. ESC to close. D to disconnect.
- * C to enter key input mode. ENTER to confirm connection.
+ * Press W to open. ESC to close.
+ * Lists the saved accounts: ↑↓ + ENTER or 1-9 switch the active one.
+ * C adds an account from a private key, I from a v3 keystore file and W a
+ * watch-only address; each then asks for an account name. T cycles the
+ * account type (EOA / Polymarket proxy / Gnosis Safe) for the next key;
+ * proxy and Safe accounts ask for the funder address after the key.
+ * For the active account: D removes it, E encrypts the stored key under a
+ * passphrase, U / L unlock and lock it, A cycles the auto-lock, X exports a
+ * keystore file. Passphrases are typed through app.tsx and only drawn masked.
  */
 
-import { Show } from "solid-js";
+import { For, Show } from "solid-js";
 import { useTheme } from "../context/theme";
 import {
   walletState,
@@ -13,20 +20,69 @@ import {
   setWalletModalInput,
   setWalletModalOpen,
   setWalletModalMode,
+  walletModalSignatureType,
+  setWalletModalSignatureType,
+  walletModalPurpose,
+  walletModalNotice,
+  walletModalAccountIdx,
+  WalletPassphrasePurpose,
 } from "../state";
-import { truncateAddress } from "../auth/wallet";
-import { disconnectWalletHook, connectWallet } from "../hooks/useWallet";
+import { truncateAddress, SIGNATURE_TYPE_LABELS } from "../auth/wallet";
+import { disconnectWalletHook, lockWalletHook, requestWalletUnlock, switchAccount } from "../hooks/useWallet";
+import { WalletAccount } from "../types/market";
+
+const PASSPHRASE_PROMPTS: Record<WalletPassphrasePurpose, string> = {
+  connect: "Passphrase to encrypt the key (leave empty to store it unencrypted):",
+  encrypt: "New passphrase to encrypt the stored key:",
+  export: "Passphrase for the exported keystore file:",
+  unlock: "Wallet is locked — enter your passphrase:",
+  import: "Keystore passphrase:",
+};
+
+function autoLockLabel(minutes: number | undefined): string {
+  return minutes ? `after ${minutes} min idle` : "off";
+}
+
+function accountKind(account: WalletAccount): string {
+  if (account.watchOnly) return "watch-only";
+  const type = SIGNATURE_TYPE_LABELS[account.signatureType];
+  return account.encrypted ? `${type}, encrypted` : type;
+}
+
+function padName(name: string, len: number): string {
+  return name.length > len ? name.slice(0, len - 1) + "…" : name.padEnd(len, " ");
+}
 
 export function WalletConnect() {
   const { theme } = useTheme();
+  const mode = () => walletModalMode();
+  const isPassphraseMode = () => mode() === "passphrase" || mode() === "newPassphrase" || mode() === "confirmPassphrase";
+  const masked = () => "•".repeat(walletModalInput().length);
+  const accountRows = () => (walletState.accounts.length > 0 ? walletState.accounts.length + 2 : 0);
+  const addingPrompt = () => {
+    switch (mode()) {
+      case "enter":
+        return `Enter private key (0x...) — ${SIGNATURE_TYPE_LABELS[walletModalSignatureType()]} account:`;
+      case "import":
+        return `Path to a v3 keystore file — ${SIGNATURE_TYPE_LABELS[walletModalSignatureType()]} account:`;
+      case "funder":
+        return `${SIGNATURE_TYPE_LABELS[walletModalSignatureType()]} funder address (your polymarket.com deposit address):`;
+      case "watch":
+        return "Address to watch (positions and P&L only, no trading):";
+      case "name":
+        return "Account name (leave empty for a default name):";
+      default:
+        return "";
+    }
+  };
 
   return (
     <box
       position="absolute"
       top={3}
-      left="28%"
-      width="44%"
-      height={walletState.connected ? 10 : 12}
+      left="26%"
+      width="48%"
+      height={(walletState.connected ? 17 : 11) + accountRows()}
       backgroundColor={theme.panelModal}
       flexDirection="column"
       zIndex={100}
@@ -46,52 +102,32 @@ export function WalletConnect() {
       {/* Body */}
       <box flexDirection="column" flexGrow={1} paddingLeft={2} paddingRight={2} paddingTop={1}>
         <Show when={walletState.loading}>
-          <text content="Connecting..." fg={theme.warning} />
+          <text content={walletState.connected ? "Working..." : "Connecting..."} fg={theme.warning} />
         </Show>
 
         <Show when={!walletState.loading && walletState.error !== null}>
           <text content={`✗ ${walletState.error}`} fg={theme.error} />
         </Show>
 
-        <Show when={!walletState.loading && walletState.connected && walletState.address}>
-          <box flexDirection="row" gap={1}>
-            <text content="Address :" fg={theme.textMuted} width={10} />
-            <text content={truncateAddress(walletState.address!)} fg={theme.primary} />
-          </box>
-          <box flexDirection="row" gap={1}>
-            <text content="Balance :" fg={theme.textMuted} width={10} />
-            <text
-              content={`$${walletState.balance.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDC`}
-              fg={theme.success}
-            />
-          </box>
-          <Show when={walletState.apiKey}>
-            <box flexDirection="row" gap={1}>
-              <text content="API Key :" fg={theme.textMuted} width={10} />
-              <text content={`${walletState.apiKey!.slice(0, 8)}...`} fg={theme.textMuted} />
-            </box>
-          </Show>
-          <text content="" />
-          <box flexDirection="row" gap={3}>
-            <box onMouseDown={() => disconnectWalletHook()}>
-              <text content="[D] Disconnect" fg={theme.error} />
-            </box>
-            <box onMouseDown={() => setWalletModalOpen(false)}>
-              <text content="[ESC] Close" fg={theme.textMuted} />
-            </box>
-          </box>
+        <Show when={!walletState.loading && walletModalNotice()}>
+          <text content={walletModalNotice()!} fg={theme.accent} />
         </Show>
 
-        <Show when={!walletState.loading && !walletState.connected && walletModalMode() === "view"}>
-          <text content="No wallet connected." fg={theme.textMuted} />
+        <Show when={!walletState.loading && isPassphraseMode()}>
+          <text
+            content={mode() === "confirmPassphrase" ? "Enter the passphrase again to confirm:" : PASSPHRASE_PROMPTS[walletModalPurpose()]}
+            fg={theme.textMuted}
+          />
           <text content="" />
-          <box onMouseDown={() => setWalletModalMode("enter")}>
-            <text content="[C] Enter Private Key    [ESC] Close" fg={theme.textMuted} />
+          <box flexDirection="row" width="100%" backgroundColor={theme.backgroundPanel}>
+            <text content={` ${masked()}▏`} fg={theme.textBright} />
           </box>
+          <text content="" />
+          <text content="[ENTER] Confirm    [ESC] Cancel" fg={theme.textMuted} />
         </Show>
 
-        <Show when={!walletState.loading && !walletState.connected && walletModalMode() === "enter"}>
-          <text content="Enter private key (0x...):" fg={theme.textMuted} />
+        <Show when={!walletState.loading && addingPrompt()}>
+          <text content={addingPrompt()} fg={theme.textMuted} />
           <text content="" />
           <input
             width="100%"
@@ -100,7 +136,140 @@ export function WalletConnect() {
             onInput={(v: string) => setWalletModalInput(v)}
           />
           <text content="" />
-          <text content="[ENTER] Connect    [ESC] Cancel" fg={theme.textMuted} />
+          <text content="[ENTER] Next    [ESC] Cancel" fg={theme.textMuted} />
+        </Show>
+
+        <Show when={!walletState.loading && mode() === "view"}>
+          {/* Account switcher */}
+          <Show when={walletState.accounts.length > 0}>
+            <text content="ACCOUNTS" fg={theme.textMuted} />
+            <For each={walletState.accounts}>
+              {(account, i) => {
+                const isCursor = () => walletModalAccountIdx() === i();
+                return (
+                  <box
+                    flexDirection="row"
+                    width="100%"
+                    backgroundColor={isCursor() ? theme.highlight : undefined}
+                    onMouseDown={() => void switchAccount(account.name)}
+                  >
+                    <text
+                      content={`${i() < 9 ? `[${i() + 1}]` : "   "} ${account.active ? "▶" : " "} ${padName(account.name, 14)}`}
+                      fg={isCursor() ? theme.highlightText : account.active ? theme.primary : theme.text}
+                      width={23}
+                    />
+                    <text content={truncateAddress(account.address)} fg={isCursor() ? theme.highlightText : theme.textMuted} width={15} />
+                    <text content={accountKind(account)} fg={account.watchOnly ? theme.accent : theme.textMuted} />
+                  </box>
+                );
+              }}
+            </For>
+            <text content="" />
+          </Show>
+
+          <Show when={walletState.connected && walletState.address}>
+            <box flexDirection="row" gap={1}>
+              <text content="Address :" fg={theme.textMuted} width={10} />
+              <text content={truncateAddress(walletState.address!)} fg={theme.primary} />
+              <text
+                content={walletState.watchOnly ? "(watch-only)" : `(${SIGNATURE_TYPE_LABELS[walletState.signatureType ?? 0]})`}
+                fg={theme.textMuted}
+              />
+            </box>
+            <Show when={walletState.funderAddress && walletState.funderAddress !== walletState.address}>
+              <box flexDirection="row" gap={1}>
+                <text content="Funder  :" fg={theme.textMuted} width={10} />
+                <text content={truncateAddress(walletState.funderAddress!)} fg={theme.primary} />
+              </box>
+            </Show>
+            <box flexDirection="row" gap={1}>
+              <text content="Balance :" fg={theme.textMuted} width={10} />
+              <text
+                content={`$${walletState.balance.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDC`}
+                fg={theme.success}
+              />
+            </box>
+            <Show when={walletState.apiKey}>
+              <box flexDirection="row" gap={1}>
+                <text content="API Key :" fg={theme.textMuted} width={10} />
+                <text content={`${walletState.apiKey!.slice(0, 8)}...`} fg={theme.textMuted} />
+              </box>
+            </Show>
+            <box flexDirection="row" gap={1}>
+              <text content="Key     :" fg={theme.textMuted} width={10} />
+              <Show
+                when={!walletState.watchOnly}
+                fallback={<text content="none — watch-only accounts can't trade" fg={theme.textMuted} />}
+              >
+                <Show
+                  when={walletState.encrypted}
+                  fallback={<text content="stored unencrypted" fg={theme.warning} />}
+                >
+                  <text
+                    content={walletState.locked ? "encrypted, locked" : "encrypted, unlocked"}
+                    fg={walletState.locked ? theme.warning : theme.success}
+                  />
+                  <text content={`· auto-lock ${autoLockLabel(walletState.autoLockMinutes)}`} fg={theme.textMuted} />
+                </Show>
+              </Show>
+            </box>
+            <text content="" />
+            <box flexDirection="row" gap={3}>
+              <Show when={walletState.locked}>
+                <box onMouseDown={() => requestWalletUnlock()}>
+                  <text content="[U] Unlock" fg={theme.success} />
+                </box>
+              </Show>
+              <Show when={walletState.encrypted && !walletState.locked}>
+                <box onMouseDown={() => lockWalletHook()}>
+                  <text content="[L] Lock" fg={theme.warning} />
+                </box>
+              </Show>
+              <Show when={walletState.encrypted}>
+                <text content="[A] Auto-lock" fg={theme.textMuted} />
+              </Show>
+              <Show when={!walletState.encrypted && !walletState.watchOnly}>
+                <text content="[E] Encrypt" fg={theme.warning} />
+              </Show>
+              <Show when={!walletState.locked && !walletState.watchOnly}>
+                <text content="[X] Export" fg={theme.textMuted} />
+              </Show>
+              <box onMouseDown={() => disconnectWalletHook()}>
+                <text content="[D] Remove" fg={theme.error} />
+              </box>
+            </box>
+          </Show>
+
+          <Show when={!walletState.connected}>
+            <text content="No wallet connected." fg={theme.textMuted} />
+          </Show>
+
+          {/* Adding accounts */}
+          <text content="" />
+          <box
+            flexDirection="row"
+            gap={1}
+            onMouseDown={() => setWalletModalSignatureType(((walletModalSignatureType() + 1) % 3) as 0 | 1 | 2)}
+          >
+            <text content="New key :" fg={theme.textMuted} width={10} />
+            <text content={SIGNATURE_TYPE_LABELS[walletModalSignatureType()]} fg={theme.primary} />
+            <text content="[T] Change" fg={theme.textMuted} />
+          </box>
+          <box flexDirection="row" gap={3}>
+            <box onMouseDown={() => setWalletModalMode("enter")}>
+              <text content="[C] Add Private Key" fg={theme.textMuted} />
+            </box>
+            <box onMouseDown={() => setWalletModalMode("import")}>
+              <text content="[I] Import Keystore" fg={theme.textMuted} />
+            </box>
+            <box onMouseDown={() => setWalletModalMode("watch")}>
+              <text content="[W] Watch Address" fg={theme.textMuted} />
+            </box>
+          </box>
+          <text
+            content={walletState.accounts.length > 1 ? "[↑↓ ENTER / 1-9] Switch account    [ESC] Close" : "[ESC] Close"}
+            fg={theme.textMuted}
+          />
         </Show>
       </box>
     </box>
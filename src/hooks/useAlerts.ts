@@ -2,12 +2,17 @@
  * Price alert management — persistence, evaluation, notification
  */
 
+import { createEffect, onCleanup } from "solid-js";
 import { createStore } from "solid-js/store";
 import { PriceAlert, AlertCondition, AlertMetric } from "../types/alerts";
 import { Market } from "../types/market";
 import { homedir } from "os";
-import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { readFileSync, writeFileSync, mkdirSync, statSync } from "fs";
 import { join } from "path";
+import { appState } from "../state";
+import { getMarketDataBus } from "../api/websocket";
+import { getActiveAccountName } from "../auth/wallet";
+import { onWalletAccountChange } from "./useWallet";
 
 export interface AlertHistoryEntry {
   id: string;
@@ -71,6 +76,16 @@ function ensureRuntimeState(alertId: string): AlertRuntimeState {
 
 const previousValues = new Map<string, number>();
 
+// Out-of-UI consumers (e.g. Telegram push) of newly triggered alerts
+const triggerListeners = new Set<(entries: AlertHistoryEntry[]) => void>();
+
+export function onAlertTriggered(handler: (entries: AlertHistoryEntry[]) => void): () => void {
+  triggerListeners.add(handler);
+  return () => {
+    triggerListeners.delete(handler);
+  };
+}
+
 function playSound(alertCount: number): void {
   if (!alertsState.soundEnabled) return;
   
@@ -118,11 +133,41 @@ function getAlertsPath(): string {
   return join(dir, "alerts.json");
 }
 
+// mtime of alerts.json as last loaded or saved by this process
+let alertsFileMtime = 0;
+
+// Alerts of the other wallet accounts: kept out of the store (and out of
+// evaluation) but written back with it
+let otherAccountAlerts: PriceAlert[] = [];
+
+/** Alerts without an account predate named accounts and show under all of them. */
+function belongsToActiveAccount(alert: PriceAlert, active: string | null): boolean {
+  return !alert.account || alert.account === active;
+}
+
+function readAlertsMtime(): number {
+  try {
+    return statSync(getAlertsPath()).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Reload alerts only when another process (the TUI, or the Telegram bot) has
+ * rewritten alerts.json — a plain reload would reset debounce counters.
+ */
+export function reloadAlertsIfChanged(): void {
+  if (readAlertsMtime() !== alertsFileMtime) loadAlerts();
+}
+
 export function loadAlerts(): void {
+  alertsFileMtime = readAlertsMtime();
   try {
     const raw = readFileSync(getAlertsPath(), "utf-8");
     const alerts: unknown = JSON.parse(raw);
     if (!Array.isArray(alerts)) {
+      otherAccountAlerts = [];
       setAlertsState("alerts", []);
       return;
     }
@@ -176,19 +221,24 @@ export function loadAlerts(): void {
             ? Number((item as { lastNotifiedAt?: unknown }).lastNotifiedAt)
             : undefined,
           triggerCount,
+          account: typeof item.account === "string" && item.account ? item.account : undefined,
         };
       })
       .filter((item): item is PriceAlert => item !== null);
 
-    setAlertsState("alerts", normalized);
+    const active = getActiveAccountName();
+    otherAccountAlerts = normalized.filter((alert) => !belongsToActiveAccount(alert, active));
+    const visible = normalized.filter((alert) => belongsToActiveAccount(alert, active));
+    setAlertsState("alerts", visible);
     alertRuntimeState.clear();
-    for (const alert of normalized) {
+    for (const alert of visible) {
       alertRuntimeState.set(alert.id, {
         consecutiveHits: 0,
         latched: alert.status === "triggered",
       });
     }
   } catch {
+    otherAccountAlerts = [];
     setAlertsState("alerts", []);
     alertRuntimeState.clear();
   }
@@ -196,7 +246,8 @@ export function loadAlerts(): void {
 
 function saveAlerts(): void {
   try {
-    writeFileSync(getAlertsPath(), JSON.stringify(alertsState.alerts, null, 2));
+    writeFileSync(getAlertsPath(), JSON.stringify([...alertsState.alerts, ...otherAccountAlerts], null, 2));
+    alertsFileMtime = readAlertsMtime();
   } catch { /* silent */ }
 }
 
@@ -212,7 +263,7 @@ export function addAlert(
   threshold: number,
   cooldownMinutes: number,
   debouncePasses: number,
-): void {
+): PriceAlert {
   const alert: PriceAlert = {
     id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
     marketId,
@@ -227,10 +278,12 @@ export function addAlert(
     status: "active",
     createdAt: Date.now(),
     triggerCount: 0,
+    account: getActiveAccountName() ?? undefined,
   };
   setAlertsState("alerts", (prev) => [alert, ...prev]);
   alertRuntimeState.set(alert.id, { consecutiveHits: 0, latched: false });
   saveAlerts();
+  return alert;
 }
 
 export function dismissAlert(id: string): void {
@@ -388,6 +441,13 @@ export function evaluateAlerts(markets: Market[]): void {
     
     if (newHistoryEntries.length > 0) {
       setAlertsState("alertHistory", (prev) => [...newHistoryEntries, ...prev].slice(0, 100));
+      triggerListeners.forEach((handler) => {
+        try {
+          handler(newHistoryEntries);
+        } catch (err) {
+          console.error("Alert trigger listener error:", err);
+        }
+      });
     }
   }
 
@@ -395,3 +455,58 @@ export function evaluateAlerts(markets: Market[]): void {
     saveAlerts();
   }
 }
+
+// ─── live evaluation ─────────────────────────────────────────────────────────
+
+const LIVE_EVAL_THROTTLE_MS = 2_000;
+
+/**
+ * Subscribe alert outcomes on the market-data bus and re-evaluate on live ticks
+ * (throttled) instead of waiting for the next REST refresh. Call inside a
+ * reactive owner.
+ */
+export function watchLiveAlertPrices(): void {
+  const bus = getMarketDataBus();
+  let release: (() => void) | null = null;
+  let offTicks: (() => void)[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleEvaluation = () => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      evaluateAlerts(appState.markets);
+    }, LIVE_EVAL_THROTTLE_MS);
+  };
+
+  createEffect(() => {
+    const ids = alertsState.alerts
+      .filter((a) => a.status !== "dismissed" && a.metric === "price" && a.outcomeId)
+      .map((a) => a.outcomeId!);
+
+    const previous = release;
+    release = bus.subscribe(ids);
+    previous?.();
+
+    offTicks.forEach((off) => off());
+    offTicks = ids.length > 0
+      ? [
+          bus.on("book", scheduleEvaluation, ids),
+          bus.on("price_change", scheduleEvaluation, ids),
+          bus.on("last_trade_price", scheduleEvaluation, ids),
+        ]
+      : [];
+  });
+
+  onCleanup(() => {
+    offTicks.forEach((off) => off());
+    release?.();
+    if (timer) clearTimeout(timer);
+  });
+}
+
+// Each wallet account sees and evaluates its own alerts
+onWalletAccountChange(() => {
+  loadAlerts();
+  setAlertsState("selectedIdx", 0);
+});
@@ -15,6 +15,7 @@ import {
   ChatMessage,
 } from "../state";
 import { sendMessageToAssistantStream } from "../api/assistant";
+import { approvalState, setAutoApproveBelow, setDailyNotionalCap, getRemainingDailyNotional } from "../agent/approval";
 
 const MAX_CHAT_MESSAGES = 100;
 
@@ -33,11 +34,47 @@ function addMessageWithLimit(msg: ChatMessage) {
   });
 }
 
+/**
+ * Local approval settings commands: /autoapprove <usd> (this session only)
+ * and /dailycap <usd> (persisted). Returns null when the input is not a command.
+ */
+function handleApprovalCommand(input: string): string | null {
+  const [command, rawValue] = input.split(/\s+/, 2);
+  if (command !== "/autoapprove" && command !== "/dailycap") return null;
+
+  if (rawValue === undefined) {
+    const remaining = getRemainingDailyNotional();
+    return `Auto-approve below: ${approvalState.autoApproveBelow > 0 ? `$${approvalState.autoApproveBelow.toFixed(2)}` : "off"}. `
+      + `Daily agent cap: ${remaining === null ? "none" : `$${approvalState.limits.dailyNotionalCap.toFixed(2)} ($${remaining.toFixed(2)} left today)`}.`;
+  }
+
+  const value = parseFloat(rawValue.replace(/^\$/, ""));
+  if (!Number.isFinite(value) || value < 0) {
+    return `Usage: ${command} <usd amount> (0 disables)`;
+  }
+  if (command === "/autoapprove") {
+    setAutoApproveBelow(value);
+    return value > 0
+      ? `Agent orders below $${value.toFixed(2)} will be placed without approval for this session.`
+      : "Auto-approve disabled — every agent order needs approval.";
+  }
+  setDailyNotionalCap(value);
+  return value > 0 ? `Daily agent notional cap set to $${value.toFixed(2)}.` : "Daily agent notional cap removed.";
+}
+
 export function useAssistant() {
   const submitPrompt = async () => {
     const input = chatInputValue().trim();
     if (!input || chatLoading()) return;
 
+    const commandReply = handleApprovalCommand(input);
+    if (commandReply !== null) {
+      addMessageWithLimit({ id: generateId(), role: "user", content: input, timestamp: new Date() });
+      addMessageWithLimit({ id: generateId(), role: "assistant", content: commandReply, timestamp: new Date() });
+      setChatInputValue("");
+      return;
+    }
+
     // Add user message
     const userMessage: ChatMessage = {
       id: generateId(),
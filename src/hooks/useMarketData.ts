@@ -18,16 +18,31 @@ import {
 } from "../state";
 import { Market, PriceHistory } from "../types/market";
 import { evaluateAlerts } from "./useAlerts";
+import { isReplayMode, recordEvent } from "../api/recording";
+import { getReplayPriceHistory } from "./useReplay";
 
 // Request deduplication to prevent overlapping fetches
 let pendingFetch: Promise<Market[]> | null = null;
 
+/**
+ * Fetch the market list, capturing the snapshot when recording is on
+ */
+function fetchMarketList(): Promise<Market[]> {
+  return getMarkets(50).then((markets) => {
+    recordEvent("rest_markets", markets);
+    return markets;
+  });
+}
+
 /**
  * Hook to fetch all markets on startup
  */
 export function useMarketsFetch(): void {
   // Use a signal to track if initial fetch is done
   const [initialFetchDone, setInitialFetchDone] = createSignal(false);
+
+  // Replay supplies the market list from the recording
+  if (isReplayMode()) return;
   
   // Use a simple flag to track if we should fetch
   if (!initialFetchDone()) {
@@ -38,7 +53,7 @@ export function useMarketsFetch(): void {
       try {
         // Use deduplicated fetch
         if (!pendingFetch) {
-          pendingFetch = getMarkets(50);
+          pendingFetch = fetchMarketList();
         }
         const markets = await pendingFetch;
         pendingFetch = null;
@@ -70,7 +85,7 @@ export function useSelectedMarketDetails(): Market | undefined {
   // Track when selected market changes
   const checkAndFetch = () => {
     const newMarketId = appState.selectedMarketId;
-    if (!newMarketId || newMarketId === currentMarketId) return;
+    if (!newMarketId || newMarketId === currentMarketId || isReplayMode()) return;
     
     currentMarketId = newMarketId;
     
@@ -103,6 +118,7 @@ export async function usePriceHistory(
   timeframe: Timeframe
 ): Promise<PriceHistory | null> {
   if (!marketId) return null;
+  if (isReplayMode()) return getReplayPriceHistory(marketId, timeframe);
 
   try {
     const history = await getPriceHistory(marketId, timeframe);
@@ -121,6 +137,7 @@ let refreshInProgress = false;
  */
 export function useRefreshInterval(intervalMs: number = 30000): void {
   let intervalId: ReturnType<typeof setInterval> | null = null;
+  if (isReplayMode()) return;
   
   const doRefresh = async () => {
     // Skip if already refreshing
@@ -130,7 +147,7 @@ export function useRefreshInterval(intervalMs: number = 30000): void {
     try {
       // Use deduplicated fetch
       if (!pendingFetch) {
-        pendingFetch = getMarkets(50);
+        pendingFetch = fetchMarketList();
       }
       const markets = await pendingFetch;
       pendingFetch = null;
@@ -159,14 +176,14 @@ export function useRefreshInterval(intervalMs: number = 30000): void {
  * Manual refresh trigger
  */
 export async function manualRefresh(): Promise<void> {
-  // Skip if already refreshing
-  if (refreshInProgress) return;
+  // Skip if already refreshing, or when replaying a recording offline
+  if (refreshInProgress || isReplayMode()) return;
   
   setLoading(true);
   try {
     // Use deduplicated fetch
     if (!pendingFetch) {
-      pendingFetch = getMarkets(50);
+      pendingFetch = fetchMarketList();
     }
     const markets = await pendingFetch;
     pendingFetch = null;
@@ -0,0 +1,162 @@
+/**
+ * Convert-NO panel state — loads a neg-risk event's questions, tracks which
+ * NO holdings to convert and submits the conversion
+ */
+
+import { createStore } from "solid-js/store";
+import {
+  ConversionLeg,
+  ConversionPreview,
+  convertNoPositions,
+  getConversionEvent,
+  previewConversion,
+} from "../api/negrisk";
+import { Market } from "../types/market";
+import { positionsState, fetchUserPositions } from "./usePositions";
+import { refreshWalletBalance } from "./useWallet";
+import { isPaperTrading } from "./usePaperTrading";
+import { walletState } from "../state";
+
+interface ConvertState {
+  panelOpen: boolean;
+  loading: boolean;
+  submitting: boolean;
+  eventTitle: string;
+  negRiskMarketId: string;
+  legs: ConversionLeg[];
+  selectedIdx: number;
+  selected: string[];   // market ids whose NO shares are converted
+  amount: string;
+  error: string;
+  status: string;
+}
+
+export const [convertState, setConvertState] = createStore<ConvertState>({
+  panelOpen: false,
+  loading: false,
+  submitting: false,
+  eventTitle: "",
+  negRiskMarketId: "",
+  legs: [],
+  selectedIdx: 0,
+  selected: [],
+  amount: "",
+  error: "",
+  status: "",
+});
+
+function defaultAmount(legs: ConversionLeg[], selected: string[]): string {
+  const { maxAmount } = previewConversion(legs, selected, 0);
+  return maxAmount > 0 ? String(Math.floor(maxAmount * 100) / 100) : "";
+}
+
+export async function openConvertPanel(market: Market | undefined): Promise<void> {
+  setConvertState({
+    panelOpen: true,
+    loading: true,
+    submitting: false,
+    eventTitle: market?.eventTitle ?? market?.title ?? "",
+    negRiskMarketId: "",
+    legs: [],
+    selectedIdx: 0,
+    selected: [],
+    amount: "",
+    error: "",
+    status: "",
+  });
+
+  if (!market?.negRisk || !market.eventId) {
+    setConvertState({ loading: false, error: "The selected market isn't part of a neg-risk event." });
+    return;
+  }
+
+  const event = await getConversionEvent(market.eventId, positionsState.positions);
+  if (!event) {
+    setConvertState({ loading: false, error: "Couldn't load the event's outcomes." });
+    return;
+  }
+
+  const selected = event.legs.filter((l) => l.noShares > 0).map((l) => l.marketId);
+  setConvertState({
+    loading: false,
+    eventTitle: event.title,
+    negRiskMarketId: event.negRiskMarketId,
+    legs: event.legs,
+    selected,
+    amount: defaultAmount(event.legs, selected),
+  });
+}
+
+export function closeConvertPanel(): void {
+  setConvertState("panelOpen", false);
+}
+
+export function moveConvertSelection(delta: number): void {
+  const maxIdx = Math.max(0, convertState.legs.length - 1);
+  setConvertState("selectedIdx", Math.min(maxIdx, Math.max(0, convertState.selectedIdx + delta)));
+}
+
+export function toggleConvertLeg(): void {
+  const leg = convertState.legs[convertState.selectedIdx];
+  if (!leg) return;
+  const selected = convertState.selected.includes(leg.marketId)
+    ? convertState.selected.filter((id) => id !== leg.marketId)
+    : [...convertState.selected, leg.marketId];
+  setConvertState({ selected, amount: defaultAmount(convertState.legs, selected), error: "" });
+}
+
+export function editConvertAmount(input: string | null): void {
+  const current = convertState.amount;
+  if (input === null) {
+    setConvertState({ amount: current.slice(0, -1), error: "" });
+  } else if (/[0-9.]/.test(input) && !(input === "." && current.includes("."))) {
+    setConvertState({ amount: current + input, error: "" });
+  }
+}
+
+export function getConversionPreview(): ConversionPreview {
+  return previewConversion(convertState.legs, convertState.selected, parseFloat(convertState.amount) || 0);
+}
+
+export async function confirmConversion(): Promise<void> {
+  if (convertState.submitting || convertState.loading) return;
+  const preview = getConversionPreview();
+
+  if (isPaperTrading()) {
+    setConvertState("error", "NO conversion isn't simulated in paper mode.");
+    return;
+  }
+  if (!walletState.connected) {
+    setConvertState("error", "Connect a wallet to convert positions.");
+    return;
+  }
+  if (preview.converted.length === 0) {
+    setConvertState("error", "Select at least one NO position to convert.");
+    return;
+  }
+  if (preview.amount <= 0) {
+    setConvertState("error", "Enter the number of shares to convert.");
+    return;
+  }
+  if (preview.amount > preview.maxAmount + 1e-9) {
+    setConvertState("error", `You hold at most ${preview.maxAmount.toFixed(2)} NO shares in every selected outcome.`);
+    return;
+  }
+
+  setConvertState({ submitting: true, error: "", status: "Submitting conversion…" });
+  try {
+    const hash = await convertNoPositions(convertState.negRiskMarketId, preview.indexSet, preview.amount);
+    setConvertState({ submitting: false, status: `Converted — tx ${hash.slice(0, 10)}…` });
+    void refreshWalletBalance();
+    await fetchUserPositions();
+    setConvertState("legs", (legs) =>
+      legs.map((l) => ({ ...l, noShares: positionsState.positions.find((p) => p.asset === l.noTokenId)?.size ?? 0 }))
+    );
+  } catch (err) {
+    setConvertState({
+      submitting: false,
+      status: "",
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
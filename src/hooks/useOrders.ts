@@ -2,9 +2,11 @@
  * Reactive order state and actions
  */
 
+import { createEffect, onCleanup } from "solid-js";
 import { createStore } from "solid-js/store";
 import { PlacedOrder } from "../types/orders";
 import {
+  getApiCredentials,
   placeOrder,
   cancelOrder,
   fetchOpenOrders,
@@ -18,12 +20,39 @@ import { OrderStatus } from "../types/orders";
 import { homedir } from "os";
 import { mkdirSync, writeFileSync } from "fs";
 import { join } from "path";
+import { UserChannelClient, UserChannelStatus } from "../api/user-channel";
+import { isReplayMode } from "../api/recording";
+import type { WsUserOrder, WsUserTrade } from "../api/ws";
+import { appState, walletState } from "../state";
+import { onWalletAccountChange } from "./useWallet";
+import {
+  paperState,
+  isPaperTrading,
+  placePaperOrder,
+  cancelPaperOrder,
+  cancelPaperOrders,
+  paperOpenOrders,
+  paperTradeHistory,
+  onPaperChange,
+  onPaperFill,
+} from "./usePaperTrading";
 
 export type OrderHistoryStatusFilter = "ALL" | OrderStatus;
 export type OrderHistoryWindowFilter = "ALL" | "24H" | "7D" | "30D";
 export type OrderHistorySideFilter = "ALL" | "BUY" | "SELL";
 export type OrderHistorySection = "open" | "trades";
 
+export interface FillNotice {
+  orderId: string;
+  side: "BUY" | "SELL";
+  size: number;
+  price: number;
+  marketTitle: string;
+  outcomeTitle: string;
+  complete: boolean;     // order fully filled by this match
+  at: number;
+}
+
 interface OrdersState {
   openOrders: PlacedOrder[];
   tradeHistory: PlacedOrder[];
@@ -40,6 +69,8 @@ interface OrdersState {
   historySearchQuery: string;
   historySearchEditing: boolean;
   lastExportPath: string | null;
+  userChannelStatus: UserChannelStatus;
+  lastFill: FillNotice | null;
 }
 
 export const [ordersState, setOrdersState] = createStore<OrdersState>({
@@ -58,6 +89,8 @@ export const [ordersState, setOrdersState] = createStore<OrdersState>({
   historySearchQuery: "",
   historySearchEditing: false,
   lastExportPath: null,
+  userChannelStatus: "disconnected",
+  lastFill: null,
 });
 
 function matchesStatus(order: PlacedOrder, statusFilter: OrderHistoryStatusFilter): boolean {
@@ -304,6 +337,8 @@ export async function submitOrder(order: Order): Promise<PlacedOrder | null> {
   setOrdersState("error", null);
 
   try {
+    // The paper account publishes its own open orders and fills
+    if (isPaperTrading()) return await placePaperOrder(order);
     const result = await placeOrder(order);
     setOrdersState("openOrders", (prev) => [result, ...prev]);
     return result;
@@ -321,7 +356,7 @@ export async function cancelOrderById(orderId: string): Promise<boolean> {
   setOrdersState("lastBulkAction", null);
 
   try {
-    const ok = await cancelOrder(orderId);
+    const ok = isPaperTrading() ? cancelPaperOrder(orderId) : await cancelOrder(orderId);
     if (ok) {
       setOrdersState("openOrders", (prev) =>
         prev.map((o) =>
@@ -358,10 +393,20 @@ function markOrdersCancelled(orderIds: string[]): void {
   }
 }
 
+function bulkCancelSummary(count: number, noun: string, none: string): string {
+  return count > 0 ? `Canceled ${count} ${noun}${count === 1 ? "" : "s"}` : none;
+}
+
 export async function cancelAllOpenOrders(): Promise<number> {
   setOrdersState("error", null);
   setOrdersState("lastBulkAction", null);
 
+  if (isPaperTrading()) {
+    const canceled = cancelPaperOrders();
+    setOrdersState("lastBulkAction", bulkCancelSummary(canceled.length, "open order", "No cancelable open orders"));
+    return canceled.length;
+  }
+
   const localOpenIds = ordersState.openOrders
     .filter((order) => order.status === "LIVE" || order.status === "DELAYED" || order.status === "UNMATCHED")
     .map((order) => order.orderId)
@@ -412,6 +457,12 @@ export async function cancelSelectedMarketOpenOrders(tokenIds: string[]): Promis
     return 0;
   }
 
+  if (isPaperTrading()) {
+    const canceled = cancelPaperOrders(uniqueTokenIds);
+    setOrdersState("lastBulkAction", bulkCancelSummary(canceled.length, "market order", "No selected-market orders were canceled"));
+    return canceled.length;
+  }
+
   try {
     const result = await cancelOrdersForAssetIds(uniqueTokenIds);
     markOrdersCancelled(result.canceled);
@@ -436,7 +487,17 @@ export async function cancelSelectedMarketOpenOrders(tokenIds: string[]): Promis
   }
 }
 
+function syncPaperOrders(): void {
+  setOrdersState("openOrders", paperOpenOrders());
+  setOrdersState("tradeHistory", paperTradeHistory());
+  setOrdersState("lastFetch", new Date());
+}
+
 export async function refreshOrders(): Promise<void> {
+  if (isPaperTrading()) {
+    syncPaperOrders();
+    return;
+  }
   try {
     const [open, history] = await Promise.all([
       fetchOpenOrders(),
@@ -460,3 +521,246 @@ export async function refreshOrders(): Promise<void> {
     // silent
   }
 }
+
+// ─── live user channel ───────────────────────────────────────────────────────
+
+const FILL_TOAST_MS = 10_000;
+const REFRESH_DEBOUNCE_MS = 1_500;
+
+let fillToastTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const matchedByTrades = new Map<string, number>();
+
+function lookupTitles(tokenId: string): { marketTitle: string; outcomeTitle: string } {
+  for (const market of appState.markets) {
+    const outcome = market.outcomes.find((o) => o.id === tokenId);
+    if (outcome) return { marketTitle: market.title, outcomeTitle: outcome.title };
+  }
+  return { marketTitle: "", outcomeTitle: "" };
+}
+
+/** Trade history rows come from REST; debounce so a burst of fills is one fetch. */
+function scheduleOrdersRefresh(): void {
+  if (isReplayMode()) return;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    void refreshOrders();
+  }, REFRESH_DEBOUNCE_MS);
+}
+
+const fillListeners = new Set<(fill: FillNotice) => void>();
+
+/** Subscribe to fills seen on the user channel (toast-worthy MATCHED trades). */
+export function onFill(handler: (fill: FillNotice) => void): () => void {
+  fillListeners.add(handler);
+  return () => {
+    fillListeners.delete(handler);
+  };
+}
+
+function notifyFill(fill: FillNotice): void {
+  setOrdersState("lastFill", fill);
+  fillListeners.forEach((handler) => {
+    try {
+      handler(fill);
+    } catch (err) {
+      console.error("Fill listener error:", err);
+    }
+  });
+  if (fillToastTimer) clearTimeout(fillToastTimer);
+  fillToastTimer = setTimeout(() => {
+    fillToastTimer = null;
+    setOrdersState("lastFill", null);
+  }, FILL_TOAST_MS);
+}
+
+export function applyUserOrderEvent(msg: WsUserOrder): void {
+  if (!msg.orderId) return;
+
+  if (msg.event === "CANCELLATION") {
+    const order = ordersState.openOrders.find((o) => o.orderId === msg.orderId);
+    if (order?.status !== "FILLED") markOrdersCancelled([msg.orderId]);
+    return;
+  }
+
+  const sizeRemaining = Math.max(0, msg.originalSize - msg.sizeMatched);
+  const existing = ordersState.openOrders.find((o) => o.orderId === msg.orderId);
+  if (!existing) {
+    if (msg.event !== "PLACEMENT" && sizeRemaining <= 0) return;
+    const titles = lookupTitles(msg.assetId);
+    setOrdersState("openOrders", (prev) => [
+      {
+        orderId: msg.orderId,
+        tokenId: msg.assetId,
+        side: msg.side,
+        price: msg.price,
+        originalSize: msg.originalSize,
+        sizeMatched: msg.sizeMatched,
+        sizeRemaining,
+        status: sizeRemaining <= 0 ? "FILLED" : "LIVE",
+        createdAt: msg.timestamp,
+        marketTitle: titles.marketTitle,
+        outcomeTitle: msg.outcome ?? titles.outcomeTitle,
+      },
+      ...prev,
+    ]);
+    return;
+  }
+
+  setOrdersState("openOrders", (prev) =>
+    prev.map((o) =>
+      o.orderId === msg.orderId
+        ? {
+            ...o,
+            sizeMatched: Math.max(o.sizeMatched, msg.sizeMatched),
+            sizeRemaining: Math.min(o.sizeRemaining, sizeRemaining),
+            status: sizeRemaining <= 0 ? "FILLED" : o.status,
+          }
+        : o
+    )
+  );
+}
+
+/**
+ * Fill toasts come from trade events (they carry the matched size and price);
+ * only the first MATCHED notice of a trade notifies, later MINED/CONFIRMED
+ * updates just resync history.
+ */
+export function applyUserTradeEvent(msg: WsUserTrade, apiKey: string): void {
+  scheduleOrdersRefresh();
+  if (msg.status !== "MATCHED") return;
+
+  const known = new Map(ordersState.openOrders.map((o) => [o.orderId, o]));
+  const fills: { orderId: string; size: number; price: number; side: "BUY" | "SELL"; tokenId: string }[] = [];
+
+  const isTaker = msg.traderSide === "TAKER" || (!!msg.takerOrderId && known.has(msg.takerOrderId));
+  if (isTaker) {
+    fills.push({ orderId: msg.takerOrderId ?? "", size: msg.size, price: msg.price, side: msg.side, tokenId: msg.assetId });
+  } else {
+    for (const maker of msg.makerOrders) {
+      const ours = known.get(maker.orderId);
+      if (!ours && maker.owner !== apiKey) continue;
+      fills.push({
+        orderId: maker.orderId,
+        size: maker.matchedAmount,
+        price: Number.isFinite(maker.price) ? maker.price : msg.price,
+        side: ours?.side ?? (msg.side === "BUY" ? "SELL" : "BUY"),
+        tokenId: ours?.tokenId ?? msg.assetId,
+      });
+    }
+  }
+
+  for (const fill of fills) {
+    const order = known.get(fill.orderId);
+    // Absolute matched size per order, so order UPDATE events and trade events
+    // can arrive in either order without double counting
+    const matched = (matchedByTrades.get(fill.orderId) ?? 0) + fill.size;
+    matchedByTrades.set(fill.orderId, matched);
+    const complete = order ? matched >= order.originalSize - 1e-9 : false;
+
+    if (order) {
+      setOrdersState("openOrders", (prev) =>
+        prev.map((o) =>
+          o.orderId === fill.orderId
+            ? {
+                ...o,
+                sizeMatched: Math.max(o.sizeMatched, matched),
+                sizeRemaining: Math.min(o.sizeRemaining, Math.max(0, o.originalSize - matched)),
+                status: complete ? "FILLED" : o.status,
+              }
+            : o
+        )
+      );
+    }
+    const titles = order
+      ? { marketTitle: order.marketTitle ?? "", outcomeTitle: order.outcomeTitle ?? "" }
+      : lookupTitles(fill.tokenId);
+    notifyFill({
+      orderId: fill.orderId,
+      side: fill.side,
+      size: fill.size,
+      price: fill.price,
+      marketTitle: titles.marketTitle,
+      outcomeTitle: msg.outcome ?? titles.outcomeTitle,
+      complete,
+      at: Date.now(),
+    });
+  }
+}
+
+/**
+ * Keep the user channel open while a wallet is connected. Call inside a
+ * reactive owner (AppContent).
+ */
+export function watchUserOrderStream(): void {
+  let client: UserChannelClient | null = null;
+  let generation = 0;
+
+  const stop = () => {
+    generation++;
+    client?.disconnect();
+    client = null;
+  };
+
+  createEffect(() => {
+    const connected = walletState.connected;
+    const address = walletState.address;
+    const account = walletState.accountName;
+    const paper = paperState.enabled;
+    const locked = walletState.locked;
+    const watchOnly = walletState.watchOnly;
+    stop();
+    // Live fills would land in the paper account's order list; a locked
+    // wallet has no API secret to subscribe with until it is unlocked, and a
+    // watch-only account has none at all
+    if (!connected || !address || !account || paper || locked || watchOnly) return;
+
+    const current = generation;
+    void (async () => {
+      let creds;
+      try {
+        creds = await getApiCredentials();
+      } catch {
+        setOrdersState("userChannelStatus", "error");
+        return;
+      }
+      if (current !== generation) return;
+
+      client = new UserChannelClient(creds, {
+        onOrder: applyUserOrderEvent,
+        onTrade: (msg) => applyUserTradeEvent(msg, creds.apiKey),
+        onStatus: (status) => setOrdersState("userChannelStatus", status),
+        onReconnect: () => void refreshOrders(),
+      });
+      client.connect();
+    })();
+  });
+
+  onCleanup(stop);
+}
+
+// ─── paper account ───────────────────────────────────────────────────────────
+
+// Mirror the simulated account; switching it off brings back the live orders
+onPaperChange(() => void refreshOrders());
+
+// Orders belong to the account that placed them; don't show the last one's
+onWalletAccountChange(() => {
+  if (isPaperTrading()) return;
+  setOrdersState({ openOrders: [], tradeHistory: [], cancelReasonsByOrderId: {}, lastFill: null, error: null });
+  void refreshOrders();
+});
+
+onPaperFill((fill) => {
+  notifyFill({
+    orderId: fill.orderId,
+    side: fill.side,
+    size: fill.size,
+    price: fill.price,
+    marketTitle: fill.marketTitle,
+    outcomeTitle: fill.outcomeTitle,
+    complete: fill.orderFilled,
+    at: fill.at,
+  });
+});
@@ -0,0 +1,563 @@
+/**
+ * Paper trading — a simulated account that stands in for the CLOB while
+ * enabled. Orders match against the live (or replayed) local order book with
+ * the exchange's GTC / GTD / FOK / FAK and post-only rules; cash, positions, fees
+ * and fills persist in ~/.polymarket-tui/paper.json.
+ */
+
+import { createStore } from "solid-js/store";
+import { homedir } from "os";
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { Order, OrderSide, OrderType, PlacedOrder } from "../types/orders";
+import { Position } from "../types/positions";
+import { getOrderBookEngine, LocalOrderBook } from "../api/orderbook";
+import { feeRateFraction, getFeeRates } from "../api/clob/misc";
+import { DEFAULT_GTD_LIFETIME_MS, GTD_MIN_LEAD_MS } from "../utils/expiry";
+import { appState } from "../state";
+
+export const DEFAULT_PAPER_CASH = 1_000;
+const MAX_FILLS = 500;
+const EPSILON = 1e-9;
+
+export interface PaperPosition {
+  tokenId: string;
+  shares: number;
+  avgPrice: number;
+  marketTitle: string;
+  outcomeTitle: string;
+}
+
+export interface PaperOrder extends PlacedOrder {
+  type: OrderType;
+  expiresAt?: number;    // unix ms, GTD only
+}
+
+export interface PaperFill {
+  id: string;
+  orderId: string;
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  fee: number;
+  liquidity: "maker" | "taker";
+  marketTitle: string;
+  outcomeTitle: string;
+  orderFilled: boolean;  // this fill completed the order
+  at: number;            // unix ms
+}
+
+interface PaperState {
+  enabled: boolean;
+  startingCash: number;
+  cash: number;
+  feesPaid: number;
+  realizedPnl: number;
+  positions: PaperPosition[];
+  openOrders: PaperOrder[];
+  fills: PaperFill[];    // newest first
+  nextId: number;
+}
+
+function freshAccount(enabled: boolean, startingCash: number): PaperState {
+  return {
+    enabled,
+    startingCash,
+    cash: startingCash,
+    feesPaid: 0,
+    realizedPnl: 0,
+    positions: [],
+    openOrders: [],
+    fills: [],
+    nextId: 1,
+  };
+}
+
+export const [paperState, setPaperState] = createStore<PaperState>(freshAccount(false, DEFAULT_PAPER_CASH));
+
+// Mutated in place and mirrored into paperState after every change
+let account: PaperState = freshAccount(false, DEFAULT_PAPER_CASH);
+let loaded = false;
+
+const changeListeners = new Set<() => void>();
+const fillListeners = new Set<(fill: PaperFill) => void>();
+const watchers = new Map<string, () => void>();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const feeRateCache = new Map<string, Promise<{ maker: number; taker: number }>>();
+
+/**
+ * Book liquidity this account already took, per level. The local book doesn't
+ * know about simulated fills, so an unchanged level would otherwise be taken
+ * again on the next update; the record resets once the level's size changes.
+ */
+const consumed = new Map<string, { seenSize: number; used: number }>();
+
+// ─── persistence ────────────────────────────────────────────────────────────
+
+function getPaperPath(): string {
+  const dir = join(homedir(), ".polymarket-tui");
+  try { mkdirSync(dir, { recursive: true }); } catch { /* exists */ }
+  return join(dir, "paper.json");
+}
+
+function finite(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+export function loadPaperAccount(): void {
+  loaded = true;
+  try {
+    const raw = JSON.parse(readFileSync(getPaperPath(), "utf-8")) as Partial<PaperState>;
+    const startingCash = finite(raw.startingCash, DEFAULT_PAPER_CASH);
+    account = {
+      enabled: raw.enabled === true,
+      startingCash,
+      cash: finite(raw.cash, startingCash),
+      feesPaid: finite(raw.feesPaid, 0),
+      realizedPnl: finite(raw.realizedPnl, 0),
+      positions: Array.isArray(raw.positions) ? raw.positions.filter((p) => p && p.tokenId && p.shares > 0) : [],
+      openOrders: Array.isArray(raw.openOrders) ? raw.openOrders.filter((o) => o && o.orderId && o.tokenId) : [],
+      fills: Array.isArray(raw.fills) ? raw.fills.slice(0, MAX_FILLS) : [],
+      nextId: finite(raw.nextId, 1),
+    };
+  } catch {
+    account = freshAccount(false, DEFAULT_PAPER_CASH);
+  }
+  expireOrders();
+  publish();
+  syncWatchers();
+}
+
+function savePaperAccount(): void {
+  try {
+    writeFileSync(getPaperPath(), JSON.stringify(account, null, 2), { mode: 0o600 });
+  } catch { /* silent */ }
+}
+
+function ensureLoaded(): void {
+  if (!loaded) loadPaperAccount();
+}
+
+/** Persist, mirror into the store and tell the order/position hooks. */
+function publish(): void {
+  setPaperState(structuredClone(account));
+  changeListeners.forEach((listener) => listener());
+}
+
+function commit(): void {
+  savePaperAccount();
+  publish();
+  syncWatchers();
+}
+
+// ─── account ────────────────────────────────────────────────────────────────
+
+export function isPaperTrading(): boolean {
+  ensureLoaded();
+  return account.enabled;
+}
+
+export function setPaperTrading(enabled: boolean): void {
+  ensureLoaded();
+  if (account.enabled === enabled) return;
+  account.enabled = enabled;
+  commit();
+}
+
+/** Wipe positions, orders and fills and start again with `startingCash`. */
+export function resetPaperAccount(startingCash: number = account.startingCash): void {
+  ensureLoaded();
+  for (const timer of expiryTimers.values()) clearTimeout(timer);
+  expiryTimers.clear();
+  consumed.clear();
+  account = freshAccount(account.enabled, startingCash);
+  commit();
+}
+
+/** USDC reserved by resting BUY orders. */
+function reservedCash(): number {
+  return account.openOrders
+    .filter((o) => o.side === "BUY")
+    .reduce((sum, o) => sum + o.price * o.sizeRemaining, 0);
+}
+
+function reservedShares(tokenId: string): number {
+  return account.openOrders
+    .filter((o) => o.side === "SELL" && o.tokenId === tokenId)
+    .reduce((sum, o) => sum + o.sizeRemaining, 0);
+}
+
+/** Cash not committed to resting BUY orders. */
+export function paperAvailableCash(): number {
+  ensureLoaded();
+  return Math.max(0, account.cash - reservedCash());
+}
+
+export function onPaperChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+export function onPaperFill(listener: (fill: PaperFill) => void): () => void {
+  fillListeners.add(listener);
+  return () => fillListeners.delete(listener);
+}
+
+// ─── views in the live API shapes ───────────────────────────────────────────
+
+function toPlacedOrder(order: PaperOrder): PlacedOrder {
+  const { type: _type, expiresAt: _expiresAt, ...placed } = order;
+  return { ...placed };
+}
+
+export function paperOpenOrders(): PlacedOrder[] {
+  ensureLoaded();
+  return account.openOrders.map(toPlacedOrder);
+}
+
+/** Fills as trade-history rows, newest first. */
+export function paperTradeHistory(): PlacedOrder[] {
+  ensureLoaded();
+  return account.fills.map((fill) => ({
+    orderId: fill.id,
+    tokenId: fill.tokenId,
+    side: fill.side,
+    price: fill.price,
+    originalSize: fill.size,
+    sizeMatched: fill.size,
+    sizeRemaining: 0,
+    status: "MATCHED",
+    createdAt: fill.at,
+    marketTitle: fill.marketTitle,
+    outcomeTitle: fill.outcomeTitle,
+  }));
+}
+
+/** Mark price: book mid when the book is maintained, else the market list price. */
+function markPrice(tokenId: string, fallback: number): number {
+  const mid = getOrderBookEngine().getBook(tokenId)?.midpoint();
+  if (mid !== null && mid !== undefined) return mid;
+  for (const market of appState.markets) {
+    const outcome = market.outcomes.find((o) => o.id === tokenId);
+    if (outcome) return outcome.price;
+  }
+  return fallback;
+}
+
+export function paperPositions(): Position[] {
+  ensureLoaded();
+  return account.positions.map((p) => {
+    const curPrice = markPrice(p.tokenId, p.avgPrice);
+    const initialValue = p.shares * p.avgPrice;
+    const currentValue = p.shares * curPrice;
+    const cashPnl = currentValue - initialValue;
+    return {
+      asset: p.tokenId,
+      conditionId: "",
+      size: p.shares,
+      avgPrice: p.avgPrice,
+      currentValue,
+      cashPnl,
+      percentPnl: initialValue > 0 ? (cashPnl / initialValue) * 100 : 0,
+      curPrice,
+      outcome: p.outcomeTitle,
+      title: p.marketTitle,
+      endDate: null,
+      redeemable: false,
+      initialValue,
+    };
+  });
+}
+
+/** Cash plus positions at mark. */
+export function paperEquity(): number {
+  return paperPositions().reduce((sum, p) => sum + p.currentValue, paperState.cash);
+}
+
+// ─── matching ───────────────────────────────────────────────────────────────
+
+function feeRatesFor(tokenId: string): Promise<{ maker: number; taker: number }> {
+  let cached = feeRateCache.get(tokenId);
+  if (!cached) {
+    cached = getFeeRates(tokenId).then((res) => ({
+      maker: feeRateFraction(res?.fees?.[0]?.maker_fee_rate),
+      taker: feeRateFraction(res?.fees?.[0]?.taker_fee_rate),
+    }));
+    feeRateCache.set(tokenId, cached);
+  }
+  return cached;
+}
+
+function feeFor(rate: number, price: number, size: number): number {
+  return rate * Math.min(price, 1 - price) * size;
+}
+
+function crosses(side: OrderSide, price: number, book: LocalOrderBook | undefined): boolean {
+  if (!book) return false;
+  const touch = side === "BUY" ? book.bestAsk() : book.bestBid();
+  if (touch === null) return false;
+  return side === "BUY" ? price >= touch - EPSILON : price <= touch + EPSILON;
+}
+
+/**
+ * Walk the opposite side up to `limit`, skipping liquidity this account
+ * already took. `take` records the consumption; otherwise it's a dry run.
+ */
+function sweep(
+  book: LocalOrderBook,
+  side: OrderSide,
+  shares: number,
+  limit: number,
+  take: boolean,
+): { filled: number; notional: number } {
+  let filled = 0;
+  let notional = 0;
+  for (const level of book.levels(side === "BUY" ? "asks" : "bids")) {
+    if (shares - filled <= EPSILON) break;
+    if (side === "BUY" ? level.price > limit + EPSILON : level.price < limit - EPSILON) break;
+    const key = `${book.tokenId}:${side}:${level.price}`;
+    const record = consumed.get(key);
+    const used = record && record.seenSize === level.size ? record.used : 0;
+    const size = Math.min(shares - filled, level.size - used);
+    if (size <= EPSILON) continue;
+    filled += size;
+    notional += size * level.price;
+    if (take) consumed.set(key, { seenSize: level.size, used: used + size });
+  }
+  return { filled, notional };
+}
+
+function applyFill(order: PaperOrder, size: number, price: number, fee: number, liquidity: PaperFill["liquidity"]): void {
+  const marketTitle = order.marketTitle ?? "";
+  const outcomeTitle = order.outcomeTitle ?? "";
+  let position = account.positions.find((p) => p.tokenId === order.tokenId);
+
+  if (order.side === "BUY") {
+    account.cash -= size * price + fee;
+    if (!position) {
+      position = { tokenId: order.tokenId, shares: 0, avgPrice: 0, marketTitle, outcomeTitle };
+      account.positions.push(position);
+    }
+    position.avgPrice = (position.avgPrice * position.shares + price * size) / (position.shares + size);
+    position.shares += size;
+  } else if (position) {
+    account.cash += size * price - fee;
+    account.realizedPnl += (price - position.avgPrice) * size;
+    position.shares -= size;
+    if (position.shares <= EPSILON) {
+      account.positions = account.positions.filter((p) => p !== position);
+    }
+  }
+  account.feesPaid += fee;
+
+  order.sizeMatched += size;
+  order.sizeRemaining = Math.max(0, order.originalSize - order.sizeMatched);
+  const orderFilled = order.sizeRemaining <= EPSILON;
+  if (orderFilled) order.sizeRemaining = 0;
+
+  const fill: PaperFill = {
+    id: `paper-fill-${account.nextId++}`,
+    orderId: order.orderId,
+    tokenId: order.tokenId,
+    side: order.side,
+    price,
+    size,
+    fee,
+    liquidity,
+    marketTitle,
+    outcomeTitle,
+    orderFilled,
+    at: Date.now(),
+  };
+  account.fills = [fill, ...account.fills].slice(0, MAX_FILLS);
+  fillListeners.forEach((listener) => listener(fill));
+}
+
+/**
+ * Simulate `order` against the current book. Rejections throw with the same
+ * wording as the live API so the order form and agent tools read them alike.
+ */
+export async function placePaperOrder(order: Order): Promise<PlacedOrder> {
+  ensureLoaded();
+  if (!(order.price > 0 && order.price < 1)) throw new Error("Order rejected: price must be between 0 and 1.");
+  if (!(order.shares > 0)) throw new Error("Order rejected: size must be positive.");
+  if (order.postOnly && (order.type === "FOK" || order.type === "FAK")) {
+    throw new Error(`Order rejected: post-only is not valid with ${order.type}.`);
+  }
+  if (order.type === "GTD" && order.expiresAt !== undefined && order.expiresAt < Date.now() + GTD_MIN_LEAD_MS) {
+    throw new Error("Order rejected: GTD expiry must be at least 1 minute from now.");
+  }
+
+  const engine = getOrderBookEngine();
+  const [book, rates] = await Promise.all([engine.ensure(order.tokenId), feeRatesFor(order.tokenId)]);
+  const marketable = crosses(order.side, order.price, book);
+
+  if (order.postOnly && marketable) {
+    throw new Error("Post-only order rejected because it crosses the current book.");
+  }
+
+  if (order.side === "BUY") {
+    const needed = order.price * order.shares + feeFor(rates.taker, order.price, order.shares);
+    if (needed > paperAvailableCash() + EPSILON) {
+      throw new Error(
+        `Order rejected: insufficient paper cash — needs $${needed.toFixed(2)}, $${paperAvailableCash().toFixed(2)} available.`,
+      );
+    }
+  } else {
+    const held = account.positions.find((p) => p.tokenId === order.tokenId)?.shares ?? 0;
+    const free = held - reservedShares(order.tokenId);
+    if (order.shares > free + EPSILON) {
+      throw new Error(`Order rejected: only ${Math.max(0, free).toFixed(2)} paper shares free to sell.`);
+    }
+  }
+
+  if (order.type === "FOK" && (!book || !marketable || sweep(book, order.side, order.shares, order.price, false).filled < order.shares - EPSILON)) {
+    throw new Error("FOK order rejected: no immediate full fill available at this price.");
+  }
+  if (order.type === "FAK" && (!book || !marketable)) {
+    throw new Error("FAK order rejected: no liquidity available at this price.");
+  }
+
+  const now = Date.now();
+  const paper: PaperOrder = {
+    orderId: `paper-${account.nextId++}`,
+    tokenId: order.tokenId,
+    side: order.side,
+    price: order.price,
+    originalSize: order.shares,
+    sizeMatched: 0,
+    sizeRemaining: order.shares,
+    status: "LIVE",
+    createdAt: now,
+    postOnly: order.postOnly,
+    marketTitle: order.marketTitle,
+    outcomeTitle: order.outcomeTitle,
+    type: order.type,
+    ...(order.type === "GTD" ? { expiresAt: order.expiresAt ?? now + DEFAULT_GTD_LIFETIME_MS } : {}),
+  };
+
+  if (book && marketable) {
+    const { filled, notional } = sweep(book, order.side, order.shares, order.price, true);
+    if (filled > EPSILON) {
+      const avgPrice = notional / filled;
+      applyFill(paper, filled, avgPrice, feeFor(rates.taker, avgPrice, filled), "taker");
+    }
+  }
+
+  if (paper.sizeRemaining <= EPSILON) {
+    paper.status = "MATCHED";
+  } else if (order.type === "FAK") {
+    // Whatever didn't fill immediately is killed
+    paper.status = paper.sizeMatched > EPSILON ? "MATCHED" : "CANCELLED";
+  } else {
+    // GTC / GTD remainder rests; with no book yet (replay before its first
+    // snapshot) the whole order rests until the book arrives
+    account.openOrders = [paper, ...account.openOrders];
+  }
+  commit();
+  return toPlacedOrder(paper);
+}
+
+/** Fill resting orders the book has moved through, at their own limit (maker). */
+async function matchResting(tokenId: string, book: LocalOrderBook): Promise<void> {
+  if (!account.enabled) return;
+  const resting = account.openOrders
+    .filter((o) => o.tokenId === tokenId && crosses(o.side, o.price, book))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  if (resting.length === 0) return;
+
+  const rates = await feeRatesFor(tokenId);
+  let changed = false;
+  for (const order of resting) {
+    // Cancelled, expired or filled while the fee rates loaded
+    if (!account.openOrders.includes(order) || order.sizeRemaining <= EPSILON) continue;
+    let size = sweep(book, order.side, order.sizeRemaining, order.price, true).filled;
+    // A SELL can't deliver shares that were sold elsewhere since it was placed
+    if (order.side === "SELL") {
+      size = Math.min(size, account.positions.find((p) => p.tokenId === tokenId)?.shares ?? 0);
+    }
+    if (size <= EPSILON) continue;
+    applyFill(order, size, order.price, feeFor(rates.maker, order.price, size), "maker");
+    if (order.sizeRemaining <= 0) {
+      order.status = "FILLED";
+      removeOrder(order.orderId);
+    }
+    changed = true;
+  }
+  if (changed) commit();
+}
+
+function removeOrder(orderId: string): PaperOrder | undefined {
+  const order = account.openOrders.find((o) => o.orderId === orderId);
+  if (!order) return undefined;
+  account.openOrders = account.openOrders.filter((o) => o !== order);
+  const timer = expiryTimers.get(orderId);
+  if (timer) clearTimeout(timer);
+  expiryTimers.delete(orderId);
+  return order;
+}
+
+function expireOrders(): void {
+  const now = Date.now();
+  account.openOrders = account.openOrders.filter((o) => o.expiresAt === undefined || o.expiresAt > now);
+}
+
+/**
+ * Keep the book of every token with a resting order tracked, and arm GTD
+ * expiry timers. Nothing is watched while paper mode is off.
+ */
+function syncWatchers(): void {
+  const engine = getOrderBookEngine();
+  const wanted = new Set(account.enabled ? account.openOrders.map((o) => o.tokenId) : []);
+
+  for (const [tokenId, release] of watchers) {
+    if (!wanted.has(tokenId)) {
+      release();
+      watchers.delete(tokenId);
+    }
+  }
+  for (const tokenId of wanted) {
+    if (watchers.has(tokenId)) continue;
+    const releaseBook = engine.track(tokenId);
+    const off = engine.onUpdate(tokenId, (book) => {
+      void matchResting(tokenId, book).catch((e) => console.error("Paper matching error:", e));
+    });
+    watchers.set(tokenId, () => {
+      off();
+      releaseBook();
+    });
+  }
+
+  for (const order of account.openOrders) {
+    if (!account.enabled || order.expiresAt === undefined || expiryTimers.has(order.orderId)) continue;
+    expiryTimers.set(order.orderId, setTimeout(() => {
+      expiryTimers.delete(order.orderId);
+      if (removeOrder(order.orderId)) commit();
+    }, Math.max(0, order.expiresAt - Date.now())));
+  }
+  if (!account.enabled) {
+    for (const timer of expiryTimers.values()) clearTimeout(timer);
+    expiryTimers.clear();
+  }
+}
+
+// ─── cancellation ───────────────────────────────────────────────────────────
+
+export function cancelPaperOrder(orderId: string): boolean {
+  ensureLoaded();
+  const removed = removeOrder(orderId);
+  if (removed) commit();
+  return removed !== undefined;
+}
+
+/** Cancel every resting order, or those for the given token ids. Returns the ids cancelled. */
+export function cancelPaperOrders(tokenIds?: string[]): string[] {
+  ensureLoaded();
+  const ids = account.openOrders
+    .filter((o) => !tokenIds || tokenIds.includes(o.tokenId))
+    .map((o) => o.orderId);
+  ids.forEach(removeOrder);
+  if (ids.length > 0) commit();
+  return ids;
+}
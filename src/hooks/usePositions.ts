@@ -3,18 +3,46 @@
  */
 
 import { createStore, produce } from "solid-js/store";
-import { Position, PositionAnalytics, SectorAllocation } from "../types/positions";
+import { Position, PositionAnalytics, PortfolioSummary, SectorAllocation } from "../types/positions";
 import { fetchPositions, calculatePortfolioSummary as calcSummary } from "../api/positions";
+import { listWalletAccounts } from "../auth/wallet";
 import { walletState } from "../state";
+import { isPaperTrading, onPaperChange, paperPositions } from "./usePaperTrading";
 
 export type PositionTag = "long" | "short" | "neutral";
 
+/** One saved wallet account's positions, for the all-accounts view. */
+export interface AccountPortfolio {
+  name: string;
+  address: string;
+  watchOnly: boolean;
+  active: boolean;
+  positions: Position[];
+  summary: PortfolioSummary;
+  error: string | null;
+}
+
+/** A position summed over every account that holds the outcome. */
+export interface CombinedPosition {
+  asset: string;
+  title: string;
+  outcome: string;
+  size: number;
+  currentValue: number;
+  cashPnl: number;
+  curPrice: number;
+  accounts: string[];
+}
+
 interface PositionsState {
   positions: Position[];
   positionsAnalytics: PositionAnalytics;
   loading: boolean;
   error: string | null;
   lastFetch: Date | null;
+  allAccounts: boolean;            // portfolio shows every saved account
+  accountPortfolios: AccountPortfolio[];
+  allAccountsLoading: boolean;
 }
 
 export const [positionsState, setPositionsState] = createStore<PositionsState>({
@@ -36,6 +64,9 @@ export const [positionsState, setPositionsState] = createStore<PositionsState>({
   loading: false,
   error: null,
   lastFetch: null,
+  allAccounts: false,
+  accountPortfolios: [],
+  allAccountsLoading: false,
 });
 
 function inferSector(title: string): string {
@@ -147,21 +178,28 @@ function calculatePositionsAnalytics(positions: Position[]): PositionAnalytics {
   };
 }
 
+function setPositions(positions: Position[]): void {
+  const analytics = calculatePositionsAnalytics(positions);
+  setPositionsState(produce((state) => {
+    state.positions = positions;
+    state.positionsAnalytics = analytics;
+    state.lastFetch = new Date();
+  }));
+}
+
 export async function fetchUserPositions(): Promise<void> {
+  // Paper positions are marked locally and need no wallet
+  if (isPaperTrading()) {
+    setPositions(paperPositions());
+    return;
+  }
   if (!walletState.connected || !walletState.address) return;
 
   setPositionsState("loading", true);
   setPositionsState("error", null);
 
   try {
-    const positions = await fetchPositions(walletState.address);
-    const analytics = calculatePositionsAnalytics(positions);
-    
-    setPositionsState(produce((state) => {
-      state.positions = positions;
-      state.positionsAnalytics = analytics;
-      state.lastFetch = new Date();
-    }));
+    setPositions(await fetchPositions(walletState.funderAddress ?? walletState.address));
   } catch (err) {
     setPositionsState("error", err instanceof Error ? err.message : "Failed to fetch positions");
   } finally {
@@ -170,3 +208,74 @@ export async function fetchUserPositions(): Promise<void> {
 }
 
 export const refreshPositions = fetchUserPositions;
+
+/**
+ * Fetch positions for every saved account, watch-only ones included. Paper
+ * trading doesn't apply: these are the accounts' real holdings.
+ */
+export async function fetchAllAccountPositions(): Promise<void> {
+  const accounts = listWalletAccounts();
+  setPositionsState("allAccountsLoading", true);
+
+  const portfolios = await Promise.all(
+    accounts.map(async (account): Promise<AccountPortfolio> => {
+      try {
+        const positions = await fetchPositions(account.address);
+        return { ...account, positions, summary: calcSummary(positions), error: null };
+      } catch (err) {
+        return {
+          ...account,
+          positions: [],
+          summary: calcSummary([]),
+          error: err instanceof Error ? err.message : "Failed to fetch positions",
+        };
+      }
+    })
+  );
+
+  setPositionsState(produce((state) => {
+    state.accountPortfolios = portfolios;
+    state.allAccountsLoading = false;
+    state.lastFetch = new Date();
+  }));
+}
+
+export function toggleAllAccountsView(): void {
+  const next = !positionsState.allAccounts;
+  setPositionsState("allAccounts", next);
+  if (next) void fetchAllAccountPositions();
+}
+
+/** Positions of all accounts merged by outcome token, largest exposure first. */
+export function combineAccountPositions(portfolios: AccountPortfolio[]): CombinedPosition[] {
+  const byAsset = new Map<string, CombinedPosition>();
+  for (const portfolio of portfolios) {
+    for (const p of portfolio.positions) {
+      const existing = byAsset.get(p.asset);
+      if (existing) {
+        existing.size += p.size;
+        existing.currentValue += p.currentValue;
+        existing.cashPnl += p.cashPnl;
+        if (!existing.accounts.includes(portfolio.name)) existing.accounts.push(portfolio.name);
+      } else {
+        byAsset.set(p.asset, {
+          asset: p.asset,
+          title: p.title,
+          outcome: p.outcome,
+          size: p.size,
+          currentValue: p.currentValue,
+          cashPnl: p.cashPnl,
+          curPrice: p.curPrice,
+          accounts: [portfolio.name],
+        });
+      }
+    }
+  }
+  return [...byAsset.values()].sort((a, b) => b.currentValue - a.currentValue);
+}
+
+onPaperChange(() => {
+  // Leaving paper mode without a wallet leaves nothing to show
+  if (!isPaperTrading() && !walletState.connected) setPositions([]);
+  else void fetchUserPositions();
+});
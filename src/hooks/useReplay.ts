@@ -0,0 +1,187 @@
+/**
+ * Offline replay — feeds a recorded capture through the same paths live data
+ * takes (setMarkets, the market-data bus, the user-channel handlers), so the
+ * market list, alerts, order books and charts behave as they did at capture time.
+ */
+
+import { createStore } from "solid-js/store";
+import { onCleanup } from "solid-js";
+import { getReplayConfig, loadRecording, RecordedEvent } from "../api/recording";
+import { getMarketDataBus } from "../api/websocket";
+import { parseClobMessages, parseUserMessages } from "../api/ws";
+import { setMarkets, setError } from "../state";
+import { Market, PriceHistory, PricePoint, Timeframe } from "../types/market";
+import { evaluateAlerts } from "./useAlerts";
+import { applyUserOrderEvent, applyUserTradeEvent } from "./useOrders";
+
+interface ReplayState {
+  active: boolean;
+  file: string;
+  speed: number;
+  total: number;
+  played: number;
+  clock: number | null;   // capture time of the last replayed event
+  finished: boolean;
+}
+
+export const [replayState, setReplayState] = createStore<ReplayState>({
+  active: false,
+  file: "",
+  speed: 1,
+  total: 0,
+  played: 0,
+  clock: null,
+  finished: false,
+});
+
+// Longest real-time pause between two events, so capture gaps don't stall replay
+const MAX_GAP_MS = 5_000;
+const MAX_POINTS_PER_TOKEN = 5_000;
+
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  "1h": 3_600_000,
+  "4h": 4 * 3_600_000,
+  "1d": 86_400_000,
+  "5d": 5 * 86_400_000,
+  "1w": 7 * 86_400_000,
+  "1M": 30 * 86_400_000,
+  "all": Number.POSITIVE_INFINITY,
+};
+
+// Per-token tick history built from the replayed stream, served to charts
+const replayHistory = new Map<string, PricePoint[]>();
+const marketFirstToken = new Map<string, string>();
+
+function pushPoint(tokenId: string, timestamp: number, price: number): void {
+  const points = replayHistory.get(tokenId) ?? [];
+  const last = points[points.length - 1];
+  if (last && last.price === price) return;
+  points.push({ timestamp, price, outcomeId: tokenId });
+  if (points.length > MAX_POINTS_PER_TOKEN) points.shift();
+  replayHistory.set(tokenId, points);
+}
+
+/** Chart data for a market's first outcome, as of the current replay clock. */
+export function getReplayPriceHistory(marketId: string, timeframe: Timeframe): PriceHistory | null {
+  const tokenId = marketFirstToken.get(marketId);
+  if (!tokenId) return null;
+  const clock = replayState.clock ?? Date.now();
+  const since = clock - TIMEFRAME_MS[timeframe];
+  const data = (replayHistory.get(tokenId) ?? []).filter((p) => p.timestamp >= since);
+  return { marketId, outcomeId: tokenId, data, timeframe };
+}
+
+function reviveMarkets(data: unknown): Market[] {
+  if (!Array.isArray(data)) return [];
+  return (data as Market[]).map((m) => ({
+    ...m,
+    resolutionDate: m.resolutionDate ? new Date(m.resolutionDate) : undefined,
+  }));
+}
+
+function dispatch(event: RecordedEvent): void {
+  if (event.kind === "rest_markets") {
+    const markets = reviveMarkets(event.data);
+    for (const market of markets) {
+      const first = market.outcomes[0];
+      if (!first) continue;
+      marketFirstToken.set(market.id, first.id);
+      for (const outcome of market.outcomes) pushPoint(outcome.id, event.t, outcome.price);
+    }
+    setMarkets(markets);
+    evaluateAlerts(markets);
+    return;
+  }
+
+  if (event.kind === "ws_market" && typeof event.data === "string") {
+    const bus = getMarketDataBus();
+    bus.ingest(event.data);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    for (const assetId of new Set(parseClobMessages(raw).map((m) => m.assetId))) {
+      const price = bus.getQuote(assetId)?.price;
+      if (price !== undefined) pushPoint(assetId, event.t, price);
+    }
+    return;
+  }
+
+  if (event.kind === "ws_user") {
+    const { apiKey, frame } = (event.data ?? {}) as { apiKey?: string; frame?: string };
+    if (typeof frame !== "string") return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(frame);
+    } catch {
+      return;
+    }
+    for (const msg of parseUserMessages(raw)) {
+      if (msg.type === "order") applyUserOrderEvent(msg);
+      else applyUserTradeEvent(msg, apiKey ?? "");
+    }
+  }
+}
+
+/**
+ * Start replaying the file given on the command line. Events are spaced by
+ * their original capture gaps divided by the speed. Call inside a reactive
+ * owner (AppContent).
+ */
+export function startReplay(): void {
+  const config = getReplayConfig();
+  if (!config) return;
+
+  let events: RecordedEvent[];
+  try {
+    events = loadRecording(config.file);
+  } catch (e) {
+    setError(`Failed to load recording: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+
+  setReplayState({
+    active: true,
+    file: config.file,
+    speed: config.speed,
+    total: events.length,
+    played: 0,
+    clock: events[0]?.t ?? null,
+    finished: events.length === 0,
+  });
+
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const step = () => {
+    timer = null;
+    const event = events[index];
+    if (!event) {
+      setReplayState("finished", true);
+      return;
+    }
+    try {
+      dispatch(event);
+    } catch (err) {
+      console.error("Replay dispatch error:", err);
+    }
+    index++;
+    setReplayState({ played: index, clock: event.t });
+
+    const next = events[index];
+    if (!next) {
+      setReplayState("finished", true);
+      return;
+    }
+    const delay = Math.min(Math.max(0, next.t - event.t), MAX_GAP_MS * config.speed) / config.speed;
+    timer = setTimeout(step, delay);
+  };
+
+  timer = setTimeout(step, 0);
+
+  onCleanup(() => {
+    if (timer) clearTimeout(timer);
+  });
+}
@@ -0,0 +1,315 @@
+/**
+ * Automation rules management — rules.json CRUD, dry-run, scheduler execution tail
+ */
+
+import { createStore } from "solid-js/store";
+import {
+  TradingRule,
+  TriggerType,
+  ActionType,
+  ExecutionLogEntry,
+  PriceSample,
+  loadRules,
+  saveEditedRules,
+  createRule,
+  checkAllRules,
+  executeAction,
+  findActionMarket,
+  recordPriceSamples,
+  loadExecutionLog,
+} from "../automation/rules";
+import { checkConditionRules, explainEvaluation } from "../automation/conditions";
+import {
+  getScheduler,
+  loadSchedulerConfig,
+  toMarketData,
+  toPositionData,
+} from "../automation/scheduler";
+import { appState } from "../state";
+import { positionsState } from "./usePositions";
+import { Market } from "../types/market";
+
+export type RuleFormField = "name" | "outcome" | "trigger" | "value" | "action" | "amount" | "cap";
+
+export const RULE_TRIGGER_TYPES: TriggerType[] = ["price_above", "price_below", "percent_change", "volume_spike", "time"];
+export const RULE_ACTION_TYPES: ActionType[] = ["buy", "sell", "close_position", "alert", "notify"];
+export const RULE_FORM_FIELDS: RuleFormField[] = ["name", "outcome", "trigger", "value", "action", "amount", "cap"];
+
+interface RulesState {
+  rules: TradingRule[];
+  panelOpen: boolean;
+  selectedIdx: number;
+  // edit-form sub-state (driven from app.tsx keyboard handler)
+  editing: boolean;
+  editRuleId: string | null;
+  formMarketId: string;
+  formMarketTitle: string;
+  formOutcomes: string[];
+  formName: string;
+  formOutcome: string;
+  formTrigger: TriggerType;
+  formValue: string;
+  formAction: ActionType;
+  formAmount: string;
+  formCap: string;
+  formFocus: RuleFormField;
+  formError: string;
+  // dry-run + execution tail
+  dryRunLines: string[];
+  executions: ExecutionLogEntry[];
+}
+
+export const [rulesState, setRulesState] = createStore<RulesState>({
+  rules: [],
+  panelOpen: false,
+  selectedIdx: 0,
+  editing: false,
+  editRuleId: null,
+  formMarketId: "",
+  formMarketTitle: "",
+  formOutcomes: [],
+  formName: "",
+  formOutcome: "Yes",
+  formTrigger: "price_above",
+  formValue: "",
+  formAction: "alert",
+  formAmount: "",
+  formCap: "",
+  formFocus: "name",
+  formError: "",
+  dryRunLines: [],
+  executions: [],
+});
+
+const dryRunPriceHistory = new Map<string, PriceSample[]>();
+const dryRunStreaks = new Map<string, number>();
+
+// ─── persistence ────────────────────────────────────────────────────────────
+
+export function loadRulesState(): void {
+  setRulesState("rules", loadRules());
+  refreshExecutions();
+}
+
+function persist(edited: TradingRule[], removedIds: string[] = []): void {
+  setRulesState("rules", saveEditedRules(edited, removedIds));
+}
+
+export function refreshExecutions(limit: number = 50): void {
+  setRulesState("executions", loadExecutionLog(limit).reverse());
+}
+
+export function getSelectedRule(): TradingRule | undefined {
+  return rulesState.rules[rulesState.selectedIdx];
+}
+
+function attachToScheduler(rule: TradingRule): void {
+  const scheduler = getScheduler(loadSchedulerConfig());
+  const tasks = scheduler.loadTasks();
+  if (tasks.length > 0) {
+    scheduler.addRuleToTask(tasks[0].id, rule);
+  } else {
+    scheduler.createTask("default", undefined, [rule]);
+  }
+}
+
+function detachFromScheduler(ruleId: string): void {
+  const scheduler = getScheduler(loadSchedulerConfig());
+  for (const task of scheduler.loadTasks()) {
+    if (task.rules.some((r) => r.id === ruleId)) {
+      scheduler.removeRuleFromTask(task.id, ruleId);
+    }
+  }
+}
+
+// ─── CRUD ────────────────────────────────────────────────────────────────────
+
+export function addRule(rule: TradingRule): void {
+  persist([rule]);
+  attachToScheduler(rule);
+}
+
+export function toggleRuleEnabled(ruleId: string): void {
+  const rule = rulesState.rules.find((r) => r.id === ruleId);
+  if (rule) persist([{ ...rule, enabled: !rule.enabled }]);
+}
+
+export function deleteRule(ruleId: string): void {
+  persist([], [ruleId]);
+  detachFromScheduler(ruleId);
+  setRulesState("selectedIdx", (idx) => Math.max(0, Math.min(idx, rulesState.rules.length - 1)));
+}
+
+export function startNewRule(market: Market | undefined): void {
+  const outcomes = market?.outcomes.map((o) => o.title) ?? [];
+  setRulesState({
+    editing: true,
+    editRuleId: null,
+    formMarketId: market?.id ?? "",
+    formMarketTitle: market?.title ?? "",
+    formOutcomes: outcomes,
+    formName: market ? `${market.title.slice(0, 24)} rule` : "New rule",
+    formOutcome: outcomes[0] ?? "Yes",
+    formTrigger: "price_above",
+    formValue: "",
+    formAction: "alert",
+    formAmount: "",
+    formCap: "",
+    formFocus: "name",
+    formError: "",
+  });
+}
+
+export function startEditRule(rule: TradingRule): void {
+  if (rule.condition) {
+    setRulesState("formError", "Composite conditions must be edited in rules.json");
+    return;
+  }
+
+  const market = appState.markets.find((m) => m.id === rule.trigger.marketId);
+  const outcomes = market?.outcomes.map((o) => o.title) ?? (rule.trigger.outcome ? [rule.trigger.outcome] : []);
+  const minutes = rule.trigger.type === "time" ? String((rule.trigger.windowSeconds ?? 0) / 60) : String(rule.trigger.value);
+
+  setRulesState({
+    editing: true,
+    editRuleId: rule.id,
+    formMarketId: rule.trigger.marketId ?? "",
+    formMarketTitle: market?.title ?? rule.trigger.marketId ?? "",
+    formOutcomes: outcomes,
+    formName: rule.name,
+    formOutcome: rule.trigger.outcome ?? outcomes[0] ?? "Yes",
+    formTrigger: rule.trigger.type,
+    formValue: minutes,
+    formAction: rule.action.type,
+    formAmount: rule.action.amount !== undefined ? String(rule.action.amount) : rule.action.percentage !== undefined ? `${rule.action.percentage}%` : "",
+    formCap: rule.maxNotional !== undefined ? String(rule.maxNotional) : "",
+    formFocus: "name",
+    formError: "",
+  });
+}
+
+export function cancelRuleEdit(): void {
+  setRulesState({ editing: false, editRuleId: null, formError: "" });
+}
+
+export function cycleRuleFormOption(delta: number): void {
+  const cycle = <T,>(values: T[], current: T): T => {
+    if (values.length === 0) return current;
+    const idx = values.indexOf(current);
+    return values[(idx + delta + values.length) % values.length];
+  };
+
+  switch (rulesState.formFocus) {
+    case "outcome":
+      setRulesState("formOutcome", cycle(rulesState.formOutcomes, rulesState.formOutcome));
+      break;
+    case "trigger":
+      setRulesState("formTrigger", cycle(RULE_TRIGGER_TYPES, rulesState.formTrigger));
+      break;
+    case "action":
+      setRulesState("formAction", cycle(RULE_ACTION_TYPES, rulesState.formAction));
+      break;
+  }
+}
+
+export function editRuleFormText(input: string | null): void {
+  const field = rulesState.formFocus;
+  const key = ({
+    name: "formName",
+    value: "formValue",
+    amount: "formAmount",
+    cap: "formCap",
+  } as const)[field as "name" | "value" | "amount" | "cap"];
+  if (!key) return;
+
+  if (input === null) {
+    setRulesState(key, (prev) => prev.slice(0, -1));
+  } else {
+    setRulesState(key, (prev) => (prev + input).slice(0, 48));
+  }
+}
+
+export function saveRuleForm(): boolean {
+  const name = rulesState.formName.trim();
+  const value = Number.parseFloat(rulesState.formValue);
+  const isOrder = rulesState.formAction === "buy" || rulesState.formAction === "sell";
+  const amountText = rulesState.formAmount.trim();
+  const isPercent = amountText.endsWith("%");
+  const amount = Number.parseFloat(isPercent ? amountText.slice(0, -1) : amountText);
+  const cap = rulesState.formCap.trim() ? Number.parseFloat(rulesState.formCap) : undefined;
+
+  const error =
+    !name ? "Name is required"
+    : rulesState.formTrigger !== "time" && !rulesState.formMarketId ? "Select a market before creating a rule"
+    : !Number.isFinite(value) ? "Trigger value must be a number"
+    : (rulesState.formTrigger === "price_above" || rulesState.formTrigger === "price_below") && (value <= 0 || value >= 1)
+      ? "Price trigger must be between 0 and 1"
+    : rulesState.formTrigger === "time" && value <= 0 ? "Time trigger needs a repeat interval in minutes"
+    : isOrder && !(amount > 0) ? "Order actions need a USDC amount (or % of position for sell)"
+    : isOrder && isPercent && rulesState.formAction === "buy" ? "Buy amount must be in USDC"
+    : cap !== undefined && !(cap > 0) ? "Max notional must be greater than 0"
+    : null;
+
+  if (error) {
+    setRulesState("formError", error);
+    return false;
+  }
+
+  const now = Date.now();
+  const trigger = rulesState.formTrigger === "time"
+    ? { type: "time" as const, value: now, windowSeconds: Math.round(value * 60) }
+    : { type: rulesState.formTrigger, marketId: rulesState.formMarketId, outcome: rulesState.formOutcome, value };
+  const action = {
+    type: rulesState.formAction,
+    marketId: rulesState.formMarketId || undefined,
+    outcome: rulesState.formOutcome,
+    ...(Number.isFinite(amount) ? (isPercent ? { percentage: amount } : { amount }) : {}),
+    ...(rulesState.formAction === "alert" || rulesState.formAction === "notify" ? { message: name } : {}),
+  };
+
+  if (rulesState.editRuleId) {
+    const id = rulesState.editRuleId;
+    const rule = rulesState.rules.find((r) => r.id === id);
+    if (rule) persist([{ ...rule, name, trigger, action, maxNotional: cap }]);
+  } else {
+    const rule = { ...createRule(name, trigger, action), ...(cap !== undefined ? { maxNotional: cap } : {}) };
+    addRule(rule);
+    setRulesState("selectedIdx", rulesState.rules.length - 1);
+  }
+
+  cancelRuleEdit();
+  return true;
+}
+
+// ─── dry run ─────────────────────────────────────────────────────────────────
+
+export async function dryRunRule(rule: TradingRule): Promise<void> {
+  const markets = appState.markets.map(toMarketData);
+  const positions = positionsState.positions.map(toPositionData);
+  const portfolioValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  const now = Date.now();
+  const probe = { ...rule, enabled: true };
+
+  const lines: string[] = [`Dry run: ${rule.name}`];
+  let triggered: boolean;
+
+  if (probe.condition) {
+    const [result] = checkConditionRules([probe], markets, dryRunPriceHistory, dryRunStreaks, now);
+    triggered = result?.evaluation.passed ?? false;
+    if (result) lines.push(...explainEvaluation(result.evaluation));
+  } else {
+    triggered = checkAllRules([probe], markets, positions, dryRunPriceHistory, now).length > 0;
+    lines.push(`${triggered ? "✓" : "✗"} trigger ${rule.trigger.type} ${rule.trigger.value}`);
+  }
+  recordPriceSamples(dryRunPriceHistory, markets, now);
+
+  const market = findActionMarket(markets, rule);
+  const result = await executeAction(
+    rule.action,
+    { market, positions, portfolioValue },
+    { mode: "dry_run", maxNotional: rule.maxNotional },
+  );
+  lines.push(`${triggered ? "Would execute" : "Not triggered; action preview"}: ${result.success ? "" : "✗ "}${result.message}`);
+
+  setRulesState("dryRunLines", lines);
+}
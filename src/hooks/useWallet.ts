@@ -8,14 +8,40 @@ import {
   disconnectWallet,
   fetchUsdcBalance,
   fetchOrCreateApiCredentials,
+  getFunderAddress,
+  getSignatureType,
   truncateAddress,
+  unlockWallet,
+  lockWallet,
+  encryptWallet,
+  exportKeystore,
+  importKeystore,
+  isWalletEncrypted,
+  onWalletLockChange,
+  getAutoLockMinutes,
+  setAutoLockMinutes,
+  listWalletAccounts,
+  switchWalletAccount,
+  addWatchOnlyAccount,
+  ApiCredentials,
+  WalletConfig,
+  WalletProfile,
   InvalidPrivateKeyError,
   NetworkError,
   ConnectionTimeoutError,
   WalletError,
 } from "../auth/wallet";
-import { setWalletState, walletState } from "../state";
-import { fetchUserPositions } from "./usePositions";
+import {
+  setWalletState,
+  walletState,
+  setWalletModalOpen,
+  setWalletModalMode,
+  setWalletModalInput,
+  setWalletModalPurpose,
+  setWalletModalNotice,
+  setWalletModalAccountIdx,
+} from "../state";
+import { fetchUserPositions, fetchAllAccountPositions, positionsState } from "./usePositions";
 
 /**
  * Formats error for display in TUI
@@ -48,30 +74,101 @@ function formatWalletError(err: unknown): string {
   return "An unexpected error occurred";
 }
 
+function setWalletAccount(config: WalletConfig): void {
+  setWalletState("address", config.address);
+  const accounts = listWalletAccounts();
+  setWalletState("accountName", config.name);
+  setWalletState("accounts", accounts);
+  setWalletModalAccountIdx(Math.max(0, accounts.findIndex((a) => a.active)));
+  setWalletState("watchOnly", config.watchOnly === true);
+  setWalletState("funderAddress", getFunderAddress(config));
+  setWalletState("signatureType", getSignatureType(config));
+  setWalletState("encrypted", config.encrypted !== undefined);
+  setWalletState("locked", config.encrypted !== undefined && !config.privateKey);
+  setWalletState("autoLockMinutes", getAutoLockMinutes());
+  setWalletState("connected", true);
+}
+
+function clearWalletAccount(): void {
+  setWalletState("address", null);
+  setWalletState("accountName", undefined);
+  setWalletState("accounts", listWalletAccounts());
+  setWalletState("watchOnly", undefined);
+  setWalletState("funderAddress", undefined);
+  setWalletState("signatureType", undefined);
+  setWalletState("encrypted", undefined);
+  setWalletState("locked", undefined);
+  setWalletState("connected", false);
+  setWalletState("balance", 0);
+  setApiCredentials(null);
+}
+
+const accountListeners = new Set<() => void>();
+
+/**
+ * Subscribe to the active account changing (switch, connect, removal) so
+ * per-account state — orders, alerts — can reload.
+ */
+export function onWalletAccountChange(listener: () => void): () => void {
+  accountListeners.add(listener);
+  return () => accountListeners.delete(listener);
+}
+
+function notifyAccountChange(): void {
+  for (const listener of accountListeners) listener();
+}
+
+function setApiCredentials(creds: ApiCredentials | null): void {
+  setWalletState("apiKey", creds?.apiKey);
+  setWalletState("apiSecret", creds?.apiSecret);
+  setWalletState("apiPassphrase", creds?.apiPassphrase);
+}
+
+// Auto-lock fires from a timer; drop the decrypted API secrets with the key
+onWalletLockChange((locked) => {
+  setWalletState("locked", locked && isWalletEncrypted());
+  if (locked) {
+    setWalletState("apiSecret", undefined);
+    setWalletState("apiPassphrase", undefined);
+  }
+});
+
+let afterUnlock: (() => void) | null = null;
+
+/**
+ * Open the wallet modal at the passphrase prompt; `then` runs once the
+ * wallet is unlocked (e.g. to reopen the order that needed it)
+ */
+export function requestWalletUnlock(then?: () => void): void {
+  afterUnlock = then ?? null;
+  setWalletModalInput("");
+  setWalletModalNotice(null);
+  setWalletModalPurpose("unlock");
+  setWalletModalMode("passphrase");
+  setWalletModalOpen(true);
+}
+
 /**
- * Initialize wallet from persisted config on startup
+ * Initialize wallet from persisted config on startup; an encrypted wallet
+ * asks for its passphrase
  */
 export async function initializeWallet(): Promise<void> {
   const config = loadWalletConfig();
-  if (!config?.address || !config?.privateKey) return;
+  if (!config?.address) return;
 
-  setWalletState("address", config.address);
-  setWalletState("connected", true);
+  setWalletAccount(config);
   setWalletState("loading", true);
   setWalletState("error", null);
+  if (config.encrypted && !config.privateKey) requestWalletUnlock();
 
   try {
     const [balance, creds] = await Promise.all([
-      fetchUsdcBalance(config.address),
-      fetchOrCreateApiCredentials(config.privateKey as `0x${string}`),
+      fetchUsdcBalance(getFunderAddress(config)),
+      config.privateKey ? fetchOrCreateApiCredentials(config.privateKey as `0x${string}`) : null,
     ]);
 
     setWalletState("balance", balance);
-    if (creds) {
-      setWalletState("apiKey", creds.apiKey);
-      setWalletState("apiSecret", creds.apiSecret);
-      setWalletState("apiPassphrase", creds.apiPassphrase);
-    }
+    if (creds) setApiCredentials(creds);
   } catch (err) {
     const errorMessage = formatWalletError(err);
     setWalletState("error", errorMessage);
@@ -83,62 +180,174 @@ export async function initializeWallet(): Promise<void> {
   fetchUserPositions();
 }
 
+/** Show the active account's balance, API credentials and positions. */
+async function loadActiveAccount(config: WalletConfig): Promise<void> {
+  setWalletAccount(config);
+  setApiCredentials(null);
+  setWalletState("balance", 0);
+  const [balance, creds] = await Promise.all([
+    fetchUsdcBalance(getFunderAddress(config)),
+    config.privateKey ? fetchOrCreateApiCredentials(config.privateKey as `0x${string}`) : null,
+  ]);
+
+  setWalletState("balance", balance);
+  if (creds) setApiCredentials(creds);
+  fetchUserPositions();
+  if (positionsState.allAccounts) void fetchAllAccountPositions();
+}
+
+async function finishConnect(connect: () => Promise<WalletConfig> | WalletConfig): Promise<void> {
+  setWalletState("loading", true);
+  setWalletState("error", null);
+
+  try {
+    const config = await connect();
+    notifyAccountChange();
+    await loadActiveAccount(config);
+  } catch (err) {
+    const errorMessage = formatWalletError(err);
+    setWalletState("error", errorMessage);
+    // The previously active account, if any, is still saved
+    const active = loadWalletConfig();
+    if (active) setWalletAccount(active);
+    else clearWalletAccount();
+    console.error("Wallet connection error:", err);
+  } finally {
+    setWalletState("loading", false);
+  }
+}
+
 /**
- * Connect wallet from a private key string (entered by user in TUI)
+ * Connect wallet from a private key string (entered by user in TUI); proxy
+ * and Safe accounts pass the funder address in `profile`, and a passphrase
+ * stores the key encrypted
  */
-export async function connectWallet(privateKey: string): Promise<void> {
+export async function connectWallet(
+  privateKey: string,
+  profile?: WalletProfile,
+  passphrase?: string,
+  name?: string,
+): Promise<void> {
+  await finishConnect(() => connectFromPrivateKey(privateKey, profile, passphrase, name));
+}
+
+/**
+ * Connect from an Ethereum v3 keystore file
+ */
+export async function importWalletKeystore(
+  path: string,
+  passphrase: string,
+  profile?: WalletProfile,
+  name?: string,
+): Promise<void> {
+  await finishConnect(() => importKeystore(path, passphrase, profile, name));
+}
+
+/**
+ * Add an address to monitor (positions, P&L) without its key
+ */
+export async function addWatchOnlyWallet(address: string, name?: string): Promise<void> {
+  await finishConnect(() => addWatchOnlyAccount(address, name));
+}
+
+/**
+ * Make another saved account active and reload everything scoped to it
+ */
+export async function switchAccount(name: string): Promise<void> {
+  if (name === walletState.accountName) return;
+  await finishConnect(() => switchWalletAccount(name));
+}
+
+/**
+ * Unlock the encrypted wallet and load its API credentials
+ */
+export async function unlockWalletHook(passphrase: string): Promise<boolean> {
   setWalletState("loading", true);
   setWalletState("error", null);
 
   try {
-    const config = connectFromPrivateKey(privateKey);
-    setWalletState("address", config.address);
-    setWalletState("connected", true);
+    const config = await unlockWallet(passphrase);
+    setApiCredentials(await fetchOrCreateApiCredentials(config.privateKey as `0x${string}`));
+    const then = afterUnlock;
+    afterUnlock = null;
+    then?.();
+    return true;
+  } catch (err) {
+    setWalletState("error", formatWalletError(err));
+    return false;
+  } finally {
+    setWalletState("loading", false);
+  }
+}
 
-    const [balance, creds] = await Promise.all([
-      fetchUsdcBalance(config.address),
-      fetchOrCreateApiCredentials(config.privateKey as `0x${string}`),
-    ]);
+export function lockWalletHook(): void {
+  lockWallet();
+}
 
-    setWalletState("balance", balance);
-    if (creds) {
-      setWalletState("apiKey", creds.apiKey);
-      setWalletState("apiSecret", creds.apiSecret);
-      setWalletState("apiPassphrase", creds.apiPassphrase);
-    }
-    fetchUserPositions();
+/**
+ * Move a plaintext wallet into an encrypted keystore
+ */
+export async function encryptWalletHook(passphrase: string): Promise<void> {
+  setWalletState("loading", true);
+  setWalletState("error", null);
+
+  try {
+    await encryptWallet(passphrase);
+    setWalletState("encrypted", true);
+    setWalletState("locked", false);
+    setWalletModalNotice("Key encrypted — wallet.json no longer holds it in plaintext.");
   } catch (err) {
-    const errorMessage = formatWalletError(err);
-    setWalletState("error", errorMessage);
-    setWalletState("connected", false);
-    setWalletState("address", null);
-    console.error("Wallet connection error:", err);
+    setWalletState("error", formatWalletError(err));
+  } finally {
+    setWalletState("loading", false);
+  }
+}
+
+export async function exportWalletKeystore(passphrase: string): Promise<void> {
+  setWalletState("loading", true);
+  setWalletState("error", null);
+
+  try {
+    setWalletModalNotice(`Keystore written to ${await exportKeystore(passphrase)}`);
+  } catch (err) {
+    setWalletState("error", formatWalletError(err));
   } finally {
     setWalletState("loading", false);
   }
 }
 
+const AUTO_LOCK_STEPS = [5, 15, 30, 60, 0];
+
+export function cycleAutoLock(): void {
+  const current = AUTO_LOCK_STEPS.indexOf(getAutoLockMinutes());
+  const next = AUTO_LOCK_STEPS[(current + 1) % AUTO_LOCK_STEPS.length];
+  setAutoLockMinutes(next);
+  setWalletState("autoLockMinutes", next);
+}
+
 /**
- * Disconnect wallet and clear state
+ * Remove the active account; the next saved account, if any, takes over
  */
 export function disconnectWalletHook(): void {
   disconnectWallet();
-  setWalletState("address", null);
-  setWalletState("connected", false);
-  setWalletState("balance", 0);
-  setWalletState("apiKey", undefined);
-  setWalletState("apiSecret", undefined);
-  setWalletState("apiPassphrase", undefined);
   setWalletState("error", null);
+  const next = loadWalletConfig();
+  if (next) {
+    void finishConnect(() => next);
+  } else {
+    clearWalletAccount();
+    notifyAccountChange();
+  }
 }
 
 /**
  * Refresh balance for currently connected wallet
  */
 export async function refreshWalletBalance(): Promise<void> {
-  if (!walletState.address) return;
+  const funder = walletState.funderAddress ?? walletState.address;
+  if (!funder) return;
   try {
-    const balance = await fetchUsdcBalance(walletState.address);
+    const balance = await fetchUsdcBalance(funder);
     setWalletState("balance", balance);
   } catch (err) {
     const errorMessage = formatWalletError(err);
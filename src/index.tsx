@@ -1,4 +1,40 @@
+#!/usr/bin/env bun
 import { render } from "@opentui/solid";
+import { parseArgs } from "util";
+import { existsSync } from "fs";
 import { App } from "./app";
+import { configureReplay, parseReplaySpeed, startRecording } from "./api/recording";
+import { isCliCommand, runCli } from "./cli";
+
+// Headless subcommands (markets, book, positions, ...) print and exit
+if (isCliCommand(Bun.argv[2])) {
+  process.exit(await runCli(Bun.argv.slice(2)));
+}
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    record: { type: "boolean", default: false },
+    replay: { type: "string" },
+    speed: { type: "string" },
+  },
+  strict: false,
+  allowPositionals: true,
+});
+
+if (typeof values.replay === "string") {
+  if (!existsSync(values.replay)) {
+    console.error(`Recording not found: ${values.replay}`);
+    process.exit(1);
+  }
+  try {
+    configureReplay({ file: values.replay, speed: parseReplaySpeed(typeof values.speed === "string" ? values.speed : undefined) });
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+} else if (values.record) {
+  startRecording();
+}
 
 await render(() => <App />, { useMouse: true });
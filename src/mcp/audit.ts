@@ -0,0 +1,56 @@
+import { appendFileSync, readFileSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+export type AuditStatus = "ok" | "error" | "confirmation_required" | "unauthorized" | "forbidden";
+
+export interface AuditEntry {
+  timestamp: number;
+  keyName: string;
+  transport: string;
+  sessionId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: AuditStatus;
+  error?: string;
+}
+
+const REDACTED_ARGS = ["confirm", "_apiKey"];
+
+function getAuditLogPath(): string {
+  const dir = join(homedir(), ".polymarket-tui");
+  mkdirSync(dir, { recursive: true });
+  return join(dir, "mcp-audit.jsonl");
+}
+
+function redact(args: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...args };
+  for (const key of REDACTED_ARGS) {
+    if (key in copy) copy[key] = "[redacted]";
+  }
+  return copy;
+}
+
+/** Append-only: entries are never rewritten, only appended as JSON lines. */
+export function appendAuditLog(entry: AuditEntry): void {
+  try {
+    appendFileSync(getAuditLogPath(), JSON.stringify({ ...entry, arguments: redact(entry.arguments) }) + "\n", { mode: 0o600 });
+  } catch (e) {
+    console.error("Failed to write MCP audit log:", e);
+  }
+}
+
+export function loadAuditLog(limit: number = 100): AuditEntry[] {
+  try {
+    const lines = readFileSync(getAuditLogPath(), "utf-8").split("\n").filter(Boolean);
+    return lines.slice(-limit).flatMap((line) => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
@@ -2,8 +2,9 @@ import { MCPServer, type JSONRPCRequest, type JSONRPCResponse } from "./server";
 
 export class MCPClient {
   private requestId = 0;
+  private sessionId: string | null = null;
 
-  constructor(private serverUrl?: string) {}
+  constructor(private serverUrl?: string, private apiKey?: string) {}
 
   async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
     const request: JSONRPCRequest = {
@@ -16,10 +17,16 @@ export class MCPClient {
     if (this.serverUrl) {
       const response = await fetch(this.serverUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
         body: JSON.stringify(request),
       });
-      const jsonRPCResponse: JSONRPCResponse = await response.json();
+      this.sessionId = response.headers.get("mcp-session-id") ?? this.sessionId;
+      const jsonRPCResponse = (await response.json()) as JSONRPCResponse;
       if (jsonRPCResponse.error) {
         throw new Error(jsonRPCResponse.error.message);
       }
@@ -59,8 +66,8 @@ export class MCPClient {
   }
 }
 
-export async function connectToServer(url: string): Promise<MCPClient> {
-  const client = new MCPClient(url);
+export async function connectToServer(url: string, apiKey?: string): Promise<MCPClient> {
+  const client = new MCPClient(url, apiKey);
   await client.request("initialize");
   return client;
 }
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "crypto";
+
+export type ConfirmationMode = "deny" | "confirm" | "auto";
+
+export interface ConfirmationPolicy {
+  mode: ConfirmationMode;
+  maxAutoNotional?: number;                    // "auto" approves at or below this USDC notional, confirms above
+  tokenTtlSeconds?: number;
+  tools?: Record<string, ConfirmationMode>;    // per-tool overrides
+}
+
+export type GateDecision =
+  | { approved: true; via: "auto" | "token" }
+  | { approved: false; denied: true; reason: string }
+  | { approved: false; denied: false; confirm: string; expiresAt: number; reason: string };
+
+interface PendingConfirmation {
+  tool: string;
+  keyName: string;
+  argsHash: string;
+  expiresAt: number;
+}
+
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  mode: "confirm",
+  maxAutoNotional: 0,
+  tokenTtlSeconds: 120,
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashArgs(args: Record<string, unknown>): string {
+  const { confirm: _confirm, ...rest } = args;
+  return createHash("sha256").update(stableStringify(rest)).digest("hex");
+}
+
+/**
+ * Gate for state-changing MCP tools. A call without a valid `confirm` token acts
+ * as the preview: it returns a single-use token bound to the exact arguments and
+ * to the API key that asked for it.
+ */
+export class ConfirmationGate {
+  private pending: Map<string, PendingConfirmation> = new Map();
+  private policy: ConfirmationPolicy;
+
+  constructor(policy: Partial<ConfirmationPolicy> = {}) {
+    this.policy = { ...DEFAULT_CONFIRMATION_POLICY, ...policy };
+  }
+
+  getPolicy(): ConfirmationPolicy {
+    return this.policy;
+  }
+
+  modeFor(tool: string): ConfirmationMode {
+    return this.policy.tools?.[tool] ?? this.policy.mode;
+  }
+
+  check(tool: string, keyName: string, args: Record<string, unknown>, notional: number): GateDecision {
+    this.prune();
+    const mode = this.modeFor(tool);
+
+    if (mode === "deny") {
+      return { approved: false, denied: true, reason: `${tool} is disabled by the MCP confirmation policy` };
+    }
+
+    const argsHash = hashArgs(args);
+    const token = typeof args.confirm === "string" ? args.confirm : undefined;
+    if (token) {
+      const pending = this.pending.get(token);
+      if (pending && pending.tool === tool && pending.keyName === keyName && pending.argsHash === argsHash) {
+        this.pending.delete(token);
+        return { approved: true, via: "token" };
+      }
+      return { approved: false, denied: true, reason: "Confirmation token is invalid, expired, or was issued to another key or for different arguments" };
+    }
+
+    if (mode === "auto" && notional <= (this.policy.maxAutoNotional ?? 0)) {
+      return { approved: true, via: "auto" };
+    }
+
+    const confirm = randomBytes(12).toString("hex");
+    const expiresAt = Date.now() + (this.policy.tokenTtlSeconds ?? 120) * 1000;
+    this.pending.set(confirm, { tool, keyName, argsHash, expiresAt });
+    return {
+      approved: false,
+      denied: false,
+      confirm,
+      expiresAt,
+      reason: mode === "auto"
+        ? `Notional $${notional.toFixed(2)} exceeds auto-approve limit $${(this.policy.maxAutoNotional ?? 0).toFixed(2)}`
+        : "Confirmation required",
+    };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -1,2 +1,16 @@
-export { MCPServer, loadRules, saveRules, type JSONRPCRequest, type JSONRPCResponse, type MCPTool, type MCPHandler } from "./server";
+export {
+  MCPServer,
+  loadRules,
+  saveRules,
+  type JSONRPCRequest,
+  type JSONRPCResponse,
+  type JSONRPCNotification,
+  type MCPTool,
+  type MCPHandler,
+  type MCPPrompt,
+  type MCPResourceTemplate,
+  type MCPSession,
+  type MCPScope,
+  type MCPApiKey,
+} from "./server";
 export { MCPClient, connectToServer } from "./client";
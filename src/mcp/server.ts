@@ -1,6 +1,16 @@
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
+import { createHash, timingSafeEqual } from "crypto";
+import { parseArgs } from "util";
+import { ConfirmationGate, ConfirmationPolicy } from "./confirmation";
+import { registerTradingTools } from "./tools";
+import { appendAuditLog, AuditStatus } from "./audit";
+import { getMarkets, getMarketDetails } from "../api/polymarket";
+import { fetchPositions, calculatePortfolioSummary } from "../api/positions";
+import { getFunderAddress, loadWalletConfig, unlockWalletFromEnv } from "../auth/wallet";
+import { Market } from "../types/market";
+import { PortfolioSummary, Position } from "../types/positions";
 
 export interface MCPTool {
   name: string;
@@ -14,6 +24,30 @@ export interface MCPResource {
   mimeType: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string;   // RFC 6570 level-1 template, e.g. market://{marketId}
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  content: { type: "text"; text: string };
+}
+
 export interface JSONRPCRequest {
   jsonrpc: "2.0";
   id: string | number;
@@ -21,9 +55,15 @@ export interface JSONRPCRequest {
   params?: Record<string, unknown>;
 }
 
+export interface JSONRPCNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
 export interface JSONRPCResponse {
   jsonrpc: "2.0";
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: {
     code: number;
@@ -32,18 +72,104 @@ export interface JSONRPCResponse {
   };
 }
 
-export type MCPHandler = (params: Record<string, unknown>) => Promise<unknown>;
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCNotification | JSONRPCResponse;
+
+export type MCPScope = "read" | "alerts" | "trading";
+
+export interface MCPApiKey {
+  name: string;
+  key?: string;        // plaintext secret
+  keySha256?: string;  // or its hex SHA-256, so mcp.json need not hold the secret
+  scopes: MCPScope[];
+}
+
+export interface MCPCaller {
+  keyName: string;
+  scopes: MCPScope[];
+  transport: "stdio" | "http" | "local";
+}
+
+export interface MCPSession {
+  id: string;
+  keyName?: string;
+  subscriptions: Set<string>;
+  send?: (message: JSONRPCNotification) => void;
+  lastSeen: number;
+}
+
+export type MCPHandler = (params: Record<string, unknown>, caller: MCPCaller) => Promise<unknown>;
+export type MCPPromptBuilder = (args: Record<string, string>) => Promise<{ description?: string; messages: MCPPromptMessage[] }>;
+export type MCPTemplateReader = (vars: Record<string, string>) => Promise<string | null>;
+
+export interface MCPToolOutcome {
+  outcome: string;
+  price: number;
+  tokenId: string;
+}
+
+/** The market shape the native tools and market:// resources serve */
+export interface MCPToolMarket {
+  id: string;
+  question: string;
+  description?: string;
+  category?: string;
+  volume: number;
+  liquidity: number;
+  outcomes: MCPToolOutcome[];
+}
 
 export interface MCPServerConfig {
   port?: number;
-  apiKey?: string;
+  hostname?: string;          // HTTP bind address; defaults to loopback only
+  allowedOrigins?: string[];  // browser Origins accepted on /mcp besides localhost itself
+  apiKey?: string;      // legacy single shared key; treated as a "default" key with every scope
+  keys?: MCPApiKey[];
+  confirmation?: Partial<ConfirmationPolicy>;
+  refreshIntervalSeconds?: number;  // headless snapshot poll, drives resource update notifications
+}
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
+
+// JSON-RPC 2.0 and MCP error codes
+export const JSONRPC_PARSE_ERROR = -32700;
+export const JSONRPC_INVALID_REQUEST = -32600;
+export const JSONRPC_METHOD_NOT_FOUND = -32601;
+export const JSONRPC_INVALID_PARAMS = -32602;
+export const JSONRPC_INTERNAL_ERROR = -32603;
+export const MCP_UNAUTHORIZED = -32001;
+export const MCP_RESOURCE_NOT_FOUND = -32002;
+export const MCP_FORBIDDEN = -32003;
+
+export const ALL_SCOPES: MCPScope[] = ["read", "alerts", "trading"];
+// Unauthenticated HTTP callers when mcp.json has no keys
+export const ANONYMOUS_HTTP_SCOPES: MCPScope[] = ["read"];
+export const DEFAULT_HTTP_HOSTNAME = "127.0.0.1";
+
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+const SSE_KEEPALIVE_MS = 15_000;
+
+function errorResponse(id: string | number | null, code: number, message: string, data?: unknown): JSONRPCResponse {
+  return { jsonrpc: "2.0", id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function templateToRegExp(uriTemplate: string): RegExp {
+  const escaped = uriTemplate.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\{(\w+)\}/g, "(?<$1>[^/]+)")}$`);
 }
 
 export class MCPServer {
   private tools: Map<string, MCPTool> = new Map();
   private handlers: Map<string, MCPHandler> = new Map();
+  private toolScopes: Map<string, MCPScope> = new Map();
   private resources: Map<string, MCPResource> = new Map();
   private resourceReaders: Map<string, () => Promise<string>> = new Map();
+  private templates: Map<string, { template: MCPResourceTemplate; pattern: RegExp; reader: MCPTemplateReader }> = new Map();
+  private prompts: Map<string, { prompt: MCPPrompt; builder: MCPPromptBuilder }> = new Map();
+  private sessions: Map<string, MCPSession> = new Map();
   private config: MCPServerConfig = {};
 
   constructor(private name: string = "polymarket-tui") {}
@@ -52,9 +178,10 @@ export class MCPServer {
     this.config = { ...this.config, ...config };
   }
 
-  registerTool(tool: MCPTool, handler: MCPHandler): void {
+  registerTool(tool: MCPTool, handler: MCPHandler, scope: MCPScope = "read"): void {
     this.tools.set(tool.name, tool);
     this.handlers.set(tool.name, handler);
+    this.toolScopes.set(tool.name, scope);
   }
 
   registerResource(resource: MCPResource, reader: () => Promise<string>): void {
@@ -62,7 +189,47 @@ export class MCPServer {
     this.resourceReaders.set(resource.uri, reader);
   }
 
-  registerNativeTools(getMarkets: () => unknown, getPortfolio: () => unknown, getPositions: () => unknown): void {
+  registerResourceTemplate(template: MCPResourceTemplate, reader: MCPTemplateReader): void {
+    this.templates.set(template.uriTemplate, { template, pattern: templateToRegExp(template.uriTemplate), reader });
+  }
+
+  registerPrompt(prompt: MCPPrompt, builder: MCPPromptBuilder): void {
+    this.prompts.set(prompt.name, { prompt, builder });
+  }
+
+  createSession(send?: (message: JSONRPCNotification) => void, keyName?: string): MCPSession {
+    const session: MCPSession = { id: crypto.randomUUID(), keyName, subscriptions: new Set(), send, lastSeen: Date.now() };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  getSubscribedUris(): Set<string> {
+    const uris = new Set<string>();
+    for (const session of this.sessions.values()) {
+      session.subscriptions.forEach((uri) => uris.add(uri));
+    }
+    return uris;
+  }
+
+  notifyResourceUpdated(uri: string): void {
+    const notification: JSONRPCNotification = { jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } };
+    for (const session of this.sessions.values()) {
+      if (session.subscriptions.has(uri)) session.send?.(notification);
+    }
+  }
+
+  private pruneSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of this.sessions) {
+      if (!session.send && session.lastSeen < cutoff) this.sessions.delete(id);
+    }
+  }
+
+  registerNativeTools(
+    getMarkets: () => MCPToolMarket[],
+    getPortfolio: () => PortfolioSummary,
+    getPositions: () => Position[]
+  ): void {
     this.registerTool(
       {
         name: "get_markets",
@@ -77,10 +244,9 @@ export class MCPServer {
       },
       async (params) => {
         const { limit = 10, category } = params as { limit?: number; category?: string };
-        const markets = getMarkets() as { question: string; volume: number; id: string; outcomes: { outcome: string; price: number }[] }[];
-        let filtered = markets;
+        let filtered = getMarkets();
         if (category) {
-          filtered = filtered.filter((m: any) => m.category === category);
+          filtered = filtered.filter((m) => m.category === category);
         }
         return filtered.slice(0, limit).map((m) => ({
           id: m.id,
@@ -101,8 +267,7 @@ export class MCPServer {
         },
       },
       async () => {
-        const portfolio = getPortfolio() as { totalValue: number; totalCashPnl: number; positionCount: number };
-        return portfolio || { totalValue: 0, totalCashPnl: 0, positionCount: 0 };
+        return getPortfolio();
       }
     );
 
@@ -119,8 +284,7 @@ export class MCPServer {
       },
       async (params) => {
         const { minValue = 0 } = params as { minValue?: number };
-        const positions = getPositions() as { outcome: string; currentValue: number; cashPnl: number }[];
-        return (positions || [])
+        return getPositions()
           .filter((p) => p.currentValue >= minValue)
           .map((p) => ({
             outcome: p.outcome,
@@ -144,12 +308,11 @@ export class MCPServer {
       },
       async (params) => {
         const { query = "", limit = 10 } = params as { query?: string; limit?: number };
-        const markets = getMarkets() as { question: string; id: string }[];
         const q = query.toLowerCase();
-        return markets
-          .filter((m: any) => m.question?.toLowerCase().includes(q))
+        return getMarkets()
+          .filter((m) => m.question.toLowerCase().includes(q))
           .slice(0, limit)
-          .map((m: any) => ({ id: m.id, question: m.question }));
+          .map((m) => ({ id: m.id, question: m.question }));
       }
     );
 
@@ -166,8 +329,7 @@ export class MCPServer {
       },
       async (params) => {
         const { marketId } = params as { marketId: string };
-        const markets = getMarkets() as any[];
-        const market = markets.find((m) => m.id === marketId);
+        const market = getMarkets().find((m) => m.id === marketId);
         if (!market) return { error: "Market not found" };
         return {
           id: market.id,
@@ -189,22 +351,237 @@ export class MCPServer {
       { uri: "positions://current", name: "Current Positions", mimeType: "application/json" },
       async () => JSON.stringify(getPositions(), null, 2)
     );
+
+    this.registerResourceTemplate(
+      { uriTemplate: "market://{marketId}", name: "Market Prices", description: "Live outcome prices for a market", mimeType: "application/json" },
+      async ({ marketId }) => {
+        const market = getMarkets().find((m) => m.id === marketId);
+        if (!market) return null;
+        return JSON.stringify(
+          { id: market.id, question: market.question, volume: market.volume, liquidity: market.liquidity, outcomes: market.outcomes },
+          null,
+          2
+        );
+      }
+    );
+
+    this.registerPrompt(
+      {
+        name: "analyze_market",
+        description: "Analyze a market's pricing, liquidity and outcome odds",
+        arguments: [{ name: "marketId", description: "Market ID", required: true }],
+      },
+      async ({ marketId }) => {
+        const market = getMarkets().find((m) => m.id === marketId);
+        const snapshot = market ? JSON.stringify(market, null, 2) : `Market ${marketId} is not in the current snapshot; call get_market_details first.`;
+        return {
+          description: `Analysis of market ${marketId}`,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Analyze this Polymarket market. Assess whether the outcome prices look mispriced, how deep the liquidity is, and what could move the odds.\n\n${snapshot}`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    this.registerPrompt(
+      {
+        name: "portfolio_review",
+        description: "Review current positions and P&L, and flag concentration risk",
+      },
+      async () => ({
+        description: "Portfolio review",
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Review my Polymarket portfolio. Summarize P&L, flag positions with outsized risk or concentration, and suggest what to trim or hedge.\n\nSummary:\n${JSON.stringify(getPortfolio(), null, 2)}\n\nPositions:\n${JSON.stringify(getPositions(), null, 2)}`,
+            },
+          },
+        ],
+      })
+    );
+  }
+
+  private configuredKeys(): MCPApiKey[] {
+    const keys = [...(this.config.keys ?? [])];
+    if (this.config.apiKey) keys.push({ name: "default", key: this.config.apiKey, scopes: ALL_SCOPES });
+    return keys;
+  }
+
+  isAuthRequired(): boolean {
+    return this.configuredKeys().length > 0;
+  }
+
+  /**
+   * Resolves a presented secret to a named caller. With no keys configured,
+   * stdio and in-process callers are trusted and HTTP callers may only read.
+   */
+  authenticate(secret: string | undefined, transport: MCPCaller["transport"]): MCPCaller | null {
+    const keys = this.configuredKeys();
+    if (keys.length === 0) {
+      return { keyName: "anonymous", scopes: transport === "http" ? ANONYMOUS_HTTP_SCOPES : ALL_SCOPES, transport };
+    }
+    if (!secret) return null;
+
+    const presented = sha256(secret);
+    for (const key of keys) {
+      const expected = key.keySha256 ? Buffer.from(key.keySha256, "hex") : key.key ? sha256(key.key) : null;
+      if (expected && expected.length === presented.length && timingSafeEqual(expected, presented)) {
+        return { keyName: key.name, scopes: key.scopes, transport };
+      }
+    }
+    return null;
+  }
+
+  private hasScope(caller: MCPCaller, scope: MCPScope): boolean {
+    // trading implies alerts, and any key may read
+    if (scope === "read") return caller.scopes.length > 0;
+    if (scope === "alerts") return caller.scopes.includes("alerts") || caller.scopes.includes("trading");
+    return caller.scopes.includes(scope);
   }
 
-  private checkApiKey(apiKey?: string): boolean {
-    if (!this.config.apiKey) return true;
-    return apiKey === this.config.apiKey;
+  /**
+   * Entry point for raw decoded JSON: handles single messages and batches.
+   * Returns null when nothing should be sent back (notifications, client responses).
+   */
+  async handleMessage(
+    message: unknown,
+    session?: MCPSession,
+    caller?: MCPCaller
+  ): Promise<JSONRPCResponse | JSONRPCResponse[] | null> {
+    if (session) session.lastSeen = Date.now();
+
+    if (Array.isArray(message)) {
+      if (message.length === 0) return errorResponse(null, JSONRPC_INVALID_REQUEST, "Invalid Request: empty batch");
+      const responses = await Promise.all(message.map((m) => this.handleSingle(m, session, caller)));
+      const replies = responses.filter((r): r is JSONRPCResponse => r !== null);
+      return replies.length > 0 ? replies : null;
+    }
+
+    return this.handleSingle(message, session, caller);
   }
 
-  async handleRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+  private async handleSingle(message: unknown, session?: MCPSession, caller?: MCPCaller): Promise<JSONRPCResponse | null> {
+    if (!message || typeof message !== "object" || Array.isArray(message)) {
+      return errorResponse(null, JSONRPC_INVALID_REQUEST, "Invalid Request");
+    }
+
+    const msg = message as Record<string, unknown>;
+    const id = typeof msg.id === "string" || typeof msg.id === "number" ? msg.id : null;
+    if (msg.jsonrpc !== "2.0") return errorResponse(id, JSONRPC_INVALID_REQUEST, "Invalid Request: jsonrpc must be \"2.0\"");
+
+    if (typeof msg.method !== "string") {
+      // A response to a server-initiated request; we never send any, so drop it
+      if ("result" in msg || "error" in msg) return null;
+      return errorResponse(id, JSONRPC_INVALID_REQUEST, "Invalid Request: missing method");
+    }
+
+    if (!("id" in msg)) {
+      await this.handleNotification(msg as unknown as JSONRPCNotification);
+      return null;
+    }
+    if (id === null) return errorResponse(null, JSONRPC_INVALID_REQUEST, "Invalid Request: id must be a string or number");
+
+    return this.handleRequest(msg as unknown as JSONRPCRequest, session, caller);
+  }
+
+  private async handleNotification(notification: JSONRPCNotification): Promise<void> {
+    switch (notification.method) {
+      case "notifications/initialized":
+      case "notifications/cancelled":
+      default:
+        // Nothing to acknowledge; notifications never receive a response
+        return;
+    }
+  }
+
+  private async readResource(uri: string): Promise<string | null> {
+    const reader = this.resourceReaders.get(uri);
+    if (reader) return reader();
+
+    for (const { pattern, reader: templateReader } of this.templates.values()) {
+      const match = pattern.exec(uri);
+      if (match) return templateReader({ ...match.groups });
+    }
+    return null;
+  }
+
+  private resourceExists(uri: string): boolean {
+    if (this.resources.has(uri)) return true;
+    return Array.from(this.templates.values()).some(({ pattern }) => pattern.test(uri));
+  }
+
+  private async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    caller: MCPCaller,
+    session?: MCPSession
+  ): Promise<{ result?: unknown; error?: { code: number; message: string } }> {
+    const audit = (status: AuditStatus, error?: string) =>
+      appendAuditLog({
+        timestamp: Date.now(),
+        keyName: caller.keyName,
+        transport: caller.transport,
+        sessionId: session?.id,
+        tool: name,
+        arguments: args,
+        status,
+        ...(error ? { error } : {}),
+      });
+
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      audit("error", "unknown tool");
+      return { error: { code: JSONRPC_INVALID_PARAMS, message: `Unknown tool: ${name}` } };
+    }
+
+    const scope = this.toolScopes.get(name) ?? "read";
+    if (!this.hasScope(caller, scope)) {
+      audit("forbidden", `requires ${scope} scope`);
+      return { error: { code: MCP_FORBIDDEN, message: `Key "${caller.keyName}" lacks the "${scope}" scope required by ${name}` } };
+    }
+
     try {
-      const apiKey = request.params?._apiKey as string | undefined;
-      if (!this.checkApiKey(apiKey)) {
-        return {
-          jsonrpc: "2.0",
-          id: request.id,
-          error: { code: -32601, message: "Invalid API key" },
-        };
+      const result = await handler(args, caller);
+      const record = result && typeof result === "object" ? (result as Record<string, unknown>) : {};
+      if ("error" in record) audit("error", String(record.error));
+      else if (record.requiresConfirmation) audit("confirmation_required");
+      else audit("ok");
+      return { result };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Tool failed";
+      audit("error", message);
+      throw e;
+    }
+  }
+
+  async handleRequest(request: JSONRPCRequest, session?: MCPSession, caller?: MCPCaller): Promise<JSONRPCResponse> {
+    try {
+      // In-process and stdio callers without a transport-level key may still pass the legacy _apiKey param
+      const auth = caller ?? this.authenticate(request.params?._apiKey as string | undefined, "local");
+      if (!auth) {
+        if (request.method === "tools/call") {
+          appendAuditLog({
+            timestamp: Date.now(),
+            keyName: "(unauthenticated)",
+            transport: "local",
+            tool: String(request.params?.name ?? ""),
+            arguments: (request.params?.arguments as Record<string, unknown>) ?? {},
+            status: "unauthorized",
+          });
+        }
+        return errorResponse(request.id, MCP_UNAUTHORIZED, "Unauthorized: missing or invalid API key");
+      }
+
+      if (!["initialize", "ping"].includes(request.method) && !this.hasScope(auth, "read")) {
+        return errorResponse(request.id, MCP_FORBIDDEN, `Key "${auth.keyName}" has no scopes`);
       }
 
       const params = { ...request.params };
@@ -212,14 +589,16 @@ export class MCPServer {
 
       switch (request.method) {
         case "initialize": {
+          const requested = params.protocolVersion as string | undefined;
           return {
             jsonrpc: "2.0",
             id: request.id,
             result: {
-              protocolVersion: "2024-11-05",
+              protocolVersion: requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
               capabilities: {
                 tools: {},
-                resources: {},
+                resources: { subscribe: true },
+                prompts: {},
               },
               serverInfo: {
                 name: this.name,
@@ -229,34 +608,30 @@ export class MCPServer {
           };
         }
 
+        case "ping": {
+          return { jsonrpc: "2.0", id: request.id, result: {} };
+        }
+
         case "tools/list": {
           return {
             jsonrpc: "2.0",
             id: request.id,
             result: {
-              tools: Array.from(this.tools.values()),
+              tools: Array.from(this.tools.values()).filter((t) => this.hasScope(auth, this.toolScopes.get(t.name) ?? "read")),
             },
           };
         }
 
         case "tools/call": {
           const toolParams = params as { name: string; arguments?: Record<string, unknown> };
-          const handler = this.handlers.get(toolParams.name);
-          if (!handler) {
-            return {
-              jsonrpc: "2.0",
-              id: request.id,
-              error: {
-                code: -32601,
-                message: `Tool not found: ${toolParams.name}`,
-              },
-            };
-          }
-          const result = await handler(toolParams.arguments || {});
+          const outcome = await this.callTool(toolParams.name, toolParams.arguments || {}, auth, session);
+          if (outcome.error) return errorResponse(request.id, outcome.error.code, outcome.error.message);
+          const result = outcome.result;
+          const isError = !!result && typeof result === "object" && "error" in result;
           return {
             jsonrpc: "2.0",
             id: request.id,
-            result: { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] },
+            result: { content: [{ type: "text", text: JSON.stringify(result, null, 2) }], ...(isError ? { isError: true } : {}) },
           };
         }
 
@@ -270,20 +645,22 @@ export class MCPServer {
           };
         }
 
+        case "resources/templates/list": {
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: {
+              resourceTemplates: Array.from(this.templates.values()).map(({ template }) => template),
+            },
+          };
+        }
+
         case "resources/read": {
           const rParams = params as { uri: string };
-          const reader = this.resourceReaders.get(rParams.uri);
-          if (!reader) {
-            return {
-              jsonrpc: "2.0",
-              id: request.id,
-              error: {
-                code: -32601,
-                message: `Resource not found: ${rParams.uri}`,
-              },
-            };
+          const content = await this.readResource(rParams.uri);
+          if (content === null) {
+            return errorResponse(request.id, MCP_RESOURCE_NOT_FOUND, "Resource not found", { uri: rParams.uri });
           }
-          const content = await reader();
           return {
             jsonrpc: "2.0",
             id: request.id,
@@ -293,31 +670,60 @@ export class MCPServer {
           };
         }
 
-        default:
+        case "resources/subscribe":
+        case "resources/unsubscribe": {
+          const uri = params.uri as string | undefined;
+          if (!uri) return errorResponse(request.id, JSONRPC_INVALID_PARAMS, "uri is required");
+          if (!session) {
+            return errorResponse(request.id, JSONRPC_INVALID_REQUEST, "Subscriptions require a session (initialize over stdio or Streamable HTTP first)");
+          }
+          if (request.method === "resources/subscribe") {
+            if (!this.resourceExists(uri)) return errorResponse(request.id, MCP_RESOURCE_NOT_FOUND, "Resource not found", { uri });
+            session.subscriptions.add(uri);
+          } else {
+            session.subscriptions.delete(uri);
+          }
+          return { jsonrpc: "2.0", id: request.id, result: {} };
+        }
+
+        case "prompts/list": {
           return {
             jsonrpc: "2.0",
             id: request.id,
-            error: {
-              code: -32601,
-              message: `Method not found: ${request.method}`,
+            result: {
+              prompts: Array.from(this.prompts.values()).map(({ prompt }) => prompt),
             },
           };
+        }
+
+        case "prompts/get": {
+          const pParams = params as { name: string; arguments?: Record<string, string> };
+          const entry = this.prompts.get(pParams.name);
+          if (!entry) return errorResponse(request.id, JSONRPC_INVALID_PARAMS, `Unknown prompt: ${pParams.name}`);
+
+          const args = pParams.arguments ?? {};
+          const missing = (entry.prompt.arguments ?? []).filter((a) => a.required && !args[a.name]).map((a) => a.name);
+          if (missing.length > 0) {
+            return errorResponse(request.id, JSONRPC_INVALID_PARAMS, `Missing required arguments: ${missing.join(", ")}`);
+          }
+          return { jsonrpc: "2.0", id: request.id, result: await entry.builder(args) };
+        }
+
+        default:
+          return errorResponse(request.id, JSONRPC_METHOD_NOT_FOUND, `Method not found: ${request.method}`);
       }
     } catch (error) {
-      return {
-        jsonrpc: "2.0",
-        id: request.id,
-        error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : "Internal error",
-          data: error,
-        },
-      };
+      return errorResponse(request.id, JSONRPC_INTERNAL_ERROR, error instanceof Error ? error.message : "Internal error");
     }
   }
 
   async runStdio(): Promise<void> {
     const { stdin, stdout } = await import("process");
+    const write = (message: unknown) => stdout.write(JSON.stringify(message) + "\n");
+    const envKey = process.env.POLYMARKET_MCP_KEY;
+    const caller = this.authenticate(envKey, "stdio") ?? undefined;
+    if (envKey && !caller) console.error("POLYMARKET_MCP_KEY does not match any key in mcp.json");
+    const session = this.createSession((notification) => write(notification), caller?.keyName);
 
     let buffer = "";
     stdin.setEncoding("utf8");
@@ -328,40 +734,155 @@ export class MCPServer {
       while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
         const line = buffer.slice(0, newlineIndex);
         buffer = buffer.slice(newlineIndex + 1);
-        if (line.trim()) {
-          try {
-            const request = JSON.parse(line) as JSONRPCRequest;
-            this.handleRequest(request).then((response) => {
-              stdout.write(JSON.stringify(response) + "\n");
-            });
-          } catch {}
+        if (!line.trim()) continue;
+
+        let message: unknown;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          write(errorResponse(null, JSONRPC_PARSE_ERROR, "Parse error"));
+          continue;
         }
+        this.handleMessage(message, session, caller).then((response) => {
+          if (response) write(response);
+        });
       }
     });
   }
 
+  private openEventStream(session: MCPSession): Response {
+    const encoder = new TextEncoder();
+    let keepalive: ReturnType<typeof setInterval> | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const push = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            session.send = undefined;
+            if (keepalive) clearInterval(keepalive);
+          }
+        };
+        session.send = (message) => push(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+        keepalive = setInterval(() => push(": keepalive\n\n"), SSE_KEEPALIVE_MS);
+        push(": connected\n\n");
+      },
+      cancel() {
+        session.send = undefined;
+        if (keepalive) clearInterval(keepalive);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Mcp-Session-Id": session.id,
+      },
+    });
+  }
+
+  /** Requests without an Origin (non-browser clients) pass; browsers must come from localhost or the allow-list. */
+  private isAllowedOrigin(origin: string | null, port: number): boolean {
+    if (!origin) return true;
+    const allowed = [
+      `http://localhost:${port}`,
+      `http://127.0.0.1:${port}`,
+      `http://[::1]:${port}`,
+      ...(this.config.allowedOrigins ?? []),
+    ];
+    return allowed.includes(origin);
+  }
+
+  /**
+   * Streamable HTTP transport: POST /mcp for requests (single or batch),
+   * GET /mcp for the server-to-client SSE stream, DELETE /mcp to end a session.
+   * Binds to loopback unless mcp.json sets a hostname.
+   */
   async runHttp(port: number = 3000): Promise<void> {
     const self = this;
+    const json = (body: unknown, status: number = 200, headers: Record<string, string> = {}) =>
+      new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+    const listenPort = port || this.config.port || 3000;
+
     const server = Bun.serve({
-      port: port || this.config.port || 3000,
+      port: listenPort,
+      hostname: this.config.hostname ?? DEFAULT_HTTP_HOSTNAME,
+      idleTimeout: 0, // SSE streams stay open; keepalives are sent instead
       async fetch(req) {
         const url = new URL(req.url);
-        if (url.pathname === "/mcp" && req.method === "POST") {
-          const request = (await req.json()) as JSONRPCRequest;
-          const response = await self.handleRequest(request);
-          return new Response(JSON.stringify(response), {
-            headers: { "Content-Type": "application/json" },
-          });
+        self.pruneSessions();
+
+        if (url.pathname === "/mcp") {
+          // Blocks DNS-rebinding: a page on another origin can't drive the server through the browser
+          if (!self.isAllowedOrigin(req.headers.get("origin"), listenPort)) {
+            return json(errorResponse(null, MCP_FORBIDDEN, "Forbidden: origin not allowed"), 403);
+          }
+
+          const authorization = req.headers.get("authorization") ?? "";
+          const bearer = authorization.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+          const caller = self.authenticate(bearer, "http");
+          if (!caller) {
+            return json(
+              errorResponse(null, MCP_UNAUTHORIZED, bearer ? "Unauthorized: invalid API key" : "Unauthorized: Bearer token required"),
+              401,
+              { "WWW-Authenticate": `Bearer realm="${self.name}"${bearer ? ', error="invalid_token"' : ""}` }
+            );
+          }
+
+          const sessionId = req.headers.get("mcp-session-id");
+          const found = sessionId ? self.sessions.get(sessionId) : undefined;
+          // Sessions are bound to the key that opened them
+          const session = found && found.keyName === caller.keyName ? found : undefined;
+          if (sessionId && !session) {
+            return json(errorResponse(null, JSONRPC_INVALID_REQUEST, "Unknown or expired session"), 404);
+          }
+
+          if (req.method === "POST") {
+            let message: unknown;
+            try {
+              message = await req.json();
+            } catch {
+              return json(errorResponse(null, JSONRPC_PARSE_ERROR, "Parse error"), 400);
+            }
+
+            const isInitialize = !Array.isArray(message) && (message as { method?: unknown })?.method === "initialize";
+            const activeSession = session ?? (isInitialize ? self.createSession(undefined, caller.keyName) : undefined);
+            const response = await self.handleMessage(message, activeSession, caller);
+            const headers: Record<string, string> = activeSession ? { "Mcp-Session-Id": activeSession.id } : {};
+            if (!response) return new Response(null, { status: 202, headers });
+            return json(response, 200, headers);
+          }
+
+          if (req.method === "GET") {
+            if (!(req.headers.get("accept") ?? "").includes("text/event-stream")) {
+              return new Response("Method Not Allowed", { status: 405 });
+            }
+            if (!session) return json(errorResponse(null, JSONRPC_INVALID_REQUEST, "Mcp-Session-Id header required"), 400);
+            return self.openEventStream(session);
+          }
+
+          if (req.method === "DELETE") {
+            if (!session) return json(errorResponse(null, JSONRPC_INVALID_REQUEST, "Mcp-Session-Id header required"), 400);
+            self.sessions.delete(session.id);
+            return new Response(null, { status: 204 });
+          }
+
+          return new Response("Method Not Allowed", { status: 405 });
         }
+
         if (url.pathname === "/health" && req.method === "GET") {
-          return new Response(JSON.stringify({ status: "ok", server: self.name }), {
-            headers: { "Content-Type": "application/json" },
-          });
+          return json({ status: "ok", server: self.name, sessions: self.sessions.size });
         }
         return new Response("Not Found", { status: 404 });
       },
     });
-    console.log(`MCP server running on http://localhost:${server.port}/mcp`);
+    console.log(`MCP server running on http://${server.hostname}:${server.port}/mcp`);
+    if (!this.isAuthRequired()) {
+      console.warn("Warning: no API keys configured in mcp.json; HTTP callers are limited to the read scope");
+    }
   }
 }
 
@@ -392,13 +913,73 @@ export function getConfigPath(): string {
   return join(homedir(), ".polymarket-tui", "mcp.json");
 }
 
+/**
+ * Drops `keys` entries that can't authenticate anyone, reporting why. An entry
+ * without `scopes` gets read-only access rather than failing every call.
+ */
+function validateKeys(raw: unknown): MCPApiKey[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    console.error("mcp.json: \"keys\" must be an array; ignoring it");
+    return [];
+  }
+
+  const keys: MCPApiKey[] = [];
+  const names = new Set<string>();
+  raw.forEach((entry, i) => {
+    const label = `mcp.json: keys[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      console.error(`${label} is not an object; ignoring it`);
+      return;
+    }
+    const { name, key, keySha256, scopes } = entry as Record<string, unknown>;
+    if (typeof name !== "string" || name.trim().length === 0) {
+      console.error(`${label} has no "name"; ignoring it`);
+      return;
+    }
+    if (names.has(name)) {
+      console.error(`${label}: duplicate key name "${name}"; ignoring it`);
+      return;
+    }
+    const hasKey = typeof key === "string" && key.length > 0;
+    const hasHash = typeof keySha256 === "string" && /^[0-9a-f]{64}$/i.test(keySha256);
+    if (!hasKey && !hasHash) {
+      console.error(`${label} ("${name}") needs "key" or a 64-character hex "keySha256"; ignoring it`);
+      return;
+    }
+
+    let granted: MCPScope[];
+    if (scopes === undefined) {
+      console.error(`${label} ("${name}") has no "scopes"; granting read only`);
+      granted = ["read"];
+    } else if (!Array.isArray(scopes) || scopes.some((scope) => !ALL_SCOPES.includes(scope as MCPScope))) {
+      console.error(`${label} ("${name}"): "scopes" must be a list of ${ALL_SCOPES.join(", ")}; ignoring it`);
+      return;
+    } else {
+      granted = scopes as MCPScope[];
+    }
+
+    names.add(name);
+    keys.push({
+      name,
+      ...(hasKey ? { key: key as string } : {}),
+      ...(hasHash ? { keySha256: keySha256 as string } : {}),
+      scopes: granted,
+    });
+  });
+  return keys;
+}
+
 export function loadMCPConfig(): MCPServerConfig {
   try {
     const path = getConfigPath();
     if (existsSync(path)) {
-      return JSON.parse(readFileSync(path, "utf-8"));
+      const config = JSON.parse(readFileSync(path, "utf-8")) as MCPServerConfig;
+      return { ...config, keys: validateKeys(config.keys) };
     }
-  } catch {}
+  } catch (e) {
+    console.error("mcp.json could not be read:", e instanceof Error ? e.message : e);
+  }
   return {};
 }
 
@@ -411,3 +992,83 @@ export function saveMCPConfig(config: MCPServerConfig): void {
     console.error("Failed to save MCP config");
   }
 }
+
+function toToolMarket(market: Market): MCPToolMarket {
+  return {
+    id: market.id,
+    question: market.title,
+    description: market.description,
+    category: market.category,
+    volume: market.volume,
+    liquidity: market.liquidity,
+    outcomes: market.outcomes.map((o) => ({ outcome: o.title, price: o.price, tokenId: o.id })),
+  };
+}
+
+export async function runMCPServer(): Promise<MCPServer> {
+  const { values } = parseArgs({ options: { port: { type: "string" } }, strict: false });
+  const config = loadMCPConfig();
+  // place_order and cancel_order sign with the wallet; nobody can type a passphrase here
+  await unlockWalletFromEnv();
+  const server = new MCPServer();
+  server.setConfig(config);
+
+  // Headless snapshot backing the read-only tools; changes are pushed to resource subscribers
+  let markets: Market[] = [];
+  let positions: Position[] = [];
+  const priceSignatures = new Map<string, string>();
+  let positionsSignature = "";
+
+  const refresh = async () => {
+    markets = await getMarkets(100).catch(() => markets);
+
+    const known = new Set(markets.map((m) => m.id));
+    for (const uri of server.getSubscribedUris()) {
+      const marketId = uri.startsWith("market://") ? uri.slice("market://".length) : null;
+      if (!marketId || known.has(marketId)) continue;
+      const details = await getMarketDetails(marketId);
+      if (details) markets.push(details);
+    }
+
+    for (const market of markets) {
+      const signature = market.outcomes.map((o) => o.price.toFixed(4)).join(",");
+      const previous = priceSignatures.get(market.id);
+      priceSignatures.set(market.id, signature);
+      if (previous !== undefined && previous !== signature) server.notifyResourceUpdated(`market://${market.id}`);
+    }
+
+    const wallet = loadWalletConfig();
+    const address = wallet ? getFunderAddress(wallet) : null;
+    if (address) positions = await fetchPositions(address).catch(() => positions);
+    const signature = JSON.stringify(positions.map((p) => [p.asset, p.size, p.curPrice]));
+    if (positionsSignature && signature !== positionsSignature) {
+      server.notifyResourceUpdated("positions://current");
+      server.notifyResourceUpdated("portfolio://summary");
+    }
+    positionsSignature = signature;
+  };
+  await refresh();
+  setInterval(() => void refresh(), (config.refreshIntervalSeconds ?? 30) * 1000);
+
+  server.registerNativeTools(
+    () => markets.map(toToolMarket),
+    () => calculatePortfolioSummary(positions),
+    () => positions
+  );
+  registerTradingTools(server, new ConfirmationGate(config.confirmation));
+
+  const port = typeof values.port === "string" ? Number.parseInt(values.port, 10) : undefined;
+  if (port) {
+    await server.runHttp(port);
+  } else {
+    await server.runStdio();
+  }
+  return server;
+}
+
+if (import.meta.main) {
+  runMCPServer().catch((e) => {
+    console.error("MCP server failed to start:", e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,413 @@
+import type { MCPServer, MCPCaller } from "./server";
+import { ConfirmationGate } from "./confirmation";
+import { getMarketDetails } from "../api/polymarket";
+import { submitOrder, cancelOrderById, cancelAllOpenOrders, refreshOrders, ordersState } from "../hooks/useOrders";
+import { loadAlerts, addAlert, deleteAlert, alertsState } from "../hooks/useAlerts";
+import { loadRulesState, addRule, deleteRule, toggleRuleEnabled, rulesState, RULE_TRIGGER_TYPES } from "../hooks/useRules";
+import { createRule, TradingRule, Trigger, Action, ActionType } from "../automation/rules";
+import { validateCondition, Condition } from "../automation/conditions";
+import { Order, OrderSide, OrderType } from "../types/orders";
+import { AlertCondition, AlertMetric } from "../types/alerts";
+
+const ACTION_TYPES: ActionType[] = ["buy", "sell", "close_position", "alert", "notify", "rebalance"];
+const ALERT_METRICS: AlertMetric[] = ["price", "change24h", "volume24h", "liquidity"];
+const ALERT_CONDITIONS: AlertCondition[] = ["above", "below", "crossesAbove", "crossesBelow"];
+
+const CONFIRM_PROPERTY = {
+  confirm: { type: "string", description: "Confirmation token returned by a previous call with identical arguments" },
+};
+
+async function gated(
+  gate: ConfirmationGate,
+  caller: MCPCaller,
+  tool: string,
+  args: Record<string, unknown>,
+  notional: number,
+  preview: Record<string, unknown>,
+  execute: () => Promise<unknown>
+): Promise<unknown> {
+  const decision = gate.check(tool, caller.keyName, args, notional);
+  if (decision.approved) return execute();
+  if (decision.denied) return { error: decision.reason };
+  return {
+    requiresConfirmation: true,
+    confirm: decision.confirm,
+    expiresAt: new Date(decision.expiresAt).toISOString(),
+    reason: decision.reason,
+    preview,
+  };
+}
+
+async function resolveOrder(args: Record<string, unknown>): Promise<Order | string> {
+  const side = String(args.side ?? "").toUpperCase() as OrderSide;
+  const price = Number(args.price);
+  const shares = Number(args.shares);
+  const type = (args.type as OrderType | undefined) ?? "GTC";
+
+  if (side !== "BUY" && side !== "SELL") return "side must be BUY or SELL";
+  if (!(price > 0 && price < 1)) return "price must be between 0 and 1";
+  if (!(shares > 0)) return "shares must be greater than 0";
+  if (!["GTC", "FOK", "GTD"].includes(type)) return "type must be GTC, FOK or GTD";
+
+  let tokenId = typeof args.tokenId === "string" ? args.tokenId : undefined;
+  let marketTitle: string | undefined;
+  let outcomeTitle: string | undefined;
+
+  if (typeof args.marketId === "string") {
+    const market = await getMarketDetails(args.marketId);
+    if (!market) return `Market ${args.marketId} not found`;
+    const wanted = typeof args.outcome === "string" ? args.outcome.toLowerCase() : undefined;
+    const outcome = tokenId
+      ? market.outcomes.find((o) => o.id === tokenId)
+      : market.outcomes.find((o) => (wanted ? o.title.toLowerCase() === wanted : o.title.toLowerCase() === "yes")) ?? market.outcomes[0];
+    if (!outcome) return `Outcome ${String(args.outcome ?? tokenId)} not found in ${market.title}`;
+    tokenId = outcome.id;
+    marketTitle = market.title;
+    outcomeTitle = outcome.title;
+  }
+
+  if (!tokenId) return "Provide tokenId, or marketId with an outcome";
+
+  return {
+    tokenId,
+    side,
+    price,
+    shares,
+    type,
+    postOnly: args.postOnly === true,
+    marketId: typeof args.marketId === "string" ? args.marketId : undefined,
+    marketTitle,
+    outcomeTitle,
+  };
+}
+
+function parseRuleInput(args: Record<string, unknown>): TradingRule | string {
+  const name = typeof args.name === "string" ? args.name.trim() : "";
+  if (!name) return "name is required";
+
+  const trigger = args.trigger as Trigger | undefined;
+  const action = args.action as Action | undefined;
+  if (!trigger || !RULE_TRIGGER_TYPES.includes(trigger.type)) {
+    return `trigger.type must be one of ${RULE_TRIGGER_TYPES.join(", ")}`;
+  }
+  if (typeof trigger.value !== "number" || !Number.isFinite(trigger.value)) return "trigger.value must be a number";
+  if (!action || !ACTION_TYPES.includes(action.type)) return `action.type must be one of ${ACTION_TYPES.join(", ")}`;
+
+  const condition = args.condition as Condition | undefined;
+  if (condition !== undefined) {
+    const errors = validateCondition(condition);
+    if (errors.length > 0) return `Invalid condition: ${errors.join("; ")}`;
+  }
+
+  const maxNotional = args.maxNotional === undefined ? undefined : Number(args.maxNotional);
+  if (maxNotional !== undefined && !(maxNotional > 0)) return "maxNotional must be greater than 0";
+
+  const rule = createRule(name, trigger, action, condition);
+  return {
+    ...rule,
+    enabled: args.enabled !== false,
+    ...(maxNotional !== undefined ? { maxNotional } : {}),
+  };
+}
+
+function ruleNotional(rule: TradingRule): number {
+  const placesOrders = ["buy", "sell", "close_position", "rebalance"].includes(rule.action.type);
+  if (!placesOrders) return 0;
+  if (rule.maxNotional !== undefined) return rule.maxNotional;
+  return rule.action.amount ?? Number.POSITIVE_INFINITY;
+}
+
+export function registerTradingTools(server: MCPServer, gate: ConfirmationGate): void {
+  // ─── orders ──────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    {
+      name: "get_open_orders",
+      description: "List the account's open CLOB orders",
+      inputSchema: { type: "object", properties: {} },
+    },
+    async () => {
+      await refreshOrders();
+      return ordersState.openOrders
+        .filter((o) => o.status === "LIVE" || o.status === "DELAYED" || o.status === "UNMATCHED")
+        .map((o) => ({
+          orderId: o.orderId,
+          tokenId: o.tokenId,
+          side: o.side,
+          price: o.price,
+          originalSize: o.originalSize,
+          sizeRemaining: o.sizeRemaining,
+          status: o.status,
+          market: o.marketTitle,
+          outcome: o.outcomeTitle,
+        }));
+    }
+  );
+
+  server.registerTool(
+    {
+      name: "place_order",
+      description: "Place a limit order. Subject to the server's confirmation policy; without a valid confirm token the call returns a preview and token.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tokenId: { type: "string", description: "CLOB token ID of the outcome (or use marketId + outcome)" },
+          marketId: { type: "string", description: "Market ID" },
+          outcome: { type: "string", description: "Outcome name, e.g. Yes or No (default Yes)" },
+          side: { type: "string", enum: ["BUY", "SELL"] },
+          price: { type: "number", description: "Limit price between 0 and 1" },
+          shares: { type: "number", description: "Number of shares" },
+          type: { type: "string", enum: ["GTC", "FOK", "GTD"], description: "Time in force (default GTC)" },
+          postOnly: { type: "boolean" },
+          ...CONFIRM_PROPERTY,
+        },
+        required: ["side", "price", "shares"],
+      },
+    },
+    async (params, caller) => {
+      const order = await resolveOrder(params);
+      if (typeof order === "string") return { error: order };
+
+      const notional = order.price * order.shares;
+      return gated(gate, caller, "place_order", params, notional, { ...order, notional }, async () => {
+        const placed = await submitOrder(order);
+        if (!placed) return { error: ordersState.error ?? "Order failed" };
+        return { orderId: placed.orderId, status: placed.status, notional };
+      });
+    },
+    "trading"
+  );
+
+  server.registerTool(
+    {
+      name: "cancel_order",
+      description: "Cancel an open order by ID. Subject to the server's confirmation policy.",
+      inputSchema: {
+        type: "object",
+        properties: { orderId: { type: "string", description: "Order ID" }, ...CONFIRM_PROPERTY },
+        required: ["orderId"],
+      },
+    },
+    async (params, caller) => {
+      const orderId = typeof params.orderId === "string" ? params.orderId : "";
+      if (!orderId) return { error: "orderId is required" };
+      return gated(gate, caller, "cancel_order", params, 0, { orderId }, async () => {
+        const ok = await cancelOrderById(orderId);
+        return ok ? { cancelled: orderId } : { error: ordersState.error ?? `Failed to cancel ${orderId}` };
+      });
+    },
+    "trading"
+  );
+
+  server.registerTool(
+    {
+      name: "cancel_all_orders",
+      description: "Cancel every open order on the account. Subject to the server's confirmation policy.",
+      inputSchema: { type: "object", properties: { ...CONFIRM_PROPERTY } },
+    },
+    async (params, caller) => {
+      await refreshOrders();
+      const open = ordersState.openOrders.filter((o) => o.status === "LIVE" || o.status === "DELAYED" || o.status === "UNMATCHED");
+      return gated(gate, caller, "cancel_all_orders", params, 0, { openOrders: open.length }, async () => {
+        const cancelled = await cancelAllOpenOrders();
+        return { cancelled, message: ordersState.lastBulkAction, error: ordersState.error ?? undefined };
+      });
+    },
+    "trading"
+  );
+
+  // ─── alerts ──────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    {
+      name: "list_alerts",
+      description: "List price alerts",
+      inputSchema: {
+        type: "object",
+        properties: { includeDismissed: { type: "boolean", description: "Include dismissed alerts" } },
+      },
+    },
+    async (params) => {
+      loadAlerts();
+      return alertsState.alerts.filter((a) => params.includeDismissed === true || a.status !== "dismissed");
+    }
+  );
+
+  server.registerTool(
+    {
+      name: "create_alert",
+      description: "Create a price alert on a market outcome. Subject to the server's confirmation policy.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          marketId: { type: "string" },
+          outcome: { type: "string", description: "Outcome name (default Yes)" },
+          metric: { type: "string", enum: ALERT_METRICS, description: "Default price" },
+          condition: { type: "string", enum: ALERT_CONDITIONS },
+          threshold: { type: "number" },
+          cooldownMinutes: { type: "number", description: "Default 5" },
+          debouncePasses: { type: "number", description: "Default 1" },
+          ...CONFIRM_PROPERTY,
+        },
+        required: ["marketId", "condition", "threshold"],
+      },
+    },
+    async (params, caller) => {
+      const metric = (params.metric as AlertMetric | undefined) ?? "price";
+      const condition = params.condition as AlertCondition;
+      const threshold = Number(params.threshold);
+      if (!ALERT_METRICS.includes(metric)) return { error: `metric must be one of ${ALERT_METRICS.join(", ")}` };
+      if (!ALERT_CONDITIONS.includes(condition)) return { error: `condition must be one of ${ALERT_CONDITIONS.join(", ")}` };
+      if (!Number.isFinite(threshold)) return { error: "threshold must be a number" };
+      if (metric === "price" && (threshold <= 0 || threshold >= 1)) return { error: "price threshold must be between 0 and 1" };
+
+      const market = await getMarketDetails(String(params.marketId));
+      if (!market) return { error: `Market ${String(params.marketId)} not found` };
+      const wanted = typeof params.outcome === "string" ? params.outcome.toLowerCase() : "yes";
+      const outcome = market.outcomes.find((o) => o.title.toLowerCase() === wanted) ?? (params.outcome ? undefined : market.outcomes[0]);
+      if (!outcome) return { error: `Outcome ${String(params.outcome)} not found in ${market.title}` };
+
+      const preview = { market: market.title, outcome: outcome.title, metric, condition, threshold };
+      return gated(gate, caller, "create_alert", params, 0, preview, async () => {
+        loadAlerts();
+        const alert = addAlert(
+          market.id,
+          market.title,
+          outcome.id,
+          outcome.title,
+          metric,
+          condition,
+          threshold,
+          Number(params.cooldownMinutes ?? 5),
+          Number(params.debouncePasses ?? 1),
+        );
+        return { created: alert };
+      });
+    },
+    "alerts"
+  );
+
+  server.registerTool(
+    {
+      name: "delete_alert",
+      description: "Delete a price alert. Subject to the server's confirmation policy.",
+      inputSchema: {
+        type: "object",
+        properties: { alertId: { type: "string" }, ...CONFIRM_PROPERTY },
+        required: ["alertId"],
+      },
+    },
+    async (params, caller) => {
+      loadAlerts();
+      const alert = alertsState.alerts.find((a) => a.id === params.alertId);
+      if (!alert) return { error: `Alert ${String(params.alertId)} not found` };
+      return gated(gate, caller, "delete_alert", params, 0, { alert }, async () => {
+        loadAlerts();
+        deleteAlert(alert.id);
+        return { deleted: alert.id };
+      });
+    },
+    "alerts"
+  );
+
+  // ─── automation rules ────────────────────────────────────────────────────
+
+  server.registerTool(
+    {
+      name: "list_rules",
+      description: "List automation rules",
+      inputSchema: { type: "object", properties: {} },
+    },
+    async () => {
+      loadRulesState();
+      return rulesState.rules;
+    }
+  );
+
+  server.registerTool(
+    {
+      name: "create_rule",
+      description: "Create an automation rule and attach it to the scheduler. Order actions count their amount (or maxNotional) against the auto-approve limit.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          trigger: {
+            type: "object",
+            description: "{ type: price_above|price_below|percent_change|volume_spike|time, marketId, outcome, value, windowSeconds }",
+          },
+          action: {
+            type: "object",
+            description: "{ type: buy|sell|close_position|alert|notify|rebalance, marketId, outcome, amount, percentage, price, message }",
+          },
+          condition: { type: "object", description: "Optional AND/OR/NOT condition tree replacing the trigger" },
+          maxNotional: { type: "number", description: "Per-execution USDC cap" },
+          enabled: { type: "boolean", description: "Default true" },
+          ...CONFIRM_PROPERTY,
+        },
+        required: ["name", "trigger", "action"],
+      },
+    },
+    async (params, caller) => {
+      const rule = parseRuleInput(params);
+      if (typeof rule === "string") return { error: rule };
+
+      const { id: _id, createdAt: _createdAt, ...preview } = rule;
+      return gated(gate, caller, "create_rule", params, ruleNotional(rule), preview, async () => {
+        loadRulesState();
+        addRule(rule);
+        return { created: rule };
+      });
+    },
+    "trading"
+  );
+
+  server.registerTool(
+    {
+      name: "set_rule_enabled",
+      description: "Enable or disable an automation rule. Subject to the server's confirmation policy.",
+      inputSchema: {
+        type: "object",
+        properties: { ruleId: { type: "string" }, enabled: { type: "boolean" }, ...CONFIRM_PROPERTY },
+        required: ["ruleId", "enabled"],
+      },
+    },
+    async (params, caller) => {
+      loadRulesState();
+      const rule = rulesState.rules.find((r) => r.id === params.ruleId);
+      if (!rule) return { error: `Rule ${String(params.ruleId)} not found` };
+      const enabled = params.enabled === true;
+      const notional = enabled ? ruleNotional(rule) : 0;
+      return gated(gate, caller, "set_rule_enabled", params, notional, { rule: rule.name, enabled }, async () => {
+        loadRulesState();
+        const current = rulesState.rules.find((r) => r.id === rule.id);
+        if (current && current.enabled !== enabled) toggleRuleEnabled(rule.id);
+        return { ruleId: rule.id, enabled };
+      });
+    },
+    "trading"
+  );
+
+  server.registerTool(
+    {
+      name: "delete_rule",
+      description: "Delete an automation rule and detach it from scheduler tasks. Subject to the server's confirmation policy.",
+      inputSchema: {
+        type: "object",
+        properties: { ruleId: { type: "string" }, ...CONFIRM_PROPERTY },
+        required: ["ruleId"],
+      },
+    },
+    async (params, caller) => {
+      loadRulesState();
+      const rule = rulesState.rules.find((r) => r.id === params.ruleId);
+      if (!rule) return { error: `Rule ${String(params.ruleId)} not found` };
+      return gated(gate, caller, "delete_rule", params, 0, { rule: rule.name }, async () => {
+        loadRulesState();
+        deleteRule(rule.id);
+        return { deleted: rule.id };
+      });
+    },
+    "trading"
+  );
+}
@@ -6,11 +6,25 @@ import { createSignal, createEffect } from "solid-js";
 import { createStore } from "solid-js/store";
 import { AppState, PersistentState, Market, WalletState, Timeframe } from "./types/market";
 import { UserProfile, UserContact, ProfileState } from "./types/user";
+import { OrderType } from "./types/orders";
 import { homedir } from "os";
 import { readFileSync, writeFileSync, mkdirSync } from "fs";
 import { join } from "path";
 
 export type ConnectionStatus = "connected" | "disconnected" | "connecting" | "reconnecting" | "error";
+export type OrderFormField = "price" | "shares" | "expiry" | "slippage";
+// newPassphrase / confirmPassphrase set one; passphrase asks for an existing one
+export type WalletModalMode =
+  | "view"
+  | "enter"
+  | "funder"
+  | "import"
+  | "watch"
+  | "name"
+  | "newPassphrase"
+  | "confirmPassphrase"
+  | "passphrase";
+export type WalletPassphrasePurpose = "connect" | "encrypt" | "export" | "unlock" | "import";
 
 const [wsConnectionStatus, setConnectionStatusInternal] = createSignal<ConnectionStatus>("disconnected");
 const [lastMarketUpdates, setLastMarketUpdates] = createSignal<Record<string, { price: number; timestamp: number }>>({});
@@ -30,6 +44,10 @@ export interface MarketUpdate {
   timestamp: number;
 }
 
+/**
+ * Apply a live price from the market-data bus: records it and patches the
+ * matching outcome in the market list so prices move between REST polls.
+ */
 export function addMarketUpdate(update: MarketUpdate): void {
   const { tokenId, price } = update;
   if (tokenId && price !== undefined) {
@@ -38,6 +56,16 @@ export function addMarketUpdate(update: MarketUpdate): void {
       newUpdates[tokenId] = { price, timestamp: update.timestamp };
       return newUpdates;
     });
+
+    for (let mi = 0; mi < appState.markets.length; mi++) {
+      const oi = appState.markets[mi].outcomes.findIndex((o) => o.id === tokenId);
+      if (oi >= 0) {
+        if (appState.markets[mi].outcomes[oi].price !== price) {
+          setAppState("markets", mi, "outcomes", oi, "price", price);
+        }
+        break;
+      }
+    }
   }
 }
 
@@ -301,6 +329,7 @@ export const [appState, setAppState] = createStore<AppState>(initialState);
 // Wallet state store
 const initialWalletState: WalletState = {
   address: null,
+  accounts: [],
   connected: false,
   balance: 0,
   loading: false,
@@ -314,8 +343,15 @@ export const [isRefreshing, setIsRefreshing] = createSignal(false);
 
 // Wallet modal visibility and input mode signals
 export const [walletModalOpen, setWalletModalOpen] = createSignal(false);
-export const [walletModalMode, setWalletModalMode] = createSignal<"view" | "enter">("view");
+export const [walletModalMode, setWalletModalMode] = createSignal<WalletModalMode>("view");
 export const [walletModalInput, setWalletModalInput] = createSignal("");
+// Account type for the next connect: 0 EOA, 1 Polymarket proxy, 2 Gnosis Safe
+export const [walletModalSignatureType, setWalletModalSignatureType] = createSignal<0 | 1 | 2>(0);
+// What the passphrase being typed is for
+export const [walletModalPurpose, setWalletModalPurpose] = createSignal<WalletPassphrasePurpose>("unlock");
+export const [walletModalNotice, setWalletModalNotice] = createSignal<string | null>(null);
+// Cursor in the wallet modal's account switcher
+export const [walletModalAccountIdx, setWalletModalAccountIdx] = createSignal(0);
 
 // Main view state (unifies layout mode)
 const [activeMainViewSignal, setActiveMainViewSignal] = createSignal<PersistedActiveView>("market");
@@ -347,9 +383,13 @@ export const [orderFormOutcomeTitle, setOrderFormOutcomeTitle] = createSignal(""
 export const [orderFormCurrentPrice, setOrderFormCurrentPrice] = createSignal(0);
 export const [orderFormPriceInput, setOrderFormPriceInput] = createSignal("");
 export const [orderFormSharesInput, setOrderFormSharesInput] = createSignal("");
-export const [orderFormFocusField, setOrderFormFocusField] = createSignal<"price" | "shares">("price");
-export const [orderFormType, setOrderFormType] = createSignal<"GTC" | "FOK" | "GTD">("GTC");
+export const [orderFormFocusField, setOrderFormFocusField] = createSignal<OrderFormField>("price");
+export const [orderFormType, setOrderFormType] = createSignal<OrderType>("GTC");
 export const [orderFormPostOnly, setOrderFormPostOnly] = createSignal(false);
+// Market mode sweeps the book as FOK/FAK up to the slippage limit instead of taking a price
+export const [orderFormMode, setOrderFormMode] = createSignal<"limit" | "market">("limit");
+export const [orderFormExpiryInput, setOrderFormExpiryInput] = createSignal("");
+export const [orderFormSlippageInput, setOrderFormSlippageInput] = createSignal("2");   // percent
 
 // Order history selected index for cancel
 export const [orderHistorySelectedIdx, setOrderHistorySelectedIdx] = createSignal(0);
@@ -0,0 +1,300 @@
+/**
+ * Telegram agent chat — free-text messages run through the reasoning loop with
+ * one AgentSession per chat. The answer streams into a message that is edited
+ * as it grows; place_order / cancel_order wait for an inline Approve/Reject.
+ */
+
+import type { TelegramBot } from "./bot";
+import { cents, escapeMarkdown, usd, NOT_ALLOWED } from "./commands";
+import { runReasoningLoop, type ReasoningChunkCallback } from "../agent/reasoning";
+import { AgentSession, type ToolCall } from "../agent/session";
+import { buildReasoningTools } from "../agent/tools";
+import type { ToolCategory } from "../agent/tool";
+import { approvalState, loadAgentLimits, onApprovalRequested, resolveApproval, PendingApproval } from "../agent/approval";
+import { initializeWallet } from "../hooks/useWallet";
+
+// Telegram rejects edits faster than about one per second per message
+const EDIT_INTERVAL_MS = 1_200;
+// Hard limit is 4096; leave room for the tool lines growing after a split
+const MAX_MESSAGE_CHARS = 3_800;
+const MAX_ARGS_CHARS = 60;
+
+// No screen to drive from Telegram, and no shell access for remote users
+const EXCLUDED_CATEGORIES = new Set<ToolCategory>(["navigation", "ui"]);
+const EXCLUDED_TOOLS = new Set(["execute_bash"]);
+
+const TELEGRAM_INSTRUCTIONS = `## Telegram
+You are replying in a Telegram chat, not the TUI. There is no screen to navigate and the TUI state above may be empty.
+- Keep answers short and in plain text; no Markdown tables.
+- Do not list tool calls in your answer; the chat already shows them.
+- place_order and cancel_order show the user Approve/Reject buttons and wait for an answer. Only report a trade as done once the tool result says so.`;
+
+function channelKey(chatId: number): string {
+  return `telegram:${chatId}`;
+}
+
+function compactValue(value: unknown): string {
+  if (typeof value === "string") return value.length > 16 ? `"${value.slice(0, 12)}…"` : `"${value}"`;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return Array.isArray(value) ? "[…]" : "{…}";
+}
+
+/** "→ get_order_book(tokenId="7152…") ✓" */
+export function formatToolLine(call: ToolCall): string {
+  let args = Object.entries(call.arguments)
+    .filter(([, v]) => v !== undefined && v !== null && v !== "")
+    .map(([k, v]) => `${k}=${compactValue(v)}`)
+    .join(", ");
+  if (args.length > MAX_ARGS_CHARS) args = `${args.slice(0, MAX_ARGS_CHARS - 1)}…`;
+  const status = call.completedAt === undefined ? "…" : call.success ? "✓" : `✗ ${call.error ?? "failed"}`;
+  return `→ ${call.name}(${args}) ${status}`;
+}
+
+/** Split on line breaks where possible so each part fits one message. */
+function splitMessage(text: string, max: number = MAX_MESSAGE_CHARS): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > max) {
+    const cut = rest.lastIndexOf("\n", max);
+    const at = cut > max / 2 ? cut : max;
+    parts.push(rest.slice(0, at));
+    rest = rest.slice(at).replace(/^\n/, "");
+  }
+  parts.push(rest);
+  return parts;
+}
+
+function formatApproval(approval: PendingApproval): string {
+  const seconds = Math.max(0, Math.round((approval.expiresAt - Date.now()) / 1000));
+  const title = escapeMarkdown(approval.marketTitle);
+  const outcome = approval.outcomeTitle ? ` · *${escapeMarkdown(approval.outcomeTitle)}*` : "";
+
+  if (approval.tool === "cancel_order") {
+    const detail = approval.side && approval.price !== undefined && approval.shares !== undefined
+      ? `\n${approval.side} ${approval.shares.toFixed(2)} @ ${cents(approval.price)}`
+      : "";
+    return `🤖 *Agent wants to cancel* \`${approval.orderId ?? ""}\`\n${title}${outcome}${detail}\n\nAnswer within ${seconds}s.`;
+  }
+
+  const lines = [
+    `🤖 *Agent wants to ${approval.side}* — ${title}${outcome}`,
+    `Limit: ${cents(approval.price ?? 0)} × ${approval.shares ?? 0} shares`,
+    `Notional: ${usd(approval.notional)}`,
+  ];
+  const s = approval.slippage;
+  lines.push(s && s.fillableShares > 0
+    ? `Fills now: ${s.fillableShares.toFixed(2)} @ avg ${cents(s.avgFillPrice)} (${s.slippagePct.toFixed(2)}% vs touch)`
+    : "Fills now: none — rests on the book");
+  lines.push("", `Answer within ${seconds}s.`);
+  return lines.join("\n");
+}
+
+/** One streamed answer: tool lines on top, the growing text below, edited in place. */
+class StreamingReply {
+  private tools = new Map<string, string>();
+  private text = "";
+  private messageIds: number[] = [];
+  private sent: string[] = [];
+  private lastFlush = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(private bot: TelegramBot, private chatId: number) {}
+
+  start(placeholder: string): Promise<void> {
+    this.text = placeholder;
+    return this.flush();
+  }
+
+  setTool(call: ToolCall): void {
+    this.tools.set(call.id, formatToolLine(call));
+    this.schedule();
+  }
+
+  append(chunk: string, replacePlaceholder: boolean): void {
+    this.text = replacePlaceholder ? chunk : this.text + chunk;
+    this.schedule();
+  }
+
+  finish(finalText: string): Promise<void> {
+    this.text = finalText;
+    return this.flush();
+  }
+
+  private render(): string {
+    const tools = [...this.tools.values()].join("\n");
+    const body = this.text.trim() || "…";
+    return tools ? `${tools}\n\n${body}` : body;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastFlush + EDIT_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, wait);
+  }
+
+  private flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Edits are chained so a slow request can't land after a newer one
+    this.chain = this.chain.then(async () => {
+      this.lastFlush = Date.now();
+      const parts = splitMessage(this.render());
+      for (let i = 0; i < parts.length; i++) {
+        if (this.sent[i] === parts[i]) continue;
+        const id = this.messageIds[i];
+        if (id === undefined) {
+          const posted = await this.bot.postMessage(parts[i], this.chatId, null);
+          if (posted === null) return;
+          this.messageIds.push(posted);
+        } else {
+          await this.bot.editMessage(this.chatId, id, { text: parts[i] }, null);
+        }
+        this.sent[i] = parts[i];
+      }
+    });
+    return this.chain;
+  }
+}
+
+export class TelegramAgentBridge {
+  private queue: Promise<void> = Promise.resolve();
+  private waiting = 0;
+  private activeChatId: number | null = null;
+  private activeUserId: number | undefined;
+  private ready: Promise<void> | null = null;
+  // Who may answer each approval: the user whose message started the run, in that chat
+  private approvalOwners = new Map<string, { chatId: number; userId?: number }>();
+
+  constructor(private bot: TelegramBot) {
+    // Approvals only come from agent runs here, and runs are serialized, so
+    // every request belongs to the chat currently being served
+    onApprovalRequested((approval) => {
+      if (this.activeChatId === null) return;
+      for (const id of this.approvalOwners.keys()) {
+        if (!approvalState.pending.some((p) => p.id === id)) this.approvalOwners.delete(id);
+      }
+      this.approvalOwners.set(approval.id, { chatId: this.activeChatId, userId: this.activeUserId });
+      void this.bot.sendMessage(formatApproval(approval), "Markdown", this.activeChatId, [[
+        { text: "✅ Approve", callback_data: `ag:${approval.id}:y` },
+        { text: "✖ Reject", callback_data: `ag:${approval.id}:n` },
+      ]]);
+    });
+  }
+
+  /**
+   * Queue a free-text message for the agent. Returns immediately: the polling
+   * loop must keep running so approval button presses can arrive mid-run.
+   */
+  handle(text: string, chatId: number, userId?: number): Promise<void> {
+    if (this.activeChatId !== null || this.waiting > 0) {
+      void this.bot.sendMessage("⏳ Queued — the agent is busy with another request.", "Markdown", chatId);
+    }
+    this.waiting++;
+    this.queue = this.queue
+      .then(() => {
+        this.waiting--;
+        return this.run(text, chatId, userId);
+      })
+      .catch((e) => console.error("Telegram agent error:", e));
+    return Promise.resolve();
+  }
+
+  reset(chatId: number): boolean {
+    const session = AgentSession.listAll().find((s) => s.metadata.channel === channelKey(chatId));
+    if (!session) return false;
+    AgentSession.remove(session.id);
+    return true;
+  }
+
+  isBusy(): boolean {
+    return this.activeChatId !== null;
+  }
+
+  /** Only the user who asked, in the chat they asked from, may approve or reject. */
+  isApprovalOwner(approvalId: string, chatId: number, userId?: number): boolean {
+    const owner = this.approvalOwners.get(approvalId);
+    return !!owner && userId !== undefined && owner.chatId === chatId && owner.userId === userId;
+  }
+
+  forgetApproval(approvalId: string): void {
+    this.approvalOwners.delete(approvalId);
+  }
+
+  /** Wallet and agent limits are loaded once, on the first message. */
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      loadAgentLimits();
+      this.ready = initializeWallet().catch((e) => console.error("Telegram agent wallet init failed:", e));
+    }
+    return this.ready;
+  }
+
+  private async run(text: string, chatId: number, userId?: number): Promise<void> {
+    this.activeChatId = chatId;
+    this.activeUserId = userId;
+    const reply = new StreamingReply(this.bot, chatId);
+    try {
+      await reply.start("🤔 Thinking…");
+      await this.ensureReady();
+
+      const session = AgentSession.forChannel(channelKey(chatId));
+      const tools = buildReasoningTools(
+        session.id,
+        (t) => !EXCLUDED_CATEGORIES.has(t.category) && !EXCLUDED_TOOLS.has(t.name),
+      );
+
+      let streamed = false;
+      const onChunk: ReasoningChunkCallback = (chunk) => {
+        if ((chunk.type === "tool_call" || chunk.type === "tool_result") && chunk.toolCall) {
+          reply.setTool(chunk.toolCall);
+        } else if (chunk.type === "content" && chunk.text) {
+          reply.append(chunk.text, !streamed);
+          streamed = true;
+        }
+      };
+
+      const { response } = await runReasoningLoop(text, tools, onChunk, {
+        sessionId: session.id,
+        instructions: TELEGRAM_INSTRUCTIONS,
+      });
+      await reply.finish(response || "(no answer)");
+    } catch (e) {
+      await reply.finish(`⚠️ ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      this.activeChatId = null;
+      this.activeUserId = undefined;
+    }
+  }
+}
+
+export function registerAgentCommands(bot: TelegramBot, agent: TelegramAgentBridge): void {
+  bot.registerCommand({
+    command: "reset",
+    description: "Start a new agent conversation",
+    handler: async (_args, chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_ALLOWED;
+      if (agent.isBusy()) return "The agent is still answering; try again when it's done.";
+      return agent.reset(chatId) ? "🧹 Started a new agent conversation." : "No agent conversation in this chat yet.";
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "ag",
+    handler: async (payload, chatId, userId) => {
+      const [id, answer] = payload.split(":");
+      if (!id || !bot.isTrader(userId) || !agent.isApprovalOwner(id, chatId, userId)) return null;
+      const approved = answer === "y";
+      agent.forgetApproval(id);
+      if (!resolveApproval(id, approved)) {
+        return { text: "⌛ This approval expired or was already answered." };
+      }
+      return { text: approved ? "✅ Approved — the agent is sending it." : "✖ Rejected — nothing was sent." };
+    },
+  });
+}
@@ -1,6 +1,19 @@
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
+import { registerDataCommands, NOT_ALLOWED } from "./commands";
+import { TelegramNotifier, registerNotificationCommands } from "./notifier";
+import { registerTradingCommands } from "./trading";
+import { TelegramAgentBridge, registerAgentCommands } from "./agent-bridge";
+import { unlockWalletFromEnv } from "../auth/wallet";
+
+export type NotificationCategory = "alerts" | "fills" | "scanner";
+
+export interface NotificationSettings {
+  mutedUntil: Partial<Record<NotificationCategory, number>>;  // unix ms, or 0 = until /unmute
+  maxPerMinute: number;
+  digest: boolean;       // batch non-urgent events into an hourly message
+}
 
 export interface TelegramConfig {
   botToken: string;
@@ -8,17 +21,26 @@ export interface TelegramConfig {
   enabled: boolean;
   pollingInterval?: number;
   allowedUsers?: string[];
+  notifications?: NotificationSettings;
 }
 
+export type InlineKeyboard = { text: string; callback_data: string }[][];
+
 export interface TelegramMessage {
   chat_id: string | number;
   text: string;
   parse_mode?: "Markdown" | "HTML";
   reply_markup?: {
-    inline_keyboard: { text: string; callback_data: string }[][];
+    inline_keyboard: InlineKeyboard;
   };
 }
 
+/** Rich command/callback reply: Markdown text plus an optional inline keyboard. */
+export interface TelegramReply {
+  text: string;
+  keyboard?: InlineKeyboard;
+}
+
 export interface TelegramUpdate {
   update_id: number;
   message?: {
@@ -26,17 +48,29 @@ export interface TelegramUpdate {
     text: string;
     from?: { id: number; username?: string };
   };
-  callback_query?: {
-    id: string;
-    message?: { chat: { id: number } };
-    data: string;
-  };
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from?: { id: number; username?: string };
+  message?: { message_id: number; chat: { id: number } };
+  data: string;
 }
 
 export interface TelegramCommand {
   command: string;
   description: string;
-  handler: (args: string[], chatId: number, userId?: number) => Promise<string | null>;
+  handler: (args: string[], chatId: number, userId?: number) => Promise<string | TelegramReply | null>;
+}
+
+/**
+ * Inline-button handler. `callback_data` is "<prefix>:<payload>"; the reply
+ * replaces the message the button was attached to.
+ */
+export interface TelegramCallback {
+  prefix: string;
+  handler: (payload: string, chatId: number, userId?: number) => Promise<TelegramReply | null>;
 }
 
 const DEFAULT_CONFIG: TelegramConfig = {
@@ -75,7 +109,8 @@ export class TelegramBot {
   private polling: boolean = false;
   private lastUpdateId: number = 0;
   private commands: Map<string, TelegramCommand> = new Map();
-  private messageHandler?: (text: string, chatId: number) => Promise<void>;
+  private callbacks: Map<string, TelegramCallback> = new Map();
+  private messageHandler?: (text: string, chatId: number, userId?: number) => Promise<void>;
   private pollingInterval: number = 5000;
 
   constructor(config?: Partial<TelegramConfig>) {
@@ -96,13 +131,24 @@ export class TelegramBot {
       command: "help",
       description: "Show help",
       handler: async () => `Available commands:
-/markets - List top markets
-/market <id> - Get market details
+/markets [page] - List top markets
+/market <id|#> - Get market details
 /portfolio - View your positions
-/orders - View recent orders
-/alerts - Manage alerts
+/orders - View open orders
+/alerts - List alerts (/alerts dismiss|delete <#>)
 /settings - Bot settings
-/stop - Stop polling`,
+/buy <market> <outcome> <price> <shares> - Buy (confirm to send)
+/sell <market> <outcome> <price> <shares> - Sell (confirm to send)
+/cancel <orderId> - Cancel an order
+/cancelall - Cancel all open orders
+/notify - Push notification status
+/mute <category> [min] - Mute alerts, fills or scanner
+/unmute <category> - Unmute a category
+/digest on|off - Hourly digest for non-urgent events
+/reset - Start a new agent conversation
+/stop - Stop polling
+
+Account data, trading and the agent need your user ID in allowedUsers. Any other message goes to the trading agent; orders it wants to place or cancel need your approval.`,
     });
 
     this.registerCommand({
@@ -119,11 +165,20 @@ export class TelegramBot {
     this.commands.set(command.command, command);
   }
 
-  setMessageHandler(handler: (text: string, chatId: number) => Promise<void>): void {
+  registerCallback(callback: TelegramCallback): void {
+    this.callbacks.set(callback.prefix, callback);
+  }
+
+  setMessageHandler(handler: (text: string, chatId: number, userId?: number) => Promise<void>): void {
     this.messageHandler = handler;
   }
 
-  async sendMessage(text: string, parseMode: "Markdown" | "HTML" = "Markdown", chatId?: number): Promise<boolean> {
+  async sendMessage(
+    text: string,
+    parseMode: "Markdown" | "HTML" = "Markdown",
+    chatId?: number,
+    keyboard?: InlineKeyboard,
+  ): Promise<boolean> {
     const targetChatId = chatId || this.config.chatId;
     if (!targetChatId) {
       console.log("Telegram: No chat ID configured");
@@ -138,6 +193,7 @@ export class TelegramBot {
           chat_id: targetChatId,
           text,
           parse_mode: parseMode,
+          ...(keyboard ? { reply_markup: { inline_keyboard: keyboard } } : {}),
         } as TelegramMessage),
       });
 
@@ -148,6 +204,58 @@ export class TelegramBot {
     }
   }
 
+  /** Like sendMessage, but resolves to the new message ID so it can be edited later. Null parse mode sends plain text. */
+  async postMessage(
+    text: string,
+    chatId: number,
+    parseMode: "Markdown" | "HTML" | null = "Markdown",
+    keyboard?: InlineKeyboard,
+  ): Promise<number | null> {
+    try {
+      const response = await fetch(`${this.apiUrl}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          ...(parseMode ? { parse_mode: parseMode } : {}),
+          ...(keyboard ? { reply_markup: { inline_keyboard: keyboard } } : {}),
+        }),
+      });
+      if (!response.ok) return null;
+      const data = await response.json() as { result?: { message_id?: number } };
+      return data.result?.message_id ?? null;
+    } catch (e) {
+      console.error("Failed to send Telegram message:", e);
+      return null;
+    }
+  }
+
+  async editMessage(
+    chatId: number,
+    messageId: number,
+    reply: TelegramReply,
+    parseMode: "Markdown" | "HTML" | null = "Markdown",
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.apiUrl}/editMessageText`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          message_id: messageId,
+          text: reply.text,
+          ...(parseMode ? { parse_mode: parseMode } : {}),
+          reply_markup: { inline_keyboard: reply.keyboard ?? [] },
+        }),
+      });
+      return response.ok;
+    } catch (e) {
+      console.error("Failed to edit Telegram message:", e);
+      return false;
+    }
+  }
+
   async sendMarketList(markets: { question: string; volume: number; url?: string }[], chatId?: number): Promise<boolean> {
     const text = markets
       .slice(0, 10)
@@ -250,7 +358,7 @@ export class TelegramBot {
               const text = update.message.text;
               const userId = update.message.from?.id;
 
-              if (this.config.allowedUsers && !this.config.allowedUsers.includes(String(userId))) {
+              if (!this.isAllowed(userId)) {
                 continue;
               }
 
@@ -274,10 +382,22 @@ export class TelegramBot {
     this.polling = false;
   }
 
+  private isAllowed(userId?: number): boolean {
+    return !this.config.allowedUsers || this.config.allowedUsers.includes(String(userId));
+  }
+
+  /**
+   * Trading, the agent and account data need an explicit allow-list; an open
+   * bot only serves public market data.
+   */
+  isTrader(userId?: number): boolean {
+    return userId !== undefined && !!this.config.allowedUsers?.includes(String(userId));
+  }
+
   private async handleMessage(text: string, chatId: number, userId?: number): Promise<void> {
     if (!text.startsWith("/")) {
       if (this.messageHandler) {
-        await this.messageHandler(text, chatId);
+        await this.messageHandler(text, chatId, userId);
       }
       return;
     }
@@ -286,16 +406,23 @@ export class TelegramBot {
     const command = parts[0]?.toLowerCase();
     const args = parts.slice(1);
 
-    const cmd = this.commands.get(command || "");
+    // Strip "@botname" suffixes used in group chats
+    const cmd = this.commands.get((command || "").split("@")[0]);
     if (cmd) {
-      const response = await cmd.handler(args, chatId, userId);
-      if (response) {
-        await this.sendMessage(response, "Markdown", chatId);
+      try {
+        const response = await cmd.handler(args, chatId, userId);
+        if (typeof response === "string") {
+          await this.sendMessage(response, "Markdown", chatId);
+        } else if (response) {
+          await this.sendMessage(response.text, "Markdown", chatId, response.keyboard);
+        }
+      } catch (e) {
+        await this.sendMessage(`⚠️ ${e instanceof Error ? e.message : String(e)}`, "Markdown", chatId);
       }
     }
   }
 
-  private async handleCallbackQuery(query: { id: string; message?: { chat: { id: number } }; data: string }): Promise<void> {
+  private async handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
     try {
       await fetch(`${this.apiUrl}/answerCallbackQuery`, {
         method: "POST",
@@ -303,6 +430,24 @@ export class TelegramBot {
         body: JSON.stringify({ callback_query_id: query.id }),
       });
     } catch {}
+
+    const chatId = query.message?.chat.id;
+    if (!chatId || !this.isAllowed(query.from?.id)) return;
+
+    const sep = query.data.indexOf(":");
+    const prefix = sep >= 0 ? query.data.slice(0, sep) : query.data;
+    const payload = sep >= 0 ? query.data.slice(sep + 1) : "";
+    const callback = this.callbacks.get(prefix);
+    if (!callback) return;
+
+    try {
+      const reply = await callback.handler(payload, chatId, query.from?.id);
+      if (!reply) return;
+      const edited = query.message ? await this.editMessage(chatId, query.message.message_id, reply) : false;
+      if (!edited) await this.sendMessage(reply.text, "Markdown", chatId, reply.keyboard);
+    } catch (e) {
+      await this.sendMessage(`⚠️ ${e instanceof Error ? e.message : String(e)}`, "Markdown", chatId);
+    }
   }
 
   isPolling(): boolean {
@@ -312,6 +457,16 @@ export class TelegramBot {
   getCommands(): TelegramCommand[] {
     return Array.from(this.commands.values());
   }
+
+  getConfig(): TelegramConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(patch: Partial<TelegramConfig>): void {
+    this.config = { ...this.config, ...patch };
+    this.pollingInterval = this.config.pollingInterval || 5000;
+    saveTelegramConfig(this.config);
+  }
 }
 
 let botInstance: TelegramBot | null = null;
@@ -333,7 +488,31 @@ export async function runTelegramBot(config?: Partial<TelegramConfig>): Promise<
     console.error("Telegram bot token not configured. Set it in telegram.json or pass it as argument.");
     process.exit(1);
   }
+  try {
+    await unlockWalletFromEnv();
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
 
+  registerDataCommands(bot);
+  registerTradingCommands(bot);
+  const notifier = new TelegramNotifier(bot);
+  registerNotificationCommands(bot, notifier);
+  const agent = new TelegramAgentBridge(bot);
+  registerAgentCommands(bot, agent);
+  bot.setMessageHandler(async (text, chatId, userId) => {
+    if (!bot.isTrader(userId)) {
+      await bot.sendMessage(NOT_ALLOWED, "Markdown", chatId);
+      return;
+    }
+    await agent.handle(text, chatId, userId);
+  });
+  notifier.start();
   await bot.startPolling();
   return bot;
 }
+
+if (import.meta.main) {
+  await runTelegramBot();
+}
@@ -0,0 +1,385 @@
+/**
+ * Data-backed Telegram commands — markets, portfolio, orders, alerts and
+ * settings, rendered as monospace tables with inline paging/drill-down buttons.
+ */
+
+import type { InlineKeyboard, TelegramBot, TelegramReply } from "./bot";
+import { getMarkets, getMarketDetails } from "../api/polymarket";
+import { fetchPositions, calculatePortfolioSummary } from "../api/positions";
+import { fetchOpenOrders } from "../api/orders";
+import { getFunderAddress, loadWalletConfig } from "../auth/wallet";
+import { alertsState, loadAlerts, deleteAlert, dismissAlert } from "../hooks/useAlerts";
+import { formatVolume, formatChange, padLeft, padRight } from "../utils/format";
+import { Market } from "../types/market";
+import { PriceAlert, AlertMetric } from "../types/alerts";
+
+const PAGE_SIZE = 8;
+const MARKET_LIST_TTL_MS = 60_000;
+
+// Paging reuses one snapshot so pages don't shift under the user
+let marketListCache: { markets: Market[]; fetchedAt: number } | null = null;
+
+async function getMarketList(forceRefresh: boolean = false): Promise<Market[]> {
+  if (!forceRefresh && marketListCache && Date.now() - marketListCache.fetchedAt < MARKET_LIST_TTL_MS) {
+    return marketListCache.markets;
+  }
+  const markets = await getMarkets(50);
+  marketListCache = { markets, fetchedAt: Date.now() };
+  return markets;
+}
+
+// ─── formatting ──────────────────────────────────────────────────────────────
+
+/** Escape legacy-Markdown entities in free text (titles, outcome names). */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, "\\$1");
+}
+
+function clip(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + "…" : text;
+}
+
+export function cents(price: number): string {
+  return `${(price * 100).toFixed(1)}¢`;
+}
+
+export function usd(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+/**
+ * Monospace table inside a code block. `numeric` columns are right-aligned.
+ * Backticks are stripped from cells so they can't close the block early.
+ */
+export function formatTable(headers: string[], rows: string[][], numeric: boolean[] = []): string {
+  const clean = rows.map((row) => row.map((cell) => cell.replace(/`/g, "'")));
+  const widths = headers.map((h, i) => Math.max(h.length, ...clean.map((row) => (row[i] ?? "").length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (numeric[i] ? padLeft(cell, widths[i]) : padRight(cell, widths[i]))).join("  ").trimEnd();
+  return ["```", line(headers), widths.map((w) => "─".repeat(w)).join("  "), ...clean.map(line), "```"].join("\n");
+}
+
+function pageCount(total: number): number {
+  return Math.max(1, Math.ceil(total / PAGE_SIZE));
+}
+
+function clampPage(page: number, total: number): number {
+  return Math.min(Math.max(0, Number.isFinite(page) ? page : 0), pageCount(total) - 1);
+}
+
+function pagerRow(prefix: string, page: number, total: number): { text: string; callback_data: string }[] {
+  const pages = pageCount(total);
+  const row: { text: string; callback_data: string }[] = [];
+  if (page > 0) row.push({ text: "◀ Prev", callback_data: `${prefix}:${page - 1}` });
+  row.push({ text: `🔄 ${page + 1}/${pages}`, callback_data: `${prefix}:${page}:r` });
+  if (page < pages - 1) row.push({ text: "Next ▶", callback_data: `${prefix}:${page + 1}` });
+  return row;
+}
+
+// ─── markets ─────────────────────────────────────────────────────────────────
+
+/** A market from the current /markets listing, addressed by its "#" (1-based). */
+export function listedMarket(ref: string): Market | undefined {
+  const index = Number.parseInt(ref, 10);
+  if (String(index) !== ref || index < 1 || !marketListCache) return undefined;
+  return marketListCache.markets[index - 1];
+}
+
+async function marketListReply(page: number, forceRefresh: boolean = false): Promise<TelegramReply> {
+  const markets = await getMarketList(forceRefresh);
+  if (markets.length === 0) return { text: "📊 *Top Markets*\n\nNo markets found." };
+
+  const current = clampPage(page, markets.length);
+  const start = current * PAGE_SIZE;
+  const slice = markets.slice(start, start + PAGE_SIZE);
+
+  const table = formatTable(
+    ["#", "Market", "Price", "24h", "Vol 24h"],
+    slice.map((m, i) => [
+      String(start + i + 1),
+      clip(m.title, 28),
+      m.outcomes[0] ? cents(m.outcomes[0].price) : "—",
+      formatChange(m.change24h),
+      formatVolume(m.volume24h),
+    ]),
+    [true, false, true, true, true],
+  );
+
+  // Number buttons drill into the market; they carry the page for "Back"
+  const drill = slice.map((m, i) => ({ text: String(start + i + 1), callback_data: `mkt:${m.id}:${current}` }));
+  const keyboard: InlineKeyboard = [drill.slice(0, 4), drill.slice(4), pagerRow("mkts", current, markets.length)]
+    .filter((row) => row.length > 0);
+
+  return { text: `📊 *Top Markets* — by 24h volume\n\n${table}`, keyboard };
+}
+
+async function marketDetailReply(marketId: string, backPage?: number): Promise<TelegramReply> {
+  const market = await getMarketDetails(marketId);
+  if (!market) return { text: `Market \`${marketId.replace(/`/g, "")}\` not found.` };
+
+  const table = formatTable(
+    ["Outcome", "Price", "24h", "Vol 24h"],
+    market.outcomes.map((o) => [clip(o.title, 20), cents(o.price), formatChange(o.change24h), formatVolume(o.volume24h)]),
+    [false, true, true, true],
+  );
+
+  const meta = [
+    `Volume: ${formatVolume(market.volume)}  ·  24h: ${formatVolume(market.volume24h)}`,
+    `Liquidity: ${formatVolume(market.liquidity)}`,
+    market.resolutionDate ? `Resolves: ${market.resolutionDate.toISOString().slice(0, 10)}` : null,
+    market.closed ? "Status: closed" : null,
+    `ID: \`${market.id}\``,
+  ].filter(Boolean).join("\n");
+
+  const nav: { text: string; callback_data: string }[] = [];
+  if (backPage !== undefined) nav.push({ text: "◀ Back", callback_data: `mkts:${backPage}` });
+  nav.push({ text: "🔄 Refresh", callback_data: `mkt:${market.id}:${backPage ?? ""}` });
+
+  return { text: `🎯 *${escapeMarkdown(market.title)}*\n\n${meta}\n\n${table}`, keyboard: [nav] };
+}
+
+// ─── portfolio / orders ──────────────────────────────────────────────────────
+
+const NO_WALLET = "No wallet connected. Connect one in the TUI (w) first.";
+export const NOT_ALLOWED = "⛔ Account data and the agent are only available to user IDs in `allowedUsers` (telegram.json).";
+
+async function portfolioReply(page: number): Promise<TelegramReply> {
+  const wallet = loadWalletConfig();
+  if (!wallet?.address) return { text: NO_WALLET };
+  const address = getFunderAddress(wallet);
+
+  const positions = (await fetchPositions(address))
+    .filter((p) => p.size > 0)
+    .sort((a, b) => b.currentValue - a.currentValue);
+  const summary = calculatePortfolioSummary(positions);
+  const header =
+    `💼 *Portfolio*\n\n` +
+    `Value: ${usd(summary.totalValue)}  ·  P&L: ${summary.totalCashPnl >= 0 ? "🟢 +" : "🔴 "}${usd(summary.totalCashPnl)} (${formatChange(summary.totalPercentPnl)})\n` +
+    `Positions: ${summary.positionCount}`;
+  if (positions.length === 0) return { text: `${header}\n\nNo open positions.` };
+
+  const current = clampPage(page, positions.length);
+  const slice = positions.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const table = formatTable(
+    ["Market", "Side", "Shares", "Avg", "Now", "Value", "P&L"],
+    slice.map((p) => [
+      clip(p.title, 22),
+      clip(p.outcome, 6),
+      p.size.toFixed(1),
+      cents(p.avgPrice),
+      cents(p.curPrice),
+      usd(p.currentValue),
+      `${p.cashPnl >= 0 ? "+" : ""}${usd(p.cashPnl)}`,
+    ]),
+    [false, false, true, true, true, true, true],
+  );
+
+  return { text: `${header}\n\n${table}`, keyboard: [pagerRow("pf", current, positions.length)] };
+}
+
+async function ordersReply(page: number): Promise<TelegramReply> {
+  if (!loadWalletConfig()?.address) return { text: NO_WALLET };
+
+  const orders = await fetchOpenOrders();
+  if (orders.length === 0) return { text: "📋 *Open Orders*\n\nNo open orders." };
+
+  const current = clampPage(page, orders.length);
+  const slice = orders.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const table = formatTable(
+    ["ID", "Side", "Price", "Size", "Filled", "Market"],
+    slice.map((o) => [
+      o.orderId.slice(0, 10),
+      o.side,
+      cents(o.price),
+      o.originalSize.toFixed(1),
+      o.sizeMatched.toFixed(1),
+      clip([o.marketTitle, o.outcomeTitle].filter(Boolean).join(" ") || o.tokenId, 22),
+    ]),
+    [false, false, true, true, true, false],
+  );
+
+  return { text: `📋 *Open Orders* (${orders.length})\n\n${table}`, keyboard: [pagerRow("ord", current, orders.length)] };
+}
+
+// ─── alerts ──────────────────────────────────────────────────────────────────
+
+/** Metric value as shown in alert conditions: cents, percent or dollars. */
+export function formatMetricValue(metric: AlertMetric, value: number): string {
+  return metric === "price" ? cents(value) : metric === "change24h" ? formatChange(value) : formatVolume(value);
+}
+
+export function formatAlertCondition(alert: Pick<PriceAlert, "metric" | "condition" | "threshold">): string {
+  const op =
+    alert.condition === "crossesAbove" ? "x>" :
+    alert.condition === "crossesBelow" ? "x<" :
+    alert.condition === "below" ? "<=" : ">=";
+  const metric = alert.metric === "price" ? "" : alert.metric === "change24h" ? "24h " : alert.metric === "volume24h" ? "vol " : "liq ";
+  return `${metric}${op} ${formatMetricValue(alert.metric, alert.threshold)}`;
+}
+
+function alertsReply(page: number): TelegramReply {
+  // The TUI owns alerts.json; always read the latest copy
+  loadAlerts();
+  const alerts = alertsState.alerts;
+  if (alerts.length === 0) return { text: "🔔 *Alerts*\n\nNo alerts. Create them in the TUI (z)." };
+
+  const current = clampPage(page, alerts.length);
+  const start = current * PAGE_SIZE;
+  const slice = alerts.slice(start, start + PAGE_SIZE);
+  const table = formatTable(
+    ["#", "Market", "Outcome", "Condition", "Status"],
+    slice.map((a, i) => [
+      String(start + i + 1),
+      clip(a.marketTitle, 22),
+      clip(a.outcomeTitle, 8),
+      formatAlertCondition(a),
+      a.status,
+    ]),
+    [true, false, false, false, false],
+  );
+
+  const active = alerts.filter((a) => a.status === "active").length;
+  const drill = slice.map((a, i) => ({ text: `${start + i + 1} ›`, callback_data: `mkt:${a.marketId}` }));
+  const keyboard: InlineKeyboard = [drill.slice(0, 4), drill.slice(4), pagerRow("alr", current, alerts.length)]
+    .filter((row) => row.length > 0);
+
+  return {
+    text: `🔔 *Alerts* — ${active} active\n\n${table}\n/alerts dismiss <#> · /alerts delete <#>`,
+    keyboard,
+  };
+}
+
+function resolveAlert(ref: string | undefined): PriceAlert | null {
+  if (!ref) return null;
+  loadAlerts();
+  const index = Number.parseInt(ref, 10);
+  if (String(index) === ref && index >= 1) return alertsState.alerts[index - 1] ?? null;
+  return alertsState.alerts.find((a) => a.id === ref) ?? null;
+}
+
+// ─── registration ────────────────────────────────────────────────────────────
+
+function parsePage(payload: string): { page: number; refresh: boolean } {
+  const [page, flag] = payload.split(":");
+  return { page: Number.parseInt(page ?? "0", 10) || 0, refresh: flag === "r" };
+}
+
+export function registerDataCommands(bot: TelegramBot): void {
+  bot.registerCommand({
+    command: "markets",
+    description: "List top markets",
+    handler: async (args) => marketListReply((Number.parseInt(args[0] ?? "1", 10) || 1) - 1),
+  });
+
+  bot.registerCommand({
+    command: "market",
+    description: "Get market details",
+    handler: async (args) => {
+      const ref = args[0]?.trim();
+      if (!ref) return "Usage: /market <id> (or a # from /markets)";
+      // Small numbers refer to the current /markets listing
+      const listed = listedMarket(ref);
+      if (listed) return marketDetailReply(listed.id, Math.floor((Number(ref) - 1) / PAGE_SIZE));
+      return marketDetailReply(ref);
+    },
+  });
+
+  bot.registerCommand({
+    command: "portfolio",
+    description: "View your positions",
+    handler: async (args, _chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_ALLOWED;
+      return portfolioReply((Number.parseInt(args[0] ?? "1", 10) || 1) - 1);
+    },
+  });
+
+  bot.registerCommand({
+    command: "orders",
+    description: "View open orders",
+    handler: async (args, _chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_ALLOWED;
+      return ordersReply((Number.parseInt(args[0] ?? "1", 10) || 1) - 1);
+    },
+  });
+
+  bot.registerCommand({
+    command: "alerts",
+    description: "Manage alerts",
+    handler: async (args, _chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_ALLOWED;
+      const action = args[0]?.toLowerCase();
+      if (action === "dismiss" || action === "delete") {
+        const alert = resolveAlert(args[1]);
+        if (!alert) return `Usage: /alerts ${action} <#>`;
+        if (action === "dismiss") dismissAlert(alert.id);
+        else deleteAlert(alert.id);
+        return `${action === "dismiss" ? "Dismissed" : "Deleted"} alert: ${escapeMarkdown(alert.marketTitle)} — ${escapeMarkdown(alert.outcomeTitle)} ${formatAlertCondition(alert)}`;
+      }
+      return alertsReply((Number.parseInt(action ?? "1", 10) || 1) - 1);
+    },
+  });
+
+  bot.registerCommand({
+    command: "settings",
+    description: "Bot settings",
+    handler: async (args, chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_ALLOWED;
+      const [key, value] = [args[0]?.toLowerCase(), args[1]];
+      if (key === "chat") {
+        bot.updateConfig({ chatId: String(chatId) });
+        return `Default chat set to \`${chatId}\`.`;
+      }
+      if (key === "interval") {
+        const seconds = Number.parseFloat(value ?? "");
+        if (!Number.isFinite(seconds) || seconds < 1 || seconds > 300) return "Usage: /settings interval <1-300 seconds>";
+        bot.updateConfig({ pollingInterval: Math.round(seconds * 1000) });
+        return `Polling interval set to ${seconds}s.`;
+      }
+
+      const config = bot.getConfig();
+      const wallet = loadWalletConfig()?.address;
+      const table = formatTable(
+        ["Setting", "Value"],
+        [
+          ["Default chat", config.chatId ?? "not set"],
+          ["This chat", String(chatId)],
+          ["Polling", `${(config.pollingInterval ?? 5000) / 1000}s`],
+          ["Allowed users", config.allowedUsers?.length ? config.allowedUsers.join(", ") : "everyone"],
+          ["Wallet", wallet ? `${wallet.slice(0, 6)}…${wallet.slice(-4)}` : "not connected"],
+        ],
+      );
+      return `⚙️ *Settings*\n\n${table}\n/settings chat · /settings interval <sec>`;
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "mkts",
+    handler: async (payload) => {
+      const { page, refresh } = parsePage(payload);
+      return marketListReply(page, refresh);
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "mkt",
+    handler: async (payload) => {
+      const [marketId, page] = payload.split(":");
+      if (!marketId) return null;
+      const backPage = page ? Number.parseInt(page, 10) : undefined;
+      return marketDetailReply(marketId, Number.isFinite(backPage) ? backPage : undefined);
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "pf",
+    handler: async (payload, _chatId, userId) => (bot.isTrader(userId) ? portfolioReply(parsePage(payload).page) : null),
+  });
+  bot.registerCallback({
+    prefix: "ord",
+    handler: async (payload, _chatId, userId) => (bot.isTrader(userId) ? ordersReply(parsePage(payload).page) : null),
+  });
+  bot.registerCallback({
+    prefix: "alr",
+    handler: async (payload, _chatId, userId) => (bot.isTrader(userId) ? alertsReply(parsePage(payload).page) : null),
+  });
+}
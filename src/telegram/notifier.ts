@@ -0,0 +1,343 @@
+/**
+ * Telegram push — triggered alerts, order fills and scanner hits are sent to
+ * the configured chat, subject to per-category mutes, a per-minute rate limit
+ * and an optional hourly digest for non-urgent events.
+ */
+
+import type { NotificationCategory, NotificationSettings, TelegramBot } from "./bot";
+import { escapeMarkdown, formatAlertCondition, formatMetricValue } from "./commands";
+import { getMarkets } from "../api/polymarket";
+import { getApiCredentials } from "../api/orders";
+import { UserChannelClient } from "../api/user-channel";
+import { loadWalletConfig } from "../auth/wallet";
+import { MarketScanner, MarketInfo, ScanResult } from "../automation/scanner";
+import { evaluateAlerts, onAlertTriggered, reloadAlertsIfChanged, setAlertsState, AlertHistoryEntry } from "../hooks/useAlerts";
+import { applyUserOrderEvent, applyUserTradeEvent, onFill, refreshOrders, FillNotice } from "../hooks/useOrders";
+import { setMarkets } from "../state";
+import { Market } from "../types/market";
+
+export type NotificationSeverity = "low" | "medium" | "high";
+
+interface PushEvent {
+  category: NotificationCategory;
+  severity: NotificationSeverity;
+  text: string;          // Markdown, one or a few lines
+  at: number;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ["alerts", "fills", "scanner"];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  mutedUntil: {},
+  maxPerMinute: 20,
+  digest: false,
+};
+
+const MONITOR_INTERVAL_MS = 30_000;
+const DIGEST_INTERVAL_MS = 60 * 60_000;
+const RATE_WINDOW_MS = 60_000;
+// The same scanner finding for a market is pushed at most once per hour
+const SCAN_REPEAT_MS = 60 * 60_000;
+const MAX_DIGEST_LINES = 30;
+
+function toMarketInfo(market: Market): MarketInfo {
+  return {
+    id: market.id,
+    question: market.title,
+    volume: market.volume24h,
+    prices: market.outcomes.map((o) => o.price),
+    outcomes: market.outcomes.map((o) => o.title),
+    liquidity: market.liquidity,
+    endDate: market.resolutionDate?.toISOString(),
+  };
+}
+
+function formatAlertEvent(entry: AlertHistoryEntry): string {
+  return (
+    `🔔 *Alert* — ${escapeMarkdown(entry.marketTitle)}\n` +
+    `${escapeMarkdown(entry.outcomeTitle)} ${formatAlertCondition(entry)} · now ${formatMetricValue(entry.metric, entry.triggeredValue)}`
+  );
+}
+
+function formatFillEvent(fill: FillNotice): string {
+  const label = [fill.marketTitle, fill.outcomeTitle].filter(Boolean).join(" — ") || fill.orderId.slice(0, 12);
+  return (
+    `${fill.side === "BUY" ? "🟢" : "🔴"} *${fill.complete ? "Filled" : "Partial fill"}* — ${escapeMarkdown(label)}\n` +
+    `${fill.side} ${fill.size.toFixed(2)} @ ${(fill.price * 100).toFixed(1)}¢ ($${(fill.size * fill.price).toFixed(2)})`
+  );
+}
+
+function formatScanEvent(result: ScanResult): string {
+  const icon = result.type === "volume_spike" ? "📈" : result.type === "price_movement" ? "⚡" : result.type === "arbitrage" ? "⚖️" : "💧";
+  return `${icon} *Scanner* — ${escapeMarkdown(result.marketTitle)}\n${escapeMarkdown(result.message)}`;
+}
+
+export class TelegramNotifier {
+  private sentAt: number[] = [];
+  private overflow: PushEvent[] = [];
+  private digestQueue: PushEvent[] = [];
+  private scanSeen: Map<string, number> = new Map();
+  private scanner = new MarketScanner();
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private overflowTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private userChannel: UserChannelClient | null = null;
+  private monitoring = false;
+
+  constructor(private bot: TelegramBot) {}
+
+  getSettings(): NotificationSettings {
+    const saved = this.bot.getConfig().notifications;
+    return {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...saved,
+      mutedUntil: { ...(saved?.mutedUntil ?? {}) },
+    };
+  }
+
+  private saveSettings(patch: Partial<NotificationSettings>): void {
+    this.bot.updateConfig({ notifications: { ...this.getSettings(), ...patch } });
+  }
+
+  isMuted(category: NotificationCategory, now: number = Date.now()): boolean {
+    const until = this.getSettings().mutedUntil[category];
+    return until !== undefined && (until === 0 || until > now);
+  }
+
+  /** Mute a category for `minutes`, or until unmuted when omitted. */
+  mute(categories: NotificationCategory[], minutes?: number): void {
+    const mutedUntil = this.getSettings().mutedUntil;
+    const until = minutes && minutes > 0 ? Date.now() + minutes * 60_000 : 0;
+    for (const category of categories) mutedUntil[category] = until;
+    this.saveSettings({ mutedUntil });
+  }
+
+  unmute(categories: NotificationCategory[]): void {
+    const mutedUntil = this.getSettings().mutedUntil;
+    for (const category of categories) delete mutedUntil[category];
+    this.saveSettings({ mutedUntil });
+  }
+
+  setDigest(enabled: boolean): void {
+    this.saveSettings({ digest: enabled });
+    if (!enabled) void this.flushDigest();
+  }
+
+  setRateLimit(maxPerMinute: number): void {
+    this.saveSettings({ maxPerMinute: Math.max(1, Math.round(maxPerMinute)) });
+  }
+
+  getDigestQueueSize(): number {
+    return this.digestQueue.length;
+  }
+
+  /**
+   * Route one event: muted categories are dropped, non-urgent events go to the
+   * digest when it is on, everything else is sent subject to the rate limit.
+   */
+  push(category: NotificationCategory, severity: NotificationSeverity, text: string): void {
+    if (!this.bot.getConfig().chatId || this.isMuted(category)) return;
+    const event: PushEvent = { category, severity, text, at: Date.now() };
+
+    if (this.getSettings().digest && severity !== "high") {
+      this.digestQueue.push(event);
+      return;
+    }
+    this.overflow.push(event);
+    this.drain();
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    this.sentAt = this.sentAt.filter((t) => now - t < RATE_WINDOW_MS);
+    const { maxPerMinute } = this.getSettings();
+
+    while (this.overflow.length > 0 && this.sentAt.length < maxPerMinute) {
+      // A backlog only builds up while limited; deliver it as one message
+      const batch = this.overflow.length > 1 ? this.overflow.splice(0) : this.overflow.splice(0, 1);
+      this.sentAt.push(now);
+      const text = batch.length === 1
+        ? batch[0].text
+        : `📬 *${batch.length} notifications* (rate limited)\n\n${batch.map((e) => e.text).join("\n\n")}`;
+      void this.bot.sendMessage(text.slice(0, 4000));
+    }
+
+    if (this.overflow.length > 0 && !this.overflowTimer) {
+      const wait = Math.max(1_000, RATE_WINDOW_MS - (now - this.sentAt[0]));
+      this.overflowTimer = setTimeout(() => {
+        this.overflowTimer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+
+  private async flushDigest(): Promise<void> {
+    const events = this.digestQueue.splice(0).filter((e) => !this.isMuted(e.category));
+    if (events.length === 0 || !this.bot.getConfig().chatId) return;
+
+    const counts = NOTIFICATION_CATEGORIES
+      .map((c) => [c, events.filter((e) => e.category === c).length] as const)
+      .filter(([, n]) => n > 0)
+      .map(([c, n]) => `${c} ${n}`)
+      .join(" · ");
+    const lines = events
+      .slice(-MAX_DIGEST_LINES)
+      .map((e) => `• ${new Date(e.at).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })} ${e.text.replace(/\n/g, " — ")}`);
+    const more = events.length > MAX_DIGEST_LINES ? `\n…and ${events.length - MAX_DIGEST_LINES} earlier` : "";
+
+    this.sentAt.push(Date.now());
+    await this.bot.sendMessage(`🗞 *Digest* — ${events.length} events (${counts})\n\n${lines.join("\n")}${more}`.slice(0, 4000));
+  }
+
+  /** Scanner findings repeat every pass while a condition holds; push each once per hour. */
+  handleScanResults(results: ScanResult[]): void {
+    const now = Date.now();
+    for (const result of results) {
+      const key = `${result.type}:${result.marketId}`;
+      const last = this.scanSeen.get(key);
+      if (last !== undefined && now - last < SCAN_REPEAT_MS) continue;
+      this.scanSeen.set(key, now);
+      this.push("scanner", result.severity, formatScanEvent(result));
+    }
+  }
+
+  private async pollMarkets(): Promise<void> {
+    if (this.monitoring) return;
+    this.monitoring = true;
+    try {
+      const markets = await getMarkets(50);
+      // Titles for fills are resolved from the shared market list
+      setMarkets(markets);
+      reloadAlertsIfChanged();
+      evaluateAlerts(markets);
+      this.handleScanResults(this.scanner.getAlerts(this.scanner.scanMarkets(markets.map(toMarketInfo)), "low"));
+    } catch (e) {
+      console.error("Telegram monitor error:", e);
+    } finally {
+      this.monitoring = false;
+    }
+  }
+
+  private async startUserChannel(): Promise<void> {
+    if (!loadWalletConfig()?.address) return;
+    try {
+      const creds = await getApiCredentials();
+      // Open orders let partial vs complete fills be told apart
+      await refreshOrders();
+      this.userChannel = new UserChannelClient(creds, {
+        onOrder: applyUserOrderEvent,
+        onTrade: (msg) => applyUserTradeEvent(msg, creds.apiKey),
+        onReconnect: () => void refreshOrders(),
+      });
+      this.userChannel.connect();
+    } catch (e) {
+      console.error("Telegram: fills unavailable:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  start(): void {
+    // Headless: the bell is for the TUI, not the bot's terminal
+    setAlertsState("soundEnabled", false);
+
+    this.unsubscribers.push(
+      onAlertTriggered((entries) => entries.forEach((entry) => this.push("alerts", "high", formatAlertEvent(entry)))),
+      onFill((fill) => this.push("fills", "high", formatFillEvent(fill))),
+    );
+    this.timers.push(
+      setInterval(() => void this.pollMarkets(), MONITOR_INTERVAL_MS),
+      setInterval(() => void this.flushDigest(), DIGEST_INTERVAL_MS),
+    );
+    void this.pollMarkets();
+    void this.startUserChannel();
+  }
+
+  stop(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    if (this.overflowTimer) clearTimeout(this.overflowTimer);
+    this.overflowTimer = null;
+    this.unsubscribers.forEach((off) => off());
+    this.unsubscribers = [];
+    this.userChannel?.disconnect();
+    this.userChannel = null;
+  }
+}
+
+function parseCategories(arg: string | undefined): NotificationCategory[] | null {
+  if (!arg || arg === "all") return NOTIFICATION_CATEGORIES;
+  const category = arg.toLowerCase().replace(/^alert$/, "alerts").replace(/^fill$/, "fills");
+  return (NOTIFICATION_CATEGORIES as string[]).includes(category) ? [category as NotificationCategory] : null;
+}
+
+export function registerNotificationCommands(bot: TelegramBot, notifier: TelegramNotifier): void {
+  bot.registerCommand({
+    command: "notify",
+    description: "Push notification status",
+    handler: async () => {
+      const settings = notifier.getSettings();
+      const now = Date.now();
+      const lines = NOTIFICATION_CATEGORIES.map((category) => {
+        const until = settings.mutedUntil[category];
+        const state = !notifier.isMuted(category, now)
+          ? "on"
+          : until === 0 ? "muted" : `muted until ${new Date(until!).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })}`;
+        return `• ${category}: ${state}`;
+      });
+      const chat = bot.getConfig().chatId;
+      return (
+        `📣 *Notifications*${chat ? "" : " — no default chat, use /settings chat"}\n\n${lines.join("\n")}\n` +
+        `• rate limit: ${settings.maxPerMinute}/min\n` +
+        `• digest: ${settings.digest ? `on (${notifier.getDigestQueueSize()} queued)` : "off"}\n\n` +
+        `/mute <alerts|fills|scanner|all> [minutes] · /unmute <…> · /digest on|off · /ratelimit <n>`
+      );
+    },
+  });
+
+  bot.registerCommand({
+    command: "mute",
+    description: "Mute a notification category",
+    handler: async (args) => {
+      const categories = parseCategories(args[0]);
+      if (!categories) return "Usage: /mute <alerts|fills|scanner|all> [minutes]";
+      const minutes = args[1] ? Number.parseFloat(args[1]) : undefined;
+      if (minutes !== undefined && (!Number.isFinite(minutes) || minutes <= 0)) return "Minutes must be a positive number.";
+      notifier.mute(categories, minutes);
+      return `🔕 Muted ${categories.join(", ")}${minutes ? ` for ${minutes}m` : ""}.`;
+    },
+  });
+
+  bot.registerCommand({
+    command: "unmute",
+    description: "Unmute a notification category",
+    handler: async (args) => {
+      const categories = parseCategories(args[0]);
+      if (!categories) return "Usage: /unmute <alerts|fills|scanner|all>";
+      notifier.unmute(categories);
+      return `🔔 Unmuted ${categories.join(", ")}.`;
+    },
+  });
+
+  bot.registerCommand({
+    command: "digest",
+    description: "Toggle hourly digest for non-urgent events",
+    handler: async (args) => {
+      const arg = args[0]?.toLowerCase();
+      if (arg !== "on" && arg !== "off") return "Usage: /digest on|off";
+      notifier.setDigest(arg === "on");
+      return arg === "on"
+        ? "🗞 Digest on — scanner hits below high severity arrive hourly; alerts and fills stay instant."
+        : "Digest off — queued events sent now.";
+    },
+  });
+
+  bot.registerCommand({
+    command: "ratelimit",
+    description: "Max push messages per minute",
+    handler: async (args) => {
+      const value = Number.parseInt(args[0] ?? "", 10);
+      if (!Number.isFinite(value) || value < 1 || value > 30) return "Usage: /ratelimit <1-30>";
+      notifier.setRateLimit(value);
+      return `Rate limit set to ${value} messages/min.`;
+    },
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Telegram trading — /buy, /sell, /cancel and /cancelall build a preview with
+ * Confirm/Cancel buttons; nothing reaches the CLOB until the allow-listed user
+ * who asked confirms within the expiry window. With paper trading on, the same
+ * commands act on the paper account instead.
+ */
+
+import type { TelegramBot } from "./bot";
+import { cents, usd, escapeMarkdown, formatTable, listedMarket } from "./commands";
+import { getMarketDetails } from "../api/polymarket";
+import { placeOrder, cancelOrder, cancelAllOrders, fetchOpenOrders } from "../api/orders";
+import { feeRateFraction, getFeeRates } from "../api/clob/misc";
+import { getOrderBookEngine } from "../api/orderbook";
+import { loadWalletConfig } from "../auth/wallet";
+import {
+  loadPaperAccount,
+  isPaperTrading,
+  placePaperOrder,
+  cancelPaperOrder,
+  cancelPaperOrders,
+  paperOpenOrders,
+} from "../hooks/usePaperTrading";
+import { Order, OrderSide, PlacedOrder } from "../types/orders";
+
+const CONFIRM_TTL_MS = 60_000;
+const BOOK_DEPTH = 5;
+
+type PendingAction =
+  | { kind: "order"; order: Order }
+  | { kind: "cancel"; order: PlacedOrder | null; orderId: string }
+  | { kind: "cancelall"; count: number };
+
+interface PendingConfirmation {
+  id: string;
+  action: PendingAction;
+  paper: boolean;
+  requestedBy: number;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+function prune(now: number = Date.now()): void {
+  for (const [id, entry] of pending) {
+    if (entry.expiresAt <= now) pending.delete(id);
+  }
+}
+
+function confirmKeyboard(id: string) {
+  return [[
+    { text: "✅ Confirm", callback_data: `tc:${id}` },
+    { text: "✖ Cancel", callback_data: `tx:${id}` },
+  ]];
+}
+
+function queueConfirmation(action: PendingAction, paper: boolean, userId: number): string {
+  prune();
+  const id = Math.random().toString(36).substring(2, 10);
+  pending.set(id, { id, action, paper, requestedBy: userId, expiresAt: Date.now() + CONFIRM_TTL_MS });
+  return id;
+}
+
+/** Re-reads paper.json each time, since paper trading is toggled from the TUI. */
+function paperMode(): boolean {
+  loadPaperAccount();
+  return isPaperTrading();
+}
+
+function modeLine(paper: boolean): string {
+  return paper ? "Mode: 📝 *Paper* — simulated, no real orders" : "Mode: 💸 *Live* — real orders on Polymarket";
+}
+
+const NOT_TRADER = "⛔ Trading from Telegram requires your user ID in `allowedUsers` (telegram.json).";
+const NO_WALLET = "No wallet connected. Connect one in the TUI (w) first.";
+
+/** "0.45", "45c", "45¢" and "45" all mean 45¢. */
+export function parsePriceArg(raw: string): number | null {
+  const trimmed = raw.trim().toLowerCase().replace(/[c¢]$/, "");
+  const value = Number.parseFloat(trimmed);
+  if (!Number.isFinite(value)) return null;
+  const price = value >= 1 ? value / 100 : value;
+  return price > 0 && price < 1 ? price : null;
+}
+
+/** Builds the preview text and the order it describes, or a usage/error string. */
+async function orderPreview(side: OrderSide, args: string[]): Promise<{ text: string; order: Order } | string> {
+  const [marketRef, outcomeRef, priceRaw, sharesRaw] = args;
+  const verb = side.toLowerCase();
+  if (!marketRef || !outcomeRef || !priceRaw || !sharesRaw) {
+    return `Usage: /${verb} <market id|#> <outcome> <price> <shares>\ne.g. /${verb} 3 yes 45c 100`;
+  }
+
+  const price = parsePriceArg(priceRaw);
+  const shares = Number.parseFloat(sharesRaw);
+  if (price === null) return "Price must be between 0 and 1 (e.g. 0.45 or 45c).";
+  if (!Number.isFinite(shares) || shares <= 0) return "Shares must be a positive number.";
+
+  const market = listedMarket(marketRef) ?? await getMarketDetails(marketRef);
+  if (!market) return `Market \`${marketRef.replace(/`/g, "")}\` not found.`;
+
+  const index = Number.parseInt(outcomeRef, 10);
+  const outcome = String(index) === outcomeRef
+    ? market.outcomes[index - 1]
+    : market.outcomes.find((o) => o.title.toLowerCase() === outcomeRef.toLowerCase())
+      ?? market.outcomes.find((o) => o.title.toLowerCase().startsWith(outcomeRef.toLowerCase()));
+  if (!outcome) {
+    return `Outcome "${escapeMarkdown(outcomeRef)}" not found. Options: ${market.outcomes.map((o) => escapeMarkdown(o.title)).join(", ")}`;
+  }
+
+  const [book, feeRates] = await Promise.all([
+    getOrderBookEngine().ensure(outcome.id),
+    getFeeRates(outcome.id),
+  ]);
+
+  const bestBid = book?.bestBid() ?? null;
+  const bestAsk = book?.bestAsk() ?? null;
+  const marketable = side === "BUY" ? bestAsk !== null && price >= bestAsk : bestBid !== null && price <= bestBid;
+  const fill = marketable ? book?.vwapForSize(side, shares, price) ?? null : null;
+
+  const fee = feeRates?.fees[0];
+  const makerRate = feeRateFraction(fee?.maker_fee_rate);
+  const takerRate = feeRateFraction(fee?.taker_fee_rate);
+  const feePerShare = Math.min(price, 1 - price);
+  const takenShares = fill?.filled ?? 0;
+  const estFee = takenShares * takerRate * feePerShare + (shares - takenShares) * makerRate * feePerShare;
+  const notional = price * shares;
+
+  const bids = book?.levels("bids", BOOK_DEPTH) ?? [];
+  const asks = book?.levels("asks", BOOK_DEPTH) ?? [];
+  const bookTable = bids.length + asks.length > 0
+    ? formatTable(
+        ["Bid", "Size", "Ask", "Size"],
+        Array.from({ length: Math.max(bids.length, asks.length) }, (_, i) => [
+          bids[i] ? cents(bids[i].price) : "",
+          bids[i] ? bids[i].size.toFixed(0) : "",
+          asks[i] ? cents(asks[i].price) : "",
+          asks[i] ? asks[i].size.toFixed(0) : "",
+        ]),
+        [true, true, true, true],
+      )
+    : "_Order book unavailable_";
+
+  const lines = [
+    `${side === "BUY" ? "🟢" : "🔴"} *${side} preview* — ${escapeMarkdown(market.title)}`,
+    `Outcome: *${escapeMarkdown(outcome.title)}*`,
+    "",
+    `Limit: ${cents(price)} × ${shares} shares`,
+    `Notional: ${usd(notional)}`,
+    fill
+      ? `Fills now: ${fill.filled.toFixed(2)} @ avg ${cents(fill.avgPrice)}${fill.complete ? "" : ` (remainder rests at ${cents(price)})`}`
+      : "Fills now: none — rests on the book",
+    `Fees: maker ${(makerRate * 100).toFixed(2)}% · taker ${(takerRate * 100).toFixed(2)}% · est ${usd(estFee)}`,
+    "",
+    bookTable,
+  ];
+
+  const order: Order = {
+    tokenId: outcome.id,
+    side,
+    price,
+    shares,
+    type: "GTC",
+    marketId: market.id,
+    marketTitle: market.title,
+    outcomeTitle: outcome.title,
+    negRisk: market.negRisk,
+  };
+  return { text: lines.join("\n"), order };
+}
+
+async function executeConfirmation(entry: PendingConfirmation): Promise<string> {
+  const { action, paper } = entry;
+  if (paperMode() !== paper) {
+    return `⚠️ Paper trading was switched ${paper ? "off" : "on"} since the preview — nothing was sent. Run the command again.`;
+  }
+  if (action.kind === "order") {
+    const placed = await (paper ? placePaperOrder : placeOrder)(action.order);
+    const { order } = action;
+    return (
+      `✅ *${paper ? "Paper order" : "Order"} placed* — ${order.side} ${order.shares} ${escapeMarkdown(order.outcomeTitle ?? "")} @ ${cents(order.price)}\n` +
+      `${escapeMarkdown(order.marketTitle ?? "")}\nStatus: ${placed.status} · ID: \`${placed.orderId}\``
+    );
+  }
+  if (action.kind === "cancel") {
+    const ok = paper ? cancelPaperOrder(action.orderId) : await cancelOrder(action.orderId);
+    return ok ? `✅ Cancelled order \`${action.orderId}\`.` : `⚠️ Could not cancel \`${action.orderId}\` (already filled or cancelled?).`;
+  }
+  if (paper) return `✅ Cancelled ${cancelPaperOrders().length} paper order(s).`;
+  const result = await cancelAllOrders();
+  const failed = Object.keys(result.notCanceled).length;
+  return `✅ Cancelled ${result.canceled.length} order(s)${failed > 0 ? ` · ${failed} could not be cancelled` : ""}.`;
+}
+
+export function registerTradingCommands(bot: TelegramBot): void {
+  const tradeHandler = (side: OrderSide) => async (args: string[], _chatId: number, userId?: number) => {
+    if (!bot.isTrader(userId)) return NOT_TRADER;
+    const paper = paperMode();
+    if (!paper && !loadWalletConfig()?.address) return NO_WALLET;
+
+    const preview = await orderPreview(side, args);
+    if (typeof preview === "string") return preview;
+    const { order, text } = preview;
+    const id = queueConfirmation({ kind: "order", order }, paper, userId!);
+    return { text: `${text}\n\n${modeLine(paper)}\nConfirm within ${CONFIRM_TTL_MS / 1000}s.`, keyboard: confirmKeyboard(id) };
+  };
+
+  bot.registerCommand({ command: "buy", description: "Buy outcome shares (with confirmation)", handler: tradeHandler("BUY") });
+  bot.registerCommand({ command: "sell", description: "Sell outcome shares (with confirmation)", handler: tradeHandler("SELL") });
+
+  bot.registerCommand({
+    command: "cancel",
+    description: "Cancel an open order (with confirmation)",
+    handler: async (args, _chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_TRADER;
+      const paper = paperMode();
+      if (!paper && !loadWalletConfig()?.address) return NO_WALLET;
+      const ref = args[0]?.trim();
+      if (!ref) return "Usage: /cancel <orderId> (prefix from /orders is fine)";
+
+      const orders = paper ? paperOpenOrders() : await fetchOpenOrders();
+      const matches = orders.filter((o) => o.orderId === ref || o.orderId.startsWith(ref));
+      if (matches.length > 1) return `"${escapeMarkdown(ref)}" matches ${matches.length} orders; use more of the ID.`;
+      const order = matches[0] ?? null;
+      const orderId = order?.orderId ?? ref;
+
+      const detail = order
+        ? `${order.side} ${order.sizeRemaining.toFixed(2)} @ ${cents(order.price)} — ${escapeMarkdown([order.marketTitle, order.outcomeTitle].filter(Boolean).join(" ") || order.tokenId)}`
+        : "_Not in your open orders — the CLOB will reject it if the ID is wrong._";
+      const id = queueConfirmation({ kind: "cancel", order, orderId }, paper, userId!);
+      return {
+        text: `✖ *Cancel order* \`${orderId}\`\n${detail}\n\n${modeLine(paper)}\nConfirm within ${CONFIRM_TTL_MS / 1000}s.`,
+        keyboard: confirmKeyboard(id),
+      };
+    },
+  });
+
+  bot.registerCommand({
+    command: "cancelall",
+    description: "Cancel all open orders (with confirmation)",
+    handler: async (_args, _chatId, userId) => {
+      if (!bot.isTrader(userId)) return NOT_TRADER;
+      const paper = paperMode();
+      if (!paper && !loadWalletConfig()?.address) return NO_WALLET;
+
+      const orders = paper ? paperOpenOrders() : await fetchOpenOrders();
+      if (orders.length === 0) return "No open orders.";
+      const notional = orders.reduce((sum, o) => sum + o.price * o.sizeRemaining, 0);
+      const id = queueConfirmation({ kind: "cancelall", count: orders.length }, paper, userId!);
+      return {
+        text: `✖ *Cancel ALL ${orders.length} open orders* (${usd(notional)} resting)\n\n${modeLine(paper)}\nConfirm within ${CONFIRM_TTL_MS / 1000}s.`,
+        keyboard: confirmKeyboard(id),
+      };
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "tc",
+    handler: async (payload, _chatId, userId) => {
+      prune();
+      const entry = pending.get(payload);
+      if (!entry) return { text: "⌛ This confirmation expired or was already used." };
+      // In a group chat only the user who asked may confirm
+      if (!bot.isTrader(userId) || userId !== entry.requestedBy) return null;
+      // Single use: drop before executing so a double tap can't place twice
+      pending.delete(payload);
+      try {
+        return { text: await executeConfirmation(entry) };
+      } catch (e) {
+        return { text: `⚠️ Failed: ${escapeMarkdown(e instanceof Error ? e.message : String(e))}` };
+      }
+    },
+  });
+
+  bot.registerCallback({
+    prefix: "tx",
+    handler: async (payload, _chatId, userId) => {
+      const entry = pending.get(payload);
+      if (!bot.isTrader(userId) || (entry && userId !== entry.requestedBy)) return null;
+      const existed = pending.delete(payload);
+      return { text: existed ? "✖ Cancelled — nothing was sent." : "⌛ This confirmation expired or was already used." };
+    },
+  });
+}
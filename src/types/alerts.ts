@@ -22,4 +22,5 @@ export interface PriceAlert {
   triggeredAt?: number;
   lastNotifiedAt?: number;
   triggerCount?: number;
+  account?: string;      // wallet account name; unset shows under every account
 }
@@ -27,6 +27,14 @@ export interface Market {
   category?: string; // "politics", "economics", "crypto", etc.
   closed?: boolean;
   resolved?: boolean;
+  conditionId?: string;
+  eventId?: string;
+  eventTitle?: string;
+  // Neg-risk: a multi-outcome event where at most one market resolves YES.
+  // Orders sign against the neg-risk exchange; NO positions are convertible.
+  negRisk?: boolean;
+  negRiskMarketId?: string;  // event-level id shared by every market in the event
+  questionId?: string;       // last byte is the market's index within the event
 }
 
 export interface PricePoint {
@@ -65,14 +73,32 @@ export interface PersistentState {
   themeName?: string;
 }
 
+/** A saved wallet account as listed in the switcher — never carries secrets. */
+export interface WalletAccount {
+  name: string;
+  address: string;             // the funder, where positions and balance live
+  signatureType: 0 | 1 | 2;
+  watchOnly: boolean;
+  encrypted: boolean;
+  active: boolean;
+}
+
 export interface WalletState {
   address: string | null;
+  accountName?: string;        // active account
+  accounts: WalletAccount[];   // every saved account, the active one included
+  watchOnly?: boolean;         // address only; positions and P&L but no trading
+  funderAddress?: string;      // holds funds and positions; differs from address for proxy / Safe accounts
+  signatureType?: 0 | 1 | 2;   // see SignatureType in auth/wallet
   connected: boolean;
   balance: number; // USDC
   username?: string;
   apiKey?: string;
   apiSecret?: string;
   apiPassphrase?: string;
+  encrypted?: boolean;         // key kept in a passphrase-protected keystore
+  locked?: boolean;            // encrypted and not unlocked this session
+  autoLockMinutes?: number;
   loading: boolean;
   error: string | null;
 }
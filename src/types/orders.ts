@@ -4,7 +4,7 @@
 
 export type OrderSide = "BUY" | "SELL";
 export type OrderStatus = "LIVE" | "MATCHED" | "CANCELLED" | "DELAYED" | "FILLED" | "UNMATCHED";
-export type OrderType = "GTC" | "FOK" | "GTD";
+export type OrderType = "GTC" | "FOK" | "GTD" | "FAK";
 
 export interface Order {
   tokenId: string;       // CLOB token ID (outcome ID)
@@ -12,10 +12,12 @@ export interface Order {
   price: number;         // 0-1
   shares: number;        // number of shares
   type: OrderType;       // time-in-force
+  expiresAt?: number;    // unix ms, GTD only; defaults to 24h out
   postOnly?: boolean;
   marketId?: string;     // gamma market ID for display
   outcomeTitle?: string;
   marketTitle?: string;
+  negRisk?: boolean;     // sign for the neg-risk exchange; looked up when omitted
 }
 
 export interface PlacedOrder {
@@ -0,0 +1,65 @@
+/**
+ * GTD order expiry — parse what the user types into an absolute time
+ */
+
+// Lifetime of a GTD order when no expiry is given
+export const DEFAULT_GTD_LIFETIME_MS = 86_400_000;
+// The CLOB drops GTD orders within a minute of their expiration, so anything
+// sooner could never rest
+export const GTD_MIN_LEAD_MS = 60_000;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+export type ExpiryResult = { ok: true; expiresAt: number } | { ok: false; error: string };
+
+/**
+ * Accepts a relative duration (`90m`, `2h`, `1.5d`, `1w`), a time of day
+ * (`17:30`, the next one to come) or a date with optional time
+ * (`2026-11-03`, `2026-11-03 17:30`) in local time.
+ */
+export function parseExpiry(input: string, now: number = Date.now()): ExpiryResult {
+  const text = input.trim().toLowerCase();
+  if (!text) return { ok: true, expiresAt: now + DEFAULT_GTD_LIFETIME_MS };
+
+  let expiresAt: number;
+  const relative = text.match(/^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/);
+  const timeOfDay = text.match(/^(\d{1,2}):(\d{2})$/);
+  const dateTime = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ t](\d{1,2}):(\d{2}))?$/);
+
+  if (relative) {
+    expiresAt = now + parseFloat(relative[1]) * UNIT_MS[relative[2]];
+  } else if (timeOfDay) {
+    const at = new Date(now);
+    at.setHours(Number(timeOfDay[1]), Number(timeOfDay[2]), 0, 0);
+    if (at.getTime() <= now) at.setDate(at.getDate() + 1);
+    expiresAt = at.getTime();
+  } else if (dateTime) {
+    const [, y, mo, d, h, mi] = dateTime;
+    expiresAt = new Date(Number(y), Number(mo) - 1, Number(d), Number(h ?? 23), Number(mi ?? 59)).getTime();
+  } else {
+    return { ok: false, error: "Expiry must look like 2h, 17:30 or 2026-11-03 17:30" };
+  }
+
+  if (!Number.isFinite(expiresAt)) {
+    return { ok: false, error: "Expiry is not a valid time" };
+  }
+  if (expiresAt < now + GTD_MIN_LEAD_MS) {
+    return { ok: false, error: "Expiry must be at least 1 minute from now" };
+  }
+  return { ok: true, expiresAt };
+}
+
+export function formatExpiry(expiresAt: number): string {
+  return new Date(expiresAt).toLocaleString("en-US", {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
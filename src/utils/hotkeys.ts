@@ -9,6 +9,7 @@ export type HotkeyAction =
   | "toggle_history"
   | "toggle_portfolio"
   | "toggle_alerts"
+  | "toggle_rules"
   | "toggle_indicators"
   | "toggle_sentiment"
   | "toggle_compare"
@@ -50,6 +51,7 @@ const DEFAULT_BINDINGS: HotkeyBinding[] = [
   { key: "h", action: "toggle_history", description: "Order history" },
   { key: "p", action: "toggle_portfolio", description: "Portfolio" },
   { key: "z", action: "toggle_alerts", description: "Price alerts" },
+  { key: "b", action: "toggle_rules", description: "Automation rules" },
   { key: "i", action: "toggle_indicators", description: "Indicators" },
   { key: "m", action: "toggle_sentiment", description: "Sentiment" },
   { key: "c", action: "toggle_compare", description: "Compare" },